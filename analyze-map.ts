@@ -1,6 +1,8 @@
 import { generateEarthMap } from './src/lib/hexmap/generator';
+import { WORLD_SEED } from './src/lib/hexmap/map-presets';
 import { generateAllRivers } from './src/lib/hexmap/river-system';
 import type { HexTile } from './src/lib/hexmap/types';
+import { createRandomStream } from './src/lib/random';
 
 /**
  * Optimized map analysis with improved river generation
@@ -10,7 +12,7 @@ async function analyzeMap() {
   console.log('🗺️🗺️🗺️ MAP ANALYSIS STARTING 🗺️🗺️🗺️');
   
   // Generate map
-  const tiles = await generateEarthMap(42, 1);
+  const tiles = await generateEarthMap(WORLD_SEED, 1);
   console.log(`✅ Map generated with ${tiles.size} tiles`);
   
   // Count terrain types
@@ -47,8 +49,10 @@ async function analyzeMap() {
     minLength: 8,  // Keep minimum reasonable
     maxAttempts: 50, // Reduce attempts for faster execution
     flowToOcean: true,
-    allowLakes: false
-  }, 20); // Reduce target count for testing
+    allowLakes: true,
+    allowTributaries: true,
+    deltaMinLength: 12
+  }, 20, createRandomStream(WORLD_SEED, 'rivers')); // Reduce target count for testing
   
   const endTime = Date.now();
   const duration = endTime - startTime;
@@ -64,7 +68,7 @@ async function analyzeMap() {
     console.log('🔍 Sample rivers:');
     for (let i = 0; i < Math.min(3, rivers.length); i++) {
       const river = rivers[i];
-      console.log(`   River ${i + 1}: ${river.length} tiles from (${river.source.q},${river.source.r}) to (${river.mouth.q},${river.mouth.r})`);
+      console.log(`   River ${i + 1}: ${river.length} tiles from (${river.source.q},${river.source.r}) to (${river.mouth.q},${river.mouth.r}), ending in ${river.terminus}`);
     }
   }
   
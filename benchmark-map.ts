@@ -0,0 +1,121 @@
+import { generateEarthMap } from './src/lib/hexmap/generator';
+import { WORLD_SEED } from './src/lib/hexmap/map-presets';
+import { findPath } from './src/lib/hexmap/pathfinding';
+import { findSeaPath, isCoastalDuchy } from './src/lib/hexmap/naval-pathfinding';
+import { computeDrainageNetwork, generateAllRiversImproved } from './src/lib/hexmap/river-system-improved';
+import { getHexKey } from './src/lib/hexmap/hex-utils';
+import type { HexTile } from './src/lib/hexmap/types';
+
+/**
+ * Benchmark world generation and world-scale pathfinding
+ * Reports timings for the live world (seed 42) and flags anything over its budget
+ * Usage: npm run benchmark:map
+ */
+
+// Time budgets in ms (one core)
+const BUDGETS = {
+  generation: 10000,
+  drainage: 1000,
+  rivers: 2000,
+  landPath: 250,   // Worst single land route (unreachable ones search a whole continent)
+  seaPath: 500     // Worst single sea route
+};
+
+const ROUTES = 30;
+
+let overBudget = 0;
+
+function report(label: string, ms: number, budget: number, detail = ''): void {
+  const ok = ms <= budget;
+  if (!ok) overBudget++;
+  console.log(`   ${ok ? '✅' : '❌'} ${label}: ${ms.toFixed(0)}ms (budget ${budget}ms)${detail ? ` - ${detail}` : ''}`);
+}
+
+/**
+ * Run a step with the generator's progress logs silenced
+ */
+async function quietly<T>(step: () => T | Promise<T>): Promise<{ result: T; ms: number }> {
+  const log = console.log;
+  console.log = () => {};
+  const start = performance.now();
+  try {
+    const result = await step();
+    return { result, ms: performance.now() - start };
+  } finally {
+    console.log = log;
+  }
+}
+
+/**
+ * Deterministic sample of tiles (same routes on every run)
+ */
+function sample(tiles: HexTile[], count: number, seed: number): HexTile[] {
+  let state = seed;
+  const picked: HexTile[] = [];
+  for (let i = 0; i < count && tiles.length > 0; i++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    picked.push(tiles[state % tiles.length]);
+  }
+  return picked;
+}
+
+async function benchmarkMap() {
+  console.log('⏱️⏱️⏱️ MAP BENCHMARK STARTING ⏱️⏱️⏱️');
+
+  // Generation
+  const generation = await quietly(() => generateEarthMap(WORLD_SEED, 1));
+  const tiles = generation.result;
+  console.log(`🗺️ Generation (${tiles.size} tiles)`);
+  report('generateEarthMap', generation.ms, BUDGETS.generation);
+
+  // Rivers
+  console.log('🌊 Rivers');
+  const drainage = await quietly(() => computeDrainageNetwork(tiles));
+  report('drainage network', drainage.ms, BUDGETS.drainage, `${drainage.result.flowDistance.size} tiles drain to the sea`);
+  const rivers = await quietly(() => generateAllRiversImproved(tiles, undefined, 20));
+  report('20 rivers', rivers.ms, BUDGETS.rivers, `${rivers.result.length} generated`);
+
+  // Land routes
+  console.log('🚶 Land routes');
+  const land = [...tiles.values()].filter(tile => tile.terrain !== 'ocean' && tile.terrain !== 'coast' && tile.terrain !== 'ice');
+  const from = sample(land, ROUTES, 1);
+  const to = sample(land, ROUTES, 2);
+  let found = 0;
+  let worst = 0;
+  let total = 0;
+  for (let i = 0; i < ROUTES; i++) {
+    const start = performance.now();
+    if (findPath(from[i].coordinates, to[i].coordinates, tiles)) found++;
+    const ms = performance.now() - start;
+    worst = Math.max(worst, ms);
+    total += ms;
+  }
+  report(`worst of ${ROUTES} routes`, worst, BUDGETS.landPath, `${found} found, ${(total / ROUTES).toFixed(1)}ms average`);
+
+  // Sea routes between coastal Duchies (every one of them counted as a harbour)
+  console.log('⛵ Sea routes');
+  const coastal = land.filter(tile => isCoastalDuchy(tile.coordinates, tiles));
+  const harbours = new Set(coastal.map(tile => getHexKey(tile.coordinates.q, tile.coordinates.r)));
+  const ports = sample(coastal, ROUTES * 2, 3);
+  found = 0;
+  worst = 0;
+  total = 0;
+  for (let i = 0; i < ROUTES; i++) {
+    const start = performance.now();
+    if (findSeaPath(ports[i * 2].coordinates, ports[i * 2 + 1].coordinates, tiles, harbours)) found++;
+    const ms = performance.now() - start;
+    worst = Math.max(worst, ms);
+    total += ms;
+  }
+  report(`worst of ${ROUTES} routes`, worst, BUDGETS.seaPath, `${found} found, ${(total / ROUTES).toFixed(1)}ms average`);
+
+  if (overBudget > 0) {
+    console.log(`❌ ${overBudget} timing(s) over budget`);
+    process.exitCode = 1;
+  } else {
+    console.log('⏱️⏱️⏱️ ALL TIMINGS WITHIN BUDGET ⏱️⏱️⏱️');
+  }
+}
+
+// Run the benchmark
+benchmarkMap().catch(console.error);
@@ -0,0 +1,23 @@
+import { runClaimExpiry } from './src/lib/jobs/claim-expiry';
+import { prisma } from './src/lib/db/prisma';
+
+/**
+ * Run the claim expiry job once against DATABASE_URL
+ * Usage: npm run jobs:expire-claims
+ */
+
+async function expireClaims() {
+  console.log('⏳ Running claim expiry job...');
+
+  const report = await runClaimExpiry();
+
+  console.log(`✅ Reverted ${report.reverted} lapsed claims to virgin land`);
+  console.log(`📬 Created ${report.notified} notifications`);
+}
+
+expireClaims()
+  .catch(error => {
+    console.error('❌ Claim expiry failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,150 @@
+-- CreateTable
+CREATE TABLE "HexTileOwnership" (
+    "q" INTEGER NOT NULL,
+    "r" INTEGER NOT NULL,
+    "owner" TEXT NOT NULL,
+    "nftId" TEXT,
+    "claimedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HexTileOwnership_pkey" PRIMARY KEY ("q","r")
+);
+
+-- CreateTable
+CREATE TABLE "SubLand" (
+    "id" TEXT NOT NULL,
+    "parentQ" INTEGER NOT NULL,
+    "parentR" INTEGER NOT NULL,
+    "q" INTEGER NOT NULL,
+    "r" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'virgin',
+    "owner" TEXT,
+    "ownerName" TEXT,
+    "nftId" TEXT,
+    "nftType" TEXT NOT NULL DEFAULT 'none',
+    "claimedAt" TIMESTAMP(3),
+    "claimExpiresAt" TIMESTAMP(3),
+    "usedAreaM2" INTEGER NOT NULL DEFAULT 0,
+    "maxAreaM2" INTEGER NOT NULL DEFAULT 1000000,
+    "isPartOfTown" BOOLEAN NOT NULL DEFAULT false,
+    "townCenterQ" INTEGER,
+    "townCenterR" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SubLand_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlacedBuilding" (
+    "id" TEXT NOT NULL,
+    "sublandId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "nftId" TEXT NOT NULL,
+    "builtAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "offsetX" DOUBLE PRECISION NOT NULL,
+    "offsetY" DOUBLE PRECISION NOT NULL,
+    "workers" INTEGER NOT NULL DEFAULT 0,
+    "productionRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "inventory" JSONB NOT NULL DEFAULT '{}',
+    "urbanCoreData" JSONB,
+    "religion" TEXT,
+
+    CONSTRAINT "PlacedBuilding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ActiveTravel" (
+    "id" TEXT NOT NULL,
+    "wallet" TEXT NOT NULL,
+    "level" TEXT NOT NULL,
+    "parentQ" INTEGER,
+    "parentR" INTEGER,
+    "originQ" INTEGER NOT NULL,
+    "originR" INTEGER NOT NULL,
+    "destinationQ" INTEGER NOT NULL,
+    "destinationR" INTEGER NOT NULL,
+    "path" JSONB NOT NULL,
+    "totalTravelTime" DOUBLE PRECISION NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "estimatedArrival" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ActiveTravel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlayerProgress" (
+    "wallet" TEXT NOT NULL,
+    "researchedTechs" TEXT[],
+    "currentResearch" TEXT,
+    "researchProgress" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "knowledgePoints" INTEGER NOT NULL DEFAULT 1000,
+    "knowledgePerTick" INTEGER NOT NULL DEFAULT 1,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PlayerProgress_pkey" PRIMARY KEY ("wallet")
+);
+
+-- CreateTable
+CREATE TABLE "ForumPost" (
+    "id" TEXT NOT NULL,
+    "category" TEXT NOT NULL DEFAULT 'general',
+    "author" TEXT NOT NULL,
+    "authorWallet" TEXT NOT NULL,
+    "authorTitle" TEXT,
+    "content" TEXT NOT NULL,
+    "likes" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ForumPost_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ForumReply" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "author" TEXT NOT NULL,
+    "authorWallet" TEXT NOT NULL,
+    "authorTitle" TEXT,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ForumReply_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HexTileOwnership_owner_idx" ON "HexTileOwnership"("owner");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubLand_nftId_key" ON "SubLand"("nftId");
+
+-- CreateIndex
+CREATE INDEX "SubLand_parentQ_parentR_idx" ON "SubLand"("parentQ", "parentR");
+
+-- CreateIndex
+CREATE INDEX "SubLand_owner_idx" ON "SubLand"("owner");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubLand_parentQ_parentR_q_r_key" ON "SubLand"("parentQ", "parentR", "q", "r");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlacedBuilding_nftId_key" ON "PlacedBuilding"("nftId");
+
+-- CreateIndex
+CREATE INDEX "PlacedBuilding_sublandId_idx" ON "PlacedBuilding"("sublandId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ActiveTravel_wallet_key" ON "ActiveTravel"("wallet");
+
+-- CreateIndex
+CREATE INDEX "ForumPost_category_createdAt_idx" ON "ForumPost"("category", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ForumReply_postId_idx" ON "ForumReply"("postId");
+
+-- AddForeignKey
+ALTER TABLE "PlacedBuilding" ADD CONSTRAINT "PlacedBuilding_sublandId_fkey" FOREIGN KEY ("sublandId") REFERENCES "SubLand"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForumReply" ADD CONSTRAINT "ForumReply_postId_fkey" FOREIGN KEY ("postId") REFERENCES "ForumPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "SilvexAccount" (
+    "wallet" TEXT NOT NULL,
+    "balance" INTEGER NOT NULL DEFAULT 1000,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SilvexAccount_pkey" PRIMARY KEY ("wallet")
+);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "PlacedBuilding" ADD COLUMN     "lastHarvestAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "PlacedBuilding_type_idx" ON "PlacedBuilding"("type");
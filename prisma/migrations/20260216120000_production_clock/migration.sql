@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "ProductionClock" (
+    "parentQ" INTEGER NOT NULL,
+    "parentR" INTEGER NOT NULL,
+    "lastTickDay" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductionClock_pkey" PRIMARY KEY ("parentQ","parentR")
+);
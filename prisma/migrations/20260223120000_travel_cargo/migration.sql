@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ActiveTravel" ADD COLUMN     "cargo" JSONB;
+
+-- CreateIndex
+CREATE INDEX "ActiveTravel_estimatedArrival_idx" ON "ActiveTravel"("estimatedArrival");
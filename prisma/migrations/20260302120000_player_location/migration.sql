@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "PlayerLocation" (
+    "wallet" TEXT NOT NULL,
+    "q" INTEGER NOT NULL,
+    "r" INTEGER NOT NULL,
+    "sublandQ" INTEGER,
+    "sublandR" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PlayerLocation_pkey" PRIMARY KEY ("wallet")
+);
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "HistoryEvent" (
+    "id" TEXT NOT NULL,
+    "wallet" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "icon" TEXT NOT NULL,
+    "travelId" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HistoryEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HistoryEvent_wallet_occurredAt_idx" ON "HistoryEvent"("wallet", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "HistoryEvent_travelId_idx" ON "HistoryEvent"("travelId");
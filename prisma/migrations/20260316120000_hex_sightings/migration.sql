@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "HexSighting" (
+    "id" TEXT NOT NULL,
+    "wallet" TEXT NOT NULL,
+    "q" INTEGER NOT NULL,
+    "r" INTEGER NOT NULL,
+    "seenAt" TIMESTAMP(3) NOT NULL,
+    "travelId" TEXT,
+
+    CONSTRAINT "HexSighting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HexSighting_wallet_seenAt_idx" ON "HexSighting"("wallet", "seenAt");
+
+-- CreateIndex
+CREATE INDEX "HexSighting_travelId_idx" ON "HexSighting"("travelId");
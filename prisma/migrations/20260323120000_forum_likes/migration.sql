@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "ForumPostLike" (
+    "postId" TEXT NOT NULL,
+    "wallet" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ForumPostLike_pkey" PRIMARY KEY ("postId","wallet")
+);
+
+-- AddForeignKey
+ALTER TABLE "ForumPostLike" ADD CONSTRAINT "ForumPostLike_postId_fkey" FOREIGN KEY ("postId") REFERENCES "ForumPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- Villages founded before the population model hold a fixed 300 inhabitants and 30 soldiers:
+-- restart them from the settlers of a new village, to grow with food like any other
+UPDATE "PlacedBuilding"
+SET "urbanCoreData" = "urbanCoreData" || '{"population": 100, "soldiers": 10}'::jsonb
+WHERE "type" = 'urban_core'
+  AND ("urbanCoreData"->>'population')::int = 300
+  AND ("urbanCoreData"->>'soldiers')::int = 30;
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { runCargoDeliveries } from '@/lib/jobs/cargo';
+
+/**
+ * Run the cargo delivery job (scheduled cron, or manually)
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const report = await runCargoDeliveries();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error in /api/cron/cargo:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { runProduction } from '@/lib/jobs/production';
+
+/**
+ * Run the production job (scheduled cron, or manually)
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const report = await runProduction();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error in /api/cron/production:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { findExploredHexes } from '@/lib/db';
+
+/**
+ * Duchies the authenticated wallet has seen, with the last time it saw each one
+ * Hexes in sight of where the player is now are derived by the client from its position
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await authenticateWallet(request);
+
+    const explored = await findExploredHexes(user.primaryAddress, new Date());
+    return NextResponse.json({ explored });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/exploration:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { likeForumPost } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ postId: string }>;
+}
+
+/**
+ * Like a post as the authenticated wallet (once per wallet)
+ */
+export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const { postId } = await context.params;
+
+  try {
+    const user = await authenticateWallet(request);
+
+    const likes = await likeForumPost(postId, user.primaryAddress);
+    if (likes === null) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+    return NextResponse.json({ likes });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/forum/posts/like:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { createForumReply } from '@/lib/db';
+import { validateForumContent } from '@/lib/forum';
+
+interface RouteContext {
+  params: Promise<{ postId: string }>;
+}
+
+/**
+ * Reply to a post as the authenticated wallet
+ */
+export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const { postId } = await context.params;
+
+  let body: { content?: unknown } | null;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const checked = validateForumContent(body?.content);
+  if ('error' in checked) {
+    return NextResponse.json({ error: checked.error }, { status: 400 });
+  }
+
+  try {
+    const user = await authenticateWallet(request);
+
+    const reply = await createForumReply(postId, {
+      author: user.displayName ?? user.username ?? user.primaryAddress,
+      authorWallet: user.primaryAddress,
+      content: checked.content
+    });
+
+    if (!reply) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+    return NextResponse.json({ reply }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/forum/posts/replies:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
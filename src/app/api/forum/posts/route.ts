@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { countForumPostsByCategory, createForumPost, findForumPosts } from '@/lib/db';
+import { isForumCategory, validateForumContent } from '@/lib/forum';
+
+/**
+ * List posts of a category (?category=general) with post counts per category
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const category = request.nextUrl.searchParams.get('category') ?? 'general';
+
+  try {
+    const [posts, counts] = await Promise.all([
+      findForumPosts(category),
+      countForumPostsByCategory()
+    ]);
+    return NextResponse.json({ posts, counts });
+  } catch (error) {
+    console.error('Error in /api/forum/posts:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Create a new post as the authenticated wallet
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  let body: { category?: unknown; content?: unknown } | null;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const checked = validateForumContent(body?.content);
+  if ('error' in checked) {
+    return NextResponse.json({ error: checked.error }, { status: 400 });
+  }
+  const category = body?.category ?? 'general';
+  if (!isForumCategory(category)) {
+    return NextResponse.json({ error: 'Unknown category' }, { status: 400 });
+  }
+
+  try {
+    const user = await authenticateWallet(request);
+
+    const post = await createForumPost(category, {
+      author: user.displayName ?? user.username ?? user.primaryAddress,
+      authorWallet: user.primaryAddress,
+      content: checked.content
+    });
+    return NextResponse.json({ post }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/forum/posts:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
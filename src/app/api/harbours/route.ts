@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { findBuildingsByType } from '@/lib/db';
+import { getHexKey } from '@/lib/hexmap/hex-utils';
+import { HARBOUR_BUILDINGS } from '@/lib/hexmap/naval-pathfinding';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Duchies where ships can load and unload (a port, dock or shipyard on one of their SubLands)
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const buildings = await findBuildingsByType(HARBOUR_BUILDINGS);
+
+    const harbours = new Map<string, { q: number; r: number }>();
+    for (const { parentQ, parentR } of buildings) {
+      harbours.set(getHexKey(parentQ, parentR), { q: parentQ, r: parentR });
+    }
+
+    return NextResponse.json({ harbours: [...harbours.values()] });
+  } catch (error) {
+    console.error('Error in /api/harbours:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { findHistoryEvents } from '@/lib/db';
+
+/**
+ * History feed of the authenticated wallet, newest first
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await authenticateWallet(request);
+
+    const events = await findHistoryEvents(user.primaryAddress, new Date());
+    return NextResponse.json({ events });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/history:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { findNotifications, markNotificationsRead } from '@/lib/db';
+
+/**
+ * List notifications of the authenticated wallet (`?unread=1` for unread only)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await authenticateWallet(request);
+    const unreadOnly = request.nextUrl.searchParams.get('unread') === '1';
+
+    const notifications = await findNotifications(user.primaryAddress, unreadOnly);
+    return NextResponse.json({ notifications });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/notifications:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Mark notifications as read: body `{ ids?: string[] }`, all unread if omitted
+ */
+export async function PATCH(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await authenticateWallet(request);
+
+    let body: { ids?: unknown } | null;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const ids = Array.isArray(body?.ids)
+      ? body.ids.filter((id): id is string => typeof id === 'string')
+      : undefined;
+
+    const updated = await markNotificationsRead(user.primaryAddress, ids);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/notifications:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { findPlayerProgress, updatePlayerProgress } from '@/lib/db';
+import { researchTech } from '@/lib/science/tech-tree';
+
+interface RouteContext {
+  params: Promise<{ wallet: string }>;
+}
+
+/**
+ * Research progress of a wallet
+ */
+export async function GET(_request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const { wallet } = await context.params;
+
+  try {
+    const progress = await findPlayerProgress(wallet);
+    return NextResponse.json({ progress });
+  } catch (error) {
+    console.error('Error in /api/progress:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Research a technology ({ techId }) for the authenticated wallet
+ * Prerequisites and the knowledge point cost are checked against stored progress
+ */
+export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const { wallet } = await context.params;
+
+  let body: { techId?: unknown } | null;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  // Any JSON value parses, including null
+  const techId = typeof body?.techId === 'string' ? body.techId : null;
+  if (!techId) {
+    return NextResponse.json({ error: 'Missing techId' }, { status: 400 });
+  }
+
+  try {
+    const user = await authenticateWallet(request);
+    if (user.primaryAddress !== wallet) {
+      return NextResponse.json({ error: 'You can only research for your own wallet' }, { status: 403 });
+    }
+
+    const previous = await findPlayerProgress(wallet);
+    const result = researchTech(techId, previous);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.rejection.message, code: result.rejection.code },
+        { status: result.rejection.code === 'UNKNOWN_TECH' ? 404 : 422 }
+      );
+    }
+
+    const progress = await updatePlayerProgress(previous, result.progress);
+
+    // Lost the race against another research of the same wallet
+    if (!progress) {
+      return NextResponse.json(
+        { error: 'Your research progress changed. Please try again.', code: 'CONFLICT' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ progress });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/progress:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
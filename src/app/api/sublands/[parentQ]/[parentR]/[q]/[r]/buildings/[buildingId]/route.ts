@@ -0,0 +1,75 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { demolishBuilding, type DemolitionRejectionCode } from '@/lib/db';
+import { getClaimExpiry } from '@/lib/sublands/claims';
+import { isSubLandInGrid } from '@/lib/sublands/generator';
+
+interface RouteContext {
+  params: Promise<{ parentQ: string; parentR: string; q: string; r: string; buildingId: string }>;
+}
+
+function getRejectionStatus(code: DemolitionRejectionCode): number {
+  switch (code) {
+    case 'BUILDING_NOT_FOUND':
+      return 404;
+    case 'NOT_OWNER':
+      return 403;
+    case 'CARGO_EXPECTED':
+      return 409;
+    default:
+      return 422;
+  }
+}
+
+const REJECTION_MESSAGES: Record<DemolitionRejectionCode, string> = {
+  BUILDING_NOT_FOUND: 'Building not found.',
+  NOT_OWNER: 'You do not own this land.',
+  TOWN_NOT_DEMOLISHABLE: 'Towns cannot be demolished.',
+  CARGO_EXPECTED: 'A caravan is on its way to this warehouse.'
+};
+
+/**
+ * Demolish a building on a SubLand owned by the authenticated wallet
+ * Land left without buildings goes back to a claim starting now (the SLX spent is not refunded)
+ */
+export async function DELETE(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const params = await context.params;
+  const parentQ = parseInt(params.parentQ, 10);
+  const parentR = parseInt(params.parentR, 10);
+  const q = parseInt(params.q, 10);
+  const r = parseInt(params.r, 10);
+
+  if ([parentQ, parentR, q, r].some(Number.isNaN) || !isSubLandInGrid(q, r)) {
+    return NextResponse.json({ error: 'Invalid coordinates' }, { status: 400 });
+  }
+
+  try {
+    const user = await authenticateWallet(request);
+
+    const result = await demolishBuilding(
+      parentQ,
+      parentR,
+      q,
+      r,
+      params.buildingId,
+      user.primaryAddress,
+      getClaimExpiry(new Date())
+    );
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: REJECTION_MESSAGES[result.reason], code: result.reason },
+        { status: getRejectionStatus(result.reason) }
+      );
+    }
+
+    return NextResponse.json({ subland: result.subland });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/sublands/buildings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { constructBuilding, findHexTileOwnership, findSubLandStatesForHex } from '@/lib/db';
+import { getHexKey } from '@/lib/hexmap/hex-utils';
+import { getWorldTiles } from '@/lib/hexmap/world-cache';
+import { BUILDING_CONFIGS, getTownTiles } from '@/lib/sublands/building-config';
+import { createBuilding, validateBuild, type BuildRejectionCode } from '@/lib/sublands/build-rules';
+import { generateSubLandsForTile, isSubLandInGrid } from '@/lib/sublands/generator';
+import { applySubLandStates } from '@/lib/sublands/state';
+import type { BuildingType, ReligionType } from '@/lib/sublands/types';
+
+interface RouteContext {
+  params: Promise<{ parentQ: string; parentR: string; q: string; r: string }>;
+}
+
+const RELIGIONS: ReligionType[] = ['christian', 'muslim', 'pagan', 'none'];
+
+function getRejectionStatus(code: BuildRejectionCode): number {
+  switch (code) {
+    case 'NOT_OWNER':
+      return 403;
+    case 'INSUFFICIENT_SLX':
+      return 402;
+    case 'TOWN_ALREADY_EXISTS':
+    case 'TOWN_TILES_OCCUPIED':
+      return 409;
+    default:
+      return 422;
+  }
+}
+
+/**
+ * Build on a SubLand owned by the authenticated wallet
+ * Placement rules are re-run against persisted state, then the SLX cost is burned
+ */
+export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const params = await context.params;
+  const parentQ = parseInt(params.parentQ, 10);
+  const parentR = parseInt(params.parentR, 10);
+  const q = parseInt(params.q, 10);
+  const r = parseInt(params.r, 10);
+
+  if ([parentQ, parentR, q, r].some(Number.isNaN) || !isSubLandInGrid(q, r)) {
+    return NextResponse.json({ error: 'Invalid coordinates' }, { status: 400 });
+  }
+
+  try {
+    const user = await authenticateWallet(request);
+
+    let body: { type?: unknown; religion?: unknown } | null;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const buildingType = typeof body?.type === 'string' ? body.type : '';
+    const religion = RELIGIONS.includes(body?.religion as ReligionType)
+      ? (body?.religion as ReligionType)
+      : undefined;
+
+    const tiles = await getWorldTiles();
+    const parentTile = tiles.get(getHexKey(parentQ, parentR));
+    if (!parentTile || parentTile.terrain === 'ocean' || parentTile.terrain === 'ice') {
+      return NextResponse.json({ error: 'Duchy not found' }, { status: 404 });
+    }
+
+    const [states, duchy] = await Promise.all([
+      findSubLandStatesForHex(parentQ, parentR),
+      findHexTileOwnership(parentQ, parentR)
+    ]);
+    const sublands = applySubLandStates(generateSubLandsForTile(parentTile, tiles), states);
+    const subland = sublands.find(sl => sl.q === q && sl.r === r);
+    if (!subland) {
+      return NextResponse.json({ error: 'SubLand not found' }, { status: 404 });
+    }
+
+    const rejection = validateBuild(buildingType, {
+      subland,
+      sublands,
+      wallet: user.primaryAddress,
+      duchyOwner: duchy?.owner, // Duchy Land NFTs are not tracked yet: unset, so no town can be founded
+      hasSpecialNFTs: false // Special NFTs are not tracked yet
+    });
+    if (rejection) {
+      return NextResponse.json(
+        { error: rejection.message, code: rejection.code },
+        { status: getRejectionStatus(rejection.code) }
+      );
+    }
+
+    const config = BUILDING_CONFIGS[buildingType as BuildingType];
+    const building = createBuilding(config, parentQ, parentR, subland, religion);
+    const result = await constructBuilding(parentQ, parentR, {
+      wallet: user.primaryAddress,
+      q,
+      r,
+      building,
+      slxCost: config.slxCost,
+      areaM2: config.areaM2,
+      maxAreaM2: subland.maxAreaM2,
+      townTiles: config.isTownCenter ? getTownTiles(q, r) : undefined,
+      requiresEmptyTile: config.requiresEmptyTile
+    });
+
+    // Lost a race against another request that changed the same land or balance
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          error: result.reason === 'INSUFFICIENT_SLX'
+            ? `Not enough SLX to build ${config.name} (${config.slxCost} SLX).`
+            : 'The land changed while building. Please try again.',
+          code: result.reason
+        },
+        { status: getRejectionStatus(result.reason) }
+      );
+    }
+
+    return NextResponse.json(
+      { sublands: result.sublands, building, balance: result.balance },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/sublands/buildings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
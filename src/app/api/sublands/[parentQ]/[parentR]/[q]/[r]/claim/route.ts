@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { claimSubLand, findSubLandState } from '@/lib/db';
+import { getHexKey } from '@/lib/hexmap/hex-utils';
+import { getWorldTiles } from '@/lib/hexmap/world-cache';
+import { generateSubLandsForTile, isSubLandInGrid } from '@/lib/sublands/generator';
+import { getClaimExpiry, validateClaim } from '@/lib/sublands/claims';
+import { applySubLandStates } from '@/lib/sublands/state';
+
+interface RouteContext {
+  params: Promise<{ parentQ: string; parentR: string; q: string; r: string }>;
+}
+
+/**
+ * Claim a SubLand for the authenticated wallet
+ * Validation runs on the server against generated terrain and persisted ownership
+ */
+export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const params = await context.params;
+  const parentQ = parseInt(params.parentQ, 10);
+  const parentR = parseInt(params.parentR, 10);
+  const q = parseInt(params.q, 10);
+  const r = parseInt(params.r, 10);
+
+  if ([parentQ, parentR, q, r].some(Number.isNaN) || !isSubLandInGrid(q, r)) {
+    return NextResponse.json(
+      { error: 'Invalid coordinates', code: 'OUT_OF_BOUNDS' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await authenticateWallet(request);
+
+    const tiles = await getWorldTiles();
+    const parentTile = tiles.get(getHexKey(parentQ, parentR));
+    if (!parentTile || parentTile.terrain === 'ocean' || parentTile.terrain === 'ice') {
+      return NextResponse.json(
+        { error: 'Duchy not found', code: 'OUT_OF_BOUNDS' },
+        { status: 404 }
+      );
+    }
+
+    const generated = generateSubLandsForTile(parentTile, tiles).find(sl => sl.q === q && sl.r === r);
+    if (!generated) {
+      return NextResponse.json(
+        { error: 'SubLand not found', code: 'OUT_OF_BOUNDS' },
+        { status: 404 }
+      );
+    }
+
+    const persisted = await findSubLandState(parentQ, parentR, q, r);
+    const rejection = validateClaim({
+      resourceType: generated.resourceType,
+      status: persisted?.status ?? 'virgin',
+      claimExpiresAt: persisted?.claimExpiresAt,
+      buildings: persisted?.buildings
+    });
+    if (rejection) {
+      return NextResponse.json(
+        { error: rejection.message, code: rejection.code },
+        { status: rejection.code === 'ALREADY_CLAIMED' ? 409 : 422 }
+      );
+    }
+
+    const claimedAt = new Date();
+    const state = await claimSubLand(parentQ, parentR, q, r, {
+      owner: user.primaryAddress,
+      ownerName: user.displayName ?? user.username,
+      claimedAt,
+      claimExpiresAt: getClaimExpiry(claimedAt)
+    });
+
+    // Lost the race against a concurrent claim
+    if (!state) {
+      return NextResponse.json(
+        { error: 'This land has already been claimed.', code: 'ALREADY_CLAIMED' },
+        { status: 409 }
+      );
+    }
+
+    const [subland] = applySubLandStates([generated], [state]);
+    return NextResponse.json({ subland });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/sublands/claim:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
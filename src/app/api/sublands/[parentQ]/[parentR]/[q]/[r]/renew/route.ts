@@ -0,0 +1,74 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import { findSubLandState, renewSubLandClaim } from '@/lib/db';
+import { getRenewedExpiry, validateRenewal } from '@/lib/sublands/claims';
+import { isSubLandInGrid } from '@/lib/sublands/generator';
+
+interface RouteContext {
+  params: Promise<{ parentQ: string; parentR: string; q: string; r: string }>;
+}
+
+/**
+ * Renew the claim of an undeveloped SubLand owned by the authenticated wallet
+ */
+export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const params = await context.params;
+  const parentQ = parseInt(params.parentQ, 10);
+  const parentR = parseInt(params.parentR, 10);
+  const q = parseInt(params.q, 10);
+  const r = parseInt(params.r, 10);
+
+  if ([parentQ, parentR, q, r].some(Number.isNaN) || !isSubLandInGrid(q, r)) {
+    return NextResponse.json(
+      { error: 'Invalid coordinates', code: 'OUT_OF_BOUNDS' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await authenticateWallet(request);
+
+    const state = await findSubLandState(parentQ, parentR, q, r);
+    if (!state || !state.claimExpiresAt) {
+      return NextResponse.json(
+        { error: 'This land is not claimed.', code: 'NOT_RENEWABLE' },
+        { status: 404 }
+      );
+    }
+
+    const now = new Date();
+    const rejection = validateRenewal(state, user.primaryAddress, now);
+    if (rejection) {
+      return NextResponse.json(
+        { error: rejection.message, code: rejection.code },
+        { status: rejection.code === 'NOT_OWNER' ? 403 : 422 }
+      );
+    }
+
+    const renewed = await renewSubLandClaim(
+      parentQ,
+      parentR,
+      q,
+      r,
+      user.primaryAddress,
+      getRenewedExpiry(state.claimExpiresAt, now)
+    );
+
+    // Land was developed, reverted or renewed concurrently
+    if (!renewed) {
+      return NextResponse.json(
+        { error: 'This claim can no longer be renewed.', code: 'NOT_RENEWABLE' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ subland: renewed });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/sublands/renew:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
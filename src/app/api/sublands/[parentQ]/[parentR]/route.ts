@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { findHexTileOwnership, findSubLandStatesForHex } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ parentQ: string; parentR: string }>;
+}
+
+/**
+ * Persisted SubLand state (claims, buildings) of a Duchy, and who owns the Duchy
+ * Virgin SubLands are not returned: clients generate them from the parent tile
+ */
+export async function GET(_request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const { parentQ, parentR } = await context.params;
+  const q = parseInt(parentQ, 10);
+  const r = parseInt(parentR, 10);
+
+  if (Number.isNaN(q) || Number.isNaN(r)) {
+    return NextResponse.json({ error: 'Invalid coordinates' }, { status: 400 });
+  }
+
+  try {
+    const [sublands, duchy] = await Promise.all([
+      findSubLandStatesForHex(q, r),
+      findHexTileOwnership(q, r)
+    ]);
+    return NextResponse.json({ sublands, duchyOwner: duchy?.owner ?? null });
+  } catch (error) {
+    console.error('Error in /api/sublands:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
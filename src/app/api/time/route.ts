@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import {
+  formatGameDate,
+  getGameTimeAt,
+  getNextSeasonChange,
+  getSeasonForMonth,
+  getUpcomingFestivals,
+  realTimeToGameDate
+} from '@/lib/calendar';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Authoritative real time and the game calendar derived from it
+ * Clients sync their clocks against this instead of trusting local time
+ */
+export async function GET(): Promise<NextResponse> {
+  const serverTime = new Date();
+  const gameTime = getGameTimeAt(serverTime);
+  const date = realTimeToGameDate(serverTime);
+
+  return NextResponse.json(
+    {
+      serverTime: serverTime.toISOString(),
+      unixMs: serverTime.getTime(),
+      gameTime,
+      date,
+      formatted: formatGameDate(date),
+      seasons: {
+        northern: getSeasonForMonth(date.month, 'northern'),
+        southern: getSeasonForMonth(date.month, 'southern'),
+        equatorial: getSeasonForMonth(date.month, 'equatorial')
+      },
+      nextSeason: {
+        northern: getNextSeasonChange(date, 'northern'),
+        southern: getNextSeasonChange(date, 'southern'),
+        equatorial: getNextSeasonChange(date, 'equatorial')
+      },
+      festivals: getUpcomingFestivals(date)
+    },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
@@ -0,0 +1,212 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import {
+  findBuildingLocation,
+  findBuildingsByType,
+  settleTravel,
+  startCargoTravel,
+  type CargoTravelRejectionCode
+} from '@/lib/db';
+import { loadItinerary, validateCargoItems, type CargoManifest } from '@/lib/cargo';
+import { getHexKey } from '@/lib/hexmap/hex-utils';
+import { getJourneySightings } from '@/lib/hexmap/exploration';
+import { HARBOUR_BUILDINGS, getItineraryPath } from '@/lib/hexmap/naval-pathfinding';
+import { getWorldTiles } from '@/lib/hexmap/world-cache';
+import { getLegCalculations, getLegTransport, planItinerary } from '@/lib/itinerary-planner';
+import { roundAmount } from '@/lib/sublands/production';
+import { STARTING_TRANSPORTS, TRAVEL_MS_PER_GAME_DAY } from '@/lib/travel-calculator';
+import { getEncounterHistory, rollTravelEncounters } from '@/lib/travel-events';
+
+function getRejectionStatus(code: CargoTravelRejectionCode): number {
+  switch (code) {
+    case 'NOT_OWNER':
+      return 403;
+    case 'WAREHOUSE_NOT_FOUND':
+      return 404;
+    case 'ALREADY_TRAVELING':
+    case 'CONFLICT':
+      return 409;
+    default:
+      return 422;
+  }
+}
+
+const REJECTION_MESSAGES: Record<CargoTravelRejectionCode, string> = {
+  ALREADY_TRAVELING: 'You are already on a journey.',
+  WAREHOUSE_NOT_FOUND: 'Warehouse not found.',
+  NOT_OWNER: 'You can only move goods between your own warehouses.',
+  INSUFFICIENT_STOCK: 'The origin warehouse does not hold that much.',
+  DESTINATION_FULL: 'The destination warehouse has no room for the cargo.',
+  NOT_HERE: 'Caravans leave from the Duchy you are in.',
+  CONFLICT: 'The warehouse changed while loading. Please try again.'
+};
+
+/**
+ * Carry goods from one of the authenticated wallet's warehouses to another
+ * The route is planned for the largest load with the chosen transports; the goods leave the
+ * origin warehouse now and are unloaded at the destination by the cargo job on arrival,
+ * less whatever the encounters along the way cost
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await authenticateWallet(request);
+
+    let body: { originWarehouseId?: unknown; destinationWarehouseId?: unknown; items?: unknown; transportIds?: unknown } | null;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const originWarehouseId = typeof body?.originWarehouseId === 'string' ? body.originWarehouseId : '';
+    const destinationWarehouseId = typeof body?.destinationWarehouseId === 'string' ? body.destinationWarehouseId : '';
+    const items = body?.items && typeof body.items === 'object' && !Array.isArray(body.items)
+      ? (body.items as Record<string, number>)
+      : null;
+    if (!originWarehouseId || !destinationWarehouseId || !items) {
+      return NextResponse.json({ error: 'Origin, destination and items are required' }, { status: 400 });
+    }
+    const invalid = validateCargoItems(items);
+    if (invalid) {
+      return NextResponse.json({ error: invalid.message, code: invalid.code }, { status: 422 });
+    }
+
+    // Settle a journey that has arrived, so the caravan leaves from where the player stands now
+    const startTime = new Date();
+    const { location, travel: current } = await settleTravel(user.primaryAddress, startTime);
+    if (current) {
+      return NextResponse.json(
+        { error: REJECTION_MESSAGES.ALREADY_TRAVELING, code: 'ALREADY_TRAVELING' },
+        { status: 409 }
+      );
+    }
+
+    // Transports are not tracked per player yet: everyone owns the starting ones
+    const transportIds = Array.isArray(body?.transportIds) ? body.transportIds : null;
+    const transports = transportIds
+      ? STARTING_TRANSPORTS.filter(transport => transportIds.includes(transport.id))
+      : STARTING_TRANSPORTS;
+
+    const [origin, destination] = await Promise.all([
+      findBuildingLocation(originWarehouseId),
+      findBuildingLocation(destinationWarehouseId)
+    ]);
+    if (origin?.building.type !== 'warehouse' || destination?.building.type !== 'warehouse') {
+      return NextResponse.json({ error: REJECTION_MESSAGES.WAREHOUSE_NOT_FOUND }, { status: 404 });
+    }
+    if (origin.owner !== user.primaryAddress || destination.owner !== user.primaryAddress) {
+      return NextResponse.json({ error: REJECTION_MESSAGES.NOT_OWNER, code: 'NOT_OWNER' }, { status: 403 });
+    }
+    // The player goes with the caravan, from the Duchy they stand in
+    if (location.q !== origin.parentQ || location.r !== origin.parentR) {
+      return NextResponse.json({ error: REJECTION_MESSAGES.NOT_HERE, code: 'NOT_HERE' }, { status: 422 });
+    }
+    if (origin.parentQ === destination.parentQ && origin.parentR === destination.parentR) {
+      return NextResponse.json(
+        { error: 'Both warehouses are in the same Duchy.', code: 'SAME_DUCHY' },
+        { status: 422 }
+      );
+    }
+
+    const [tiles, harbourBuildings] = await Promise.all([getWorldTiles(), findBuildingsByType(HARBOUR_BUILDINGS)]);
+    const harbours = new Set(harbourBuildings.map(({ parentQ, parentR }) => getHexKey(parentQ, parentR)));
+
+    const from = tiles.get(getHexKey(origin.parentQ, origin.parentR))?.coordinates;
+    const to = tiles.get(getHexKey(destination.parentQ, destination.parentR))?.coordinates;
+    const plan = from && to
+      ? planItinerary(from, to, tiles, harbours, transports, { objective: 'max-cargo', departureTime: startTime })
+      : null;
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'No route between the warehouses with these transports.', code: 'NO_ROUTE' },
+        { status: 422 }
+      );
+    }
+
+    const loaded = loadItinerary(plan, transports, items);
+    if (!loaded.ok) {
+      return NextResponse.json({ error: loaded.rejection.message, code: loaded.rejection.code }, { status: 422 });
+    }
+
+    // Detours around flooded fords go at the pace of the slowest transport the caravan takes over land
+    const landSpeeds = loaded.itinerary.legs
+      .filter(leg => leg.mode === 'land')
+      .map(leg => getLegTransport(leg, transports).speed);
+    const landSpeed = landSpeeds.length > 0 ? Math.min(...landSpeeds) : undefined;
+
+    const id = crypto.randomUUID();
+    const rolled = rollTravelEncounters(
+      {
+        id,
+        path: getItineraryPath(loaded.itinerary),
+        totalTravelTime: loaded.itinerary.totalTime,
+        startTime,
+        estimatedArrival: new Date(startTime.getTime() + loaded.itinerary.totalTime * TRAVEL_MS_PER_GAME_DAY),
+        landSpeed
+      },
+      tiles,
+      items
+    );
+
+    const lost: Record<string, number> = {};
+    for (const encounter of rolled.encounters) {
+      for (const [item, amount] of Object.entries(encounter.cargoLost)) {
+        lost[item] = roundAmount((lost[item] ?? 0) + amount);
+      }
+    }
+
+    const cargo: CargoManifest = {
+      items,
+      weight: loaded.weight,
+      capacity: loaded.capacity,
+      originWarehouseId,
+      destinationWarehouseId,
+      ...(Object.keys(lost).length > 0 ? { lost } : {})
+    };
+    const journey = {
+      path: rolled.path,
+      totalTravelTime: rolled.totalTravelTime,
+      startTime,
+      estimatedArrival: new Date(startTime.getTime() + rolled.totalTravelTime * TRAVEL_MS_PER_GAME_DAY)
+    };
+    const result = await startCargoTravel(
+      {
+        ...journey,
+        id,
+        wallet: user.primaryAddress,
+        level: 'duchy',
+        origin: { q: origin.parentQ, r: origin.parentR },
+        destination: { q: destination.parentQ, r: destination.parentR },
+        cargo
+      },
+      {
+        events: getEncounterHistory(rolled.encounters, journey)
+          .map(event => ({ ...event, wallet: user.primaryAddress, travelId: id })),
+        sightings: getJourneySightings(journey, tiles)
+          .map(hex => ({ ...hex, wallet: user.primaryAddress, travelId: id }))
+      }
+    );
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: REJECTION_MESSAGES[result.reason], code: result.reason },
+        { status: getRejectionStatus(result.reason) }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        travel: result.travel,
+        legs: getLegCalculations(loaded.itinerary, transports, startTime)
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/travel/cargo:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,317 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateWallet } from '@/lib/auth';
+import {
+  cancelTravel,
+  findBuildingsByType,
+  findSubLandStatesForHex,
+  settleTravel,
+  startTravel,
+  type StoredTravel,
+  type TravelRejectionCode,
+  type TravelStep
+} from '@/lib/db';
+import { realTimeToGameDate } from '@/lib/calendar';
+import { getJourneySightings } from '@/lib/hexmap/exploration';
+import { createHexCoordinates, getHexKey } from '@/lib/hexmap/hex-utils';
+import { HARBOUR_BUILDINGS, getItineraryPath, planSeaItinerary } from '@/lib/hexmap/naval-pathfinding';
+import {
+  DUCHY_WALKING_SPEED,
+  calculatePathTravelTime,
+  findPath,
+  getWalkingCostModel,
+  isTraversable
+} from '@/lib/hexmap/pathfinding';
+import { createDuchyTerrainLoader, findCrossBorderSubLandPath } from '@/lib/hexmap/subland-pathfinding';
+import type { HexTile } from '@/lib/hexmap/types';
+import { getWorldTiles } from '@/lib/hexmap/world-cache';
+import type { SubLandPosition } from '@/lib/sublands/coordinates';
+import { generateSubLandsForTile } from '@/lib/sublands/generator';
+import { applySubLandStates } from '@/lib/sublands/state';
+import { TRANSPORT_OPTIONS, TRAVEL_MS_PER_GAME_DAY, calculateCrossBorderSubLandTravel } from '@/lib/travel-calculator';
+import { getEncounterHistory, rollTravelEncounters } from '@/lib/travel-events';
+import type { TransportItem } from '@/types/game';
+
+// Duchy journeys last days and SubLand journeys hours, in real time as the travel indicators count them
+const MS_PER_TRAVEL_UNIT: Record<StoredTravel['level'], number> = {
+  duchy: TRAVEL_MS_PER_GAME_DAY,
+  subland: 60 * 60 * 1000
+};
+
+function getRejectionStatus(code: TravelRejectionCode): number {
+  switch (code) {
+    case 'NOT_TRAVELING':
+      return 404;
+    default:
+      return 409;
+  }
+}
+
+const REJECTION_MESSAGES: Record<TravelRejectionCode, string> = {
+  ALREADY_TRAVELING: 'You are already on a journey.',
+  NOT_TRAVELING: 'You are not traveling.',
+  CARGO_IN_TRANSIT: 'A caravan carrying cargo cannot turn back.',
+  AT_SEA: 'A ship cannot stop at sea: wait until it makes landfall.'
+};
+
+interface PlannedRoute {
+  path: TravelStep[];
+  totalTravelTime: number; // Game days for Duchy journeys, hours for SubLand ones
+}
+
+/**
+ * Integer hex coordinates from a request body
+ */
+function parseHex(value: unknown): { q: number; r: number } | null {
+  const { q, r } = (value ?? {}) as Record<string, unknown>;
+  return Number.isInteger(q) && Number.isInteger(r) ? { q: q as number, r: r as number } : null;
+}
+
+/**
+ * SubLand with its Duchy from a request body
+ */
+function parseSubLandPosition(value: unknown): SubLandPosition | null {
+  const hex = parseHex(value);
+  const { parentQ, parentR } = (value ?? {}) as Record<string, unknown>;
+  if (!hex || !Number.isInteger(parentQ) || !Number.isInteger(parentR)) return null;
+  return { parentQ: parentQ as number, parentR: parentR as number, ...hex };
+}
+
+/**
+ * Route of a Duchy-level journey leaving now: on foot, or walking to a harbour and sailing with `ship`
+ * Null when the destination cannot be reached, or the way closes for the season before arrival
+ */
+async function planDuchyRoute(
+  origin: { q: number; r: number },
+  destination: { q: number; r: number },
+  tiles: Map<string, HexTile>,
+  now: Date,
+  ship?: TransportItem
+): Promise<PlannedRoute | null> {
+  const from = tiles.get(getHexKey(origin.q, origin.r))?.coordinates;
+  const to = tiles.get(getHexKey(destination.q, destination.r))?.coordinates;
+  if (!from || !to) return null;
+
+  const departure = realTimeToGameDate(now);
+  if (ship) {
+    const harbours = new Set(
+      (await findBuildingsByType(HARBOUR_BUILDINGS)).map(({ parentQ, parentR }) => getHexKey(parentQ, parentR))
+    );
+    const itinerary = planSeaItinerary(from, to, tiles, harbours, {
+      landSpeed: DUCHY_WALKING_SPEED,
+      seaSpeed: ship.speed,
+      departure,
+      shipId: ship.id
+    });
+    return itinerary
+      ? { path: getItineraryPath(itinerary).map(({ q, r }) => ({ q, r })), totalTravelTime: itinerary.totalTime }
+      : null;
+  }
+
+  const path = findPath(from, to, tiles, departure, getWalkingCostModel(DUCHY_WALKING_SPEED));
+  if (!path) return null;
+  const totalTravelTime = calculatePathTravelTime(path, tiles, DUCHY_WALKING_SPEED, departure);
+  return Number.isFinite(totalTravelTime) ? { path: path.map(({ q, r }) => ({ q, r })), totalTravelTime } : null;
+}
+
+/**
+ * Route of a SubLand-level journey leaving now, around the terrain, bridges and buildings of the
+ * Duchy it starts in (other Duchies it crosses are generated); null when it cannot be walked
+ */
+async function planSubLandRoute(
+  origin: SubLandPosition,
+  destination: SubLandPosition,
+  tiles: Map<string, HexTile>,
+  now: Date
+): Promise<PlannedRoute | null> {
+  const key = getHexKey(origin.parentQ, origin.parentR);
+  const tile = tiles.get(key);
+  if (!tile) return null;
+
+  const states = await findSubLandStatesForHex(origin.parentQ, origin.parentR);
+  const sublands = applySubLandStates(generateSubLandsForTile(tile, tiles), states);
+  const loadDuchyTerrain = createDuchyTerrainLoader(tiles, realTimeToGameDate(now), new Map([[key, sublands]]));
+
+  const path = findCrossBorderSubLandPath(origin, destination, loadDuchyTerrain);
+  if (!path) return null;
+  const { totalTravelTimeHours } = calculateCrossBorderSubLandTravel(path, loadDuchyTerrain);
+  return Number.isFinite(totalTravelTimeHours) ? { path, totalTravelTime: totalTravelTimeHours } : null;
+}
+
+/**
+ * Where the authenticated wallet stands and its journey in progress
+ * Positions along the journey are derived by the client from its schedule and the server clock
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await authenticateWallet(request);
+    const now = new Date();
+    const { location, travel } = await settleTravel(user.primaryAddress, now);
+
+    return NextResponse.json({ location, travel, serverTime: now.toISOString() });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/travel:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Start a journey from where the wallet stands to a destination
+ * The server plans the route and sets the schedule: the journey starts now and lasts as long as
+ * the route takes, plus the delays of the encounters rolled along a Duchy-level route (which may
+ * also change its path). Duchy journeys go on foot unless a ship is given, SubLand ones on foot.
+ * The Duchies the traveller will see on the way are logged for the fog of war.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await authenticateWallet(request);
+
+    let body: { level?: unknown; origin?: unknown; destination?: unknown; shipId?: unknown } | null;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const level = body?.level === 'duchy' || body?.level === 'subland' ? body.level : null;
+    const parse: (value: unknown) => TravelStep | null = level === 'subland' ? parseSubLandPosition : parseHex;
+    const origin = level ? parse(body?.origin) : null;
+    const destination = level ? parse(body?.destination) : null;
+    if (!level || !origin || !destination) {
+      return NextResponse.json({ error: 'Level, origin and destination are required' }, { status: 400 });
+    }
+
+    const shipId = body?.shipId;
+    const ship = shipId === undefined
+      ? undefined
+      : TRANSPORT_OPTIONS.find(transport => transport.type === 'ship' && transport.id === shipId);
+    if (level === 'duchy' && shipId !== undefined && !ship) {
+      return NextResponse.json({ error: 'Unknown ship' }, { status: 400 });
+    }
+
+    const now = new Date();
+    const { location, travel: current } = await settleTravel(user.primaryAddress, now);
+    if (current) {
+      return NextResponse.json(
+        { error: REJECTION_MESSAGES.ALREADY_TRAVELING, code: 'ALREADY_TRAVELING' },
+        { status: getRejectionStatus('ALREADY_TRAVELING') }
+      );
+    }
+
+    // Journeys start where the player stands: their Duchy, and their SubLand in it when known
+    const originDuchy = level === 'duchy' ? origin : { q: origin.parentQ!, r: origin.parentR! };
+    const elsewhere = location.q !== originDuchy.q || location.r !== originDuchy.r
+      || (level === 'subland' && location.subland !== undefined
+        && (location.subland.q !== origin.q || location.subland.r !== origin.r));
+    if (elsewhere) {
+      return NextResponse.json(
+        { error: 'Journeys must start where you are.', code: 'NOT_HERE' },
+        { status: 422 }
+      );
+    }
+
+    const tiles = await getWorldTiles();
+    const route = level === 'duchy'
+      ? await planDuchyRoute(origin, destination, tiles, now, ship)
+      : await planSubLandRoute(origin as SubLandPosition, destination as SubLandPosition, tiles, now);
+    if (!route || route.path.length < 2) {
+      return NextResponse.json(
+        { error: 'There is no way to get there from here.', code: 'NO_ROUTE' },
+        { status: 422 }
+      );
+    }
+
+    const { path, totalTravelTime } = route;
+    const id = crypto.randomUUID();
+    const planned = {
+      id,
+      path,
+      totalTravelTime,
+      startTime: now,
+      estimatedArrival: new Date(now.getTime() + totalTravelTime * MS_PER_TRAVEL_UNIT[level])
+    };
+
+    // Encounters along the way (Duchy journeys only: SubLand trips are a few hours long)
+    const rolled = level === 'duchy'
+      ? rollTravelEncounters({ ...planned, path: path.map(({ q, r }) => createHexCoordinates(q, r)) }, tiles)
+      : null;
+    const journey = rolled
+      ? {
+          ...planned,
+          path: rolled.path.map(({ q, r }) => ({ q, r })),
+          totalTravelTime: rolled.totalTravelTime,
+          estimatedArrival: new Date(now.getTime() + rolled.totalTravelTime * MS_PER_TRAVEL_UNIT[level])
+        }
+      : planned;
+    const events = rolled
+      ? getEncounterHistory(rolled.encounters, journey).map(event => ({ ...event, wallet: user.primaryAddress, travelId: id }))
+      : [];
+    const duchyPath = level === 'duchy' ? journey.path : path.map(step => ({ q: step.parentQ!, r: step.parentR! }));
+    const sightings = getJourneySightings({ ...journey, path: duchyPath }, tiles)
+      .map(hex => ({ ...hex, wallet: user.primaryAddress, travelId: id }));
+
+    const start = path[0];
+    const end = path[path.length - 1];
+    const result = await startTravel(
+      {
+        ...journey,
+        wallet: user.primaryAddress,
+        level,
+        parentQ: level === 'subland' ? originDuchy.q : undefined,
+        parentR: level === 'subland' ? originDuchy.r : undefined,
+        origin: { q: start.q, r: start.r },
+        destination: { q: end.q, r: end.r }
+      },
+      { events, sightings }
+    );
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: REJECTION_MESSAGES[result.reason], code: result.reason },
+        { status: getRejectionStatus(result.reason) }
+      );
+    }
+
+    return NextResponse.json({ travel: result.travel }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/travel:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Stop the journey of the authenticated wallet where the traveller is now, unless that is at sea
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await authenticateWallet(request);
+    const tiles = await getWorldTiles();
+    const result = await cancelTravel(user.primaryAddress, new Date(), ({ q, r }) => {
+      const tile = tiles.get(getHexKey(q, r));
+      return tile !== undefined && isTraversable(tile);
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: REJECTION_MESSAGES[result.reason], code: result.reason },
+        { status: getRejectionStatus(result.reason) }
+      );
+    }
+
+    return NextResponse.json({ location: result.location });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in /api/travel:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
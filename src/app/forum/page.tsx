@@ -1,7 +1,8 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
+import { sdk } from '@farcaster/miniapp-sdk';
 import { Home, MessageSquare, Crown, Shield, Send, ThumbsUp } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,6 +10,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import type { ForumPost, ForumCategory } from '@/types/game';
+import { FORUM_CATEGORIES } from '@/lib/forum';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
 
 export default function ForumPage(): JSX.Element {
   const [newPost, setNewPost] = useState<string>('');
@@ -17,86 +20,80 @@ export default function ForumPage(): JSX.Element {
   // Mock moderators - will be managed via blockchain
   const moderators = ['0x742d...8f3c']; // Your wallet address as initial moderator
 
-  // Mock current user
+  // Posts are signed by the Farcaster account, titles are not tracked yet
+  const user = useCurrentUser();
   const currentUser = {
-    wallet: '0x9a3e...2b1c',
-    title: undefined // or NFT title if player has one
+    wallet: user?.primaryAddress ?? '',
+    title: undefined as string | undefined // NFT title if player has one
   };
 
+  const [posts, setPosts] = useState<ForumPost[]>([]);
+  const [postCounts, setPostCounts] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isPosting, setIsPosting] = useState<boolean>(false);
+
   // Forum categories
-  const categories: ForumCategory[] = [
-    { id: 'general', name: 'General', description: 'General discussions', icon: '💬', postCount: 24 },
-    { id: 'trading', name: 'Trading', description: 'Buy, sell, and trade', icon: '🤝', postCount: 18 },
-    { id: 'strategy', name: 'Strategy', description: 'Game strategies and tips', icon: '🎯', postCount: 31 },
-    { id: 'alliances', name: 'Alliances', description: 'Form alliances and coalitions', icon: '🤝', postCount: 12 },
-    { id: 'bugs', name: 'Bugs & Reports', description: 'Report issues', icon: '🐛', postCount: 7 }
-  ];
+  const categories: ForumCategory[] = FORUM_CATEGORIES.map(category => ({
+    ...category,
+    postCount: postCounts[category.id] ?? 0
+  }));
 
-  // Mock forum posts
-  const mockPosts: ForumPost[] = [
-    {
-      id: 'p1',
-      author: 'Explorer_Alpha',
-      authorWallet: '0x742d...8f3c',
-      authorTitle: 'Resource Baron',
-      content: 'Just discovered a massive gold deposit in Duchy #15230! Anyone interested in forming a mining coalition?',
-      timestamp: new Date('2026-01-10T10:30:00'),
-      likes: 12,
-      replies: [
-        {
-          id: 'r1',
-          author: 'Trader_Beta',
-          authorWallet: '0x8b2f...3a4d',
-          authorTitle: undefined,
-          content: 'I\'m interested! I have advanced mining tools we could use.',
-          timestamp: new Date('2026-01-10T11:15:00')
-        },
-        {
-          id: 'r2',
-          author: 'Miner_Gamma',
-          authorWallet: '0x3c1e...9f7a',
-          authorTitle: 'Master Blacksmith',
-          content: 'Count me in. I can process the ore efficiently.',
-          timestamp: new Date('2026-01-10T12:00:00')
-        }
-      ]
-    },
-    {
-      id: 'p2',
-      author: 'Strategist_Delta',
-      authorWallet: '0x5d4a...8e2b',
-      authorTitle: 'Scholar of Mathematics',
-      content: 'PSA: The optimal trade route between America and Europe continents uses these specific duchies...',
-      timestamp: new Date('2026-01-10T09:00:00'),
-      likes: 28,
-      replies: []
-    },
-    {
-      id: 'p3',
-      author: 'Plebeian_User',
-      authorWallet: '0x1f2e...4c5d',
-      authorTitle: undefined,
-      content: 'New player here! Looking for tips on getting started. Any advice?',
-      timestamp: new Date('2026-01-10T08:15:00'),
-      likes: 8,
-      replies: [
-        {
-          id: 'r3',
-          author: 'Explorer_Alpha',
-          authorWallet: '0x742d...8f3c',
-          authorTitle: 'Resource Baron',
-          content: 'Welcome! Start by claiming duchies near resources you need. Focus on building up your science tree early.',
-          timestamp: new Date('2026-01-10T08:45:00')
-        }
-      ]
+  // Load posts of the selected category from the database
+  const loadPosts = useCallback(async (): Promise<void> => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/forum/posts?category=${encodeURIComponent(selectedCategory)}`);
+      if (!response.ok) {
+        throw new Error('Failed to load posts');
+      }
+      const data = await response.json() as { posts: ForumPost[]; counts: Record<string, number> };
+      setPosts(data.posts.map(post => ({
+        ...post,
+        timestamp: new Date(post.timestamp),
+        replies: post.replies.map(reply => ({ ...reply, timestamp: new Date(reply.timestamp) }))
+      })));
+      setPostCounts(data.counts);
+    } catch (error) {
+      console.error('Error loading forum posts:', error);
+    } finally {
+      setIsLoading(false);
     }
-  ];
+  }, [selectedCategory]);
+
+  useEffect(() => {
+    loadPosts();
+  }, [loadPosts]);
 
-  const handlePostSubmit = (): void => {
-    if (newPost.trim()) {
-      // Will be implemented with blockchain
-      console.log('Posting:', newPost);
+  const handlePostSubmit = async (): Promise<void> => {
+    if (!newPost.trim() || isPosting) return;
+
+    try {
+      setIsPosting(true);
+      const response = await sdk.quickAuth.fetch('/api/forum/posts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ category: selectedCategory, content: newPost })
+      });
+      if (!response.ok) {
+        throw new Error('Failed to create post');
+      }
       setNewPost('');
+      await loadPosts();
+    } catch (error) {
+      console.error('Error creating forum post:', error);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleLike = async (postId: string): Promise<void> => {
+    try {
+      const response = await sdk.quickAuth.fetch(`/api/forum/posts/${postId}/like`, { method: 'POST' });
+      if (!response.ok) return;
+      const data = await response.json() as { likes: number };
+      setPosts(prev => prev.map(post => post.id === postId ? { ...post, likes: data.likes } : post));
+    } catch (error) {
+      console.error('Error liking forum post:', error);
     }
   };
 
@@ -164,7 +161,12 @@ export default function ForumPage(): JSX.Element {
           {/* Posts Tab */}
           <TabsContent value="posts" className="mt-4">
             <div className="space-y-4">
-              {mockPosts.map((post: ForumPost) => (
+              {!isLoading && posts.length === 0 && (
+                <Card className="bg-white/10 backdrop-blur-md border-white/20 p-6">
+                  <p className="text-purple-300 text-center">No posts in this category yet. Be the first!</p>
+                </Card>
+              )}
+              {posts.map((post: ForumPost) => (
                 <Card key={post.id} className="bg-white/10 backdrop-blur-md border-white/20 p-6">
                   {/* Post Header */}
                   <div className="flex items-start gap-4 mb-4">
@@ -204,7 +206,12 @@ export default function ForumPage(): JSX.Element {
 
                   {/* Post Actions */}
                   <div className="flex items-center gap-4">
-                    <Button variant="ghost" size="sm" className="gap-2 text-purple-300 hover:text-purple-100">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2 text-purple-300 hover:text-purple-100"
+                      onClick={() => handleLike(post.id)}
+                    >
                       <ThumbsUp className="w-4 h-4" />
                       {post.likes}
                     </Button>
@@ -281,7 +288,7 @@ export default function ForumPage(): JSX.Element {
                 </div>
                 <Button 
                   onClick={handlePostSubmit}
-                  disabled={!newPost.trim()}
+                  disabled={!newPost.trim() || isPosting}
                   className="bg-purple-600 hover:bg-purple-700"
                 >
                   <Send className="w-4 h-4 mr-2" />
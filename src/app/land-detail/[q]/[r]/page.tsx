@@ -1,8 +1,10 @@
 'use client';
 
 import { use } from 'react';
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { sdk } from '@farcaster/miniapp-sdk';
 import { ArrowLeft, ZoomIn, ZoomOut, X, Building2, Coins, Plus, Settings, Trash2, Users, Crown, Home, Navigation } from 'lucide-react';
 import { SubLandPanel } from '@/components/hexmap/SubLandPanel';
 import { TravelIndicator } from '@/components/hexmap/TravelIndicator';
@@ -11,13 +13,23 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import type { HexTile as HexTileType } from '@/lib/hexmap/types';
 import { generateEarthMap } from '@/lib/hexmap/generator';
+import { getWorldTiles } from '@/lib/hexmap/world-cache';
+import { WORLD_SEED } from '@/lib/hexmap/map-presets';
 import { getHexKey, axialToPixel, pixelToAxial } from '@/lib/hexmap/hex-utils';
-import type { SubLand, PlacedBuilding, HexagonSettlementData, NFTType, ReligionType } from '@/lib/sublands/types';
-import type { ActiveTravel } from '@/types/game';
+import type { SubLand, SubLandState, PlacedBuilding, HexagonSettlementData, ReligionType } from '@/lib/sublands/types';
+import { useTravel } from '@/contexts/TravelContext';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useNotifications } from '@/hooks/useNotifications';
+import { useGameTime } from '@/hooks/useGameTime';
+import { getSeasonForMonth } from '@/lib/calendar';
 import { generateSubLandsForHex, isAdjacentToCoastalInland } from '@/lib/sublands/generator';
-import { BUILDING_CONFIGS, getAvailableBuildings, formatArea, isCentralTile, getTownTiles, countUrbanCores, hasTownInHexagon } from '@/lib/sublands/building-config';
-import { calculateSubLandTravel, calculateSubLandDistance } from '@/lib/travel-calculator';
-import { findSubLandPath } from '@/lib/hexmap/subland-pathfinding';
+import { applySubLandStates, reviveSubLandState } from '@/lib/sublands/state';
+import { BUILDING_CONFIGS, getAvailableBuildings, formatArea, countUrbanCores, hasTownInHexagon, isShorelineWater } from '@/lib/sublands/building-config';
+import { MAX_URBAN_CORES, validateBuild, type BuildRejection, type BuildRejectionCode } from '@/lib/sublands/build-rules';
+import { getHexagonPopulation, getLabourPool } from '@/lib/sublands/population';
+import { calculateCrossBorderSubLandTravel, calculateSubLandDistance } from '@/lib/travel-calculator';
+import { createDuchyTerrainLoader, findCrossBorderSubLandPath } from '@/lib/hexmap/subland-pathfinding';
+import type { SubLandPosition } from '@/lib/sublands/coordinates';
 
 interface ViewPort {
   x: number;
@@ -59,13 +71,17 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
   });
   
   const [canvasSize, setCanvasSize] = useState<number>(800);
+  const currentUser = useCurrentUser();
+  useNotifications(!!currentUser?.primaryAddress);
   const [selectedSubLand, setSelectedSubLand] = useState<SubLand | null>(null);
   const [isDragging, setIsDragging] = useState<boolean>(false);
   const [dragStart, setDragStart] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
   const [touchStartTime, setTouchStartTime] = useState<number>(0);
   const [touchStartPos, setTouchStartPos] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
   const [isClaiming, setIsClaiming] = useState<boolean>(false);
+  const [isRenewing, setIsRenewing] = useState<boolean>(false);
   const [isBuilding, setIsBuilding] = useState<boolean>(false);
+  const [buildRejection, setBuildRejection] = useState<BuildRejection | null>(null);
   const [showKmMenu, setShowKmMenu] = useState<boolean>(false);
   const [showBuildingManagement, setShowBuildingManagement] = useState<boolean>(false);
   const [selectedBuilding, setSelectedBuilding] = useState<PlacedBuilding | null>(null);
@@ -74,15 +90,40 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
   // Player starts at duchy capital center (0, 0) - this should always be land
   // The 7 central hexagons are reserved for duchy capital
   const [playerPosition, setPlayerPosition] = useState<{ q: number; r: number } | null>(null);
-  const [activeTravel, setActiveTravel] = useState<ActiveTravel | null>(null);
+  const router = useRouter();
+  
+  // Travel system using global context: trips inside the Duchy, or a world map trip followed here
+  const { activeTravel: currentTravel, location, startSublandTravel, updateTravel, switchTravelLevel } = useTravel();
+  const activeTravel = currentTravel?.level === 'subland' ? currentTravel : null;
+  
+  // Stand where the last journey ended, when it ended in this Duchy
+  useEffect(() => {
+    if (location?.subland && location.q === parentQ && location.r === parentR) {
+      setPlayerPosition({ q: location.subland.q, r: location.subland.r });
+    }
+  }, [location, parentQ, parentR]);
+  
+  // Show the traveller here, or follow them into the next Duchy when the route crosses a border
+  const followTraveller = useCallback((position: SubLandPosition): void => {
+    if (position.parentQ === parentQ && position.parentR === parentR) {
+      setPlayerPosition({ q: position.q, r: position.r });
+    } else {
+      router.push(`/land-detail/${position.parentQ}/${position.parentR}`);
+    }
+  }, [parentQ, parentR, router]);
+  
+  const travellerPosition = activeTravel?.currentPosition;
+  useEffect(() => {
+    if (travellerPosition) followTraveller(travellerPosition);
+  }, [travellerPosition, followTraveller]);
   
   // Travel system: Update position every second during active travel
   useEffect(() => {
     if (!activeTravel) return;
     
     const updateInterval = setInterval(() => {
-      setActiveTravel(prev => {
-        if (!prev) return null;
+      updateTravel(prev => {
+        if (!prev || prev.level !== 'subland') return prev;
         
         // Update elapsed time (1 second = 0.000278 hours)
         const newElapsedTime = prev.elapsedTime + (1 / 3600);
@@ -90,7 +131,7 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
         // Check if travel is complete
         if (newElapsedTime >= prev.totalTravelTime) {
           // Arrive at destination
-          setPlayerPosition(prev.destination);
+          followTraveller(prev.destination);
           return null; // End travel
         }
         
@@ -102,10 +143,10 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
         if (targetHexIndex !== prev.currentHexIndex && targetHexIndex < prev.path.length) {
           const newHex = prev.path[targetHexIndex];
           if (newHex) {
-            setPlayerPosition({ q: newHex.q, r: newHex.r });
-            
-            // Update biome type based on current hex
-            const currentSubland = sublands.find(sl => sl.q === newHex.q && sl.r === newHex.r);
+            // Update biome type based on current hex (SubLands of other Duchies are not loaded here)
+            const currentSubland = newHex.parentQ === parentQ && newHex.parentR === parentR
+              ? sublands.find(sl => sl.q === newHex.q && sl.r === newHex.r)
+              : undefined;
             const currentBiome = currentSubland?.biomeType || prev.biomeType;
             
             return {
@@ -127,38 +168,65 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
     }, 1000); // Update every second
     
     return () => clearInterval(updateInterval);
-  }, [activeTravel]);
+  }, [activeTravel, updateTravel, followTraveller]);
   
-  // NFT System: Simulate user's NFT type (in production, fetch from blockchain)
-  const [userNFTType, setUserNFTType] = useState<NFTType>('duchy_land'); // 'county_land', 'duchy_land', or 'none'
+  // Holder of the Duchy Land NFT, null until someone founds the Duchy's town
+  const [duchyOwner, setDuchyOwner] = useState<string | null>(null);
   const [selectedReligion, setSelectedReligion] = useState<ReligionType>('christian');
   
   const [parentTile, setParentTile] = useState<HexTileType | null>(null);
+  const [worldTiles, setWorldTiles] = useState<Map<string, HexTileType> | null>(null);
+  const gameTime = useGameTime();
+  // Current season in this Duchy, used for travel times
+  const parentSeason = parentTile ? getSeasonForMonth(gameTime.monthNumber, parentTile.hemisphere) : undefined;
   const [sublands, setSublands] = useState<SubLand[]>([]);
-  const [hexagonData, setHexagonData] = useState<HexagonSettlementData>({
-    parentQ,
-    parentR,
-    urbanCoreCount: 0,
-    maxUrbanCores: 100,
-    hasTown: false,
-    totalPopulation: 0
-  });
+  
+  // World map for routes that cross into neighboring Duchies
+  useEffect(() => {
+    getWorldTiles()
+      .then(setWorldTiles)
+      .catch(error => {
+        console.error('Error loading world map:', error);
+      });
+  }, []);
+  
+  // Follow a world map trip at SubLand level
+  useEffect(() => {
+    if (currentTravel?.level === 'duchy' && worldTiles) {
+      switchTravelLevel('subland', createDuchyTerrainLoader(worldTiles));
+    }
+  }, [currentTravel?.level, worldTiles, switchTravelLevel]);
+  
+  // Settlement figures are derived from the buildings, so they follow population changes
+  const hexagonData = useMemo((): HexagonSettlementData => {
+    const hasTown = hasTownInHexagon(sublands);
+    return {
+      parentQ,
+      parentR,
+      urbanCoreCount: countUrbanCores(sublands),
+      maxUrbanCores: MAX_URBAN_CORES,
+      hasTown,
+      townPosition: hasTown ? { q: 0, r: 0 } : undefined,
+      totalPopulation: getHexagonPopulation(sublands),
+      labourPool: getLabourPool(sublands.flatMap(sl => sl.buildings))
+    };
+  }, [parentQ, parentR, sublands]);
   
   // Touch handling
   const [touches, setTouches] = useState<TouchInfo[]>([]);
   const [lastDistance, setLastDistance] = useState<number>(0);
   
   useEffect(() => {
-    const mapTiles = generateEarthMap(42, 1);
+    const mapTiles = generateEarthMap(WORLD_SEED, 1);
     const key = getHexKey(parentQ, parentR);
     const tile = mapTiles.get(key);
     
     if (tile) {
       setParentTile(tile);
       
-      // If this is a coastal tile, determine which sides touch land
+      // If this is a coastal or lake tile, determine which sides touch land
       let coastalLandSides: number[] | undefined;
-      if (tile.terrain === 'coast') {
+      if (tile.terrain === 'coast' || tile.terrain === 'lake') {
         // Import getCoastalLandSides from generator
         const { getCoastalLandSides } = require('@/lib/hexmap/generator');
         coastalLandSides = getCoastalLandSides(tile, mapTiles);
@@ -171,7 +239,14 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
         oceanNeighborSides = getOceanNeighborSides(tile, mapTiles);
       }
       
-      const generated = generateSubLandsForHex(tile, parentQ, parentR, coastalLandSides, oceanNeighborSides);
+      // For any land tile, determine which sides touch a lake (for lakeshore areas)
+      let lakeNeighborSides: number[] | undefined;
+      if (tile.terrain !== 'ocean' && tile.terrain !== 'ice' && tile.terrain !== 'lake') {
+        const { getLakeNeighborSides } = require('@/lib/hexmap/generator');
+        lakeNeighborSides = getLakeNeighborSides(tile, mapTiles);
+      }
+      
+      const generated = generateSubLandsForHex(tile, parentQ, parentR, coastalLandSides, oceanNeighborSides, lakeNeighborSides);
       
       // Assign NFT types to sublands (simulate ownership)
       const withNFTs = generated.map(sl => ({
@@ -181,21 +256,21 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
       
       setSublands(withNFTs);
       
-      // Set initial player position to a valid land hexagon (not ocean or coastal_inland)
+      // Set initial player position to a valid land hexagon (not ocean or shoreline water)
       // Prefer duchy capital center (0, 0) if it's valid land
       if (!playerPosition) {
         let initialPosition: { q: number; r: number } | null = null;
         
         // First, try to use duchy capital center (0, 0)
         const centerHex = withNFTs.find(sl => sl.q === 0 && sl.r === 0);
-        if (centerHex && centerHex.biomeType !== 'ocean' && centerHex.resourceType !== 'coastal_inland') {
+        if (centerHex && centerHex.biomeType !== 'ocean' && !isShorelineWater(centerHex.resourceType)) {
           initialPosition = { q: 0, r: 0 };
         } else {
           // If center is not valid, find any valid land hexagon
           const validLandHex = withNFTs.find(sl => 
             sl.biomeType !== 'ocean' && 
             sl.biomeType !== 'ice' && 
-            sl.resourceType !== 'coastal_inland'
+            !isShorelineWater(sl.resourceType)
           );
           
           if (validLandHex) {
@@ -209,17 +284,19 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
         setPlayerPosition(initialPosition);
       }
       
-      // Update hexagon data
-      const urbanCores = countUrbanCores(withNFTs);
-      const hasTown = hasTownInHexagon(withNFTs);
-      setHexagonData({
-        parentQ,
-        parentR,
-        urbanCoreCount: urbanCores,
-        maxUrbanCores: 100,
-        hasTown,
-        totalPopulation: urbanCores * 300
-      });
+      // Load persisted claims and buildings and merge them into the generated SubLands
+      fetch(`/api/sublands/${parentQ}/${parentR}`)
+        .then(response => response.ok
+          ? response.json() as Promise<{ sublands: SubLandState[]; duchyOwner: string | null }>
+          : { sublands: [], duchyOwner: null })
+        .then(data => {
+          const merged = applySubLandStates(withNFTs, data.sublands.map(reviveSubLandState));
+          setSublands(merged);
+          setDuchyOwner(data.duchyOwner);
+        })
+        .catch(error => {
+          console.error('Error loading persisted sublands:', error);
+        });
     }
   }, [parentQ, parentR, playerPosition]);
   
@@ -250,271 +327,143 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
   const handleClaimLand = async (): Promise<void> => {
     if (!selectedSubLand || selectedSubLand.status !== 'virgin') return;
     
-    // Cannot claim coastal_inland areas
-    if (selectedSubLand.resourceType === 'coastal_inland') {
-      alert('Cannot claim coastal inland areas. These are water-adjacent zones.');
+    // Cannot claim coastal_inland or lakeshore areas (the server enforces this as well)
+    if (isShorelineWater(selectedSubLand.resourceType)) {
+      alert('Cannot claim coastal inland or lakeshore areas. These are water-adjacent zones.');
       return;
     }
     
     setIsClaiming(true);
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    const claimedAt = new Date();
-    const expiresAt = new Date(claimedAt);
-    expiresAt.setMonth(expiresAt.getMonth() + 6);
-    
-    setSublands(prev => prev.map(sl => 
-      sl.id === selectedSubLand.id
-        ? {
-            ...sl,
-            status: 'claimed',
-            owner: '0x1234...5678',
-            ownerName: 'You',
-            nftId: `SL-${parentQ}-${parentR}-${sl.q}-${sl.r}`,
-            nftType: 'county_land', // Assign County Land NFT on claim
-            claimedAt,
-            claimExpiresAt: expiresAt,
-            hasNaturalFeatures: false // Clear trees/rocks on claim
-          }
-        : sl
-    ));
-    
-    setSelectedSubLand(prev => prev ? {
-      ...prev,
-      status: 'claimed',
-      owner: '0x1234...5678',
-      ownerName: 'You',
-      nftId: `SL-${parentQ}-${parentR}-${prev.q}-${prev.r}`,
-      nftType: 'county_land',
-      claimedAt,
-      claimExpiresAt: expiresAt,
-      hasNaturalFeatures: false
-    } : null);
-    
-    setIsClaiming(false);
-  };
-  
-  const handleBuildBuilding = async (buildingType: string): Promise<void> => {
-    if (!selectedSubLand || selectedSubLand.owner !== '0x1234...5678') return;
     
-    // Cannot build in coastal_inland areas
-    if (selectedSubLand.resourceType === 'coastal_inland') {
-      alert('Cannot build in coastal inland areas. Build on adjacent land instead.');
-      return;
-    }
-    
-    const config = BUILDING_CONFIGS[buildingType as keyof typeof BUILDING_CONFIGS];
-    if (!config) return;
-    
-    // Check NFT type requirements
-    if (config.requiresNFTType && config.requiresNFTType !== selectedSubLand.nftType) {
-      alert(`Requires ${config.requiresNFTType === 'county_land' ? 'County Land' : 'Duchy Land'} NFT!`);
-      return;
-    }
-    
-    // Check if building a town
-    if (config.type === 'town') {
-      // Must be duchy land owner (hexagon owner)
-      if (userNFTType !== 'duchy_land') {
-        alert('Only the Duchy Land NFT owner (hexagon owner) can build a Town!');
-        return;
-      }
-      
-      // Must have at least 20 villages
-      if (hexagonData.urbanCoreCount < 20) {
-        alert(`Need 20 villages to build a town. Current: ${hexagonData.urbanCoreCount}/20`);
-        return;
-      }
-      
-      // Must be on central tiles
-      if (!isCentralTile(selectedSubLand.q, selectedSubLand.r)) {
-        alert('Town must be built on the central tiles!');
-        return;
-      }
+    try {
+      const response = await sdk.quickAuth.fetch(
+        `/api/sublands/${parentQ}/${parentR}/${selectedSubLand.q}/${selectedSubLand.r}/claim`,
+        { method: 'POST' }
+      );
+      const data = await response.json() as { subland?: SubLand; error?: string; code?: string };
       
-      // Check if town already exists
-      if (hexagonData.hasTown) {
-        alert('Only one town per hexagon allowed!');
+      if (!response.ok || !data.subland) {
+        alert(data.error ?? 'Failed to claim land');
         return;
       }
       
-      // Check if all tiles are available
-      const townTiles = getTownTiles(selectedSubLand.q, selectedSubLand.r);
-      const allAvailable = townTiles.every(tile => {
-        const sl = sublands.find(s => s.q === tile.q && s.r === tile.r);
-        return sl && sl.status === 'virgin' && sl.buildings.length === 0;
-      });
-      
-      if (!allAvailable) {
-        alert('All central tiles must be empty to build a town!');
-        return;
-      }
+      const state = reviveSubLandState(data.subland);
+      setSublands(prev => applySubLandStates(prev, [state]));
+      setSelectedSubLand(prev => prev ? applySubLandStates([prev], [state])[0] : null);
+    } catch (error) {
+      console.error('Failed to claim SubLand:', error);
+      alert('Failed to claim land');
+    } finally {
+      setIsClaiming(false);
     }
-    
-    // Check if building urban core
-    if (config.type === 'urban_core') {
-      // Check limit
-      if (hexagonData.urbanCoreCount >= hexagonData.maxUrbanCores) {
-        alert(`Maximum urban cores reached (${hexagonData.maxUrbanCores})!`);
-        return;
-      }
+  };
+  
+  const handleRenewClaim = async (subland: SubLand): Promise<void> => {
+    setIsRenewing(true);
+    
+    try {
+      const response = await sdk.quickAuth.fetch(
+        `/api/sublands/${parentQ}/${parentR}/${subland.q}/${subland.r}/renew`,
+        { method: 'POST' }
+      );
+      const data = await response.json() as { subland?: SubLandState; error?: string };
       
-      // Must be on empty land
-      if (selectedSubLand.status !== 'virgin' || selectedSubLand.buildings.length > 0) {
-        alert('Urban Core must be built on virgin land with no previous constructions!');
+      if (!response.ok || !data.subland) {
+        alert(data.error ?? 'Failed to renew claim');
         return;
       }
+      
+      const state = reviveSubLandState(data.subland);
+      setSublands(prev => applySubLandStates(prev, [state]));
+      setSelectedSubLandForPanel(prev => prev ? applySubLandStates([prev], [state])[0] : null);
+    } catch (error) {
+      console.error('Failed to renew claim:', error);
+      alert('Failed to renew claim');
+    } finally {
+      setIsRenewing(false);
     }
-    
-    // Check if there's enough space
-    const availableArea = selectedSubLand.maxAreaM2 - selectedSubLand.usedAreaM2;
-    if (config.areaM2 > availableArea) {
-      alert(`Not enough space! Available: ${formatArea(availableArea)}, Required: ${formatArea(config.areaM2)}`);
-      return;
-    }
+  };
+  
+  // Rejections only apply to the SubLand they were raised for
+  useEffect(() => {
+    setBuildRejection(null);
+  }, [selectedSubLand?.id]);
+  
+  const handleBuildBuilding = async (buildingType: string): Promise<void> => {
+    if (!selectedSubLand || !currentUser?.primaryAddress) return;
+    
+    // Same rules the server enforces, checked first for instant feedback
+    const rejection = validateBuild(buildingType, {
+      subland: selectedSubLand,
+      sublands,
+      wallet: currentUser.primaryAddress,
+      duchyOwner: duchyOwner ?? undefined,
+      hasSpecialNFTs
+    });
+    setBuildRejection(rejection);
+    if (rejection) return;
     
     setIsBuilding(true);
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Create new building instance
-    const newBuilding: PlacedBuilding = {
-      id: `${Date.now()}-${Math.random()}`,
-      type: config.type,
-      builtAt: new Date(),
-      nftId: `BLD-${parentQ}-${parentR}-${selectedSubLand.q}-${selectedSubLand.r}-${config.type}-${Date.now()}`,
-      position: {
-        offsetX: Math.random() * 0.7 + 0.15, // Random position within tile (15-85%)
-        offsetY: Math.random() * 0.7 + 0.15
-      },
-      workers: 0,
-      productionRate: 0,
-      inventory: {},
-      religion: config.type === 'urban_core' ? selectedReligion : undefined,
-      urbanCoreData: config.type === 'urban_core' ? {
-        market: true,
-        tavern: true,
-        barracks: true,
-        religiousBuilding: selectedReligion,
-        houses: 100,
-        soldiers: 30,
-        population: 300
-      } : undefined
-    };
     
-    // If building a town, mark all tiles
-    if (config.type === 'town') {
-      const townTiles = getTownTiles(selectedSubLand.q, selectedSubLand.r);
-      const centerPos = { centerQ: townTiles[0].q, centerR: townTiles[0].r };
-      
-      setSublands(prev => prev.map(sl => {
-        const isTownTile = townTiles.some(t => t.q === sl.q && t.r === sl.r);
-        if (isTownTile) {
-          // For the selected tile, add the building
-          if (sl.id === selectedSubLand.id) {
-            return {
-              ...sl,
-              status: 'developed',
-              buildings: [...sl.buildings, newBuilding],
-              usedAreaM2: sl.maxAreaM2, // Town uses entire tile
-              claimExpiresAt: undefined,
-              isPartOfTown: true,
-              townCenterPosition: centerPos
-            };
-          }
-          // For other tiles, just mark as part of town
-          return {
-            ...sl,
-            status: 'developed',
-            isPartOfTown: true,
-            townCenterPosition: centerPos,
-            claimExpiresAt: undefined
-          };
+    try {
+      const response = await sdk.quickAuth.fetch(
+        `/api/sublands/${parentQ}/${parentR}/${selectedSubLand.q}/${selectedSubLand.r}/buildings`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ type: buildingType, religion: selectedReligion })
         }
-        return sl;
-      }));
+      );
+      const data = await response.json() as {
+        sublands?: SubLandState[];
+        building?: PlacedBuilding;
+        error?: string;
+        code?: BuildRejectionCode;
+      };
       
-      setHexagonData(prev => ({
-        ...prev,
-        hasTown: true,
-        townPosition: centerPos
-      }));
-    } else {
-      // Regular building
-      setSublands(prev => prev.map(sl => 
-        sl.id === selectedSubLand.id
-          ? {
-              ...sl,
-              status: 'developed',
-              buildings: [...sl.buildings, newBuilding],
-              usedAreaM2: sl.usedAreaM2 + config.areaM2,
-              claimExpiresAt: undefined
-            }
-          : sl
-      ));
-      
-      // Update hexagon data if urban core
-      if (config.type === 'urban_core') {
-        setHexagonData(prev => ({
-          ...prev,
-          urbanCoreCount: prev.urbanCoreCount + 1,
-          totalPopulation: prev.totalPopulation + 300
-        }));
+      if (!response.ok || !data.sublands || !data.building) {
+        if (data.code) {
+          setBuildRejection({ code: data.code, message: data.error ?? data.code });
+        } else {
+          alert(data.error ?? 'Failed to build');
+        }
+        return;
       }
+      
+      const states = data.sublands.map(reviveSubLandState);
+      setSublands(prev => applySubLandStates(prev, states));
+      setSelectedSubLand(prev => prev ? applySubLandStates([prev], states)[0] : null);
+    } catch (error) {
+      console.error('Failed to build:', error);
+      alert('Failed to build');
+    } finally {
+      setIsBuilding(false);
     }
-    
-    setSelectedSubLand(prev => prev ? {
-      ...prev,
-      status: 'developed',
-      buildings: [...prev.buildings, newBuilding],
-      usedAreaM2: prev.usedAreaM2 + config.areaM2,
-      claimExpiresAt: undefined
-    } : null);
-    
-    setIsBuilding(false);
   };
   
-  const handleDeleteBuilding = (buildingId: string): void => {
+  const handleDeleteBuilding = async (buildingId: string): Promise<void> => {
     if (!selectedSubLand) return;
     
-    const building = selectedSubLand.buildings.find(b => b.id === buildingId);
-    if (!building) return;
-    
-    const config = BUILDING_CONFIGS[building.type];
-    
-    // Prevent deleting town (would need special logic to remove from all tiles)
-    if (building.type === 'town') {
-      alert('Towns cannot be deleted through this menu. Contact administrator.');
-      return;
-    }
-    
-    setSublands(prev => prev.map(sl => 
-      sl.id === selectedSubLand.id
-        ? {
-            ...sl,
-            buildings: sl.buildings.filter(b => b.id !== buildingId),
-            usedAreaM2: sl.usedAreaM2 - config.areaM2,
-            status: sl.buildings.length === 1 ? 'claimed' : 'developed'
-          }
-        : sl
-    ));
-    
-    setSelectedSubLand(prev => prev ? {
-      ...prev,
-      buildings: prev.buildings.filter(b => b.id !== buildingId),
-      usedAreaM2: prev.usedAreaM2 - config.areaM2,
-      status: prev.buildings.length === 1 ? 'claimed' : 'developed'
-    } : null);
-    
-    // Update hexagon data if urban core
-    if (building.type === 'urban_core') {
-      setHexagonData(prev => ({
-        ...prev,
-        urbanCoreCount: Math.max(0, prev.urbanCoreCount - 1),
-        totalPopulation: Math.max(0, prev.totalPopulation - 300)
-      }));
+    try {
+      const response = await sdk.quickAuth.fetch(
+        `/api/sublands/${parentQ}/${parentR}/${selectedSubLand.q}/${selectedSubLand.r}/buildings/${buildingId}`,
+        { method: 'DELETE' }
+      );
+      const data = await response.json() as { subland?: SubLandState; error?: string; code?: string };
+      
+      if (!response.ok || !data.subland) {
+        alert(data.error ?? 'Failed to demolish');
+        return;
+      }
+      
+      const state = reviveSubLandState(data.subland);
+      setSublands(prev => applySubLandStates(prev, [state]));
+      setSelectedSubLand(prev => prev ? applySubLandStates([prev], [state])[0] : null);
+      setSelectedBuilding(null);
+    } catch (error) {
+      console.error('Failed to demolish building:', error);
+      alert('Failed to demolish');
     }
-    
-    setSelectedBuilding(null);
   };
   
   const renderSubLands = useCallback((): void => {
@@ -563,6 +512,8 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
         color = '#D2B48C'; // Coastal land (sand/earth color)
       } else if (subland.resourceType === 'coastal_inland') {
         color = '#4A9EC2'; // Coastal inland (blue coastal color)
+      } else if (subland.resourceType === 'lakeshore') {
+        color = '#38BDF8'; // Lakeshore (light lake blue)
       } else if (subland.resourceType.startsWith('mine_')) {
         color = '#FFB84D'; // Mines
       } else if (subland.resourceType.startsWith('farmland_')) {
@@ -739,6 +690,8 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
         color = '#D2B48C'; // Coastal land
       } else if (subland.resourceType === 'coastal_inland') {
         color = '#4A9EC2'; // Coastal inland
+      } else if (subland.resourceType === 'lakeshore') {
+        color = '#38BDF8'; // Lakeshore
       } else if (subland.resourceType.startsWith('mine_')) {
         color = '#FFB84D';
       } else if (subland.resourceType.startsWith('farmland_')) {
@@ -802,59 +755,27 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
     setSelectedSubLandForPanel(null);
   };
   
-  // Handle start travel with intelligent pathfinding and water detection
+  // Handle start travel with terrain-aware pathfinding (water, unbridged rivers and mountains)
+  // The route may cut through a neighboring Duchy when that is shorter
   const handleStartTravel = (destination: { q: number; r: number }): void => {
-    if (!playerPosition || activeTravel) return;
-    
-    // Calculate path using A* pathfinding
-    const path = findSubLandPath(playerPosition, destination);
+    if (!playerPosition || currentTravel || !worldTiles) return;
     
-    if (!path || path.length === 0) {
-      alert('No path found to destination!');
-      return;
-    }
+    // SubLands of this Duchy as loaded here (with their buildings), the others generated on demand
+    const today = { year: gameTime.yearNumber, month: gameTime.monthNumber, day: gameTime.dayOfMonth };
+    const loadDuchyTerrain = createDuchyTerrainLoader(worldTiles, today, new Map([[getHexKey(parentQ, parentR), sublands]]));
+    const origin: SubLandPosition = { parentQ, parentR, ...playerPosition };
     
-    // Check if path crosses water (ocean or coastal_inland)
-    const crossesWater = path.some((hex, index) => {
-      if (index === 0) return false; // Skip starting position
-      const subland = sublands.find(sl => sl.q === hex.q && sl.r === hex.r);
-      if (!subland) return false;
-      
-      // Block if terrain is ocean or deep water
-      if (subland.biomeType === 'ocean' || subland.biomeType === 'ice') return true;
-      
-      // Also block coastal_inland hexes (shallow water)
-      if (subland.resourceType === 'coastal_inland') return true;
-      
-      return false;
-    });
+    // Calculate path using A* around the terrain
+    const path = findCrossBorderSubLandPath(origin, { parentQ, parentR, ...destination }, loadDuchyTerrain);
     
-    if (crossesWater) {
+    // No path: the destination is water or cut off by it
+    if (!path || path.length === 0) {
       alert('No hay ruta disponible. El destino es inaccesible a pie. Puede que necesites un barco para cruzar el agua.');
       return;
     }
     
-    // Build biome and feature maps for travel calculation
-    const biomeMap = new Map<string, string>();
-    const featureMap = new Map<string, string[]>();
-    
-    for (const hex of path) {
-      const subland = sublands.find(sl => sl.q === hex.q && sl.r === hex.r);
-      if (subland) {
-        const hexKey = `${hex.q},${hex.r}`;
-        biomeMap.set(hexKey, subland.biomeType);
-        
-        // Get parent tile features for this hex
-        const features: string[] = [];
-        if (parentTile?.features) {
-          features.push(...parentTile.features);
-        }
-        featureMap.set(hexKey, features);
-      }
-    }
-    
     // Calculate travel time with terrain costs
-    const travelCalc = calculateSubLandTravel(path, biomeMap, featureMap);
+    const travelCalc = calculateCrossBorderSubLandTravel(path, loadDuchyTerrain);
     
     // Create active travel object
     const startTime = new Date();
@@ -862,21 +783,19 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
     
     const originSubland = sublands.find(sl => sl.q === playerPosition.q && sl.r === playerPosition.r);
     
-    const newTravel: ActiveTravel = {
+    startSublandTravel({
       id: `travel-${Date.now()}`,
-      origin: playerPosition,
-      destination,
+      origin,
+      destination: path[path.length - 1],
       path,
-      currentPosition: playerPosition,
+      currentPosition: origin,
       currentHexIndex: 0,
       totalTravelTime: travelCalc.totalTravelTimeHours,
       elapsedTime: 0,
       startTime,
       estimatedArrival,
       biomeType: originSubland?.biomeType || 'plains'
-    };
-    
-    setActiveTravel(newTravel);
+    });
     setSelectedSubLandForPanel(null);
   };
   
@@ -1099,6 +1018,7 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
     if (resourceType === 'standard') return 'Moderate Agricultural Land';
     if (resourceType === 'coastal_land') return 'Coastal Land (for ports & shipyards)';
     if (resourceType === 'coastal_inland') return 'Coastal Inland (near ocean)';
+    if (resourceType === 'lakeshore') return 'Lakeshore (near a lake)';
     if (resourceType.startsWith('mine_')) {
       return `${resourceType.split('_')[1].charAt(0).toUpperCase()}${resourceType.split('_')[1].slice(1)} Mine`;
     }
@@ -1173,13 +1093,17 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
             <span className="text-white/60">Population:</span>
             <span className="text-blue-300">{hexagonData.totalPopulation.toLocaleString()}</span>
           </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-white/60">Labour pool:</span>
+            <span className="text-blue-300">{hexagonData.labourPool.toLocaleString()}</span>
+          </div>
           <div className="flex justify-between gap-4">
             <span className="text-white/60">Town:</span>
             <span className={hexagonData.hasTown ? 'text-amber-400' : 'text-red-400'}>
               {hexagonData.hasTown ? '✓ Built' : '✗ None'}
             </span>
           </div>
-          {!hexagonData.hasTown && hexagonData.urbanCoreCount >= 20 && (
+          {!hexagonData.hasTown && hexagonData.totalPopulation >= (BUILDING_CONFIGS.town.requiresPopulation ?? 0) && (
             <div className="bg-green-500/20 p-1 rounded text-[9px] text-green-300 mt-1">
               ✓ Town eligible!
             </div>
@@ -1249,8 +1173,12 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
           playerPosition={playerPosition}
           onNavigate={handleNavigateToSubland}
           onStartTravel={handleStartTravel}
-          isCurrentlyTraveling={activeTravel !== null}
+          isCurrentlyTraveling={currentTravel !== null}
           sublands={sublands}
+          currentWallet={currentUser?.primaryAddress}
+          onRenewClaim={handleRenewClaim}
+          isRenewing={isRenewing}
+          season={parentSeason}
         />
       )}
       
@@ -1369,6 +1297,12 @@ export default function LandDetailPage({ params }: LandDetailPageProps): JSX.Ele
                   </div>
                 </div>
               )}
+              
+              {buildRejection && (
+                <div className="bg-red-500/10 p-2 rounded text-[10px] text-red-200">
+                  {buildRejection.message}
+                </div>
+              )}
             </div>
             
             {/* Info only - no construction options in sublands */}
@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import Link from 'next/link';
+import { sdk } from '@farcaster/miniapp-sdk';
 import { Home, User, Award, History, Edit2, Save, Package, Crown, GraduationCap, Hammer, Ship } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,9 +10,9 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
-import type { TransportItem } from '@/types/game';
+import type { HistoryEvent, TransportItem } from '@/types/game';
 import { JAX_TO_KG } from '@/types/game';
-import { TRANSPORT_OPTIONS } from '@/lib/travel-calculator';
+import { STARTING_TRANSPORTS } from '@/lib/travel-calculator';
 
 interface InventoryItem {
   id: string;
@@ -33,14 +34,6 @@ interface Title {
   category: 'noble' | 'academic' | 'trade';
 }
 
-interface HistoryEvent {
-  id: string;
-  date: Date;
-  type: 'territory' | 'technology' | 'trade' | 'battle' | 'title';
-  description: string;
-  icon: string;
-}
-
 const INVENTORY_CAPACITY_JAX = 2; // Maximum 2 Jax capacity
 const INVENTORY_CAPACITY_KG = INVENTORY_CAPACITY_JAX * JAX_TO_KG; // 40kg total
 
@@ -50,13 +43,21 @@ export default function MyCharacterPage(): JSX.Element {
     'Ambitious explorer of the Altriux World. Building my empire one hex at a time. Master of trade and diplomacy.'
   );
   const [tempDescription, setTempDescription] = useState<string>(userDescription);
+  const [history, setHistory] = useState<HistoryEvent[]>([]);
+
+  // Recorded history (travel encounters, ...), newest first
+  useEffect(() => {
+    sdk.quickAuth.fetch('/api/history')
+      .then(async response => {
+        if (!response.ok) return;
+        const data: { events: Array<Omit<HistoryEvent, 'date'> & { date: string }> } = await response.json();
+        setHistory(data.events.map(event => ({ ...event, date: new Date(event.date) })));
+      })
+      .catch(error => console.error('Failed to load history:', error));
+  }, []);
 
   // Mock transportation items - will be NFTs
-  const mockTransportation: TransportItem[] = [
-    { ...TRANSPORT_OPTIONS[1], nftId: 'NFT-HORSE-001' }, // Horse
-    { ...TRANSPORT_OPTIONS[2], nftId: 'NFT-CART-001' }, // Cart
-    { ...TRANSPORT_OPTIONS[4], nftId: 'NFT-SHIP-001' } // Basic Ship
-  ];
+  const mockTransportation: TransportItem[] = STARTING_TRANSPORTS;
 
   // Mock data - will be replaced with Sui blockchain data
   const mockInventory: InventoryItem[] = [
@@ -120,51 +121,6 @@ export default function MyCharacterPage(): JSX.Element {
     }
   ];
 
-  const mockHistory: HistoryEvent[] = [
-    {
-      id: 'h1',
-      date: new Date('2026-01-10'),
-      type: 'territory',
-      description: 'Claimed 3 plains territories near America continent',
-      icon: '🌾'
-    },
-    {
-      id: 'h2',
-      date: new Date('2026-01-08'),
-      type: 'technology',
-      description: 'Researched Carpentry technology',
-      icon: '🪚'
-    },
-    {
-      id: 'h3',
-      date: new Date('2026-01-05'),
-      type: 'title',
-      description: 'Earned title: Resource Baron',
-      icon: '🏆'
-    },
-    {
-      id: 'h4',
-      date: new Date('2026-01-02'),
-      type: 'trade',
-      description: 'Traded 500 wood for 200 iron',
-      icon: '🤝'
-    },
-    {
-      id: 'h5',
-      date: new Date('2025-12-28'),
-      type: 'territory',
-      description: 'Claimed volcanic island with gold deposits',
-      icon: '🌋'
-    },
-    {
-      id: 'h6',
-      date: new Date('2025-12-20'),
-      type: 'title',
-      description: 'Earned title: Master Blacksmith',
-      icon: '🔨'
-    }
-  ];
-
   // Calculate total inventory weight
   const totalWeightKg = useMemo(() => {
     return mockInventory.reduce((total: number, item: InventoryItem) => {
@@ -530,7 +486,10 @@ export default function MyCharacterPage(): JSX.Element {
             <Card className="bg-white/10 backdrop-blur-md border-white/20 p-6">
               <h3 className="text-xl font-bold text-white mb-4">Player History</h3>
               <div className="space-y-3">
-                {mockHistory.map((event: HistoryEvent) => (
+                {history.length === 0 && (
+                  <p className="text-purple-300 text-sm">No history yet. Journeys and what happens on them are recorded here.</p>
+                )}
+                {history.map((event: HistoryEvent) => (
                   <div
                     key={event.id}
                     className="bg-black/20 rounded-lg p-4 border border-white/10 hover:bg-black/30 transition-colors"
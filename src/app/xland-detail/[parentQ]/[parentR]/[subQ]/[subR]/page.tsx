@@ -10,6 +10,8 @@ import { generateEarthMap } from '@/lib/hexmap/generator';
 import { getHexKey, axialToPixel, pixelToAxial } from '@/lib/hexmap/hex-utils';
 import type { SubLand } from '@/lib/sublands/types';
 import { generateSubLandsForHex } from '@/lib/sublands/generator';
+import { WORLD_SEED } from '@/lib/hexmap/map-presets';
+import { createRandomStream, hashSeed, type SeededRandom } from '@/lib/random';
 
 interface ViewPort {
   x: number;
@@ -60,7 +62,7 @@ export default function XLandDetailPage({ params }: XLandDetailPageProps): JSX.E
   const [dragStart, setDragStart] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
   
   useEffect(() => {
-    const mapTiles = generateEarthMap(42, 1);
+    const mapTiles = generateEarthMap(WORLD_SEED, 1);
     const key = getHexKey(parentQ, parentR);
     const tile = mapTiles.get(key);
     
@@ -313,7 +315,11 @@ export default function XLandDetailPage({ params }: XLandDetailPageProps): JSX.E
   );
 }
 
-function generateXLandHexes(subland: SubLand): XLandHex[] {
+/**
+ * Drawn from the parcels stream of the world seed, so a SubLand always shows the same parcels
+ */
+function generateXLandHexes(subland: SubLand, seed: number = WORLD_SEED): XLandHex[] {
+  const random = createRandomStream(seed, 'parcels', hashSeed(subland.id));
   const hexes: XLandHex[] = [];
   const radius = 58; // Same radius as sublands for ~10,000 hexagons
   
@@ -328,7 +334,7 @@ function generateXLandHexes(subland: SubLand): XLandHex[] {
       hexes.push({
         q,
         r,
-        color: addColorVariation(baseColor, 10)
+        color: addColorVariation(baseColor, 10, random)
       });
     }
   }
@@ -362,15 +368,15 @@ function getBiomeColor(biomeType: string): string {
   }
 }
 
-function addColorVariation(color: string, variation: number): string {
+function addColorVariation(color: string, variation: number, random: SeededRandom): string {
   const hex = color.replace('#', '');
   const r = parseInt(hex.substring(0, 2), 16);
   const g = parseInt(hex.substring(2, 4), 16);
   const b = parseInt(hex.substring(4, 6), 16);
   
-  const vr = Math.floor(Math.random() * variation * 2) - variation;
-  const vg = Math.floor(Math.random() * variation * 2) - variation;
-  const vb = Math.floor(Math.random() * variation * 2) - variation;
+  const vr = Math.floor(random.next() * variation * 2) - variation;
+  const vg = Math.floor(random.next() * variation * 2) - variation;
+  const vb = Math.floor(random.next() * variation * 2) - variation;
   
   const nr = Math.max(0, Math.min(255, r + vr));
   const ng = Math.max(0, Math.min(255, g + vg));
@@ -12,6 +12,8 @@ import { generateEarthMap } from '@/lib/hexmap/generator';
 import { getHexKey, axialToPixel, pixelToAxial } from '@/lib/hexmap/hex-utils';
 import type { SubLand } from '@/lib/sublands/types';
 import { generateSubLandsForHex } from '@/lib/sublands/generator';
+import { WORLD_SEED } from '@/lib/hexmap/map-presets';
+import { createRandomStream, hashSeed, type SeededRandom } from '@/lib/random';
 import { BUILDING_CONFIGS, formatArea, getAvailableBuildings } from '@/lib/sublands/building-config';
 
 interface ViewPort {
@@ -85,7 +87,7 @@ export default function XLandOverviewPage({ params }: XLandOverviewPageProps): J
   const [showBuildMenu, setShowBuildMenu] = useState<boolean>(false);
   
   useEffect(() => {
-    const mapTiles = generateEarthMap(42, 1);
+    const mapTiles = generateEarthMap(WORLD_SEED, 1);
     const key = getHexKey(parentQ, parentR);
     const tile = mapTiles.get(key);
     
@@ -703,7 +705,11 @@ export default function XLandOverviewPage({ params }: XLandOverviewPageProps): J
   );
 }
 
-function generateParcels(subland: SubLand): Parcel[] {
+/**
+ * Drawn from the parcels stream of the world seed, so a SubLand always shows the same parcels
+ */
+function generateParcels(subland: SubLand, seed: number = WORLD_SEED): Parcel[] {
+  const random = createRandomStream(seed, 'parcels', hashSeed(subland.id));
   const parcels: Parcel[] = [];
   const radius = 5; // ~10x10 grid (approximately 91 hexagons)
   
@@ -734,7 +740,7 @@ function generateParcels(subland: SubLand): Parcel[] {
         const isEdge = Math.abs(q) === radius || Math.abs(r) === radius || Math.abs(-q - r) === radius;
         
         // 60% chance for edge parcels to be water in coastal biomes
-        if (isEdge && Math.random() < 0.6) {
+        if (isEdge && random.next() < 0.6) {
           waterParcels.push({ q, r });
         }
       }
@@ -757,7 +763,7 @@ function generateParcels(subland: SubLand): Parcel[] {
       parcels.push({
         q,
         r,
-        color: isWater ? '#4A90E2' : addColorVariation(baseColor, 15), // Blue for water
+        color: isWater ? '#4A90E2' : addColorVariation(baseColor, 15, random), // Blue for water
         status: 'virgin',
         buildings: [],
         isRestricted,
@@ -816,15 +822,15 @@ function getBiomeColor(biomeType: string): string {
   }
 }
 
-function addColorVariation(color: string, variation: number): string {
+function addColorVariation(color: string, variation: number, random: SeededRandom): string {
   const hex = color.replace('#', '');
   const r = parseInt(hex.substring(0, 2), 16);
   const g = parseInt(hex.substring(2, 4), 16);
   const b = parseInt(hex.substring(4, 6), 16);
   
-  const vr = Math.floor(Math.random() * variation * 2) - variation;
-  const vg = Math.floor(Math.random() * variation * 2) - variation;
-  const vb = Math.floor(Math.random() * variation * 2) - variation;
+  const vr = Math.floor(random.next() * variation * 2) - variation;
+  const vg = Math.floor(random.next() * variation * 2) - variation;
+  const vb = Math.floor(random.next() * variation * 2) - variation;
   
   const nr = Math.max(0, Math.min(255, r + vr));
   const ng = Math.max(0, Math.min(255, g + vg));
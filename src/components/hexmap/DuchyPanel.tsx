@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import Link from 'next/link';
 import { X, Navigation, Eye, Crown, Building } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -9,9 +9,14 @@ import { Card } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import type { HexTile as HexTileType } from '@/lib/hexmap/types';
 import type { DuchyInfo, TransportItem, TravelCalculation } from '@/types/game';
+import { formatGameDate, getGameDayNumber, realTimeToGameDate } from '@/lib/calendar';
 import { generateDuchyInfo } from '@/lib/duchy-generator';
 import { calculateTravel, TRANSPORT_OPTIONS } from '@/lib/travel-calculator';
-import { getOceanNeighborSides } from '@/lib/hexmap/generator';
+import { getOceanNeighborSides, getLakeNeighborSides } from '@/lib/hexmap/generator';
+import { createHexCoordinates } from '@/lib/hexmap/hex-utils';
+import type { TileVisibility } from '@/lib/hexmap/exploration';
+import { planSeaItinerary, type Itinerary } from '@/lib/hexmap/naval-pathfinding';
+import { useHarbours } from '@/hooks/useHarbours';
 
 interface DuchyPanelProps {
   tile: HexTileType;
@@ -22,7 +27,10 @@ interface DuchyPanelProps {
   currentMonth: number;
   onStartTravel?: (tile: HexTileType) => void;
   onStartDuchyTravel?: (destination: { q: number; r: number }) => void;
+  onStartItineraryTravel?: (destination: { q: number; r: number }, itinerary: Itinerary) => void;
   isCurrentlyTraveling?: boolean;
+  visibility?: TileVisibility; // Fog of war: explored tiles are passed as last seen
+  lastSeen?: Date;
 }
 
 // Medieval/Tribal icons consistent with HexTile
@@ -37,14 +45,41 @@ const RESOURCE_ICONS: Record<string, string> = {
   wheat: '⚘', cotton: '✿', spices: '✤', legumes: '⚇', flax: '⚘', corn: '⚘', dates: '◐'
 };
 
-export function DuchyPanel({ tile, tiles, onClose, currentPlayerLocation, serverTime, currentMonth, onStartTravel, onStartDuchyTravel, isCurrentlyTraveling }: DuchyPanelProps): JSX.Element {
+export function DuchyPanel({ tile, tiles, onClose, currentPlayerLocation, serverTime, currentMonth, onStartTravel, onStartDuchyTravel, onStartItineraryTravel, isCurrentlyTraveling, visibility = 'visible', lastSeen }: DuchyPanelProps): JSX.Element {
   const [view, setView] = useState<'info' | 'travel' | 'overview'>('info');
   const [selectedTransport, setSelectedTransport] = useState<string>(TRANSPORT_OPTIONS[0].id);
+  const harbours = useHarbours();
 
   const duchyInfo: DuchyInfo = generateDuchyInfo(tile.coordinates.q, tile.coordinates.r);
+  const isUnexplored = visibility === 'unknown';
+  const duchyName = isUnexplored ? 'Unexplored Lands' : duchyInfo.name;
+
+  const isCurrentLocation = 
+    currentPlayerLocation.q === tile.coordinates.q && 
+    currentPlayerLocation.r === tile.coordinates.r;
   
-  // Calculate travel if in travel view
+  // Calculate travel info for this duchy
+  const { findPath, calculatePathTravelTime, getWalkingCostModel, DUCHY_WALKING_SPEED } = require('@/lib/hexmap/pathfinding');
+  const today = realTimeToGameDate(serverTime); // Seasonal costs depend on the departure date
+  const todayNumber = getGameDayNumber(today);
+
+  // Ships sail between harbours: walk to the nearest port, sail, then walk on (recomputed once per game day)
   const transport = TRANSPORT_OPTIONS.find((t) => t.id === selectedTransport) || TRANSPORT_OPTIONS[0];
+  const isShip = transport.type === 'ship';
+  const seaItinerary = useMemo(
+    () => view === 'travel' && isShip && !isCurrentLocation
+      ? planSeaItinerary(createHexCoordinates(currentPlayerLocation.q, currentPlayerLocation.r), tile.coordinates, tiles, harbours, {
+          landSpeed: 0.5,
+          seaSpeed: transport.speed,
+          departure: today,
+          shipId: transport.id
+        })
+      : null,
+    [view, isShip, isCurrentLocation, currentPlayerLocation.q, currentPlayerLocation.r, tile, tiles, harbours, transport.speed, transport.id, todayNumber]
+  );
+
+  // Calculate travel if in travel view
+  // The route to an unexplored Duchy would give its terrain away: only a straight-line estimate is shown
   const travelCalc: TravelCalculation | null = view === 'travel' 
     ? calculateTravel(
         currentPlayerLocation.q,
@@ -52,23 +87,17 @@ export function DuchyPanel({ tile, tiles, onClose, currentPlayerLocation, server
         tile.coordinates.q,
         tile.coordinates.r,
         transport,
-        serverTime
+        serverTime,
+        isUnexplored ? undefined : seaItinerary ?? undefined
       )
     : null;
-
-  const isCurrentLocation = 
-    currentPlayerLocation.q === tile.coordinates.q && 
-    currentPlayerLocation.r === tile.coordinates.r;
-  
-  // Calculate travel info for this duchy
-  const { findPath, calculatePathTravelTime } = require('@/lib/hexmap/pathfinding');
   const travelPath = !isCurrentLocation && onStartDuchyTravel 
-    ? findPath(currentPlayerLocation, tile.coordinates, tiles)
+    ? findPath(currentPlayerLocation, tile.coordinates, tiles, today, getWalkingCostModel(DUCHY_WALKING_SPEED))
     : null;
   // Duchy Lands are 50km per hexagon, and travel is 100x slower than SubLands
   // In SubLands: 50 hexagons (1km each) per day = 50km/day
   // In Duchy Lands: 0.5 hexagons (50km each) per day = 25km/day effective (100x slower than SubLands per hexagon)
-  const travelTime = travelPath ? calculatePathTravelTime(travelPath, tiles, 0.5) : 0; // 0.5 duchies per day (100x slower)
+  const travelTime = travelPath ? calculatePathTravelTime(travelPath, tiles, DUCHY_WALKING_SPEED, today) : 0; // 0.5 duchies per day (100x slower)
   const travelDistanceKm = travelPath ? (travelPath.length - 1) * 50 : 0; // Each duchy is 50km
 
   // Format travel time
@@ -94,9 +123,9 @@ export function DuchyPanel({ tile, tiles, onClose, currentPlayerLocation, server
         </button>
         
         <div className="pr-8">
-          <h3 className="text-xl font-bold text-white mb-1">{duchyInfo.name}</h3>
+          <h3 className="text-xl font-bold text-white mb-1">{duchyName}</h3>
           <div className="flex items-center gap-2">
-            {tile.terrain !== 'ocean' && tile.terrain !== 'coast' && (
+            {!isUnexplored && tile.terrain !== 'ocean' && tile.terrain !== 'coast' && (
               <Badge className="bg-cyan-500/20 text-cyan-300 border-cyan-500/30 text-xs">
                 NFT Land Duchy
               </Badge>
@@ -152,14 +181,37 @@ export function DuchyPanel({ tile, tiles, onClose, currentPlayerLocation, server
 
       {/* Content */}
       <div className="p-4 space-y-3">
-        {view === 'info' && (
+        {/* Fog of war: nothing is known of a Duchy nobody has seen */}
+        {view !== 'travel' && isUnexplored && (
+          <div className="space-y-2 text-xs md:text-sm text-white/90">
+            <div className="py-2 px-3 bg-gray-700/50 rounded border border-gray-500/50">
+              <p className="font-semibold text-gray-200">🌫️ Unexplored</p>
+              <p className="text-gray-300/80 text-xs mt-1">
+                You have never seen this Duchy. Travel within sight of it to learn its terrain and resources.
+              </p>
+            </div>
+            <div className="flex items-center justify-between py-1 border-b border-white/20">
+              <span className="text-white/70">Coordinates (Q, R)</span>
+              <span className="font-semibold text-cyan-300">({tile.coordinates.q}, {tile.coordinates.r})</span>
+            </div>
+          </div>
+        )}
+
+        {view === 'info' && !isUnexplored && (
           <>
+            {visibility === 'explored' && lastSeen && (
+              <div className="py-2 px-3 bg-gray-700/50 rounded border border-gray-500/50 text-xs">
+                <p className="font-semibold text-gray-200">👁️ Last seen {formatGameDate(realTimeToGameDate(lastSeen))}</p>
+                <p className="text-gray-300/80 mt-1">Out of sight: things may have changed since.</p>
+              </div>
+            )}
             <div className="space-y-2 text-xs md:text-sm text-white/90">
               <div className="flex items-center justify-between py-1 border-b border-white/20">
                 <span className="text-white/70">Terrain</span>
                 <span className="font-semibold text-cyan-300 capitalize">
                   {tile.terrain === 'ocean' ? '🌊' : 
                    tile.terrain === 'coast' ? '🏖️' :
+                   tile.terrain === 'lake' ? '🏞️' :
                    tile.terrain === 'ice' ? '🧊' :
                    tile.terrain === 'plains' ? '🌾' : 
                    tile.terrain === 'jungle' ? '🌴' : 
@@ -235,10 +287,14 @@ export function DuchyPanel({ tile, tiles, onClose, currentPlayerLocation, server
                       if (tile.terrain === 'coast') {
                         return '🌊 Coastal Tile';
                       }
-                      // Para otras casillas de tierra, verificar vecinos ocean/coast
+                      if (tile.terrain === 'lake') {
+                        return '🏞️ Lake Tile';
+                      }
+                      // Para otras casillas de tierra, verificar vecinos ocean/coast y lagos
                       const oceanSides = getOceanNeighborSides(tile, tiles);
                       const hasOceanNeighbor = oceanSides.length > 0;
-                      return hasOceanNeighbor ? '🌊 Coastal Tile' : '🏔️ Continental Tile';
+                      if (hasOceanNeighbor) return '🌊 Coastal Tile';
+                      return getLakeNeighborSides(tile, tiles).length > 0 ? '🏞️ Lakeshore Tile' : '🏔️ Continental Tile';
                     })()}
                   </span>
                 </div>
@@ -315,9 +371,11 @@ export function DuchyPanel({ tile, tiles, onClose, currentPlayerLocation, server
                     </div>
                     <div className="flex justify-between">
                       <span>Travel Time:</span>
-                      <span className="text-amber-200 font-semibold">{formatTravelTime(travelTime)}</span>
+                      <span className="text-amber-200 font-semibold">
+                        {Number.isFinite(travelTime) ? formatTravelTime(travelTime) : 'Route closed'}
+                      </span>
                     </div>
-                    <p className="text-[9px] text-white/60 mt-2">* Terrain affects travel speed</p>
+                    <p className="text-[9px] text-white/60 mt-2">* Terrain and season affect travel speed</p>
                   </div>
                 </div>
                 <Button 
@@ -333,7 +391,7 @@ export function DuchyPanel({ tile, tiles, onClose, currentPlayerLocation, server
             
             {!isCurrentLocation && !travelPath && onStartDuchyTravel && (
               <div className="bg-red-500/20 p-3 rounded border border-red-500/50 text-xs text-red-200">
-                ❌ This duchy is unreachable on foot. You may need a ship to cross water.
+                ❌ This duchy is unreachable on foot. You may need a ship to cross water, or wait for snowed-in passes to reopen.
               </div>
             )}
           </>
@@ -371,13 +429,46 @@ export function DuchyPanel({ tile, tiles, onClose, currentPlayerLocation, server
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-blue-200">Arrival:</span>
-                <span className="text-white font-semibold">{travelCalc.arrivalDate.toLocaleString()}</span>
+                <span className="text-white font-semibold">{formatGameDate(travelCalc.arrivalGameDate)}</span>
               </div>
+              <div className="flex justify-between text-xs">
+                <span className="text-blue-200/70">Real time:</span>
+                <span className="text-white/70">{travelCalc.arrivalDate.toLocaleString()}</span>
+              </div>
+              {isUnexplored && (
+                <p className="text-blue-200/70 text-xs pt-1">
+                  🌫️ Straight-line estimate: the way to unexplored lands is unknown.
+                </p>
+              )}
             </div>
 
-            <Button className="w-full bg-green-600 hover:bg-green-700">
+            {isShip && seaItinerary && !isUnexplored && (
+              <div className="p-4 bg-cyan-500/20 rounded-lg border border-cyan-500/30 space-y-2">
+                <h4 className="text-white font-bold mb-3">Itinerary</h4>
+                {seaItinerary.legs.map((leg, index) => (
+                  <div key={index} className="flex justify-between text-sm">
+                    <span className="text-cyan-200">
+                      {leg.mode === 'sea' ? `${transport.icon} Sail` : '🚶 Walk'} ({leg.path.length - 1} tiles)
+                    </span>
+                    <span className="text-white font-semibold">{formatTravelTime(leg.travelTime)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isShip && !seaItinerary && (
+              <div className="bg-red-500/20 p-3 rounded border border-red-500/50 text-xs text-red-200">
+                ❌ No sea route: ships need a port, dock or shipyard reachable from both your location and the destination.
+              </div>
+            )}
+
+            <Button
+              onClick={() => seaItinerary && onStartItineraryTravel?.(tile.coordinates, seaItinerary)}
+              disabled={isShip && (!seaItinerary || !onStartItineraryTravel || isCurrentlyTraveling)}
+              className="w-full bg-green-600 hover:bg-green-700"
+            >
               <Navigation className="w-4 h-4 mr-2" />
-              Start Journey to {duchyInfo.name}
+              Start Journey to {duchyName}
             </Button>
 
             <p className="text-xs text-purple-300 text-center">
@@ -386,7 +477,7 @@ export function DuchyPanel({ tile, tiles, onClose, currentPlayerLocation, server
           </div>
         )}
 
-        {view === 'overview' && (
+        {view === 'overview' && !isUnexplored && (
           <div className="space-y-4">
             <div className="p-4 bg-purple-500/20 rounded-lg border border-purple-500/30">
               <h4 className="text-white font-bold mb-2 flex items-center gap-2">
@@ -1,9 +1,10 @@
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import type { HexTile as HexTileType } from '@/lib/hexmap/types';
-import { axialToPixel, pixelToAxial, getHexKey, wrapCoordinates } from '@/lib/hexmap/hex-utils';
+import { axialToPixel, pixelToAxial, getHexKey, wrapHex, unwrapPath, createHexCoordinates } from '@/lib/hexmap/hex-utils';
 import { generateEarthMap, addCoastalTiles } from '@/lib/hexmap/generator';
+import { DEFAULT_MAP_CONFIG, SPAWN_LOCATION, WORLD_MAP_WIDTH, WORLD_SEED } from '@/lib/hexmap/map-presets';
 import { HexTile } from './HexTile';
 import { MapControls } from './MapControls';
 import { MiniMap } from './MiniMap';
@@ -12,14 +13,21 @@ import { MapHUD } from './MapHUD';
 import { useGameTime, formatGameDate, formatDayNumber } from '@/hooks/useGameTime';
 import { useServerTime } from '@/hooks/useServerTime';
 import { MapPin } from 'lucide-react';
-import { findPath, calculatePathTravelTime, getPathTerrainSummary, isDestinationReachable } from '@/lib/hexmap/pathfinding';
+import { DUCHY_WALKING_SPEED, findPath, calculatePathTravelTime, getPathTerrainSummary, getWalkingCostModel, isDestinationReachable } from '@/lib/hexmap/pathfinding';
+import { getItineraryPath, type Itinerary } from '@/lib/hexmap/naval-pathfinding';
+import { planItinerary, type ItineraryObjective } from '@/lib/itinerary-planner';
+import { STARTING_TRANSPORTS, TRAVEL_MS_PER_GAME_DAY } from '@/lib/travel-calculator';
+import { useHarbours } from '@/hooks/useHarbours';
+import { useExploration } from '@/hooks/useExploration';
+import { getStaleTile } from '@/lib/hexmap/exploration';
 import { TravelPanel } from './TravelPanel';
+import { addGameDays, gameDaysToRealMs, getGameDayNumber, realTimeToGameDate } from '@/lib/calendar';
 import { axialToPixel as toPixel } from '@/lib/hexmap/hex-utils';
 import { TerrainEditorPanel } from './TerrainEditorPanel';
 import { saveTerrainModification, loadAllModifications } from '@/lib/hexmap/terrain-storage';
 import type { TerrainFeature } from '@/lib/hexmap/types';
 import { useTravel } from '@/contexts/TravelContext';
-import type { DuchyTravel } from '@/contexts/TravelContext';
+import { toDuchyTravel, type DuchyTravel } from '@/contexts/TravelContext';
 import { DuchyTravelIndicator } from './DuchyTravelIndicator';
 
 interface ViewPort {
@@ -50,6 +58,8 @@ export function HexMap(): JSX.Element {
   const [travelOrigin, setTravelOrigin] = useState<HexTileType | null>(null);
   const [travelDestination, setTravelDestination] = useState<HexTileType | null>(null);
   const [travelPath, setTravelPath] = useState<HexCoordinates[] | null>(null);
+  const [departureOffsetDays, setDepartureOffsetDays] = useState<number>(0); // Planned departure, in game days from today
+  const [travelObjective, setTravelObjective] = useState<ItineraryObjective>('fastest');
   const [showTravelPanel, setShowTravelPanel] = useState<boolean>(false);
   // Terrain editor state
   const [isEditMode, setIsEditMode] = useState<boolean>(false);
@@ -65,19 +75,38 @@ export function HexMap(): JSX.Element {
   const [touchState, setTouchState] = useState<TouchState | null>(null);
   
   // Player location state for tracking position on Duchy map
-  // Initialize at a safe land position in Drantium continent
-  const [playerLocation, setPlayerLocation] = useState<{ q: number; r: number }>({ q: -70, r: -17 });
+  // Initialize where new players spawn until the server tells where the player stands
+  const [playerLocation, setPlayerLocation] = useState<{ q: number; r: number }>({ ...SPAWN_LOCATION });
   
   // Travel system using global context
-  const { activeTravel, startDuchyTravel, updateTravel } = useTravel();
+  const { activeTravel, location, startDuchyTravel, updateTravel, switchTravelLevel } = useTravel();
   const duchyTravel = activeTravel?.level === 'duchy' ? activeTravel : null;
+
+  // Start where the player stood at the end of their last journey, or where a resumed one is now
+  useEffect(() => {
+    if (location) setPlayerLocation({ q: location.q, r: location.r });
+  }, [location]);
+
+  const travellerPosition = duchyTravel?.currentPosition;
+  useEffect(() => {
+    if (travellerPosition) setPlayerLocation({ q: travellerPosition.q, r: travellerPosition.r });
+  }, [travellerPosition]);
+
+  // Follow a trip started inside a Duchy on the world map
+  useEffect(() => {
+    if (activeTravel?.level !== 'subland') return;
+
+    const { currentPosition } = toDuchyTravel(activeTravel);
+    setPlayerLocation({ q: currentPosition.q, r: currentPosition.r });
+    switchTravelLevel('duchy');
+  }, [activeTravel, switchTravelLevel]);
   
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
   const HEX_SIZE = 20;
-  const MAP_WIDTH = 400;
-  const MAP_HEIGHT = 200;
+  const MAP_WIDTH = DEFAULT_MAP_CONFIG.width;
+  const MAP_HEIGHT = DEFAULT_MAP_CONFIG.height;
 
   // Wrap viewport coordinates for east-west continuity
   const wrapViewport = (x: number, y: number, scale: number): { x: number; y: number } => {
@@ -103,12 +132,23 @@ export function HexMap(): JSX.Element {
 
   const gameTime = useGameTime();
   const { serverTime } = useServerTime();
+  const today = realTimeToGameDate(serverTime);
+  const departureDate = addGameDays(today, departureOffsetDays);
+  const departureDayNumber = getGameDayNumber(departureDate);
+  const harbours = useHarbours();
+
+  // Fog of war: what the player sees from where they stand, and what they have seen before
+  const exploration = useExploration(playerLocation, tiles);
+  const discovered = useMemo(
+    () => new Set([...exploration.visible, ...exploration.explored.keys()]),
+    [exploration.visible, exploration.explored]
+  );
 
   // Generate map on mount with current month - with error handling
   useEffect(() => {
     const generateMap = async (): Promise<void> => {
       try {
-        const generatedMap = await generateEarthMap(42, gameTime.monthNumber);
+        const generatedMap = await generateEarthMap(WORLD_SEED, gameTime.monthNumber);
         
         // Apply stored terrain modifications
         const modifications = loadAllModifications();
@@ -126,16 +166,7 @@ export function HexMap(): JSX.Element {
         // Regenerate coastal tiles after applying user modifications
         // This ensures coasts are correctly updated based on terrain changes
         // WITHOUT modifying deserts, tundras, or converting land to water
-        addCoastalTiles(generatedMap, {
-          width: 420,
-          height: 220,
-          hexSizeKm: 100,
-          continents: [
-            { centerQ: -70, centerR: -17, width: 70, height: 70, type: 'drantium' },
-            { centerQ: 70, centerR: 0, width: 70, height: 70, type: 'brontium' }
-          ],
-          islands: []
-        });
+        addCoastalTiles(generatedMap, DEFAULT_MAP_CONFIG);
         
         // Extract river edges from metadata
         const edges = (generatedMap as any).__riverEdges || [];
@@ -146,7 +177,7 @@ export function HexMap(): JSX.Element {
         console.error('Error generating map:', error);
         // Retry with default month if current month fails
         try {
-          const generatedMap = await generateEarthMap(42, 1);
+          const generatedMap = await generateEarthMap(WORLD_SEED, 1);
           setTiles(generatedMap);
         } catch (retryError) {
           console.error('Failed to generate map on retry:', retryError);
@@ -201,9 +232,9 @@ export function HexMap(): JSX.Element {
     
     for (let r = topLeft.r - padding; r <= bottomRight.r + padding; r++) {
       for (let q = topLeft.q - padding; q <= bottomRight.q + padding; q++) {
-        // Wrap q coordinate for east-west continuity
-        const wrappedQ = wrapCoordinates(q, MAP_WIDTH);
-        const key = getHexKey(wrappedQ, r);
+        // Wrap east-west for continuity (same row, one world over)
+        const wrapped = wrapHex(q, r, WORLD_MAP_WIDTH);
+        const key = getHexKey(wrapped.q, wrapped.r);
         const tile = tiles.get(key);
         if (tile) {
           visibleTiles.push(tile);
@@ -424,7 +455,7 @@ export function HexMap(): JSX.Element {
       }
       
       // Destination is land, now try to find a path
-      const path = findPath(travelOrigin.coordinates, tile.coordinates, tiles);
+      const path = findPath(travelOrigin.coordinates, tile.coordinates, tiles, departureDate);
       
       // Set destination and path (path will be null if no route exists)
       setTravelDestination(tile);
@@ -548,6 +579,16 @@ export function HexMap(): JSX.Element {
     setShowTravelPanel(true);
   };
 
+  const handleDepartureChange = (offsetDays: number): void => {
+    setDepartureOffsetDays(offsetDays);
+    
+    // Seasons change the best route, so recompute it for the new departure
+    if (travelOrigin && travelDestination && isDestinationReachable(travelDestination.coordinates, tiles)) {
+      const departure = addGameDays(today, offsetDays);
+      setTravelPath(findPath(travelOrigin.coordinates, travelDestination.coordinates, tiles, departure));
+    }
+  };
+
   const handleClearDestination = (): void => {
     setTravelDestination(null);
     setTravelPath(null);
@@ -558,15 +599,30 @@ export function HexMap(): JSX.Element {
     setTravelOrigin(null);
     setTravelDestination(null);
     setTravelPath(null);
+    setDepartureOffsetDays(0);
   };
 
+  // Plan the journey with the character's transports (land and sea legs), once per departure day
+  const travelPlan = useMemo(
+    () => travelOrigin && travelDestination && isDestinationReachable(travelDestination.coordinates, tiles)
+      ? planItinerary(travelOrigin.coordinates, travelDestination.coordinates, tiles, harbours, STARTING_TRANSPORTS, {
+          objective: travelObjective,
+          departureTime: new Date(serverTime.getTime() + gameDaysToRealMs(departureOffsetDays))
+        })
+      : null,
+    [travelOrigin, travelDestination, tiles, harbours, travelObjective, departureDayNumber]
+  );
+  const routePath = travelPlan ? getItineraryPath(travelPlan) : travelPath;
+
   // Calculate travel time if path exists
-  const travelTime = travelPath && travelPath.length > 0
-    ? calculatePathTravelTime(travelPath, tiles, 1.0) // 1.0 = on foot speed
+  const travelTime = travelPlan
+    ? travelPlan.totalTime
+    : travelPath && travelPath.length > 0
+    ? calculatePathTravelTime(travelPath, tiles, 1.0, departureDate) // 1.0 = on foot speed
     : 0;
 
-  const terrainSummary = travelPath && travelPath.length > 0
-    ? getPathTerrainSummary(travelPath, tiles)
+  const terrainSummary = routePath && routePath.length > 0
+    ? getPathTerrainSummary(routePath, tiles)
     : {};
 
   // Handle Duchy-level travel updates every second
@@ -575,11 +631,10 @@ export function HexMap(): JSX.Element {
     
     const updateInterval = setInterval(() => {
       updateTravel(prev => {
-        if (!prev || prev.level !== 'duchy') return null;
+        if (!prev || prev.level !== 'duchy') return prev;
         
         // Update elapsed time (1 second in real time = X progress in game days)
-        // With 0.5 duchies per day speed, we update proportionally
-        const newElapsedTime = prev.elapsedTime + (1 / 86400); // 1 second in days
+        const newElapsedTime = prev.elapsedTime + 1000 / TRAVEL_MS_PER_GAME_DAY;
         
         // Check if travel is complete
         if (newElapsedTime >= prev.totalTravelTime) {
@@ -631,7 +686,7 @@ export function HexMap(): JSX.Element {
     }
     
     // Calculate path using A* pathfinding
-    const path = findPath(playerLocation, destination, tiles);
+    const path = findPath(playerLocation, destination, tiles, today, getWalkingCostModel(DUCHY_WALKING_SPEED));
     
     if (!path || path.length === 0) {
       alert('No path found to destination! The destination may be across water.');
@@ -645,7 +700,7 @@ export function HexMap(): JSX.Element {
       if (!tile) return false;
       
       // Block if terrain is impassable
-      if (tile.terrain === 'ocean' || tile.terrain === 'coast' || tile.terrain === 'ice') {
+      if (tile.terrain === 'ocean' || tile.terrain === 'coast' || tile.terrain === 'ice' || tile.terrain === 'lake') {
         return true;
       }
       
@@ -659,11 +714,16 @@ export function HexMap(): JSX.Element {
     
     // Calculate travel time with terrain costs
     // Duchy Lands are 100x slower than SubLands: 0.5 duchies per day (vs 50 hexagons per day in SubLands)
-    const travelTime = calculatePathTravelTime(path, tiles, 0.5); // 0.5 duchies per day (100x slower)
+    const travelTime = calculatePathTravelTime(path, tiles, DUCHY_WALKING_SPEED, today); // 0.5 duchies per day (100x slower)
+    
+    if (!Number.isFinite(travelTime)) {
+      alert('The route closes for the season before you would arrive. Wait for the passes to reopen.');
+      return;
+    }
     
     // Create active travel object
     const startTime = new Date();
-    const estimatedArrival = new Date(startTime.getTime() + travelTime * 24 * 60 * 60 * 1000);
+    const estimatedArrival = new Date(startTime.getTime() + travelTime * TRAVEL_MS_PER_GAME_DAY);
     
     const originTile = tiles.get(getHexKey(playerLocation.q, playerLocation.r));
     
@@ -685,6 +745,42 @@ export function HexMap(): JSX.Element {
     setSelectedTile(null); // Close panel
   };
 
+  // Handler for starting a multimodal (land-sea-land) journey planned by DuchyPanel
+  const handleStartItineraryTravel = (destination: { q: number; r: number }, itinerary: Itinerary): void => {
+    if (duchyTravel) {
+      alert('You are already traveling! Wait until you arrive at your destination.');
+      return;
+    }
+
+    const path = getItineraryPath(itinerary);
+    const origin = createHexCoordinates(playerLocation.q, playerLocation.r);
+    const startTime = new Date();
+    const estimatedArrival = new Date(startTime.getTime() + itinerary.totalTime * TRAVEL_MS_PER_GAME_DAY);
+    const originTile = tiles.get(getHexKey(playerLocation.q, playerLocation.r));
+
+    startDuchyTravel({
+      id: `duchy-travel-${Date.now()}`,
+      origin,
+      destination: createHexCoordinates(destination.q, destination.r),
+      path,
+      currentPosition: origin,
+      currentHexIndex: 0,
+      totalTravelTime: itinerary.totalTime,
+      elapsedTime: 0,
+      startTime,
+      estimatedArrival,
+      terrainType: originTile?.terrain || 'plains',
+      shipId: itinerary.legs.find(leg => leg.mode === 'sea')?.transportId
+    });
+    setSelectedTile(null); // Close panel
+  };
+
+  const selectedKey = selectedTile ? getHexKey(selectedTile.coordinates.q, selectedTile.coordinates.r) : null;
+  const selectedVisibility = selectedKey ? exploration.getVisibility(selectedKey) : 'visible';
+  const selectedLastSeen = selectedKey && selectedVisibility === 'explored'
+    ? exploration.explored.get(selectedKey)
+    : undefined;
+
   return (
     <div ref={containerRef} className="fixed inset-0 bg-black overflow-hidden touch-none select-none">
       {/* Map HUD Frame - Top, Left, Right, Bottom bars */}
@@ -695,7 +791,7 @@ export function HexMap(): JSX.Element {
           slx: 2500,
           bzx: 1250
         }}
-        gameDate={`Year ${gameTime.yearNumber}, Month ${gameTime.monthNumber}, Day ${gameTime.dayNumber}`}
+        gameDate={formatGameDate(gameTime)}
         season={`North: ${gameTime.seasonInNorth} | South: ${gameTime.seasonInSouth}`}
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
@@ -715,6 +811,7 @@ export function HexMap(): JSX.Element {
           viewport={viewport}
           mapWidth={MAP_WIDTH}
           mapHeight={MAP_HEIGHT}
+          discovered={discovered}
           onNavigate={handleMiniMapNavigate}
         />
       </div>
@@ -724,7 +821,13 @@ export function HexMap(): JSX.Element {
         <TravelPanel
           startTile={travelOrigin}
           endTile={travelDestination}
-          path={travelPath}
+          path={routePath}
+          itinerary={travelPlan}
+          objective={travelObjective}
+          onObjectiveChange={setTravelObjective}
+          departureDate={departureDate}
+          departureOffsetDays={departureOffsetDays}
+          onDepartureChange={handleDepartureChange}
           travelTime={travelTime}
           terrainSummary={terrainSummary}
           onClose={handleCloseTravel}
@@ -762,10 +865,10 @@ export function HexMap(): JSX.Element {
         />
       )}
 
-      {/* Duchy Panel with Travel & Overview */}
+      {/* Duchy Panel with Travel & Overview (explored Duchies out of sight as last seen) */}
       {selectedTile && !showTravelPanel && !showEditorPanel && !duchyTravel && (
         <DuchyPanel
-          tile={selectedTile}
+          tile={selectedLastSeen ? getStaleTile(selectedTile, selectedLastSeen) : selectedTile}
           tiles={tiles}
           onClose={() => setSelectedTile(null)}
           currentPlayerLocation={playerLocation}
@@ -773,7 +876,10 @@ export function HexMap(): JSX.Element {
           currentMonth={gameTime.monthNumber}
           onStartTravel={handleStartTravel}
           onStartDuchyTravel={handleStartDuchyTravel}
+          onStartItineraryTravel={handleStartItineraryTravel}
           isCurrentlyTraveling={duchyTravel !== null}
+          visibility={selectedVisibility}
+          lastSeen={selectedLastSeen}
         />
       )}
 
@@ -805,16 +911,17 @@ export function HexMap(): JSX.Element {
             const { x, y } = axialToPixel(tile.coordinates.q, tile.coordinates.r, HEX_SIZE);
             
             // Check if this tile is on the travel path
-            const isOnPath = travelPath && travelPath.some(
+            const isOnPath = routePath && routePath.some(
               coord => coord.q === tile.coordinates.q && coord.r === tile.coordinates.r
             );
             
             // Check if this is the player's current location
             const isPlayerLocation = playerLocation.q === tile.coordinates.q && playerLocation.r === tile.coordinates.r;
+            const key = getHexKey(tile.coordinates.q, tile.coordinates.r);
             
             return (
               <HexTile
-                key={getHexKey(tile.coordinates.q, tile.coordinates.r)}
+                key={key}
                 tile={tile}
                 size={HEX_SIZE}
                 x={x}
@@ -829,14 +936,15 @@ export function HexMap(): JSX.Element {
                   ))
                 }
                 isOnPath={isOnPath || false}
+                visibility={isEditMode ? 'visible' : exploration.getVisibility(key)}
               />
             );
           })}
           
           {/* Draw path line */}
-          {travelPath && travelPath.length > 1 && (
+          {routePath && routePath.length > 1 && (
             <polyline
-              points={travelPath.map(coord => {
+              points={unwrapPath(routePath, WORLD_MAP_WIDTH).map(coord => {
                 const { x, y } = axialToPixel(coord.q, coord.r, HEX_SIZE);
                 return `${x},${y}`;
               }).join(' ')}
@@ -2,6 +2,7 @@
 
 import React from 'react';
 import type { HexTile as HexTileType } from '@/lib/hexmap/types';
+import type { TileVisibility } from '@/lib/hexmap/exploration';
 
 interface HexTileProps {
   tile: HexTileType;
@@ -11,6 +12,7 @@ interface HexTileProps {
   onClick: (tile: HexTileType, event?: React.MouseEvent) => void;
   selected: boolean;
   isOnPath?: boolean;
+  visibility?: TileVisibility; // Fog of war: unknown hexes show nothing, explored ones are dimmed
 }
 
 const TERRAIN_COLORS: Record<string, string> = {
@@ -22,7 +24,8 @@ const TERRAIN_COLORS: Record<string, string> = {
   hills: '#65a30d',    // Colinas - olive green
   mountain_range: '#78716c', // Cordillera
   tundra: '#cbd5e1',
-  desert: '#fcd34d'
+  desert: '#fcd34d',
+  lake: '#0ea5e9'
 };
 
 const TERRAIN_STROKE: Record<string, string> = {
@@ -34,10 +37,11 @@ const TERRAIN_STROKE: Record<string, string> = {
   hills: '#4d7c0f',    // Colinas stroke
   mountain_range: '#57534e', // Cordillera stroke
   tundra: '#94a3b8',
-  desert: '#fbbf24'
+  desert: '#fbbf24',
+  lake: '#0284c7'
 };
 
-export function HexTile({ tile, size, x, y, onClick, selected, isOnPath = false }: HexTileProps): JSX.Element {
+export function HexTile({ tile, size, x, y, onClick, selected, isOnPath = false, visibility = 'visible' }: HexTileProps): JSX.Element {
   const handleClick = (e: React.MouseEvent): void => {
     e.stopPropagation();
     onClick(tile, e);
@@ -51,6 +55,20 @@ export function HexTile({ tile, size, x, y, onClick, selected, isOnPath = false
     return `${px},${py}`;
   }).join(' ');
 
+  // Unexplored: fog only, nothing of the terrain or its resources
+  if (visibility === 'unknown') {
+    return (
+      <g onClick={handleClick} style={{ cursor: 'pointer' }}>
+        <polygon
+          points={points}
+          fill="#111827"
+          stroke={selected ? '#fbbf24' : isOnPath ? '#fbbf24' : '#1f2937'}
+          strokeWidth={selected ? 3 : 1.5}
+        />
+      </g>
+    );
+  }
+
   const color = TERRAIN_COLORS[tile.terrain] || '#666';
   const strokeColor = TERRAIN_STROKE[tile.terrain] || '#000';
   
@@ -1055,6 +1073,11 @@ export function HexTile({ tile, size, x, y, onClick, selected, isOnPath = false
           +{allResources.length - 2}
         </text>
       )}
+
+      {/* Explored but out of sight: dimmed, as last seen */}
+      {visibility === 'explored' && (
+        <polygon points={points} fill="#000000" opacity={0.45} pointerEvents="none" />
+      )}
     </g>
   );
 }
@@ -2,17 +2,21 @@
 
 import React, { useMemo } from 'react';
 import type { HexTile } from '@/lib/hexmap/types';
-import { getTerrainColor, axialToPixel } from '@/lib/hexmap/hex-utils';
+import { getTerrainColor, axialToPixel, getHexKey } from '@/lib/hexmap/hex-utils';
 
 interface MiniMapProps {
   tiles: Map<string, HexTile>;
   viewport: { x: number; y: number; scale: number };
   mapWidth: number;
   mapHeight: number;
+  discovered: Set<string>; // Hex keys the player has seen (fog of war)
   onNavigate: (x: number, y: number) => void;
 }
 
-export function MiniMap({ tiles, viewport, mapWidth, mapHeight, onNavigate }: MiniMapProps): JSX.Element {
+// Most tiles drawn on the minimap, for performance
+const MAX_MINIMAP_TILES = 2000;
+
+export function MiniMap({ tiles, viewport, mapWidth, mapHeight, discovered, onNavigate }: MiniMapProps): JSX.Element {
   const miniMapWidth = 200;
   const miniMapHeight = 100;
   const HEX_SIZE = 20; // Must match HexMap component
@@ -44,10 +48,14 @@ export function MiniMap({ tiles, viewport, mapWidth, mapHeight, onNavigate }: Mi
     };
   }, [tiles]);
   
-  // Sample tiles for minimap (show every 8th tile for performance)
+  // Only discovered regions are drawn, sampled when they grow large
   const sampledTiles = useMemo(() => {
-    return Array.from(tiles.values()).filter((_, i) => i % 8 === 0);
-  }, [tiles]);
+    const discoveredTiles = Array.from(tiles.values()).filter(
+      (tile) => discovered.has(getHexKey(tile.coordinates.q, tile.coordinates.r))
+    );
+    const step = Math.max(1, Math.ceil(discoveredTiles.length / MAX_MINIMAP_TILES));
+    return discoveredTiles.filter((_, i) => i % step === 0);
+  }, [tiles, discovered]);
 
   const handleMiniMapClick = (e: React.MouseEvent<SVGSVGElement>): void => {
     const rect = e.currentTarget.getBoundingClientRect();
@@ -112,7 +120,7 @@ export function MiniMap({ tiles, viewport, mapWidth, mapHeight, onNavigate }: Mi
           className="bg-blue-950 cursor-pointer rounded border border-yellow-600/50"
           onClick={handleMiniMapClick}
         >
-          {/* Draw sampled tiles */}
+          {/* Draw discovered tiles (the rest of the world stays dark) */}
           {sampledTiles.map((tile) => {
             const { x, y } = axialToPixel(tile.coordinates.q, tile.coordinates.r, HEX_SIZE);
             
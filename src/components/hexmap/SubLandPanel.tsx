@@ -2,13 +2,15 @@
 
 import type { ReactElement } from 'react';
 import { useState, useEffect } from 'react';
-import { X, Navigation, Clock, MapPin } from 'lucide-react';
+import { X, Navigation, Clock, MapPin, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import type { SubLand } from '@/lib/sublands/types';
+import type { Season } from '@/lib/hexmap/types';
 import { useRouter } from 'next/navigation';
-import { findSubLandPath } from '@/lib/hexmap/subland-pathfinding';
+import { findSubLandPath, getSubLandTerrain } from '@/lib/hexmap/subland-pathfinding';
 import { calculateSubLandTravel } from '@/lib/travel-calculator';
+import { getClaimLifecycle, type ClaimStage } from '@/lib/sublands/claims';
 
 interface SubLandPanelProps {
   subland: SubLand;
@@ -20,6 +22,10 @@ interface SubLandPanelProps {
   onStartTravel?: (destination: { q: number; r: number }) => void;
   isCurrentlyTraveling?: boolean;
   sublands?: SubLand[]; // All sublands for terrain/biome data
+  currentWallet?: string; // Wallet of the signed-in player, to show owner actions
+  onRenewClaim?: (subland: SubLand) => void;
+  isRenewing?: boolean;
+  season?: Season; // Current season in the parent Duchy, affects travel time
 }
 
 export function SubLandPanel({ 
@@ -31,11 +37,18 @@ export function SubLandPanel({
   onNavigate,
   onStartTravel,
   isCurrentlyTraveling = false,
-  sublands = []
+  sublands = [],
+  currentWallet,
+  onRenewClaim,
+  isRenewing = false,
+  season
 }: SubLandPanelProps): ReactElement {
   const router = useRouter();
   
   const isPlayerHere = playerPosition?.q === subland.q && playerPosition?.r === subland.r;
+  const claim = getClaimLifecycle(subland);
+  const isOwner = !!currentWallet && subland.owner === currentWallet;
+  const canRenew = isOwner && (claim.stage === 'renewable' || claim.stage === 'grace');
   
   // Calculate travel info with terrain costs
   const [travelInfo, setTravelInfo] = useState<{
@@ -51,30 +64,17 @@ export function SubLandPanel({
       return;
     }
     
-    // Calculate path using A*
-    const path = findSubLandPath(playerPosition, { q: subland.q, r: subland.r });
+    // Calculate path using A* around the terrain of the Duchy
+    const terrain = getSubLandTerrain(sublands);
+    const path = findSubLandPath(playerPosition, { q: subland.q, r: subland.r }, terrain, season);
     
     if (!path || path.length === 0) {
       setTravelInfo(null);
       return;
     }
     
-    // Build biome and feature maps
-    const biomeMap = new Map<string, string>();
-    const featureMap = new Map<string, string[]>();
-    
-    for (const hex of path) {
-      const sl = sublands.find(s => s.q === hex.q && s.r === hex.r);
-      if (sl) {
-        const hexKey = `${hex.q},${hex.r}`;
-        biomeMap.set(hexKey, sl.biomeType);
-        // For now, features are empty - can be extended later
-        featureMap.set(hexKey, []);
-      }
-    }
-    
     // Calculate travel time with terrain costs
-    const travelCalc = calculateSubLandTravel(path, biomeMap, featureMap);
+    const travelCalc = calculateSubLandTravel(path, terrain.biomes, terrain.features, season);
     const distance = calculateDistance(playerPosition.q, playerPosition.r, subland.q, subland.r);
     
     setTravelInfo({
@@ -83,7 +83,7 @@ export function SubLandPanel({
       distance,
       pathLength: path.length - 1
     });
-  }, [playerPosition, subland, isPlayerHere, sublands]);
+  }, [playerPosition, subland, isPlayerHere, sublands, season]);
   
   const handleNavigateToXLand = (): void => {
     // Navigate to xLand overview page for this specific 1km hexagon
@@ -123,6 +123,52 @@ export function SubLandPanel({
             <span className="text-blue-300">{getResourceName(subland.resourceType)}</span>
           </div>
           
+          {claim.stage !== 'unclaimed' && (
+            <div className={`p-2 rounded border ${getClaimStageStyle(claim.stage)}`}>
+              <div className="flex justify-between mb-1">
+                <span className="text-white/70">Owner:</span>
+                <span className="text-white">
+                  {isOwner ? 'You' : subland.ownerName || (subland.owner ? `${subland.owner.slice(0, 6)}...${subland.owner.slice(-4)}` : 'Unknown')}
+                </span>
+              </div>
+              <div className="flex justify-between text-[10px]">
+                <span className="text-white/70">Claim:</span>
+                <span className="text-white font-semibold">{getClaimStageLabel(claim.stage)}</span>
+              </div>
+              {claim.expiresAt && claim.stage !== 'grace' && claim.stage !== 'lapsed' && (
+                <div className="flex justify-between text-[10px]">
+                  <span className="text-white/70">Expires:</span>
+                  <span className="text-white">{claim.expiresAt.toLocaleDateString()} ({formatDaysLeft(claim.expiresAt)})</span>
+                </div>
+              )}
+              {claim.stage === 'grace' && claim.graceEndsAt && (
+                <p className="text-orange-200 text-[10px] mt-1">
+                  ⚠️ Expired. Reverts to virgin land on {claim.graceEndsAt.toLocaleDateString()} ({formatDaysLeft(claim.graceEndsAt)}) unless renewed.
+                </p>
+              )}
+              {claim.stage === 'lapsed' && (
+                <p className="text-red-200 text-[10px] mt-1">
+                  This claim has lapsed and is open to new claims.
+                </p>
+              )}
+              {claim.stage === 'permanent' && (
+                <p className="text-white/60 text-[10px] mt-1 italic">
+                  Developed land renews automatically while it has buildings.
+                </p>
+              )}
+              {canRenew && onRenewClaim && (
+                <Button
+                  onClick={() => onRenewClaim(subland)}
+                  disabled={isRenewing}
+                  className="w-full mt-2 bg-gradient-to-r from-amber-600 to-orange-600 text-xs h-7"
+                >
+                  <RefreshCw className="w-3 h-3 mr-1" />
+                  {isRenewing ? 'Renewing...' : 'Renew Claim (6 months)'}
+                </Button>
+              )}
+            </div>
+          )}
+          
           {isPlayerHere && (
             <div className="bg-green-500/20 p-2 rounded border border-green-500/50">
               <p className="text-green-300 text-xs font-bold">📍 You are here</p>
@@ -192,6 +238,7 @@ function getResourceName(resourceType: string): string {
   if (resourceType === 'standard') return 'Standard Land';
   if (resourceType === 'coastal_land') return 'Coastal Land';
   if (resourceType === 'coastal_inland') return 'Coastal Inland';
+  if (resourceType === 'lakeshore') return 'Lakeshore';
   if (resourceType.startsWith('mine_')) {
     const mineral = resourceType.split('_')[1];
     return `${mineral.charAt(0).toUpperCase()}${mineral.slice(1)} Mine`;
@@ -203,6 +250,32 @@ function getResourceName(resourceType: string): string {
   return resourceType;
 }
 
+function getClaimStageLabel(stage: ClaimStage): string {
+  switch (stage) {
+    case 'active': return 'Active';
+    case 'renewable': return 'Renewal open';
+    case 'grace': return 'Grace period';
+    case 'lapsed': return 'Lapsed';
+    case 'permanent': return 'Developed';
+    default: return 'Unclaimed';
+  }
+}
+
+function getClaimStageStyle(stage: ClaimStage): string {
+  switch (stage) {
+    case 'renewable': return 'bg-amber-500/20 border-amber-500/50';
+    case 'grace': return 'bg-orange-500/20 border-orange-500/50';
+    case 'lapsed': return 'bg-red-500/20 border-red-500/50';
+    case 'permanent': return 'bg-purple-500/20 border-purple-500/50';
+    default: return 'bg-blue-500/20 border-blue-500/50';
+  }
+}
+
+function formatDaysLeft(date: Date): string {
+  const days = Math.ceil((date.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  return days === 1 ? '1 day left' : `${Math.max(0, days)} days left`;
+}
+
 function calculateDistance(q1: number, r1: number, q2: number, r2: number): number {
   // Hexagonal distance calculation
   return (Math.abs(q1 - q2) + Math.abs(r1 - r2) + Math.abs((q1 + r1) - (q2 + r2))) / 2;
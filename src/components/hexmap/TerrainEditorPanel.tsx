@@ -16,6 +16,7 @@ interface TerrainEditorPanelProps {
 const TERRAIN_OPTIONS: { value: TerrainType; label: string; color: string }[] = [
   { value: 'ocean', label: 'Ocean', color: '#1e40af' },
   { value: 'coast', label: 'Coast', color: '#3b82f6' },
+  { value: 'lake', label: 'Lake', color: '#0ea5e9' },
   { value: 'ice', label: 'Ice', color: '#e0f2fe' },
   { value: 'tundra', label: 'Tundra', color: '#cbd5e1' },
   { value: 'mountain', label: 'Mountain', color: '#64748b' },
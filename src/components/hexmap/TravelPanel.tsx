@@ -3,22 +3,48 @@
 import React from 'react';
 import type { HexTile } from '@/lib/hexmap/types';
 import type { HexCoordinates } from '@/lib/hexmap/types';
+import type { GameDate } from '@/lib/calendar/types';
+import { DAY_MS, addGameDays, formatGameDate, getSeasonForMonth } from '@/lib/calendar';
+import { TRAVEL_MS_PER_GAME_DAY } from '@/lib/travel-calculator';
+import { formatSeason } from '@/lib/hexmap/season-system';
+import type { ItineraryObjective, PlannedItinerary } from '@/lib/itinerary-planner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Navigation, MapPin, Clock, Route, X, AlertTriangle } from 'lucide-react';
+import { Navigation, MapPin, Clock, Route, X, AlertTriangle, CalendarDays, Package } from 'lucide-react';
 
 interface TravelPanelProps {
   startTile: HexTile;
   endTile: HexTile | null;
   path: HexCoordinates[] | null;
-  travelTime: number;
+  itinerary: PlannedItinerary | null;
+  objective: ItineraryObjective;
+  onObjectiveChange: (objective: ItineraryObjective) => void;
+  departureDate: GameDate;
+  departureOffsetDays: number;
+  onDepartureChange: (offsetDays: number) => void;
+  travelTime: number; // game days, Infinity if the route closes on the way
   terrainSummary: Record<string, number>;
   onClose: () => void;
   onClearDestination: () => void;
 }
 
+// Departure options, in game days from today
+const DEPARTURE_OPTIONS: Array<{ label: string; days: number }> = [
+  { label: 'Now', days: 0 },
+  { label: '+1 week', days: 7 },
+  { label: '+1 month', days: 28 },
+  { label: '+3 months', days: 84 },
+  { label: '+6 months', days: 168 }
+];
+
+const OBJECTIVE_OPTIONS: Array<{ label: string; objective: ItineraryObjective }> = [
+  { label: 'Fastest', objective: 'fastest' },
+  { label: 'Cheapest', objective: 'cheapest' },
+  { label: 'Max cargo', objective: 'max-cargo' }
+];
+
 const TERRAIN_DISPLAY: Record<string, { name: string; color: string; icon: string }> = {
   plains: { name: 'Plains', color: 'bg-green-500', icon: '🌾' },
   meadow: { name: 'Meadow', color: 'bg-green-400', icon: '🌸' },
@@ -30,6 +56,7 @@ const TERRAIN_DISPLAY: Record<string, { name: string; color: string; icon: strin
   jungle: { name: 'Jungle', color: 'bg-green-900', icon: '🌴' },
   ocean: { name: 'Ocean', color: 'bg-blue-600', icon: '🌊' },
   coast: { name: 'Coast', color: 'bg-blue-400', icon: '🏖️' },
+  lake: { name: 'Lake', color: 'bg-sky-500', icon: '🏞️' },
   ice: { name: 'Ice', color: 'bg-cyan-100', icon: '🧊' }
 };
 
@@ -37,6 +64,12 @@ export function TravelPanel({
   startTile,
   endTile,
   path,
+  itinerary,
+  objective,
+  onObjectiveChange,
+  departureDate,
+  departureOffsetDays,
+  onDepartureChange,
   travelTime,
   terrainSummary,
   onClose,
@@ -48,6 +81,10 @@ export function TravelPanel({
   // Calculate distance
   const distance = path ? path.length - 1 : 0;
 
+  const isRouteOpen = Number.isFinite(travelTime);
+  const arrivalDate = isRouteOpen ? addGameDays(departureDate, travelTime) : null;
+  const departureSeason = getSeasonForMonth(departureDate.month, startTile.hemisphere);
+
   return (
     <Card className="fixed top-20 left-4 w-96 max-h-[calc(100vh-120px)] overflow-y-auto z-20 bg-black/90 text-white border-2 border-amber-500/50 shadow-xl">
       <CardHeader className="pb-3">
@@ -113,6 +150,62 @@ export function TravelPanel({
           )}
         </div>
 
+        <Separator className="bg-amber-500/30" />
+
+        {/* Departure */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm font-semibold text-amber-400">
+            <CalendarDays className="w-4 h-4" />
+            Departure
+          </div>
+          <div className="ml-6 flex flex-wrap gap-1">
+            {DEPARTURE_OPTIONS.map(option => (
+              <Button
+                key={option.days}
+                variant="ghost"
+                size="sm"
+                onClick={() => onDepartureChange(option.days)}
+                className={`h-7 px-2 text-xs ${
+                  departureOffsetDays === option.days
+                    ? 'bg-amber-500/30 text-amber-200'
+                    : 'text-gray-300 hover:bg-amber-500/20'
+                }`}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <div className="ml-6 text-sm">
+            <div>{formatGameDate(departureDate)}</div>
+            <div className="text-gray-400">Season at origin: {formatSeason(departureSeason)}</div>
+          </div>
+        </div>
+
+        {/* Route preference */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm font-semibold text-amber-400">
+            <Package className="w-4 h-4" />
+            Route Preference
+          </div>
+          <div className="ml-6 flex flex-wrap gap-1">
+            {OBJECTIVE_OPTIONS.map(option => (
+              <Button
+                key={option.objective}
+                variant="ghost"
+                size="sm"
+                onClick={() => onObjectiveChange(option.objective)}
+                className={`h-7 px-2 text-xs ${
+                  objective === option.objective
+                    ? 'bg-amber-500/30 text-amber-200'
+                    : 'text-gray-300 hover:bg-amber-500/20'
+                }`}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
         {/* Route Information */}
         {path && path.length > 0 ? (
           <>
@@ -130,18 +223,73 @@ export function TravelPanel({
                   <span className="font-semibold">{distance} hexes</span>
                 </div>
                 
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-300">Travel Time:</span>
-                  <span className="font-semibold">{travelTime.toFixed(1)} game days</span>
-                </div>
-                
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-300">Real Time:</span>
-                  <span className="font-semibold">{(travelTime / 4).toFixed(2)} days</span>
-                </div>
+                {isRouteOpen ? (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-300">Travel Time:</span>
+                      <span className="font-semibold">{travelTime.toFixed(1)} game days</span>
+                    </div>
+                    
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-300">Real Time:</span>
+                      <span className="font-semibold">{(travelTime * TRAVEL_MS_PER_GAME_DAY / DAY_MS).toFixed(2)} days</span>
+                    </div>
+                    
+                    {arrivalDate && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-300">Arrival:</span>
+                        <span className="font-semibold">{formatGameDate(arrivalDate)}</span>
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div className="flex items-center gap-2 p-2 bg-red-900/30 border border-red-500/50 rounded-md text-xs text-red-200">
+                    <AlertTriangle className="w-4 h-4 text-red-400 flex-shrink-0" />
+                    Winter closes a mountain pass on this route before you get there. Try another departure date.
+                  </div>
+                )}
               </div>
             </div>
 
+            {itinerary && itinerary.calculations.length > 0 && (
+              <>
+                <Separator className="bg-amber-500/30" />
+
+                {/* Itinerary legs */}
+                <div className="space-y-3">
+                  <div className="text-sm font-semibold text-amber-400">
+                    Itinerary ({itinerary.calculations.length} {itinerary.calculations.length === 1 ? 'leg' : 'legs'})
+                  </div>
+
+                  <div className="space-y-2">
+                    {itinerary.calculations.map((leg, index) => (
+                      <div key={index} className="p-2 bg-amber-900/20 border border-amber-500/30 rounded-md text-xs space-y-1">
+                        <div className="flex justify-between">
+                          <span className="font-semibold">{leg.selectedTransport.icon} {leg.selectedTransport.name}</span>
+                          <span>{leg.distance} hexes · {leg.travelTime.toFixed(1)} days</span>
+                        </div>
+                        <div className="flex justify-between text-gray-400">
+                          <span>{leg.fromDuchy} → {leg.toDuchy}</span>
+                          <span>{formatGameDate(leg.arrivalGameDate)}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="ml-6 space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Upkeep:</span>
+                      <span className="font-semibold">{Math.round(itinerary.totalCost)} SLX</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Cargo capacity:</span>
+                      <span className="font-semibold">{itinerary.cargoCapacity} Jax</span>
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+
             <Separator className="bg-amber-500/30" />
 
             {/* Terrain Summary */}
@@ -180,7 +328,7 @@ export function TravelPanel({
               <div className="text-sm text-red-200">
                 <div className="font-semibold">No path available!</div>
                 <div className="text-xs mt-1">
-                  The destination is unreachable by foot. You may need a ship to cross water.
+                  The destination is unreachable with your transports. Ships need a harbour at both ends of the crossing; snowed-in passes reopen with a later departure.
                 </div>
               </div>
             </div>
@@ -191,7 +339,9 @@ export function TravelPanel({
         <Separator className="bg-amber-500/30" />
         <div className="text-xs text-gray-400 space-y-1">
           <div>💡 <span className="font-semibold">Tip:</span> Mountains and forests slow travel</div>
-          <div>💡 <span className="font-semibold">Tip:</span> Water cannot be crossed on foot</div>
+          <div>💡 <span className="font-semibold">Tip:</span> Water is crossed by ship between ports, docks and shipyards</div>
+          <div>💡 <span className="font-semibold">Tip:</span> Camels cross deserts fastest, carts cannot cross mountain ranges</div>
+          <div>💡 <span className="font-semibold">Tip:</span> Winter snows in northern passes, spring floods slow river crossings, summer heat slows desert travel</div>
           <div>💡 <span className="font-semibold">Tip:</span> Click any hex to set as destination</div>
         </div>
       </CardContent>
@@ -1,7 +1,8 @@
 'use client';
 
-import React, { useState } from 'react';
-import type { Technology, TechnologyCategory } from '@/lib/science/types';
+import React, { useState, useEffect } from 'react';
+import { sdk } from '@farcaster/miniapp-sdk';
+import type { PlayerProgress, Technology, TechnologyCategory } from '@/lib/science/types';
 import { TECHNOLOGIES, TRADES, RELIGIONS, canResearchTech } from '@/lib/science/tech-tree';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -48,20 +49,59 @@ export function TechTree({ wallet }: TechTreeProps): JSX.Element {
   const [selectedTech, setSelectedTech] = useState<Technology | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<TechnologyCategory>('trades');
 
-  const handleResearch = (tech: Technology): void => {
+  // Load stored progress for the connected wallet
+  useEffect(() => {
+    if (!wallet) return;
+
+    fetch(`/api/progress/${encodeURIComponent(wallet)}`)
+      .then(response => response.ok ? response.json() as Promise<{ progress: PlayerProgress }> : null)
+      .then(data => {
+        if (!data) return;
+        setResearchedTechs(data.progress.researchedTechs);
+        setCurrentResearch(data.progress.currentResearch);
+        setResearchProgress(data.progress.researchProgress);
+        setKnowledgePoints(data.progress.knowledgePoints);
+      })
+      .catch(error => {
+        console.error('Error loading research progress:', error);
+      });
+  }, [wallet]);
+
+  const handleResearch = async (tech: Technology): Promise<void> => {
     if (!canResearchTech(tech, researchedTechs)) {
       alert('Prerequisites not met!');
       return;
     }
 
-    if (knowledgePoints >= tech.researchCost) {
-      setKnowledgePoints(prev => prev - tech.researchCost);
-      setResearchedTechs(prev => [...prev, tech.id]);
-      setCurrentResearch(null);
-      setResearchProgress(0);
-      alert(`${tech.name} researched!`);
-    } else {
+    if (knowledgePoints < tech.researchCost) {
       alert(`Need ${tech.researchCost} knowledge points. You have ${knowledgePoints}.`);
+      return;
+    }
+
+    if (!wallet) return;
+
+    // The server checks prerequisites and cost again and charges the knowledge points
+    try {
+      const response = await sdk.quickAuth.fetch(`/api/progress/${encodeURIComponent(wallet)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ techId: tech.id })
+      });
+      const data = await response.json() as { progress?: PlayerProgress; error?: string };
+
+      if (!response.ok || !data.progress) {
+        alert(data.error ?? 'Failed to research');
+        return;
+      }
+
+      setResearchedTechs(data.progress.researchedTechs);
+      setCurrentResearch(data.progress.currentResearch);
+      setResearchProgress(data.progress.researchProgress);
+      setKnowledgePoints(data.progress.knowledgePoints);
+      alert(`${tech.name} researched!`);
+    } catch (error) {
+      console.error('Error researching technology:', error);
+      alert('Failed to research');
     }
   };
 
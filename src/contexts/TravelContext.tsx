@@ -1,7 +1,14 @@
 'use client';
 
-import { createContext, useContext, useState, type ReactNode } from 'react';
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { sdk } from '@farcaster/miniapp-sdk';
+import { toast } from 'sonner';
 import type { HexCoordinates } from '@/lib/hexmap/types';
+import { createHexCoordinates } from '@/lib/hexmap/hex-utils';
+import { findCrossBorderSubLandPath, type DuchySubLandTerrain } from '@/lib/hexmap/subland-pathfinding';
+import type { SubLandPosition } from '@/lib/sublands/coordinates';
+import { getJourneyProgress } from '@/lib/travel-calculator';
+import { getServerNow, useServerClock } from '@/hooks/useServerTime';
 
 export type TravelLevel = 'duchy' | 'subland' | null;
 
@@ -18,17 +25,18 @@ export interface DuchyTravel {
   startTime: Date;
   estimatedArrival: Date;
   terrainType: string;
+  sublandPath?: SubLandPosition[]; // Route at SubLand level, when known (see switchTravelLevel)
+  shipId?: string; // Ship of a land-sea-land journey (on foot otherwise)
 }
 
+// SubLand positions are global (Duchy and local coordinates), so a trip can cross Duchy borders
 export interface SublandTravel {
   id: string;
   level: 'subland';
-  parentQ: number;
-  parentR: number;
-  origin: { q: number; r: number };
-  destination: { q: number; r: number };
-  path: Array<{ q: number; r: number }>;
-  currentPosition: { q: number; r: number };
+  origin: SubLandPosition;
+  destination: SubLandPosition;
+  path: SubLandPosition[];
+  currentPosition: SubLandPosition;
   currentHexIndex: number;
   totalTravelTime: number; // in hours
   elapsedTime: number; // in hours
@@ -39,49 +47,305 @@ export interface SublandTravel {
 
 export type ActiveTravel = DuchyTravel | SublandTravel | null;
 
+/**
+ * Where the player stands when not traveling, as stored on the server
+ */
+export interface PlayerLocation {
+  q: number; // Duchy
+  r: number;
+  subland?: { q: number; r: number }; // SubLand inside the Duchy, when known
+}
+
+/**
+ * A journey as stored on the server (/api/travel)
+ */
+interface StoredJourney {
+  id: string;
+  level: 'duchy' | 'subland';
+  path: Array<{ q: number; r: number; parentQ?: number; parentR?: number }>;
+  totalTravelTime: number;
+  startTime: string;
+  estimatedArrival: string;
+}
+
+/**
+ * Resume a stored journey where the traveller is now, by the server clock
+ */
+function resumeTravel(journey: StoredJourney, now: Date): ActiveTravel {
+  const schedule = {
+    path: journey.path,
+    totalTravelTime: journey.totalTravelTime,
+    startTime: new Date(journey.startTime),
+    estimatedArrival: new Date(journey.estimatedArrival)
+  };
+  const { elapsedTime, currentHexIndex, arrived } = getJourneyProgress(schedule, now);
+  if (arrived) return null;
+
+  if (journey.level === 'duchy') {
+    const path = journey.path.map(hex => createHexCoordinates(hex.q, hex.r));
+    return {
+      ...schedule,
+      id: journey.id,
+      level: 'duchy',
+      origin: path[0],
+      destination: path[path.length - 1],
+      path,
+      currentPosition: path[currentHexIndex],
+      currentHexIndex,
+      elapsedTime,
+      terrainType: 'plains'
+    };
+  }
+
+  const path = journey.path.map(({ parentQ = 0, parentR = 0, q, r }) => ({ parentQ, parentR, q, r }));
+  return {
+    ...schedule,
+    id: journey.id,
+    level: 'subland',
+    origin: path[0],
+    destination: path[path.length - 1],
+    path,
+    currentPosition: path[currentHexIndex],
+    currentHexIndex,
+    elapsedTime,
+    biomeType: 'plains'
+  };
+}
+
+/**
+ * Follow a SubLand trip on the world map: the Duchies it crosses, on the same schedule
+ */
+export function toDuchyTravel(travel: SublandTravel): DuchyTravel {
+  const path: HexCoordinates[] = [];
+  let currentHexIndex = 0;
+
+  travel.path.forEach((position, index) => {
+    const last = path[path.length - 1];
+    if (!last || last.q !== position.parentQ || last.r !== position.parentR) {
+      path.push(createHexCoordinates(position.parentQ, position.parentR));
+    }
+    if (index <= travel.currentHexIndex) currentHexIndex = path.length - 1;
+  });
+
+  return {
+    id: travel.id,
+    level: 'duchy',
+    origin: path[0],
+    destination: path[path.length - 1],
+    path,
+    currentPosition: path[currentHexIndex],
+    currentHexIndex,
+    totalTravelTime: travel.totalTravelTime / 24,
+    elapsedTime: travel.elapsedTime / 24,
+    startTime: travel.startTime,
+    estimatedArrival: travel.estimatedArrival,
+    terrainType: travel.biomeType,
+    sublandPath: travel.path
+  };
+}
+
+/**
+ * Follow a Duchy trip at SubLand level, on the same schedule
+ * Without a known SubLand route, one is planned from Duchy center to Duchy center along its path;
+ * null if some leg cannot be walked at SubLand level (e.g. a sea crossing)
+ */
+export function toSublandTravel(
+  travel: DuchyTravel,
+  getDuchyTerrain: (parentQ: number, parentR: number) => DuchySubLandTerrain | null
+): SublandTravel | null {
+  let path = travel.sublandPath ?? null;
+
+  if (!path) {
+    const centers = travel.path.map(hex => ({ parentQ: hex.q, parentR: hex.r, q: 0, r: 0 }));
+    path = centers.slice(0, 1);
+    for (let i = 1; i < centers.length && path; i++) {
+      const leg = findCrossBorderSubLandPath(centers[i - 1], centers[i], getDuchyTerrain);
+      path = leg ? [...path, ...leg.slice(1)] : null;
+    }
+  }
+  if (!path || path.length === 0) return null;
+
+  const progressRatio = travel.totalTravelTime > 0 ? travel.elapsedTime / travel.totalTravelTime : 0;
+  const currentHexIndex = Math.min(Math.floor(progressRatio * (path.length - 1)), path.length - 1);
+  const currentPosition = path[currentHexIndex];
+
+  return {
+    id: travel.id,
+    level: 'subland',
+    origin: path[0],
+    destination: path[path.length - 1],
+    path,
+    currentPosition,
+    currentHexIndex,
+    totalTravelTime: travel.totalTravelTime * 24,
+    elapsedTime: travel.elapsedTime * 24,
+    startTime: travel.startTime,
+    estimatedArrival: travel.estimatedArrival,
+    biomeType: getDuchyTerrain(currentPosition.parentQ, currentPosition.parentR)?.terrain.biomes
+      .get(`${currentPosition.q},${currentPosition.r}`) ?? travel.terrainType
+  };
+}
+
 interface TravelContextType {
   activeTravel: ActiveTravel;
+  location: PlayerLocation | null; // Last stored location (the spawn for new players), null until loaded
   startDuchyTravel: (travel: Omit<DuchyTravel, 'level'>) => void;
   startSublandTravel: (travel: Omit<SublandTravel, 'level'>) => void;
   updateTravel: (updater: (prev: ActiveTravel) => ActiveTravel) => void;
-  cancelTravel: () => void;
+  switchTravelLevel: (
+    level: 'duchy' | 'subland',
+    getDuchyTerrain?: (parentQ: number, parentR: number) => DuchySubLandTerrain | null
+  ) => void;
+  cancelTravel: () => Promise<void>;
 }
 
 const TravelContext = createContext<TravelContextType | undefined>(undefined);
 
 export function TravelProvider({ children }: { children: ReactNode }): JSX.Element {
   const [activeTravel, setActiveTravel] = useState<ActiveTravel>(null);
+  const [location, setLocation] = useState<PlayerLocation | null>(null);
+  const { synced } = useServerClock();
+
+  // Resume the stored journey once the server clock is known
+  useEffect(() => {
+    if (!synced) return;
+
+    const loadTravel = async (): Promise<void> => {
+      try {
+        const response: Response = await sdk.quickAuth.fetch('/api/travel');
+        if (!response.ok) return;
+
+        const data: { location: PlayerLocation | null; travel: StoredJourney | null } = await response.json();
+        setLocation(data.location);
+        if (data.travel) {
+          const resumed = resumeTravel(data.travel, getServerNow());
+          setActiveTravel(prev => prev ?? resumed);
+        }
+      } catch (error) {
+        console.error('Failed to load travel:', error);
+      }
+    };
+
+    loadTravel();
+  }, [synced]);
+
+  // Store a new journey; the server plans its route and sets its schedule. Without a session it stays local only
+  const saveTravel = async (travel: NonNullable<ActiveTravel>): Promise<void> => {
+    try {
+      const response: Response = await sdk.quickAuth.fetch('/api/travel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          level: travel.level,
+          origin: travel.origin,
+          destination: travel.destination,
+          ...(travel.level === 'duchy' && travel.shipId ? { shipId: travel.shipId } : {})
+        })
+      });
+
+      if (response.status === 401) return;
+      const data: { travel?: StoredJourney; error?: string } = await response.json();
+
+      if (!response.ok || !data.travel) {
+        toast.error(data.error ?? 'Could not start the journey.');
+        setActiveTravel(prev => (prev?.id === travel.id ? null : prev));
+        return;
+      }
+
+      // The stored journey replaces the local plan: encounters on the way can delay a Duchy journey
+      // or send it around a flooded ford
+      const { id, path, totalTravelTime, startTime, estimatedArrival } = data.travel;
+      setActiveTravel(prev => {
+        if (prev?.id !== travel.id) return prev;
+        const schedule = { id, totalTravelTime, startTime: new Date(startTime), estimatedArrival: new Date(estimatedArrival) };
+        return prev.level === 'duchy'
+          ? { ...prev, ...schedule, path: path.map(hex => createHexCoordinates(hex.q, hex.r)) }
+          : { ...prev, ...schedule, path: path.map(({ parentQ = 0, parentR = 0, q, r }) => ({ parentQ, parentR, q, r })) };
+      });
+    } catch (error) {
+      console.error('Failed to save travel:', error);
+    }
+  };
 
   const startDuchyTravel = (travel: Omit<DuchyTravel, 'level'>): void => {
     // Cancel any existing travel (from any level)
-    setActiveTravel({
+    const duchyTravel: DuchyTravel = {
       ...travel,
       level: 'duchy'
-    });
+    };
+    setActiveTravel(duchyTravel);
+    saveTravel(duchyTravel);
   };
 
   const startSublandTravel = (travel: Omit<SublandTravel, 'level'>): void => {
     // Cancel any existing travel (from any level)
-    setActiveTravel({
+    const sublandTravel: SublandTravel = {
       ...travel,
       level: 'subland'
-    });
+    };
+    setActiveTravel(sublandTravel);
+    saveTravel(sublandTravel);
   };
 
   const updateTravel = (updater: (prev: ActiveTravel) => ActiveTravel): void => {
     setActiveTravel(updater);
   };
 
-  const cancelTravel = (): void => {
-    setActiveTravel(null);
+  // Follow the active trip at another zoom level (the world map or a Duchy)
+  // Going down to SubLands needs their terrain; the trip stays as it is if it cannot be walked there
+  const switchTravelLevel = (
+    level: 'duchy' | 'subland',
+    getDuchyTerrain?: (parentQ: number, parentR: number) => DuchySubLandTerrain | null
+  ): void => {
+    if (!activeTravel || activeTravel.level === level) return;
+
+    if (activeTravel.level === 'subland') {
+      setActiveTravel(toDuchyTravel(activeTravel));
+      return;
+    }
+
+    const travel = getDuchyTerrain ? toSublandTravel(activeTravel, getDuchyTerrain) : null;
+    if (travel) setActiveTravel(travel);
+  };
+
+  // Stop where the traveller is now; the server stores that location
+  // The journey ends locally only once the server has stopped it, or has none to stop
+  // (a local-only journey, started without a session)
+  const cancelTravel = async (): Promise<void> => {
+    try {
+      const response: Response = await sdk.quickAuth.fetch('/api/travel', { method: 'DELETE' });
+
+      if (response.status === 401) {
+        setActiveTravel(null);
+        return;
+      }
+      const data: { location?: PlayerLocation; error?: string; code?: string } = await response.json();
+
+      if (data.code === 'NOT_TRAVELING') {
+        setActiveTravel(null);
+        return;
+      }
+
+      if (!response.ok || !data.location) {
+        toast.error(data.error ?? 'Could not stop the journey.');
+        return;
+      }
+
+      setActiveTravel(null);
+      setLocation(data.location);
+    } catch (error) {
+      console.error('Failed to cancel travel:', error);
+    }
   };
 
   return (
     <TravelContext.Provider value={{
       activeTravel,
+      location,
       startDuchyTravel,
       startSublandTravel,
       updateTravel,
+      switchTravelLevel,
       cancelTravel
     }}>
       {children}
@@ -0,0 +1,41 @@
+import { sdk } from '@farcaster/miniapp-sdk'
+import { useEffect, useState } from 'react'
+
+export interface CurrentUser {
+  fid: number
+  displayName?: string
+  username?: string
+  pfpUrl?: string
+  primaryAddress?: string
+}
+
+/**
+ * Resolve the signed-in Farcaster user through Quick Auth
+ * Returns null until authenticated (or when running outside Farcaster)
+ */
+export function useCurrentUser(): CurrentUser | null {
+  const [user, setUser] = useState<CurrentUser | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadUser = async (): Promise<void> => {
+      try {
+        const response: Response = await sdk.quickAuth.fetch('/api/me')
+        if (!response.ok) return
+
+        const userData: CurrentUser = await response.json()
+        if (!cancelled) setUser(userData)
+      } catch (error) {
+        console.error('Failed to load current user:', error)
+      }
+    }
+
+    loadUser()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return user
+}
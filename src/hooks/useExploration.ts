@@ -0,0 +1,55 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { sdk } from '@farcaster/miniapp-sdk';
+import type { HexTile } from '@/lib/hexmap/types';
+import { getHexKey } from '@/lib/hexmap/hex-utils';
+import { getHexesInSight, getTileVisibility, type TileVisibility } from '@/lib/hexmap/exploration';
+
+export interface Exploration {
+  visible: Set<string>;        // Hex keys in sight of the player now
+  explored: Map<string, Date>; // Hex keys seen before, with when they were last seen
+  getVisibility: (key: string) => TileVisibility;
+}
+
+/**
+ * Fog of war of the player at a position (from /api/exploration)
+ * Reloaded whenever the player moves, as a journey brings new Duchies into sight
+ */
+export function useExploration(position: { q: number; r: number }, tiles: Map<string, HexTile>): Exploration {
+  const [explored, setExplored] = useState<Map<string, Date>>(() => new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadExploration = async (): Promise<void> => {
+      try {
+        const response: Response = await sdk.quickAuth.fetch('/api/exploration');
+        if (!response.ok) return;
+
+        const data = await response.json() as { explored: Array<{ q: number; r: number; seenAt: string }> };
+        if (!cancelled) {
+          setExplored(new Map(data.explored.map(hex => [getHexKey(hex.q, hex.r), new Date(hex.seenAt)])));
+        }
+      } catch (error) {
+        console.error('Failed to load exploration:', error);
+      }
+    };
+
+    loadExploration();
+    return () => {
+      cancelled = true;
+    };
+  }, [position.q, position.r]);
+
+  const visible = useMemo(
+    () => new Set(getHexesInSight(position, tiles)),
+    [position.q, position.r, tiles]
+  );
+
+  return {
+    visible,
+    explored,
+    getVisibility: (key: string) => getTileVisibility(key, visible, explored)
+  };
+}
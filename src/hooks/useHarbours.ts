@@ -0,0 +1,37 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getHexKey } from '@/lib/hexmap/hex-utils';
+
+/**
+ * Hex keys of the Duchies with a port, dock or shipyard (from /api/harbours)
+ * Empty until loaded, so sea routes are simply unavailable on failure
+ */
+export function useHarbours(): Set<string> {
+  const [harbours, setHarbours] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHarbours = async (): Promise<void> => {
+      try {
+        const response = await fetch('/api/harbours', { cache: 'no-store' });
+        if (!response.ok) return;
+
+        const data = await response.json() as { harbours: Array<{ q: number; r: number }> };
+        if (!cancelled) {
+          setHarbours(new Set(data.harbours.map(harbour => getHexKey(harbour.q, harbour.r))));
+        }
+      } catch (error) {
+        console.error('Failed to load harbours:', error);
+      }
+    };
+
+    loadHarbours();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return harbours;
+}
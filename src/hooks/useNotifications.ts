@@ -0,0 +1,41 @@
+import { sdk } from '@farcaster/miniapp-sdk'
+import { useEffect } from 'react'
+import { toast } from 'sonner'
+import type { GameNotification } from '@/types/game'
+
+/**
+ * Show unread notifications (claim expiry, ...) as toasts once, then mark them read
+ */
+export function useNotifications(enabled: boolean): void {
+  useEffect(() => {
+    if (!enabled) return
+
+    const showNotifications = async (): Promise<void> => {
+      try {
+        const response: Response = await sdk.quickAuth.fetch('/api/notifications?unread=1')
+        if (!response.ok) return
+
+        const data: { notifications: GameNotification[] } = await response.json()
+        if (data.notifications.length === 0) return
+
+        for (const notification of data.notifications) {
+          const show = notification.type === 'claim_expiring' ? toast.info : toast.warning
+          show(notification.title, {
+            description: notification.message,
+            duration: 8000,
+          })
+        }
+
+        await sdk.quickAuth.fetch('/api/notifications', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ids: data.notifications.map(n => n.id) }),
+        })
+      } catch (error) {
+        console.error('Failed to load notifications:', error)
+      }
+    }
+
+    showNotifications()
+  }, [enabled])
+}
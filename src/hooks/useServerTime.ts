@@ -8,59 +8,100 @@ interface ServerTime {
   error: string | null;
 }
 
+interface ServerClock {
+  offsetMs: number;
+  synced: boolean;
+  error: string | null;
+}
+
+// Re-sync every minute to correct local clock drift
+const SYNC_INTERVAL_MS = 60000;
+
+// Shared by every hook instance so the app keeps a single clock
+let clockOffsetMs = 0;
+let lastSyncAt = 0;
+let pendingSync: Promise<void> | null = null;
+
 /**
- * Hook to fetch server time from Cloudflare Time API (Venezuela timezone)
- * Security: Uses Cloudflare's public API for accurate server time
+ * Sync the local clock offset against /api/time
+ * Uses the round-trip midpoint to compensate network latency
  */
-export function useServerTime(): ServerTime {
-  const [serverTime, setServerTime] = useState<Date>(new Date());
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+async function syncServerClock(): Promise<void> {
+  if (pendingSync) return pendingSync;
+  if (Date.now() - lastSyncAt < SYNC_INTERVAL_MS / 2) return;
+
+  pendingSync = (async () => {
+    const requestStart = Date.now();
+    const response = await fetch('/api/time', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch server time');
+    }
+
+    const data = await response.json() as { unixMs: number };
+    const requestEnd = Date.now();
+
+    clockOffsetMs = data.unixMs - (requestStart + requestEnd) / 2;
+    lastSyncAt = requestEnd;
+  })();
+
+  try {
+    await pendingSync;
+  } finally {
+    pendingSync = null;
+  }
+}
+
+/**
+ * Current authoritative time, using the last known server offset
+ */
+export function getServerNow(): Date {
+  return new Date(Date.now() + clockOffsetMs);
+}
+
+/**
+ * Keep the shared clock offset in sync with the server
+ */
+export function useServerClock(): ServerClock {
+  const [clock, setClock] = useState<ServerClock>({ offsetMs: clockOffsetMs, synced: lastSyncAt > 0, error: null });
 
   useEffect(() => {
-    const fetchServerTime = async (): Promise<void> => {
+    let cancelled = false;
+
+    const sync = async (): Promise<void> => {
       try {
-        setLoading(true);
-        
-        // Fetch from Cloudflare Time API
-        const response = await fetch('https://time.cloudflare.com/api/v1/time', {
-          headers: {
-            'Accept': 'application/json'
-          }
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to fetch server time');
-        }
-
-        const data = await response.json() as { unixtime: number };
-        
-        // Convert Unix timestamp to Date
-        const timeInMs = data.unixtime * 1000;
-        
-        // Adjust to Venezuela timezone (UTC-4)
-        const venezuelaOffset = -4 * 60 * 60 * 1000; // -4 hours in milliseconds
-        const venezuelaTime = new Date(timeInMs + venezuelaOffset);
-        
-        setServerTime(venezuelaTime);
-        setError(null);
+        await syncServerClock();
+        if (!cancelled) setClock({ offsetMs: clockOffsetMs, synced: true, error: null });
       } catch (err) {
-        console.error('Error fetching server time:', err);
-        setError('Failed to sync with server');
-        // Fallback to local time
-        setServerTime(new Date());
-      } finally {
-        setLoading(false);
+        console.error('Error syncing server time:', err);
+        // Keep the last known offset (local time if never synced)
+        if (!cancelled) setClock(prev => ({ ...prev, error: 'Failed to sync with server' }));
       }
     };
 
-    fetchServerTime();
-    
-    // Update every 30 seconds for accuracy
-    const interval = setInterval(fetchServerTime, 30000);
-    
-    return () => clearInterval(interval);
+    sync();
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
   }, []);
 
-  return { serverTime, loading, error };
+  return clock;
+}
+
+/**
+ * Hook for the authoritative server time (synced with /api/time, ticking every second)
+ */
+export function useServerTime(): ServerTime {
+  const { offsetMs, synced, error } = useServerClock();
+  const [serverTime, setServerTime] = useState<Date>(() => new Date(Date.now() + offsetMs));
+
+  useEffect(() => {
+    setServerTime(new Date(Date.now() + offsetMs));
+    const interval = setInterval(() => setServerTime(new Date(Date.now() + offsetMs)), 1000);
+    return () => clearInterval(interval);
+  }, [offsetMs]);
+
+  return { serverTime, loading: !synced && error === null, error };
 }
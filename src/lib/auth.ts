@@ -0,0 +1,118 @@
+import type { NextRequest } from 'next/server'
+import { createClient, Errors } from '@farcaster/quick-auth'
+
+const client = createClient()
+
+export type UserData = {
+  fid: number
+  primaryAddress?: string
+  username?: string
+  displayName?: string
+  pfpUrl?: string
+}
+
+/**
+ * Error raised when a request cannot be authenticated
+ * `status` is the HTTP status the API route should answer with
+ */
+export class AuthError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 401) {
+    super(message)
+    this.name = 'AuthError'
+    this.status = status
+  }
+}
+
+export async function resolveUser(fid: number): Promise<UserData> {
+  try {
+    const response = await fetch(
+      `https://api.neynar.com/v2/farcaster/user/bulk?fids=${fid}`,
+      {
+        headers: {
+          accept: 'application/json',
+          'x-api-key': process.env.NEYNAR_API_KEY ?? 'NEYNAR_FROG_FM',
+        },
+      }
+    )
+
+    if (response.ok) {
+      const data = await response.json() as {
+        users: Array<{
+          fid: number
+          username: string
+          display_name: string
+          pfp_url: string
+          custody_address?: string
+          verifications?: string[]
+        }>
+      }
+
+      const user = data.users[0]
+      if (user) {
+        return {
+          fid: user.fid,
+          username: user.username,
+          displayName: user.display_name,
+          pfpUrl: user.pfp_url,
+          primaryAddress: user.custody_address || user.verifications?.[0],
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Error fetching user data from Neynar:', error)
+  }
+
+  return {
+    fid,
+  }
+}
+
+/**
+ * Verify the Quick Auth JWT of a request and resolve the Farcaster user
+ * Throws AuthError if the Authorization header is missing or the token is invalid
+ */
+export async function authenticateRequest(request: NextRequest): Promise<UserData> {
+  const authorization = request.headers.get('Authorization')
+
+  if (!authorization || !authorization.startsWith('Bearer ')) {
+    throw new AuthError('Missing or invalid authorization header')
+  }
+
+  const token = authorization.split(' ')[1]
+  if (!token) {
+    throw new AuthError('Missing token')
+  }
+
+  const url = new URL(request.url)
+  const domain = url.hostname
+
+  try {
+    const payload = await client.verifyJwt({
+      token,
+      domain,
+    })
+
+    return await resolveUser(payload.sub)
+  } catch (error) {
+    if (error instanceof Errors.InvalidTokenError) {
+      console.info('Invalid token:', error.message)
+      throw new AuthError('Invalid token')
+    }
+    throw error
+  }
+}
+
+/**
+ * Authenticate a request and require a wallet address linked to the Farcaster account
+ */
+export async function authenticateWallet(request: NextRequest): Promise<UserData & { primaryAddress: string }> {
+  const user = await authenticateRequest(request)
+
+  if (!user.primaryAddress) {
+    throw new AuthError('No wallet address linked to this account', 403)
+  }
+
+  return { ...user, primaryAddress: user.primaryAddress }
+}
@@ -0,0 +1,120 @@
+import type { GameTime } from '../hexmap/types';
+import type { GameDate } from './types';
+import { GAME_SPEED_MULTIPLIER } from '@/types/game';
+import { getSeasonForMonth } from './seasons';
+import { DAY_MS, DAYS_PER_MONTH, DAYS_PER_YEAR, GENESIS_DATE, REAL_MS_PER_GAME_DAY } from './constants';
+
+/**
+ * Core calendar arithmetic: real time <-> game dates, day arithmetic
+ */
+
+/**
+ * Convert game days to real milliseconds
+ */
+export function gameDaysToRealMs(gameDays: number): number {
+  return gameDays * REAL_MS_PER_GAME_DAY;
+}
+
+/**
+ * Convert real milliseconds to game days
+ */
+export function realMsToGameDays(realMs: number): number {
+  return realMs / REAL_MS_PER_GAME_DAY;
+}
+
+/**
+ * Absolute day number of a game date (genesis = day 1)
+ */
+export function getGameDayNumber(date: GameDate): number {
+  return (date.year - 1) * DAYS_PER_YEAR + (date.month - 1) * DAYS_PER_MONTH + date.day;
+}
+
+/**
+ * Game date of an absolute day number (genesis = day 1)
+ */
+export function fromGameDayNumber(dayNumber: number): GameDate {
+  const daysSinceGenesis = Math.floor(dayNumber) - 1;
+  const year = Math.floor(daysSinceGenesis / DAYS_PER_YEAR);
+  const dayOfYear = daysSinceGenesis - year * DAYS_PER_YEAR;
+
+  return {
+    year: year + 1,
+    month: Math.floor(dayOfYear / DAYS_PER_MONTH) + 1,
+    day: (dayOfYear % DAYS_PER_MONTH) + 1
+  };
+}
+
+/**
+ * Game date at a real moment
+ */
+export function realTimeToGameDate(realTime: Date): GameDate {
+  const gameDays = realMsToGameDays(realTime.getTime() - GENESIS_DATE.getTime());
+  return fromGameDayNumber(Math.floor(gameDays) + 1);
+}
+
+/**
+ * Real moment at which a game date begins
+ */
+export function gameDateToRealTime(date: GameDate): Date {
+  return new Date(GENESIS_DATE.getTime() + gameDaysToRealMs(getGameDayNumber(date) - 1));
+}
+
+/**
+ * Add whole game days to a date (negative values go back in time)
+ */
+export function addGameDays(date: GameDate, days: number): GameDate {
+  return fromGameDayNumber(getGameDayNumber(date) + Math.trunc(days));
+}
+
+/**
+ * Subtract whole game days from a date
+ */
+export function subtractGameDays(date: GameDate, days: number): GameDate {
+  return addGameDays(date, -days);
+}
+
+/**
+ * Game days from `from` to `to` (negative if `to` is earlier)
+ */
+export function diffGameDays(from: GameDate, to: GameDate): number {
+  return getGameDayNumber(to) - getGameDayNumber(from);
+}
+
+/**
+ * Sort comparator for game dates
+ */
+export function compareGameDates(a: GameDate, b: GameDate): number {
+  return getGameDayNumber(a) - getGameDayNumber(b);
+}
+
+/**
+ * Derive the full game time at a given real (server) time
+ */
+export function getGameTimeAt(realTime: Date): GameTime {
+  const gameElapsed = Math.max(0, (realTime.getTime() - GENESIS_DATE.getTime()) * GAME_SPEED_MULTIPLIER);
+  const dayNumber = Math.floor(gameElapsed / DAY_MS) + 1;
+  const date = fromGameDayNumber(dayNumber);
+
+  return {
+    startDate: GENESIS_DATE,
+    currentDate: new Date(GENESIS_DATE.getTime() + gameElapsed),
+    dayNumber,
+    dayOfMonth: date.day,
+    monthNumber: date.month,
+    yearNumber: date.year,
+    speed: GAME_SPEED_MULTIPLIER,
+    seasonInNorth: getSeasonForMonth(date.month, 'northern'),
+    seasonInSouth: getSeasonForMonth(date.month, 'southern')
+  };
+}
+
+/**
+ * Restore Date fields of a GameTime received as JSON
+ */
+export function reviveGameTime(json: GameTime): GameTime {
+  return {
+    ...json,
+    startDate: new Date(json.startDate),
+    currentDate: new Date(json.currentDate)
+  };
+}
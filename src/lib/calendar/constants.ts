@@ -0,0 +1,16 @@
+import { GAME_SPEED_MULTIPLIER } from '@/types/game';
+
+// Genesis: November 15, 2025 at 00:00:00 UTC (Day 1, Month 1, Year 1)
+export const GENESIS_DATE = new Date('2025-11-15T00:00:00Z');
+
+// Game calendar: 14 months per year, 28 days per month
+// 1 real week = 1 game month (28 days)
+// 1 game year = 14 months × 28 days = 392 game days = 14 real weeks
+export const DAYS_PER_MONTH = 28;
+export const MONTHS_PER_YEAR = 14;
+export const DAYS_PER_YEAR = DAYS_PER_MONTH * MONTHS_PER_YEAR; // 392 days
+
+export const DAY_MS = 1000 * 60 * 60 * 24;
+
+// One game day lasts 6 real hours at 4x speed
+export const REAL_MS_PER_GAME_DAY = DAY_MS / GAME_SPEED_MULTIPLIER;
@@ -0,0 +1,128 @@
+import type { Festival, GameDate, Hemisphere, UpcomingFestival } from './types';
+import { DAYS_PER_YEAR } from './constants';
+import { diffGameDays } from './calendar';
+
+/**
+ * Festival and holiday registry
+ * Festivals repeat every game year on the same month and day
+ */
+export const FESTIVALS: Record<string, Festival> = {
+  genesis_day: {
+    id: 'genesis_day',
+    name: 'Genesis Day',
+    month: 1,
+    day: 1,
+    durationDays: 1,
+    description: 'Anniversary of the founding of Altriux World. The new year begins.'
+  },
+  thaw_fair: {
+    id: 'thaw_fair',
+    name: 'Thaw Fair',
+    month: 3,
+    day: 21,
+    durationDays: 3,
+    hemisphere: 'northern',
+    description: 'Markets reopen as the rivers thaw and trade routes clear.'
+  },
+  sowing_rites: {
+    id: 'sowing_rites',
+    name: 'Sowing Rites',
+    month: 4,
+    day: 1,
+    durationDays: 2,
+    hemisphere: 'northern',
+    description: 'Blessing of the fields at the start of spring.'
+  },
+  midsummer: {
+    id: 'midsummer',
+    name: 'Midsummer',
+    month: 9,
+    day: 14,
+    durationDays: 1,
+    description: 'The longest day of the year, celebrated with bonfires.'
+  },
+  harvest_feast: {
+    id: 'harvest_feast',
+    name: 'Harvest Feast',
+    month: 11,
+    day: 7,
+    durationDays: 3,
+    hemisphere: 'northern',
+    description: 'Villages gather to celebrate the harvest.'
+  },
+  southern_harvest: {
+    id: 'southern_harvest',
+    name: 'Southern Harvest',
+    month: 4,
+    day: 7,
+    durationDays: 3,
+    hemisphere: 'southern',
+    description: 'Harvest celebration of the southern lands.'
+  },
+  rainfeast: {
+    id: 'rainfeast',
+    name: 'Rainfeast',
+    month: 8,
+    day: 1,
+    durationDays: 2,
+    hemisphere: 'equatorial',
+    description: 'Welcoming the wet season in the equatorial lands.'
+  },
+  long_night: {
+    id: 'long_night',
+    name: 'Long Night',
+    month: 14,
+    day: 28,
+    durationDays: 1,
+    description: 'Vigil on the last night of the year.'
+  }
+};
+
+/**
+ * Get a festival by id
+ */
+export function getFestival(id: string): Festival | undefined {
+  return FESTIVALS[id];
+}
+
+function isCelebratedIn(festival: Festival, hemisphere?: Hemisphere): boolean {
+  return !festival.hemisphere || !hemisphere || festival.hemisphere === hemisphere;
+}
+
+/**
+ * Festivals running on a date (optionally only those celebrated in a hemisphere)
+ */
+export function getFestivalsOn(date: GameDate, hemisphere?: Hemisphere): Festival[] {
+  return Object.values(FESTIVALS).filter(festival => {
+    if (!isCelebratedIn(festival, hemisphere)) return false;
+
+    const start: GameDate = { year: date.year, month: festival.month, day: festival.day };
+    let offset = diffGameDays(start, date);
+    // Festivals spanning the new year started in the previous year
+    if (offset < 0) offset += DAYS_PER_YEAR;
+    return offset < festival.durationDays;
+  });
+}
+
+/**
+ * Upcoming festivals from a date, soonest first (running festivals have daysUntil 0)
+ */
+export function getUpcomingFestivals(date: GameDate, hemisphere?: Hemisphere, limit: number = 3): UpcomingFestival[] {
+  const running = new Set(getFestivalsOn(date, hemisphere).map(festival => festival.id));
+
+  return Object.values(FESTIVALS)
+    .filter(festival => isCelebratedIn(festival, hemisphere))
+    .map(festival => {
+      if (running.has(festival.id)) {
+        return { festival, startsOn: date, daysUntil: 0 };
+      }
+
+      // Next occurrence is this year if still ahead, otherwise next year
+      const thisYear: GameDate = { year: date.year, month: festival.month, day: festival.day };
+      const startsOn = diffGameDays(date, thisYear) > 0 ? thisYear : { ...thisYear, year: date.year + 1 };
+      return { festival, startsOn, daysUntil: diffGameDays(date, startsOn) };
+    })
+    .sort((a, b) => a.daysUntil - b.daysUntil)
+    .slice(0, limit);
+}
+
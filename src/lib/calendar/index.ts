@@ -0,0 +1,10 @@
+/**
+ * Game calendar: 14 months × 28 days at 4x real time
+ * Pure functions, safe to use on both server and client
+ */
+export * from './types';
+export * from './constants';
+export * from './calendar';
+export * from './months';
+export * from './seasons';
+export * from './festivals';
@@ -0,0 +1,52 @@
+import type { GameDate, GameMonth } from './types';
+import { MONTHS_PER_YEAR } from './constants';
+
+/**
+ * The 14 months of the game year
+ * Named after the northern hemisphere, where the year starts in deep winter
+ */
+export const GAME_MONTHS: GameMonth[] = [
+  { number: 1, name: 'Frostmoon', description: 'Deep winter. The year begins on Genesis Day.' },
+  { number: 2, name: 'Snowmoon', description: 'The heaviest snows of the year.' },
+  { number: 3, name: 'Thawmoon', description: 'Ice breaks on the rivers.' },
+  { number: 4, name: 'Seedmoon', description: 'Fields are sown as spring arrives.' },
+  { number: 5, name: 'Rainmoon', description: 'Spring rains swell the rivers.' },
+  { number: 6, name: 'Bloommoon', description: 'Meadows and orchards in flower.' },
+  { number: 7, name: 'Greenmoon', description: 'Late spring, the land at its greenest.' },
+  { number: 8, name: 'Sunmoon', description: 'Summer begins. Long days for travel.' },
+  { number: 9, name: 'Firemoon', description: 'The hottest month. Midsummer is celebrated.' },
+  { number: 10, name: 'Goldmoon', description: 'Grain ripens in the fields.' },
+  { number: 11, name: 'Harvestmoon', description: 'Autumn harvest and feasting.' },
+  { number: 12, name: 'Windmoon', description: 'Autumn storms sweep the coasts.' },
+  { number: 13, name: 'Mistmoon', description: 'Fog and falling leaves.' },
+  { number: 14, name: 'Darkmoon', description: 'The longest nights before the new year.' }
+];
+
+/**
+ * Get a month (1-14)
+ */
+export function getMonth(month: number): GameMonth {
+  const index = (((month - 1) % MONTHS_PER_YEAR) + MONTHS_PER_YEAR) % MONTHS_PER_YEAR;
+  return GAME_MONTHS[index];
+}
+
+/**
+ * Get the name of a month (1-14)
+ */
+export function getMonthName(month: number): string {
+  return getMonth(month).name;
+}
+
+/**
+ * Format a game date for display: "12 Seedmoon, Year 2"
+ */
+export function formatGameDate(date: GameDate): string {
+  return `${date.day} ${getMonthName(date.month)}, Year ${date.year}`;
+}
+
+/**
+ * Compact numeric format: "Y2 M4 D12"
+ */
+export function formatGameDateShort(date: GameDate): string {
+  return `Y${date.year} M${date.month} D${date.day}`;
+}
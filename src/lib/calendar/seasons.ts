@@ -0,0 +1,81 @@
+import type { Season } from '../hexmap/types';
+import type { GameDate, Hemisphere, SeasonChange } from './types';
+import { DAYS_PER_MONTH, MONTHS_PER_YEAR } from './constants';
+
+/**
+ * Seasons of the 14-month year
+ * - Equatorial zone (-10° to +10°): Only summer (months 1-7) and winter (months 8-14)
+ * - Beyond ±10°: Four seasons with hemispheric opposition
+ *   When it's winter in north, it's summer in south (and vice versa)
+ */
+
+// Season of each month (index 0 = month 1)
+const SEASONS_BY_HEMISPHERE: Record<Hemisphere, Season[]> = {
+  northern: [
+    'winter', 'winter', 'winter',
+    'spring', 'spring', 'spring', 'spring',
+    'summer', 'summer', 'summer',
+    'autumn', 'autumn', 'autumn', 'autumn'
+  ],
+  southern: [
+    'summer', 'summer', 'summer',
+    'autumn', 'autumn', 'autumn', 'autumn',
+    'winter', 'winter', 'winter',
+    'spring', 'spring', 'spring', 'spring'
+  ],
+  equatorial: [
+    'summer', 'summer', 'summer', 'summer', 'summer', 'summer', 'summer',
+    'winter', 'winter', 'winter', 'winter', 'winter', 'winter', 'winter'
+  ]
+};
+
+/**
+ * Hemisphere of a latitude (equatorial between -10° and +10°)
+ */
+export function getHemisphere(latitude: number): Hemisphere {
+  if (latitude > 10) return 'northern';
+  if (latitude < -10) return 'southern';
+  return 'equatorial';
+}
+
+/**
+ * Season of a month (1-14) in a hemisphere
+ */
+export function getSeasonForMonth(month: number, hemisphere: Hemisphere): Season {
+  const index = (((month - 1) % MONTHS_PER_YEAR) + MONTHS_PER_YEAR) % MONTHS_PER_YEAR;
+  return SEASONS_BY_HEMISPHERE[hemisphere][index];
+}
+
+/**
+ * Next season change after a date in a hemisphere
+ */
+export function getNextSeasonChange(date: GameDate, hemisphere: Hemisphere): SeasonChange {
+  const current = getSeasonForMonth(date.month, hemisphere);
+
+  // Seasons only change on the first day of a month
+  for (let monthsAhead = 1; monthsAhead <= MONTHS_PER_YEAR; monthsAhead++) {
+    const season = getSeasonForMonth(date.month + monthsAhead, hemisphere);
+    if (season === current) continue;
+
+    const absoluteMonth = date.month - 1 + monthsAhead;
+    return {
+      season,
+      startsOn: {
+        year: date.year + Math.floor(absoluteMonth / MONTHS_PER_YEAR),
+        month: (absoluteMonth % MONTHS_PER_YEAR) + 1,
+        day: 1
+      },
+      daysUntil: monthsAhead * DAYS_PER_MONTH - (date.day - 1)
+    };
+  }
+
+  // Unreachable: every hemisphere has more than one season
+  return { season: current, startsOn: date, daysUntil: 0 };
+}
+
+/**
+ * Game days until the next season starts in a hemisphere
+ */
+export function getDaysUntilNextSeason(date: GameDate, hemisphere: Hemisphere): number {
+  return getNextSeasonChange(date, hemisphere).daysUntil;
+}
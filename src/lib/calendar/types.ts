@@ -0,0 +1,42 @@
+import type { Season } from '../hexmap/types';
+
+/**
+ * Game Calendar Types
+ * 14 months per year, 28 days per month, starting at genesis (Day 1, Month 1, Year 1)
+ */
+
+export interface GameDate {
+  year: number;  // 1-based, Year 1 starts at genesis
+  month: number; // 1-14
+  day: number;   // 1-28
+}
+
+export type Hemisphere = 'northern' | 'southern' | 'equatorial';
+
+export interface GameMonth {
+  number: number; // 1-14
+  name: string;
+  description: string;
+}
+
+export interface Festival {
+  id: string;
+  name: string;
+  month: number;        // Month the festival starts (1-14)
+  day: number;          // Day the festival starts (1-28)
+  durationDays: number; // Festival days, starting on month/day
+  hemisphere?: Hemisphere; // Only celebrated in this hemisphere (everywhere if omitted)
+  description: string;
+}
+
+export interface SeasonChange {
+  season: Season;     // Season that starts next
+  startsOn: GameDate; // First day of that season
+  daysUntil: number;  // Game days from the given date
+}
+
+export interface UpcomingFestival {
+  festival: Festival;
+  startsOn: GameDate;
+  daysUntil: number; // 0 if the festival is running on the given date
+}
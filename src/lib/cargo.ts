@@ -0,0 +1,170 @@
+import { JAX_TO_KG, type TransportItem } from '@/types/game';
+import type { Itinerary, ItineraryLeg } from './hexmap/naval-pathfinding';
+import { getLegCapacity, getLegTransport } from './itinerary-planner';
+import { PRODUCTION_PROFILES, roundAmount } from './sublands/production';
+
+/**
+ * Cargo carried on a journey
+ * Goods are weighed in Jax (1 Jax = JAX_TO_KG kg) against the combined capacity of the
+ * transports on each leg. Up to OVERLOAD_LIMIT times the capacity the caravan still moves,
+ * ever slower; beyond that the transports refuse the load.
+ */
+
+// Weight of one unit of each good, in kg
+export const GOOD_WEIGHTS_KG: Record<string, number> = {
+  gold: 0.01,
+  silver: 0.008,
+  iron: 0.005,
+  copper: 0.005,
+  tin: 0.005,
+  bronze: 0.005,
+  stone: 0.01,
+  gems: 0.0005,
+  wood: 0.003,
+  planks: 0.002,
+  wheat: 0.001,
+  flour: 0.001,
+  corn: 0.001,
+  legumes: 0.001,
+  dates: 0.001,
+  fish: 0.001,
+  cotton: 0.0005,
+  flax: 0.0005,
+  spices: 0.0005,
+  thread: 0.0003,
+  cloth: 0.0005,
+  clothing: 0.0005,
+  tools: 0.002,
+  weapons: 0.003,
+  furniture: 0.01
+};
+const DEFAULT_GOOD_WEIGHT_KG = 0.002;
+
+// Goods that can be carried: the weighed ones and everything a recipe uses or makes
+const CARGO_GOODS = new Set([
+  ...Object.keys(GOOD_WEIGHTS_KG),
+  ...Object.values(PRODUCTION_PROFILES).flatMap(profile =>
+    profile.recipes.flatMap(recipe => [...Object.keys(recipe.inputs), ...Object.keys(recipe.outputs)])
+  )
+]);
+
+// Heaviest load a transport accepts, as a multiple of its capacity
+export const OVERLOAD_LIMIT = 1.5;
+
+// Speed left at the overload limit (falls linearly from full speed at capacity)
+const MIN_OVERLOAD_SPEED = 0.5;
+
+export interface CargoManifest {
+  items: Record<string, number>; // Units per good
+  weight: number;                // Jax
+  capacity: number;              // Jax, weakest leg of the journey
+  originWarehouseId: string;
+  destinationWarehouseId: string;
+  lost?: Record<string, number>; // Units lost on the way (see travel-events)
+}
+
+export type CargoRejectionCode = 'EMPTY_CARGO' | 'UNKNOWN_GOOD' | 'INVALID_AMOUNT' | 'OVERLOADED';
+
+export interface CargoRejection {
+  code: CargoRejectionCode;
+  message: string;
+}
+
+export type LoadedItinerary =
+  | { ok: true; itinerary: Itinerary; weight: number; capacity: number }
+  | { ok: false; rejection: CargoRejection };
+
+/**
+ * Weight of a set of goods, in Jax
+ */
+export function getCargoWeight(items: Record<string, number>): number {
+  const kg = Object.entries(items).reduce(
+    (sum, [item, amount]) => sum + amount * (GOOD_WEIGHTS_KG[item] ?? DEFAULT_GOOD_WEIGHT_KG),
+    0
+  );
+  return roundAmount(kg / JAX_TO_KG);
+}
+
+/**
+ * Goods of a cargo that reach the destination: what was loaded minus what was lost on the way
+ */
+export function getDeliveredItems(cargo: CargoManifest): Record<string, number> {
+  const delivered: Record<string, number> = {};
+  for (const [item, amount] of Object.entries(cargo.items)) {
+    const left = roundAmount(amount - (cargo.lost?.[item] ?? 0));
+    if (left > 0) delivered[item] = left;
+  }
+  return delivered;
+}
+
+/**
+ * Share of full speed (0-1) a transport keeps under a load, 0 if it refuses it
+ */
+export function getLoadSpeedFactor(weight: number, capacity: number): number {
+  if (weight <= capacity) return 1;
+  if (capacity <= 0 || weight > capacity * OVERLOAD_LIMIT) return 0;
+
+  const overload = (weight / capacity - 1) / (OVERLOAD_LIMIT - 1);
+  return 1 - overload * (1 - MIN_OVERLOAD_SPEED);
+}
+
+/**
+ * Check a cargo list before loading: positive whole amounts of at least one known good
+ */
+export function validateCargoItems(items: Record<string, number>): CargoRejection | null {
+  const amounts = Object.values(items);
+  if (amounts.length === 0) {
+    return { code: 'EMPTY_CARGO', message: 'Choose at least one good to carry.' };
+  }
+  const unknown = Object.keys(items).find(item => !CARGO_GOODS.has(item));
+  if (unknown !== undefined) {
+    return { code: 'UNKNOWN_GOOD', message: `There is no good called "${unknown}".` };
+  }
+  if (amounts.some(amount => !Number.isInteger(amount) || amount <= 0)) {
+    return { code: 'INVALID_AMOUNT', message: 'Cargo amounts must be positive whole units.' };
+  }
+  return null;
+}
+
+/**
+ * Load goods onto an itinerary
+ * Every leg is carried by all transports of its kind together; overloaded legs take longer
+ * and the whole journey is refused if any leg is loaded beyond OVERLOAD_LIMIT
+ */
+export function loadItinerary(
+  itinerary: Itinerary,
+  transports: TransportItem[],
+  items: Record<string, number>
+): LoadedItinerary {
+  const invalid = validateCargoItems(items);
+  if (invalid) return { ok: false, rejection: invalid };
+
+  const weight = getCargoWeight(items);
+  let capacity = Infinity;
+
+  const legs: ItineraryLeg[] = [];
+  for (const leg of itinerary.legs) {
+    const legCapacity = getLegCapacity(leg, transports);
+    const factor = getLoadSpeedFactor(weight, legCapacity);
+    if (factor === 0) {
+      const transport = getLegTransport(leg, transports);
+      return {
+        ok: false,
+        rejection: {
+          code: 'OVERLOADED',
+          message: `${transport.name} can carry at most ${roundAmount(legCapacity * OVERLOAD_LIMIT)} Jax, the cargo weighs ${weight} Jax.`
+        }
+      };
+    }
+
+    capacity = Math.min(capacity, legCapacity);
+    legs.push({ ...leg, travelTime: leg.travelTime / factor });
+  }
+
+  return {
+    ok: true,
+    itinerary: { legs, totalTime: legs.reduce((sum, leg) => sum + leg.travelTime, 0) },
+    weight,
+    capacity
+  };
+}
@@ -0,0 +1,23 @@
+import { prisma } from './prisma';
+import type { ExploredHex } from '@/lib/hexmap/exploration';
+
+export interface NewHexSighting {
+  wallet: string;
+  q: number;
+  r: number;
+  seenAt: Date;
+  travelId?: string;
+}
+
+/**
+ * Hexes a wallet has seen up to `now`, with the last time it saw each one
+ * Sightings of a journey in progress count once the traveller gets there
+ */
+export async function findExploredHexes(wallet: string, now: Date): Promise<ExploredHex[]> {
+  const rows = await prisma.hexSighting.groupBy({
+    by: ['q', 'r'],
+    where: { wallet, seenAt: { lte: now } },
+    _max: { seenAt: true }
+  });
+  return rows.map(row => ({ q: row.q, r: row.r, seenAt: row._max.seenAt ?? now }));
+}
@@ -0,0 +1,116 @@
+import { Prisma } from '@prisma/client';
+import type { ForumPost as ForumPostRow, ForumReply as ForumReplyRow } from '@prisma/client';
+import { prisma } from './prisma';
+import type { ForumPost, ForumReply } from '@/types/game';
+
+function toForumReply(row: ForumReplyRow): ForumReply {
+  return {
+    id: row.id,
+    author: row.author,
+    authorWallet: row.authorWallet,
+    authorTitle: row.authorTitle ?? undefined,
+    content: row.content,
+    timestamp: row.createdAt
+  };
+}
+
+function toForumPost(row: ForumPostRow & { replies: ForumReplyRow[] }): ForumPost {
+  return {
+    id: row.id,
+    category: row.category,
+    author: row.author,
+    authorWallet: row.authorWallet,
+    authorTitle: row.authorTitle ?? undefined,
+    content: row.content,
+    timestamp: row.createdAt,
+    likes: row.likes,
+    replies: row.replies.map(toForumReply)
+  };
+}
+
+export interface NewForumEntry {
+  author: string;
+  authorWallet: string;
+  authorTitle?: string;
+  content: string;
+}
+
+/**
+ * List posts of a category, newest first, with replies oldest first
+ */
+export async function findForumPosts(category: string, limit: number = 50): Promise<ForumPost[]> {
+  const rows = await prisma.forumPost.findMany({
+    where: { category },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    include: { replies: { orderBy: { createdAt: 'asc' } } }
+  });
+  return rows.map(toForumPost);
+}
+
+/**
+ * Count posts per category
+ */
+export async function countForumPostsByCategory(): Promise<Record<string, number>> {
+  const groups = await prisma.forumPost.groupBy({
+    by: ['category'],
+    _count: { _all: true }
+  });
+
+  const counts: Record<string, number> = {};
+  for (const group of groups) {
+    counts[group.category] = group._count._all;
+  }
+  return counts;
+}
+
+/**
+ * Create a new post in a category
+ */
+export async function createForumPost(category: string, entry: NewForumEntry): Promise<ForumPost> {
+  const row = await prisma.forumPost.create({
+    data: { category, ...entry },
+    include: { replies: true }
+  });
+  return toForumPost(row);
+}
+
+/**
+ * Reply to an existing post (returns null if the post does not exist)
+ */
+export async function createForumReply(postId: string, entry: NewForumEntry): Promise<ForumReply | null> {
+  const post = await prisma.forumPost.findUnique({ where: { id: postId }, select: { id: true } });
+  if (!post) return null;
+
+  const row = await prisma.forumReply.create({
+    data: { postId, ...entry }
+  });
+  return toForumReply(row);
+}
+
+/**
+ * Like a post on behalf of a wallet, once per wallet (a second like is ignored)
+ * Returns the like count, or null if the post does not exist
+ */
+export async function likeForumPost(postId: string, wallet: string): Promise<number | null> {
+  const post = await prisma.forumPost.findUnique({ where: { id: postId }, select: { id: true } });
+  if (!post) return null;
+
+  try {
+    return await prisma.$transaction(async tx => {
+      await tx.forumPostLike.create({ data: { postId, wallet } });
+      const row = await tx.forumPost.update({
+        where: { id: postId },
+        data: { likes: { increment: 1 } }
+      });
+      return row.likes;
+    });
+  } catch (error) {
+    // Unique constraint violation: the wallet already liked the post
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const row = await prisma.forumPost.findUnique({ where: { id: postId }, select: { likes: true } });
+      return row?.likes ?? null;
+    }
+    throw error;
+  }
+}
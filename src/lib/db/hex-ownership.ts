@@ -0,0 +1,25 @@
+import { prisma } from './prisma';
+
+export interface HexTileOwnership {
+  q: number;
+  r: number;
+  owner: string; // Sui wallet address
+  nftId?: string;
+  claimedAt: Date;
+}
+
+/**
+ * Get the owner of a Duchy (parent hex), or null if unowned
+ */
+export async function findHexTileOwnership(q: number, r: number): Promise<HexTileOwnership | null> {
+  const row = await prisma.hexTileOwnership.findUnique({ where: { q_r: { q, r } } });
+  if (!row) return null;
+
+  return {
+    q: row.q,
+    r: row.r,
+    owner: row.owner,
+    nftId: row.nftId ?? undefined,
+    claimedAt: row.claimedAt
+  };
+}
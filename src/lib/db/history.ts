@@ -0,0 +1,39 @@
+import type { HistoryEvent as HistoryEventRow } from '@prisma/client';
+import { prisma } from './prisma';
+import type { HistoryEvent, HistoryEventType } from '@/types/game';
+
+function toHistoryEvent(row: HistoryEventRow): HistoryEvent {
+  return {
+    id: row.id,
+    date: row.occurredAt,
+    type: row.type as HistoryEventType,
+    description: row.description,
+    icon: row.icon
+  };
+}
+
+export interface NewHistoryEvent {
+  wallet: string;
+  type: HistoryEventType;
+  description: string;
+  icon: string;
+  travelId?: string;
+  occurredAt: Date;
+}
+
+/**
+ * List the history of a wallet up to `now`, newest first
+ * Events of a journey in progress stay hidden until the traveller gets there
+ */
+export async function findHistoryEvents(
+  wallet: string,
+  now: Date,
+  limit: number = 50
+): Promise<HistoryEvent[]> {
+  const rows = await prisma.historyEvent.findMany({
+    where: { wallet, occurredAt: { lte: now } },
+    orderBy: { occurredAt: 'desc' },
+    take: limit
+  });
+  return rows.map(toHistoryEvent);
+}
@@ -0,0 +1,15 @@
+/**
+ * Server-side data access layer (Prisma / Postgres)
+ * Only import from API routes and server code, never from client components
+ */
+export { prisma } from './prisma';
+export * from './sublands';
+export * from './hex-ownership';
+export * from './travel';
+export * from './progress';
+export * from './forum';
+export * from './silvex';
+export * from './notifications';
+export * from './history';
+export * from './exploration';
+export * from './production';
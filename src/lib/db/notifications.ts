@@ -0,0 +1,65 @@
+import type { Notification as NotificationRow } from '@prisma/client';
+import { prisma } from './prisma';
+import type { GameNotification, NotificationType } from '@/types/game';
+
+function toGameNotification(row: NotificationRow): GameNotification {
+  return {
+    id: row.id,
+    type: row.type as NotificationType,
+    title: row.title,
+    message: row.message,
+    link: row.link ?? undefined,
+    createdAt: row.createdAt,
+    readAt: row.readAt ?? undefined
+  };
+}
+
+export interface NewNotification {
+  wallet: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  dedupeKey: string;
+}
+
+/**
+ * Store notifications, skipping any whose dedupeKey was already sent
+ * Returns how many were actually created
+ */
+export async function createNotifications(notifications: NewNotification[]): Promise<number> {
+  if (notifications.length === 0) return 0;
+
+  const result = await prisma.notification.createMany({
+    data: notifications,
+    skipDuplicates: true
+  });
+  return result.count;
+}
+
+/**
+ * List notifications of a wallet, newest first
+ */
+export async function findNotifications(
+  wallet: string,
+  unreadOnly: boolean = false,
+  limit: number = 50
+): Promise<GameNotification[]> {
+  const rows = await prisma.notification.findMany({
+    where: { wallet, ...(unreadOnly ? { readAt: null } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+  return rows.map(toGameNotification);
+}
+
+/**
+ * Mark notifications of a wallet as read (all of them if no ids are given)
+ */
+export async function markNotificationsRead(wallet: string, ids?: string[]): Promise<number> {
+  const result = await prisma.notification.updateMany({
+    where: { wallet, readAt: null, ...(ids ? { id: { in: ids } } : {}) },
+    data: { readAt: new Date() }
+  });
+  return result.count;
+}
@@ -0,0 +1,15 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Shared Prisma client
+ * Reused across hot reloads in development to avoid exhausting DB connections
+ */
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+export const prisma = globalForPrisma.prisma ?? new PrismaClient();
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForPrisma.prisma = prisma;
+}
+
+export default prisma;
@@ -0,0 +1,88 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { toPlacedBuilding, type BuildingLocation } from './sublands';
+import type { PlacedBuilding } from '@/lib/sublands/types';
+
+export type BuildingUpdate = Pick<PlacedBuilding, 'inventory' | 'workers' | 'urbanCoreData'>;
+
+/**
+ * Computes the changed buildings (by id) after running `ticks` production ticks
+ */
+export type ProductionStep = (
+  buildings: BuildingLocation[],
+  ticks: number
+) => Map<string, BuildingUpdate>;
+
+// Attempts at a Duchy's production run whose inventories keep changing under it
+const PRODUCTION_ATTEMPTS = 3;
+
+/**
+ * Thrown inside a production transaction to roll it back when a building changed since it was read
+ */
+class ProductionConflict extends Error {}
+
+/**
+ * Advance the production clock of a Duchy to `day` and store the resulting inventories
+ * The clock is moved with a conditional update inside the transaction, so two job runs
+ * can never apply the same ticks twice; returns the number of ticks run (0 if already up to date)
+ * Each building is written only if its inventory is still the one the step read: when a caravan,
+ * harvest or delivery changed it in between, the whole run is rolled back and simulated again
+ */
+export async function advanceProduction(
+  parentQ: number,
+  parentR: number,
+  day: number,
+  maxTicks: number,
+  step: ProductionStep
+): Promise<number> {
+  for (let attempt = 0; attempt < PRODUCTION_ATTEMPTS; attempt++) {
+    try {
+      return await prisma.$transaction(async tx => {
+        const clock = await tx.productionClock.findUnique({ where: { parentQ_parentR: { parentQ, parentR } } });
+        const previousDay = clock?.lastTickDay ?? day - 1;
+        const ticks = Math.min(maxTicks, day - previousDay);
+        if (ticks <= 0) return 0;
+
+        if (clock) {
+          const updated = await tx.productionClock.updateMany({
+            where: { parentQ, parentR, lastTickDay: previousDay },
+            data: { lastTickDay: day }
+          });
+          if (updated.count === 0) return 0;
+        } else {
+          await tx.productionClock.create({ data: { parentQ, parentR, lastTickDay: day } });
+        }
+
+        const rows = await tx.placedBuilding.findMany({
+          where: { subland: { parentQ, parentR } },
+          include: { subland: { select: { parentQ: true, parentR: true, q: true, r: true } } }
+        });
+        const stocks = new Map(rows.map(row => [row.id, row.inventory as Prisma.InputJsonValue]));
+        const buildings = rows.map(({ subland, ...row }) => ({ building: toPlacedBuilding(row), ...subland }));
+
+        for (const [id, update] of step(buildings, ticks)) {
+          const updated = await tx.placedBuilding.updateMany({
+            where: { id, inventory: { equals: stocks.get(id) ?? {} } },
+            data: {
+              inventory: (update.inventory ?? {}) as Prisma.InputJsonObject,
+              workers: update.workers ?? 0,
+              urbanCoreData: update.urbanCoreData
+                ? (update.urbanCoreData as unknown as Prisma.InputJsonObject)
+                : undefined
+            }
+          });
+          if (updated.count === 0) throw new ProductionConflict();
+        }
+        return ticks;
+      });
+    } catch (error) {
+      if (error instanceof ProductionConflict) continue;
+      // Unique constraint violation: a concurrent run created the clock first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return 0;
+      }
+      throw error;
+    }
+  }
+  throw new Error(`Production of Duchy (${parentQ}, ${parentR}) kept conflicting`);
+}
@@ -0,0 +1,75 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { PlayerProgress } from '@/lib/science/types';
+
+/**
+ * Progress for a wallet that has never researched anything
+ */
+export function createDefaultProgress(wallet: string): PlayerProgress {
+  return {
+    wallet,
+    researchedTechs: [],
+    currentResearch: null,
+    researchProgress: 0,
+    knowledgePoints: 1000,
+    knowledgePerTick: 1
+  };
+}
+
+/**
+ * Get research progress for a wallet (defaults if not stored yet)
+ */
+export async function findPlayerProgress(wallet: string): Promise<PlayerProgress> {
+  const row = await prisma.playerProgress.findUnique({ where: { wallet } });
+  if (!row) return createDefaultProgress(wallet);
+
+  return {
+    wallet: row.wallet,
+    researchedTechs: row.researchedTechs,
+    currentResearch: row.currentResearch,
+    researchProgress: row.researchProgress,
+    knowledgePoints: row.knowledgePoints,
+    knowledgePerTick: row.knowledgePerTick
+  };
+}
+
+/**
+ * Replace the research progress of a wallet, if it is still `previous`
+ * Returns null when a concurrent request changed it first (nothing is written)
+ */
+export async function updatePlayerProgress(
+  previous: PlayerProgress,
+  progress: PlayerProgress
+): Promise<PlayerProgress | null> {
+  const data = {
+    researchedTechs: progress.researchedTechs,
+    currentResearch: progress.currentResearch,
+    researchProgress: progress.researchProgress,
+    knowledgePoints: progress.knowledgePoints,
+    knowledgePerTick: progress.knowledgePerTick
+  };
+
+  try {
+    const exists = await prisma.playerProgress.findUnique({ where: { wallet: progress.wallet }, select: { wallet: true } });
+    if (!exists) {
+      await prisma.playerProgress.create({ data: { wallet: progress.wallet, ...data } });
+      return progress;
+    }
+
+    const updated = await prisma.playerProgress.updateMany({
+      where: {
+        wallet: progress.wallet,
+        researchedTechs: { equals: previous.researchedTechs },
+        knowledgePoints: previous.knowledgePoints
+      },
+      data
+    });
+    return updated.count > 0 ? progress : null;
+  } catch (error) {
+    // Unique constraint violation: a concurrent request stored the first progress
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * SLX granted to a wallet the first time it is seen (matches the schema default)
+ */
+export const STARTING_SLX_BALANCE = 1000;
+
+/**
+ * Get the SLX balance of a wallet
+ */
+export async function findSilvexBalance(wallet: string): Promise<number> {
+  const row = await prisma.silvexAccount.findUnique({ where: { wallet } });
+  return row?.balance ?? STARTING_SLX_BALANCE;
+}
+
+/**
+ * Burn SLX inside a transaction
+ * Returns the remaining balance, or null if the wallet cannot afford it
+ */
+export async function debitSilvex(
+  tx: Prisma.TransactionClient,
+  wallet: string,
+  amount: number
+): Promise<number | null> {
+  await tx.silvexAccount.upsert({
+    where: { wallet },
+    create: { wallet },
+    update: {}
+  });
+
+  // Conditional decrement so concurrent debits can never go negative
+  const updated = await tx.silvexAccount.updateMany({
+    where: { wallet, balance: { gte: amount } },
+    data: { balance: { decrement: amount } }
+  });
+  if (updated.count === 0) return null;
+
+  const row = await tx.silvexAccount.findUniqueOrThrow({ where: { wallet } });
+  return row.balance;
+}
@@ -0,0 +1,526 @@
+import { Prisma } from '@prisma/client';
+import type { PlacedBuilding as PlacedBuildingRow, SubLand as SubLandRow } from '@prisma/client';
+import { prisma } from './prisma';
+import { debitSilvex } from './silvex';
+import { BUILDING_CONFIGS } from '@/lib/sublands/building-config';
+import type { BuildRejectionCode } from '@/lib/sublands/build-rules';
+import { CLAIM_GRACE_PERIOD_DAYS } from '@/lib/sublands/claims';
+import type {
+  BuildingType,
+  NFTType,
+  PlacedBuilding,
+  ReligionType,
+  SubLand,
+  SubLandState,
+  UrbanCoreBuildings
+} from '@/lib/sublands/types';
+
+type SubLandRowWithBuildings = SubLandRow & { buildings: PlacedBuildingRow[] };
+
+/**
+ * Build the SubLand id used as primary key: "{parentQ}:{parentR}:{q}:{r}"
+ */
+export function getSubLandId(parentQ: number, parentR: number, q: number, r: number): string {
+  return `${parentQ}:${parentR}:${q}:${r}`;
+}
+
+/**
+ * Convert a database building row into the domain PlacedBuilding
+ */
+export function toPlacedBuilding(row: PlacedBuildingRow): PlacedBuilding {
+  return {
+    id: row.id,
+    type: row.type as BuildingType,
+    builtAt: row.builtAt,
+    nftId: row.nftId,
+    position: { offsetX: row.offsetX, offsetY: row.offsetY },
+    workers: row.workers,
+    productionRate: row.productionRate,
+    inventory: (row.inventory ?? {}) as Record<string, number>,
+    urbanCoreData: (row.urbanCoreData ?? undefined) as UrbanCoreBuildings | undefined,
+    religion: (row.religion ?? undefined) as ReligionType | undefined,
+    lastHarvestAt: row.lastHarvestAt ?? undefined
+  };
+}
+
+/**
+ * Convert a database SubLand row into the persisted SubLand state
+ */
+export function toSubLandState(row: SubLandRowWithBuildings): SubLandState {
+  return {
+    id: row.id,
+    q: row.q,
+    r: row.r,
+    status: row.status as SubLand['status'],
+    owner: row.owner ?? undefined,
+    ownerName: row.ownerName ?? undefined,
+    nftId: row.nftId ?? undefined,
+    nftType: row.nftType as NFTType,
+    claimedAt: row.claimedAt ?? undefined,
+    claimExpiresAt: row.claimExpiresAt ?? undefined,
+    buildings: row.buildings.map(toPlacedBuilding),
+    usedAreaM2: row.usedAreaM2,
+    maxAreaM2: row.maxAreaM2,
+    isPartOfTown: row.isPartOfTown,
+    townCenterPosition: row.townCenterQ !== null && row.townCenterR !== null
+      ? { centerQ: row.townCenterQ, centerR: row.townCenterR }
+      : undefined
+  };
+}
+
+/**
+ * Get all persisted SubLands of a Duchy (parent hex)
+ */
+export async function findSubLandStatesForHex(parentQ: number, parentR: number): Promise<SubLandState[]> {
+  const rows = await prisma.subLand.findMany({
+    where: { parentQ, parentR },
+    include: { buildings: true }
+  });
+  return rows.map(toSubLandState);
+}
+
+/**
+ * Get a single persisted SubLand, or null if it was never touched
+ */
+export async function findSubLandState(
+  parentQ: number,
+  parentR: number,
+  q: number,
+  r: number
+): Promise<SubLandState | null> {
+  const row = await prisma.subLand.findUnique({
+    where: { id: getSubLandId(parentQ, parentR, q, r) },
+    include: { buildings: true }
+  });
+  return row ? toSubLandState(row) : null;
+}
+
+export interface ClaimData {
+  owner: string;
+  ownerName?: string;
+  claimedAt: Date;
+  claimExpiresAt: Date;
+}
+
+/**
+ * Atomically claim a virgin SubLand, or one whose claim lapsed (grace period over, no buildings)
+ * Returns null if the SubLand is already claimed (including by a concurrent request)
+ */
+export async function claimSubLand(
+  parentQ: number,
+  parentR: number,
+  q: number,
+  r: number,
+  claim: ClaimData
+): Promise<SubLandState | null> {
+  const id = getSubLandId(parentQ, parentR, q, r);
+  const data = {
+    status: 'claimed',
+    owner: claim.owner,
+    ownerName: claim.ownerName ?? null,
+    nftId: `SL-${parentQ}-${parentR}-${q}-${r}`,
+    nftType: 'county_land', // Claiming grants a County Land NFT
+    claimedAt: claim.claimedAt,
+    claimExpiresAt: claim.claimExpiresAt
+  };
+
+  const lapsedBefore = new Date(claim.claimedAt.getTime() - CLAIM_GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+  try {
+    return await prisma.$transaction(async tx => {
+      const existing = await tx.subLand.findUnique({ where: { id }, select: { status: true } });
+
+      if (existing) {
+        // Only flip rows that are still free: a concurrent claim makes count 0
+        const updated = await tx.subLand.updateMany({
+          where: {
+            id,
+            OR: [
+              { status: 'virgin' },
+              { status: 'claimed', claimExpiresAt: { lt: lapsedBefore }, buildings: { none: {} } }
+            ]
+          },
+          data
+        });
+        if (updated.count === 0) return null;
+      } else {
+        await tx.subLand.create({
+          data: { id, parentQ, parentR, q, r, ...data }
+        });
+      }
+
+      const row = await tx.subLand.findUniqueOrThrow({ where: { id }, include: { buildings: true } });
+      return toSubLandState(row);
+    });
+  } catch (error) {
+    // Unique constraint violation: another request created the row first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Extend the claim of an undeveloped SubLand owned by `owner`
+ * Returns null if the SubLand is not an undeveloped claim of that wallet
+ */
+export async function renewSubLandClaim(
+  parentQ: number,
+  parentR: number,
+  q: number,
+  r: number,
+  owner: string,
+  claimExpiresAt: Date
+): Promise<SubLandState | null> {
+  const id = getSubLandId(parentQ, parentR, q, r);
+  const updated = await prisma.subLand.updateMany({
+    where: { id, owner, status: 'claimed', buildings: { none: {} } },
+    data: { claimExpiresAt }
+  });
+  if (updated.count === 0) return null;
+
+  return findSubLandState(parentQ, parentR, q, r);
+}
+
+export interface ExpiringClaim {
+  id: string;
+  parentQ: number;
+  parentR: number;
+  q: number;
+  r: number;
+  owner: string;
+  claimExpiresAt: Date;
+}
+
+/**
+ * Get undeveloped claims expiring before a date (including already expired ones)
+ */
+export async function findClaimsExpiringBefore(date: Date): Promise<ExpiringClaim[]> {
+  const rows = await prisma.subLand.findMany({
+    where: { status: 'claimed', claimExpiresAt: { lt: date }, buildings: { none: {} } },
+    select: { id: true, parentQ: true, parentR: true, q: true, r: true, owner: true, claimExpiresAt: true }
+  });
+
+  return rows
+    .filter(row => row.owner !== null && row.claimExpiresAt !== null)
+    .map(row => ({ ...row, owner: row.owner as string, claimExpiresAt: row.claimExpiresAt as Date }));
+}
+
+/**
+ * Revert undeveloped claims that expired before `lapsedBefore` to virgin land
+ * Virgin SubLands are not stored, so the rows are deleted; returns the reverted claims
+ */
+export async function revertLapsedClaims(lapsedBefore: Date): Promise<ExpiringClaim[]> {
+  return prisma.$transaction(async tx => {
+    const where = { status: 'claimed', claimExpiresAt: { lt: lapsedBefore }, buildings: { none: {} } };
+    const rows = await tx.subLand.findMany({
+      where,
+      select: { id: true, parentQ: true, parentR: true, q: true, r: true, owner: true, claimExpiresAt: true }
+    });
+    if (rows.length === 0) return [];
+
+    // Re-check the condition on delete so a renewal racing the job is not lost
+    const ids = rows.map(row => row.id);
+    await tx.subLand.deleteMany({ where: { ...where, id: { in: ids } } });
+    const kept = await tx.subLand.findMany({ where: { id: { in: ids } }, select: { id: true } });
+    const keptIds = new Set(kept.map(row => row.id));
+
+    return rows
+      .filter(row => !keptIds.has(row.id) && row.owner !== null && row.claimExpiresAt !== null)
+      .map(row => ({ ...row, owner: row.owner as string, claimExpiresAt: row.claimExpiresAt as Date }));
+  });
+}
+
+function toPlacedBuildingData(sublandId: string, building: PlacedBuilding): Prisma.PlacedBuildingUncheckedCreateInput {
+  return {
+    id: building.id,
+    sublandId,
+    type: building.type,
+    nftId: building.nftId,
+    builtAt: building.builtAt,
+    offsetX: building.position.offsetX,
+    offsetY: building.position.offsetY,
+    workers: building.workers ?? 0,
+    productionRate: building.productionRate ?? 0,
+    inventory: (building.inventory ?? {}) as Prisma.InputJsonObject,
+    urbanCoreData: building.urbanCoreData
+      ? (building.urbanCoreData as unknown as Prisma.InputJsonObject)
+      : undefined,
+    religion: building.religion ?? null,
+    lastHarvestAt: building.lastHarvestAt ?? null
+  };
+}
+
+export interface ConstructionData {
+  wallet: string;
+  q: number;
+  r: number;
+  building: PlacedBuilding;
+  slxCost: number;
+  areaM2: number;
+  maxAreaM2: number; // Used when the SubLand row does not exist yet
+  townTiles?: Array<{ q: number; r: number }>; // Central cluster taken over by a town
+  requiresEmptyTile?: boolean; // Only on land without buildings (villages)
+}
+
+export type ConstructionResult =
+  | { ok: true; sublands: SubLandState[]; balance: number }
+  | { ok: false; reason: BuildRejectionCode };
+
+/**
+ * Thrown inside a construction transaction to roll it back
+ */
+class ConstructionConflict extends Error {
+  constructor(public reason: BuildRejectionCode) {
+    super(reason);
+  }
+}
+
+/**
+ * Burn the SLX cost and place a building in one transaction
+ * Ownership, free area and (for towns) empty tiles are re-checked under the write,
+ * so concurrent requests cannot overbuild a SubLand or spend the same SLX twice.
+ * A town can only be founded by the holder of the Duchy Land NFT (none until those NFTs are tracked).
+ */
+export async function constructBuilding(
+  parentQ: number,
+  parentR: number,
+  construction: ConstructionData
+): Promise<ConstructionResult> {
+  const { wallet, q, r, building } = construction;
+  const id = getSubLandId(parentQ, parentR, q, r);
+
+  try {
+    return await prisma.$transaction(async tx => {
+      const balance = await debitSilvex(tx, wallet, construction.slxCost);
+      if (balance === null) throw new ConstructionConflict('INSUFFICIENT_SLX');
+
+      const changedIds: string[] = [];
+
+      if (construction.townTiles) {
+        const duchy = await tx.hexTileOwnership.findUnique({
+          where: { q_r: { q: parentQ, r: parentR } },
+          select: { owner: true }
+        });
+        if (duchy?.owner !== wallet) throw new ConstructionConflict('NFT_TYPE_REQUIRED');
+
+        const townCenter = { townCenterQ: 0, townCenterR: 0 };
+
+        for (const tile of construction.townTiles) {
+          const tileId = getSubLandId(parentQ, parentR, tile.q, tile.r);
+          const existing = await tx.subLand.findUnique({
+            where: { id: tileId },
+            select: { status: true, _count: { select: { buildings: true } } }
+          });
+          if (existing && (existing.status !== 'virgin' || existing._count.buildings > 0)) {
+            throw new ConstructionConflict('TOWN_TILES_OCCUPIED');
+          }
+
+          // The town founder owns the center hex, the rest of the cluster is town territory
+          const isCenter = tileId === id;
+          const data = {
+            status: 'developed',
+            isPartOfTown: true,
+            ...townCenter,
+            claimExpiresAt: null,
+            ...(isCenter ? { owner: wallet, nftType: 'duchy_land', usedAreaM2: construction.maxAreaM2 } : {})
+          };
+          await tx.subLand.upsert({
+            where: { id: tileId },
+            create: { id: tileId, parentQ, parentR, q: tile.q, r: tile.r, maxAreaM2: construction.maxAreaM2, ...data },
+            update: data
+          });
+          changedIds.push(tileId);
+        }
+      } else {
+        const updated = await tx.subLand.updateMany({
+          where: { id, owner: wallet },
+          data: {
+            status: 'developed',
+            usedAreaM2: { increment: construction.areaM2 },
+            claimExpiresAt: null
+          }
+        });
+        if (updated.count === 0) throw new ConstructionConflict('NOT_OWNER');
+
+        // Read after the update locked the SubLand, so concurrent constructions on it are seen
+        const row = await tx.subLand.findUniqueOrThrow({
+          where: { id },
+          select: { usedAreaM2: true, maxAreaM2: true, isPartOfTown: true, _count: { select: { buildings: true } } }
+        });
+        if (row.usedAreaM2 > row.maxAreaM2) throw new ConstructionConflict('AREA_EXCEEDED');
+        if (construction.requiresEmptyTile && (row._count.buildings > 0 || row.isPartOfTown)) {
+          throw new ConstructionConflict('TILE_NOT_EMPTY');
+        }
+        changedIds.push(id);
+      }
+
+      await tx.placedBuilding.create({ data: toPlacedBuildingData(id, building) });
+
+      const rows = await tx.subLand.findMany({
+        where: { id: { in: changedIds } },
+        include: { buildings: true }
+      });
+      return { ok: true as const, sublands: rows.map(toSubLandState), balance };
+    });
+  } catch (error) {
+    if (error instanceof ConstructionConflict) {
+      return { ok: false, reason: error.reason };
+    }
+    // Unique constraint violation: a concurrent claim created one of the town tiles first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002' && construction.townTiles) {
+      return { ok: false, reason: 'TOWN_TILES_OCCUPIED' };
+    }
+    throw error;
+  }
+}
+
+export type DemolitionRejectionCode =
+  | 'BUILDING_NOT_FOUND'
+  | 'NOT_OWNER'
+  | 'TOWN_NOT_DEMOLISHABLE' // Towns span the central cluster of the Duchy
+  | 'CARGO_EXPECTED';       // A caravan is carrying goods to this warehouse
+
+export type DemolitionResult =
+  | { ok: true; subland: SubLandState }
+  | { ok: false; reason: DemolitionRejectionCode };
+
+/**
+ * Remove a building from a SubLand owned by `wallet` and free its area
+ * When the last building goes, the land is back to an undeveloped claim expiring at `claimExpiresAt`.
+ */
+export async function demolishBuilding(
+  parentQ: number,
+  parentR: number,
+  q: number,
+  r: number,
+  buildingId: string,
+  wallet: string,
+  claimExpiresAt: Date
+): Promise<DemolitionResult> {
+  const id = getSubLandId(parentQ, parentR, q, r);
+
+  return prisma.$transaction(async tx => {
+    const building = await tx.placedBuilding.findFirst({
+      where: { id: buildingId, sublandId: id },
+      select: { type: true, subland: { select: { owner: true } } }
+    });
+    if (!building) return { ok: false as const, reason: 'BUILDING_NOT_FOUND' as const };
+    if (building.subland.owner !== wallet) return { ok: false as const, reason: 'NOT_OWNER' as const };
+    if (building.type === 'town') return { ok: false as const, reason: 'TOWN_NOT_DEMOLISHABLE' as const };
+
+    const inbound = await tx.activeTravel.count({
+      where: { cargo: { path: ['destinationWarehouseId'], equals: buildingId } }
+    });
+    if (inbound > 0) return { ok: false as const, reason: 'CARGO_EXPECTED' as const };
+
+    // A concurrent demolition of the same building makes count 0
+    const deleted = await tx.placedBuilding.deleteMany({ where: { id: buildingId } });
+    if (deleted.count === 0) return { ok: false as const, reason: 'BUILDING_NOT_FOUND' as const };
+
+    const remaining = await tx.placedBuilding.count({ where: { sublandId: id } });
+    const row = await tx.subLand.update({
+      where: { id },
+      data: {
+        usedAreaM2: { decrement: BUILDING_CONFIGS[building.type as BuildingType].areaM2 },
+        ...(remaining === 0 ? { status: 'claimed', claimExpiresAt } : {})
+      },
+      include: { buildings: true }
+    });
+    return { ok: true as const, subland: toSubLandState(row) };
+  });
+}
+
+export interface BuildingLocation {
+  building: PlacedBuilding;
+  parentQ: number;
+  parentR: number;
+  q: number;
+  r: number;
+}
+
+/**
+ * Get all buildings of one or more types with the SubLand they stand on
+ */
+export async function findBuildingsByType(type: BuildingType | BuildingType[]): Promise<BuildingLocation[]> {
+  const rows = await prisma.placedBuilding.findMany({
+    where: { type: Array.isArray(type) ? { in: type } : type },
+    include: { subland: { select: { parentQ: true, parentR: true, q: true, r: true } } }
+  });
+
+  return rows.map(({ subland, ...row }) => ({ building: toPlacedBuilding(row), ...subland }));
+}
+
+/**
+ * Get a building with the SubLand it stands on and that SubLand's owner, or null if it does not exist
+ */
+export async function findBuildingLocation(
+  buildingId: string
+): Promise<(BuildingLocation & { owner?: string }) | null> {
+  const row = await prisma.placedBuilding.findUnique({
+    where: { id: buildingId },
+    include: { subland: { select: { parentQ: true, parentR: true, q: true, r: true, owner: true } } }
+  });
+  if (!row) return null;
+
+  const { subland: { owner, ...subland }, ...building } = row;
+  return { building: toPlacedBuilding(building), ...subland, owner: owner ?? undefined };
+}
+
+// Conditional inventory writes tried before giving up on a building whose stock keeps changing
+const INVENTORY_WRITE_ATTEMPTS = 5;
+
+/**
+ * Apply `change` to a building's inventory with a write conditional on the inventory it was
+ * computed from, retried on a fresh read, so production, harvests and caravans touching the same
+ * building never overwrite each other's goods
+ * `where` adds conditions the building must still meet and `data` other fields written with it;
+ * returns false when the building is gone or no longer meets them
+ */
+export async function updateInventory(
+  client: Prisma.TransactionClient,
+  buildingId: string,
+  change: (inventory: Record<string, number>) => Record<string, number>,
+  options: { where?: Prisma.PlacedBuildingWhereInput; data?: Prisma.PlacedBuildingUpdateManyMutationInput } = {}
+): Promise<boolean> {
+  for (let attempt = 0; attempt < INVENTORY_WRITE_ATTEMPTS; attempt++) {
+    const row = await client.placedBuilding.findFirst({
+      where: { ...options.where, id: buildingId },
+      select: { inventory: true }
+    });
+    if (!row) return false;
+
+    const stock = (row.inventory ?? {}) as Record<string, number>;
+    const updated = await client.placedBuilding.updateMany({
+      where: { ...options.where, id: buildingId, inventory: { equals: stock } },
+      data: { ...options.data, inventory: change({ ...stock }) }
+    });
+    if (updated.count > 0) return true;
+  }
+  throw new Error(`Inventory of building ${buildingId} kept changing`);
+}
+
+/**
+ * Credit harvested goods to a farm's inventory and advance its harvest marker
+ * Only applies if the marker is still `previousHarvestAt`, so a concurrent run
+ * cannot credit the same harvest twice; returns false when it lost that race
+ */
+export async function recordHarvest(
+  buildingId: string,
+  previousHarvestAt: Date | null,
+  harvestedAt: Date,
+  goods: Record<string, number>
+): Promise<boolean> {
+  return updateInventory(
+    prisma,
+    buildingId,
+    inventory => {
+      for (const [item, amount] of Object.entries(goods)) {
+        inventory[item] = (inventory[item] ?? 0) + amount;
+      }
+      return inventory;
+    },
+    { where: { lastHarvestAt: previousHarvestAt }, data: { lastHarvestAt: harvestedAt } }
+  );
+}
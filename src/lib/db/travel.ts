@@ -0,0 +1,379 @@
+import { Prisma } from '@prisma/client';
+import type { ActiveTravel as ActiveTravelRow, PlayerLocation as PlayerLocationRow } from '@prisma/client';
+import { prisma } from './prisma';
+import type { NewHistoryEvent } from './history';
+import type { NewHexSighting } from './exploration';
+import { updateInventory } from './sublands';
+import { getDeliveredItems, type CargoManifest } from '@/lib/cargo';
+import { SPAWN_LOCATION } from '@/lib/hexmap/map-presets';
+import { getJourneyProgress } from '@/lib/travel-calculator';
+import { WAREHOUSE_CAPACITY, getInventoryTotal, roundAmount } from '@/lib/sublands/production';
+
+/**
+ * A hex of a journey: a Duchy, or for subland travel a SubLand with its Duchy
+ * (routes may cross Duchy borders, see sublands/coordinates)
+ */
+export interface TravelStep {
+  q: number;
+  r: number;
+  parentQ?: number;
+  parentR?: number;
+}
+
+/**
+ * Persisted journey of a player
+ * Progress (current hex, elapsed time) is NOT stored: it is derived from startTime
+ */
+export interface StoredTravel {
+  id: string;
+  wallet: string;
+  level: 'duchy' | 'subland';
+  parentQ?: number; // Only for subland travel
+  parentR?: number;
+  origin: { q: number; r: number };
+  destination: { q: number; r: number };
+  path: TravelStep[];
+  totalTravelTime: number; // game days (duchy) or hours (subland)
+  startTime: Date;
+  estimatedArrival: Date;
+  cargo?: CargoManifest; // Goods carried between warehouses
+}
+
+function toStoredTravel(row: ActiveTravelRow): StoredTravel {
+  return {
+    id: row.id,
+    wallet: row.wallet,
+    level: row.level as StoredTravel['level'],
+    parentQ: row.parentQ ?? undefined,
+    parentR: row.parentR ?? undefined,
+    origin: { q: row.originQ, r: row.originR },
+    destination: { q: row.destinationQ, r: row.destinationR },
+    path: row.path as unknown as TravelStep[],
+    totalTravelTime: row.totalTravelTime,
+    startTime: row.startTime,
+    estimatedArrival: row.estimatedArrival,
+    cargo: (row.cargo ?? undefined) as CargoManifest | undefined
+  };
+}
+
+function toPathJson(path: TravelStep[]): Prisma.InputJsonArray {
+  return path.map(({ q, r, parentQ, parentR }) =>
+    parentQ === undefined || parentR === undefined ? { q, r } : { parentQ, parentR, q, r }
+  );
+}
+
+/**
+ * Where a player stands when not traveling
+ */
+export interface StoredLocation {
+  wallet: string;
+  q: number; // Duchy
+  r: number;
+  subland?: { q: number; r: number }; // SubLand inside the Duchy, when known
+}
+
+function toStoredLocation(row: PlayerLocationRow): StoredLocation {
+  return {
+    wallet: row.wallet,
+    q: row.q,
+    r: row.r,
+    subland: row.sublandQ !== null && row.sublandR !== null ? { q: row.sublandQ, r: row.sublandR } : undefined
+  };
+}
+
+/**
+ * Where a journey puts the player at a step of its path (its destination by default)
+ */
+function getStepLocation(travel: StoredTravel, index = travel.path.length - 1): StoredLocation {
+  const step = travel.path[index] ?? travel.destination;
+  if (travel.level === 'duchy') {
+    return { wallet: travel.wallet, q: step.q, r: step.r };
+  }
+  return {
+    wallet: travel.wallet,
+    q: step.parentQ ?? travel.parentQ ?? 0,
+    r: step.parentR ?? travel.parentR ?? 0,
+    subland: { q: step.q, r: step.r }
+  };
+}
+
+async function upsertLocation(tx: Prisma.TransactionClient, location: StoredLocation): Promise<StoredLocation> {
+  const data = {
+    q: location.q,
+    r: location.r,
+    sublandQ: location.subland?.q ?? null,
+    sublandR: location.subland?.r ?? null
+  };
+  const row = await tx.playerLocation.upsert({
+    where: { wallet: location.wallet },
+    create: { wallet: location.wallet, ...data },
+    update: data
+  });
+  return toStoredLocation(row);
+}
+
+/**
+ * Get the location and in-progress journey of a wallet at `now`
+ * A player seen for the first time is placed at the spawn location.
+ * A journey that has arrived ends here: the player stands at its destination, and its cargo is
+ * unloaded like deliverCargo does.
+ */
+export async function settleTravel(
+  wallet: string,
+  now: Date
+): Promise<{ location: StoredLocation; travel: StoredTravel | null }> {
+  return prisma.$transaction(async tx => {
+    const row = await tx.activeTravel.findUnique({ where: { wallet } });
+    const locationRow = await tx.playerLocation.findUnique({ where: { wallet } });
+    const location = locationRow
+      ? toStoredLocation(locationRow)
+      : await upsertLocation(tx, { wallet, q: SPAWN_LOCATION.q, r: SPAWN_LOCATION.r });
+    if (!row) return { location, travel: null };
+
+    const travel = toStoredTravel(row);
+    if (travel.estimatedArrival > now) return { location, travel };
+
+    const deleted = await tx.activeTravel.deleteMany({ where: { id: travel.id } });
+    if (deleted.count > 0 && travel.cargo) await unloadCargo(tx, travel.cargo);
+    return { location: await upsertLocation(tx, getStepLocation(travel)), travel: null };
+  });
+}
+
+/**
+ * What a journey leaves behind, logged when it starts, each entry at the time it will happen:
+ * history events (encounters) and the hexes seen on the way
+ */
+export interface JourneyLog {
+  events?: NewHistoryEvent[];
+  sightings?: NewHexSighting[];
+}
+
+async function writeJourneyLog(tx: Prisma.TransactionClient, log: JourneyLog): Promise<void> {
+  if (log.events?.length) await tx.historyEvent.createMany({ data: log.events });
+  if (log.sightings?.length) await tx.hexSighting.createMany({ data: log.sightings });
+}
+
+export type TravelRejectionCode = 'ALREADY_TRAVELING' | 'NOT_TRAVELING' | 'CARGO_IN_TRANSIT' | 'AT_SEA';
+
+export type TravelResult =
+  | { ok: true; travel: StoredTravel }
+  | { ok: false; reason: TravelRejectionCode };
+
+/**
+ * Start a journey (without cargo, see startCargoTravel), unless the wallet is already traveling
+ */
+export async function startTravel(travel: StoredTravel, log: JourneyLog = {}): Promise<TravelResult> {
+  try {
+    return await prisma.$transaction(async tx => {
+      const row = await tx.activeTravel.create({
+        data: {
+          id: travel.id,
+          wallet: travel.wallet,
+          level: travel.level,
+          parentQ: travel.parentQ ?? null,
+          parentR: travel.parentR ?? null,
+          originQ: travel.origin.q,
+          originR: travel.origin.r,
+          destinationQ: travel.destination.q,
+          destinationR: travel.destination.r,
+          path: toPathJson(travel.path),
+          totalTravelTime: travel.totalTravelTime,
+          startTime: travel.startTime,
+          estimatedArrival: travel.estimatedArrival
+        }
+      });
+      await writeJourneyLog(tx, log);
+      return { ok: true as const, travel: toStoredTravel(row) };
+    });
+  } catch (error) {
+    // Unique constraint violation: the wallet already has a journey
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { ok: false, reason: 'ALREADY_TRAVELING' };
+    }
+    throw error;
+  }
+}
+
+export type CancelTravelResult =
+  | { ok: true; location: StoredLocation }
+  | { ok: false; reason: TravelRejectionCode };
+
+/**
+ * Stop a journey where the traveller is at `now` (journeys carrying cargo cannot be stopped, nor
+ * journeys whose current hex fails `canStopAt`, e.g. on the sea leg of a voyage)
+ * What it had not yet met or seen is dropped from its log
+ */
+export async function cancelTravel(
+  wallet: string,
+  now: Date,
+  canStopAt: (location: StoredLocation) => boolean = () => true
+): Promise<CancelTravelResult> {
+  return prisma.$transaction(async tx => {
+    const row = await tx.activeTravel.findUnique({ where: { wallet } });
+    if (!row) return { ok: false as const, reason: 'NOT_TRAVELING' as const };
+    if (row.cargo !== null) return { ok: false as const, reason: 'CARGO_IN_TRANSIT' as const };
+
+    const travel = toStoredTravel(row);
+    const location = getStepLocation(travel, getJourneyProgress(travel, now).currentHexIndex);
+    if (!canStopAt(location)) return { ok: false as const, reason: 'AT_SEA' as const };
+
+    const deleted = await tx.activeTravel.deleteMany({ where: { id: row.id } });
+    if (deleted.count === 0) return { ok: false as const, reason: 'NOT_TRAVELING' as const };
+    await tx.historyEvent.deleteMany({ where: { travelId: row.id, occurredAt: { gt: now } } });
+    await tx.hexSighting.deleteMany({ where: { travelId: row.id, seenAt: { gt: now } } });
+    return { ok: true as const, location: await upsertLocation(tx, location) };
+  });
+}
+
+export type CargoTravelRejectionCode =
+  | 'ALREADY_TRAVELING'
+  | 'WAREHOUSE_NOT_FOUND'
+  | 'NOT_OWNER'
+  | 'INSUFFICIENT_STOCK'
+  | 'DESTINATION_FULL'
+  | 'NOT_HERE'
+  | 'CONFLICT';
+
+export type CargoTravelResult =
+  | { ok: true; travel: StoredTravel }
+  | { ok: false; reason: CargoTravelRejectionCode };
+
+/**
+ * Thrown inside a cargo transaction to roll it back
+ */
+class CargoConflict extends Error {
+  constructor(public reason: CargoTravelRejectionCode) {
+    super(reason);
+  }
+}
+
+/**
+ * Warehouse inventory inside a transaction, checking it belongs to the wallet
+ */
+async function findOwnedWarehouse(
+  tx: Prisma.TransactionClient,
+  warehouseId: string,
+  wallet: string
+): Promise<Record<string, number>> {
+  const row = await tx.placedBuilding.findUnique({
+    where: { id: warehouseId },
+    select: { type: true, inventory: true, subland: { select: { owner: true } } }
+  });
+  if (!row || row.type !== 'warehouse') throw new CargoConflict('WAREHOUSE_NOT_FOUND');
+  if (row.subland.owner !== wallet) throw new CargoConflict('NOT_OWNER');
+  return (row.inventory ?? {}) as Record<string, number>;
+}
+
+/**
+ * Load the cargo from the origin warehouse and start the journey in one transaction
+ * The origin stock is debited with a conditional update on the inventory it was read with,
+ * so concurrent journeys or production runs cannot take the same goods twice.
+ * The destination must have room for the cargo when it leaves.
+ */
+export async function startCargoTravel(
+  travel: StoredTravel & { cargo: CargoManifest },
+  log: JourneyLog = {}
+): Promise<CargoTravelResult> {
+  const { wallet, cargo } = travel;
+
+  try {
+    return await prisma.$transaction(async tx => {
+      if (await tx.activeTravel.findUnique({ where: { wallet }, select: { id: true } })) {
+        throw new CargoConflict('ALREADY_TRAVELING');
+      }
+
+      const stock = await findOwnedWarehouse(tx, cargo.originWarehouseId, wallet);
+      const destination = await findOwnedWarehouse(tx, cargo.destinationWarehouseId, wallet);
+
+      const remaining = { ...stock };
+      for (const [item, amount] of Object.entries(cargo.items)) {
+        const left = roundAmount((remaining[item] ?? 0) - amount);
+        if (left < 0) throw new CargoConflict('INSUFFICIENT_STOCK');
+        if (left > 0) remaining[item] = left;
+        else delete remaining[item];
+      }
+
+      if (getInventoryTotal(destination) + getInventoryTotal(cargo.items) > WAREHOUSE_CAPACITY) {
+        throw new CargoConflict('DESTINATION_FULL');
+      }
+
+      const updated = await tx.placedBuilding.updateMany({
+        where: { id: cargo.originWarehouseId, inventory: { equals: stock } },
+        data: { inventory: remaining }
+      });
+      if (updated.count === 0) throw new CargoConflict('CONFLICT');
+
+      const row = await tx.activeTravel.create({
+        data: {
+          id: travel.id,
+          wallet,
+          level: travel.level,
+          originQ: travel.origin.q,
+          originR: travel.origin.r,
+          destinationQ: travel.destination.q,
+          destinationR: travel.destination.r,
+          path: toPathJson(travel.path),
+          totalTravelTime: travel.totalTravelTime,
+          startTime: travel.startTime,
+          estimatedArrival: travel.estimatedArrival,
+          cargo: cargo as unknown as Prisma.InputJsonObject
+        }
+      });
+      await writeJourneyLog(tx, log);
+      return { ok: true as const, travel: toStoredTravel(row) };
+    });
+  } catch (error) {
+    if (error instanceof CargoConflict) {
+      return { ok: false, reason: error.reason };
+    }
+    // Unique constraint violation: a concurrent request started a journey for the wallet first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { ok: false, reason: 'ALREADY_TRAVELING' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Journeys carrying cargo that have arrived by `now`
+ */
+export async function findArrivedCargoTravels(now: Date): Promise<StoredTravel[]> {
+  const rows = await prisma.activeTravel.findMany({
+    where: { estimatedArrival: { lte: now }, cargo: { not: Prisma.DbNull } },
+    orderBy: { estimatedArrival: 'asc' }
+  });
+  return rows.map(toStoredTravel);
+}
+
+/**
+ * Unload an arrived journey into its destination warehouse and end it, leaving the player there
+ * The journey is deleted first, so a concurrent run cannot unload the same goods twice;
+ * returns false when it lost that race. Goods are unloaded even past the warehouse capacity:
+ * room was checked when they left, and the caravan cannot carry them back. Goods lost on the
+ * way (see travel-events) never arrive.
+ */
+export async function deliverCargo(travelId: string): Promise<boolean> {
+  return prisma.$transaction(async tx => {
+    const travel = await tx.activeTravel.findUnique({ where: { id: travelId } });
+    if (!travel?.cargo) return false;
+
+    const deleted = await tx.activeTravel.deleteMany({ where: { id: travelId } });
+    if (deleted.count === 0) return false;
+    await upsertLocation(tx, getStepLocation(toStoredTravel(travel)));
+    await unloadCargo(tx, travel.cargo as unknown as CargoManifest);
+    return true;
+  });
+}
+
+/**
+ * Add the goods of an ended journey to its destination warehouse
+ * A warehouse demolished on the way is not found: the goods are lost
+ */
+async function unloadCargo(tx: Prisma.TransactionClient, cargo: CargoManifest): Promise<void> {
+  await updateInventory(tx, cargo.destinationWarehouseId, inventory => {
+    for (const [item, amount] of Object.entries(getDeliveredItems(cargo))) {
+      inventory[item] = roundAmount((inventory[item] ?? 0) + amount);
+    }
+    return inventory;
+  });
+}
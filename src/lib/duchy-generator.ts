@@ -1,4 +1,6 @@
 import type { DuchyInfo } from '@/types/game';
+import { createHexCoordinates, hexDistance } from './hexmap/hex-utils';
+import { WORLD_MAP_WIDTH } from './hexmap/map-presets';
 
 /**
  * Generate duchy name based on coordinates
@@ -28,7 +30,7 @@ export function generateDuchyInfo(q: number, r: number): DuchyInfo {
 }
 
 /**
- * Calculate distance between two duchies (hex grid distance)
+ * Calculate distance between two duchies (hex grid distance, the shorter way around the world)
  */
 export function calculateDuchyDistance(
   fromQ: number,
@@ -36,12 +38,5 @@ export function calculateDuchyDistance(
   toQ: number,
   toR: number
 ): number {
-  // Axial distance formula for hexagons
-  const dq = toQ - fromQ;
-  const dr = toR - fromR;
-  
-  // Convert to cube coordinates for easier calculation
-  const ds = -dq - dr;
-  
-  return (Math.abs(dq) + Math.abs(dr) + Math.abs(ds)) / 2;
+  return hexDistance(createHexCoordinates(fromQ, fromR), createHexCoordinates(toQ, toR), WORLD_MAP_WIDTH);
 }
@@ -0,0 +1,34 @@
+import type { ForumCategory } from '@/types/game';
+
+/**
+ * Forum categories, in display order (post counts come from the database)
+ */
+export const FORUM_CATEGORIES: Array<Omit<ForumCategory, 'postCount'>> = [
+  { id: 'general', name: 'General', description: 'General discussions', icon: '💬' },
+  { id: 'trading', name: 'Trading', description: 'Buy, sell, and trade', icon: '🤝' },
+  { id: 'strategy', name: 'Strategy', description: 'Game strategies and tips', icon: '🎯' },
+  { id: 'alliances', name: 'Alliances', description: 'Form alliances and coalitions', icon: '🤝' },
+  { id: 'bugs', name: 'Bugs & Reports', description: 'Report issues', icon: '🐛' }
+];
+
+// Longest post or reply, in characters
+export const MAX_FORUM_CONTENT_LENGTH = 5000;
+
+/**
+ * Check the text of a post or reply from a request body: the trimmed content, or an error message
+ */
+export function validateForumContent(value: unknown): { content: string } | { error: string } {
+  if (typeof value !== 'string' || !value.trim()) return { error: 'Missing content' };
+  const content = value.trim();
+  if (content.length > MAX_FORUM_CONTENT_LENGTH) {
+    return { error: `Content exceeds ${MAX_FORUM_CONTENT_LENGTH} characters` };
+  }
+  return { content };
+}
+
+/**
+ * Whether a value is the id of a forum category
+ */
+export function isForumCategory(value: unknown): value is string {
+  return FORUM_CATEGORIES.some(category => category.id === value);
+}
@@ -0,0 +1,186 @@
+import type { HexTile } from './types';
+import { getHexKey, getNeighbors } from './hex-utils';
+
+/**
+ * Climate simulation
+ * Temperature falls with latitude and altitude and is moderated near the sea. Rain comes from
+ * moist air blown in by the prevailing wind of each latitude band: it picks up moisture over the
+ * ocean, rains it out as it crosses land, and drops most of it on the windward side of mountain
+ * ranges, leaving a rain shadow behind them. Each band is also wetter or drier overall (rainy
+ * tropics, dry subtropical belts, wet mid-latitudes, dry poles).
+ *
+ * Produces `temperature` (celsius) and `rainfall` (0-100) for every hex; terrain and features are
+ * derived from them (see determineTerrain and addTerrainFeatures).
+ */
+
+export type WindDirection = 'east' | 'west'; // Where the wind blows to
+
+export type ClimateZone = 'arid' | 'semi_arid' | 'humid_tropical' | 'humid_temperate' | 'cold';
+
+// Temperature at sea level on the equator, and its fall per degree of latitude and per unit of elevation
+const EQUATOR_TEMPERATURE = 30;
+const LATITUDE_COOLING = 0.6;
+const ALTITUDE_COOLING = 3;
+
+// The sea pulls coastal temperatures toward a mild value, fading inland
+const SEA_TEMPERATURE = 15;
+const MARITIME_EFFECT = 0.25;
+const MARITIME_REACH = 4;
+
+// Moisture of the air (0-1): regained over open water, rained out over land
+const OCEAN_EVAPORATION = 0.2;
+const INLAND_RAINOUT = 0.05;
+const OROGRAPHIC_RAINOUT = 0.15; // Share of the air's moisture lost per unit the land rises
+const UPLAND_RAIN = 4; // Extra rain per unit of elevation from moist air over high ground
+
+// Sea breezes bring some rain to the first hexes inland whatever the wind
+const SEA_BREEZE_RAIN = 10;
+const SEA_BREEZE_REACH = 3;
+
+// Overall wetness of each latitude band: [degrees, factor], interpolated between
+const BAND_WETNESS: Array<[number, number]> = [
+  [0, 1.2],   // Tropical rain belt
+  [10, 1.15],
+  [20, 0.6],
+  [30, 0.45], // Subtropical dry belt
+  [40, 0.9],
+  [55, 1],    // Mid-latitude storms
+  [70, 0.7],
+  [90, 0.45]  // Polar desert
+];
+
+// Climate zones of the land (see getClimateZone)
+const ARID_MIN_TEMPERATURE = 12;
+const ARID_MAX_RAINFALL = 30;
+const HUMID_MIN_RAINFALL = 55;
+const TROPICAL_MIN_TEMPERATURE = 18;
+const COLD_MAX_TEMPERATURE = 5;
+
+/**
+ * Prevailing wind at a latitude: trade winds (up to 30°) and polar easterlies (beyond 60°) blow
+ * west, the westerlies in between blow east
+ */
+export function getPrevailingWind(latitude: number): WindDirection {
+  const absLat = Math.abs(latitude);
+  return absLat >= 30 && absLat < 60 ? 'east' : 'west';
+}
+
+/**
+ * How wet a latitude band is overall (1 = average)
+ */
+export function getBandWetness(latitude: number): number {
+  const absLat = Math.min(Math.abs(latitude), 90);
+  for (let i = 1; i < BAND_WETNESS.length; i++) {
+    const [toLat, toWetness] = BAND_WETNESS[i];
+    if (absLat <= toLat) {
+      const [fromLat, fromWetness] = BAND_WETNESS[i - 1];
+      return fromWetness + (toWetness - fromWetness) * (absLat - fromLat) / (toLat - fromLat);
+    }
+  }
+  return BAND_WETNESS[BAND_WETNESS.length - 1][1];
+}
+
+/**
+ * Climate zone of a hex, from which its biome follows: desert where arid, jungle where humid and
+ * tropical, forest where humid and temperate
+ */
+export function getClimateZone(temperature: number, rainfall: number): ClimateZone {
+  if (temperature > ARID_MIN_TEMPERATURE && rainfall < ARID_MAX_RAINFALL) return 'arid';
+  if (temperature <= COLD_MAX_TEMPERATURE) return 'cold';
+  if (rainfall > HUMID_MIN_RAINFALL) {
+    return temperature > TROPICAL_MIN_TEMPERATURE ? 'humid_tropical' : 'humid_temperate';
+  }
+  return 'semi_arid';
+}
+
+function isWater(tile: HexTile): boolean {
+  return tile.terrain === 'ocean' || tile.terrain === 'coast';
+}
+
+/**
+ * Hexes inland from the sea, for land within `maxDistance` of it
+ */
+function getDistanceToSea(tiles: Map<string, HexTile>, maxDistance: number): Map<string, number> {
+  const distances = new Map<string, number>();
+  let frontier: HexTile[] = [];
+
+  for (const [key, tile] of tiles) {
+    if (isWater(tile)) {
+      distances.set(key, 0);
+      frontier.push(tile);
+    }
+  }
+
+  for (let distance = 1; distance <= maxDistance && frontier.length > 0; distance++) {
+    const next: HexTile[] = [];
+    for (const tile of frontier) {
+      for (const neighbor of getNeighbors(tile.coordinates)) {
+        const key = getHexKey(neighbor.q, neighbor.r);
+        const neighborTile = tiles.get(key);
+        if (!neighborTile || distances.has(key)) continue;
+        distances.set(key, distance);
+        next.push(neighborTile);
+      }
+    }
+    frontier = next;
+  }
+
+  return distances;
+}
+
+/**
+ * Set the temperature and rainfall of every hex from its latitude, elevation and surroundings
+ * Land must already have its elevation (see tectonics.ts) and water its terrain
+ */
+export function simulateClimate(tiles: Map<string, HexTile>): void {
+  const toSea = getDistanceToSea(tiles, Math.max(MARITIME_REACH, SEA_BREEZE_REACH));
+
+  // Offset rows share a latitude and run east-west
+  const lines = new Map<number, HexTile[]>();
+  for (const tile of tiles.values()) {
+    const row = tile.coordinates.r + Math.floor(tile.coordinates.q / 2);
+    const line = lines.get(row) ?? [];
+    line.push(tile);
+    lines.set(row, line);
+  }
+
+  for (const line of lines.values()) {
+    // Follow the wind along the line, starting with moist air from beyond the map edge
+    line.sort((a, b) => a.coordinates.q - b.coordinates.q);
+    if (getPrevailingWind(line[0].latitude) === 'west') line.reverse();
+
+    let moisture = 1;
+    let previousElevation = 0;
+
+    for (const tile of line) {
+      const wetness = getBandWetness(tile.latitude);
+      const distance = toSea.get(getHexKey(tile.coordinates.q, tile.coordinates.r)) ?? Infinity;
+      const elevation = Math.max(tile.elevation, 0);
+
+      let temperature = EQUATOR_TEMPERATURE - Math.abs(tile.latitude) * LATITUDE_COOLING - elevation * ALTITUDE_COOLING;
+      if (distance <= MARITIME_REACH) {
+        temperature += (SEA_TEMPERATURE - temperature) * MARITIME_EFFECT * (1 - distance / (MARITIME_REACH + 1));
+      }
+
+      let rainfall: number;
+      if (isWater(tile)) {
+        moisture = Math.min(1, moisture + OCEAN_EVAPORATION);
+        rainfall = wetness * (15 + 70 * moisture);
+        previousElevation = 0;
+      } else {
+        // Air forced up a slope cools and rains out; what is left dries further inland
+        const orographic = Math.min(moisture, Math.max(0, elevation - previousElevation) * OROGRAPHIC_RAINOUT * moisture);
+        moisture -= orographic;
+        moisture -= moisture * INLAND_RAINOUT;
+        rainfall = wetness * (15 + 70 * moisture) + orographic * 250 + elevation * UPLAND_RAIN * moisture;
+        if (distance <= SEA_BREEZE_REACH) {
+          rainfall += SEA_BREEZE_RAIN * (1 - distance / (SEA_BREEZE_REACH + 1));
+        }
+        previousElevation = elevation;
+      }
+
+      tile.temperature = Math.round(temperature * 10) / 10;
+      tile.rainfall = Math.round(Math.min(100, Math.max(0, rainfall)) * 10) / 10;
+    }
+  }
+}
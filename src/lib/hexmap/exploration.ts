@@ -0,0 +1,122 @@
+import type { HexTile, TerrainFeature, TerrainType } from './types';
+import { getHexKey, wrapHex } from './hex-utils';
+import { WORLD_MAP_WIDTH } from './map-presets';
+import { getSeasonForMonth, realTimeToGameDate } from '../calendar';
+
+/**
+ * Fog of war
+ * Each player only knows the Duchies they have seen: those within sight of where they stand
+ * or of a hex they have traveled through. Sight reaches further from high ground and less
+ * through dense jungle. Hexes seen before but out of sight now show what was there back then.
+ */
+
+export type TileVisibility = 'unknown' | 'explored' | 'visible';
+
+// Duchies a traveller sees around them, by the terrain they stand on
+const DEFAULT_SIGHT_RADIUS = 2;
+const TERRAIN_SIGHT_RADIUS: Partial<Record<TerrainType, number>> = {
+  mountain_range: 4,
+  hills: 3
+};
+const FEATURE_SIGHT_RADIUS: Partial<Record<TerrainFeature, number>> = {
+  jungle: 1
+};
+
+/**
+ * A hex seen by a player, and when they last saw it
+ */
+export interface ExploredHex {
+  q: number;
+  r: number;
+  seenAt: Date;
+}
+
+/**
+ * How far a traveller sees from a hex, in Duchies
+ */
+export function getSightRadius(tile: HexTile | undefined): number {
+  if (!tile) return DEFAULT_SIGHT_RADIUS;
+
+  // Dense cover limits sight even on high ground
+  const covered = (tile.features ?? [])
+    .map(feature => FEATURE_SIGHT_RADIUS[feature])
+    .filter((radius): radius is number => radius !== undefined);
+  if (covered.length > 0) return Math.min(...covered);
+
+  return TERRAIN_SIGHT_RADIUS[tile.terrain] ?? DEFAULT_SIGHT_RADIUS;
+}
+
+/**
+ * Keys of the hexes in sight of a position (wrapped across the east-west seam)
+ */
+export function getHexesInSight(
+  position: { q: number; r: number },
+  tiles: Map<string, HexTile>,
+  mapWidth: number = WORLD_MAP_WIDTH
+): string[] {
+  const radius = getSightRadius(tiles.get(getHexKey(position.q, position.r)));
+  const keys: string[] = [];
+
+  for (let dq = -radius; dq <= radius; dq++) {
+    for (let dr = Math.max(-radius, -dq - radius); dr <= Math.min(radius, -dq + radius); dr++) {
+      const hex = wrapHex(position.q + dq, position.r + dr, mapWidth);
+      const key = getHexKey(hex.q, hex.r);
+      if (tiles.has(key)) keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Hexes a journey will bring into sight, each when it comes into sight and when it is last seen
+ * Logged when the journey starts (see db/exploration); steps are timed along its schedule
+ */
+export function getJourneySightings(
+  journey: { path: Array<{ q: number; r: number }>; startTime: Date; estimatedArrival: Date },
+  tiles: Map<string, HexTile>,
+  mapWidth: number = WORLD_MAP_WIDTH
+): ExploredHex[] {
+  const steps = Math.max(journey.path.length - 1, 1);
+  const duration = journey.estimatedArrival.getTime() - journey.startTime.getTime();
+  const sightings = new Map<string, { q: number; r: number; first: number; last: number }>();
+
+  journey.path.forEach((position, index) => {
+    const time = journey.startTime.getTime() + (index / steps) * duration;
+    for (const key of getHexesInSight(position, tiles, mapWidth)) {
+      const seen = sightings.get(key);
+      if (seen) {
+        seen.last = time;
+      } else {
+        const { q, r } = tiles.get(key)!.coordinates;
+        sightings.set(key, { q, r, first: time, last: time });
+      }
+    }
+  });
+
+  const explored: ExploredHex[] = [];
+  for (const { q, r, first, last } of sightings.values()) {
+    explored.push({ q, r, seenAt: new Date(first) });
+    if (last !== first) explored.push({ q, r, seenAt: new Date(last) });
+  }
+  return explored;
+}
+
+/**
+ * Visibility of a hex for a player
+ */
+export function getTileVisibility(
+  key: string,
+  visible: Set<string>,
+  explored: Map<string, Date>
+): TileVisibility {
+  if (visible.has(key)) return 'visible';
+  return explored.has(key) ? 'explored' : 'unknown';
+}
+
+/**
+ * A hex as it was last seen: the season then, in its hemisphere
+ */
+export function getStaleTile(tile: HexTile, seenAt: Date): HexTile {
+  const { month } = realTimeToGameDate(seenAt);
+  return { ...tile, season: getSeasonForMonth(month, tile.hemisphere) };
+}
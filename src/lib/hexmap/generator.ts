@@ -1,118 +1,88 @@
 import type { HexTile, MapConfig, ResourceType, TerrainType, AnimalType, MineralType, IslandType, IslandConfig } from './types';
-import { isInBounds, getHexKey, createHexCoordinates, calculateLatitude, getHemisphere } from './hex-utils';
+import { isInBounds, getHexKey, getNeighbors, createHexCoordinates, calculateLatitude, getHemisphere } from './hex-utils';
 import { getSeasonForTile } from './season-system';
 import { addTerrainFeatures } from './terrain-features';
 import { generateAllRivers } from './river-system';
+import { DEFAULT_MAP_CONFIG, WORLD_SEED } from './map-presets';
+import { generateHeightmap, type Heightmap } from './tectonics';
+import { simulateClimate, getClimateZone } from './climate';
+import { createRandomStream, type SeededRandom } from '../random';
 
 /**
- * Seeded random number generator for deterministic map generation
+ * Where the generator scatters each type of island
+ * Listed in generation order, which the seeded output depends on
  */
-class SeededRandom {
-  private seed: number;
-  
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-  
-  next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
-  }
-  
-  range(min: number, max: number): number {
-    return min + this.next() * (max - min);
-  }
-  
-  int(min: number, max: number): number {
-    return Math.floor(this.range(min, max + 1));
-  }
-}
+const ISLAND_PLACEMENT: Record<IslandType, {
+  latRange?: [number, number];
+  continentSide?: 'east' | 'west';
+  minDistFromPoles?: number;
+  minDistFromEquator?: number;
+}> = {
+  // Desert islands: subtropical belts (none on Earth, eliminated per user request)
+  desert: { latRange: [15, 35], minDistFromPoles: 50 },
+  // Tundra islands - ONLY near poles (70-88° latitude), NOT near equator
+  tundra: { latRange: [70, 88], minDistFromEquator: 70 },
+  // Jungle islands - ALL on WEST side of meridian (Drantium side), near equator
+  jungle: { continentSide: 'west', latRange: [-20, 20], minDistFromPoles: 50 },
+  // Forest islands - on EAST side (Brontium side), temperate latitudes
+  forest: { continentSide: 'east', latRange: [30, 60], minDistFromPoles: 35 },
+  // Mountain_range islands - distributed globally, volcanic centers
+  mountain_range: { minDistFromPoles: 20 }
+};
 
 /**
- * Generate Earth-sized hexagonal map with two continents (Drantium & Brontium) and 200 islands
- * NEW GEOGRAPHY:
- * - Drantium (West): Desert divided in half, C-shaped mountain range enclosing desert, river crossing E-W
- * - Brontium (East): Half of Drantium's desert, C-shaped mountain range, central tundra replaced by mountains
+ * Generate a hexagonal world map from a seed and a MapConfig (Earth by default, see map-presets)
+ * Elevation comes from a plate tectonics heightmap (see tectonics.ts): mountain ranges rise where
+ * plates collide, so their shape follows from the seed
+ * Biomes come from the climate (see climate.ts): deserts lie in the dry subtropics and rain
+ * shadows, jungle and forest where it is warm or mild and wet
+ * EARTH GEOGRAPHY:
+ * - Drantium (West): Tropical, wet where the trade winds come ashore, deserts in the subtropics
+ * - Brontium (East): Temperate, dry in the lee of its ranges
  * - Poles: First ice line replaced with tundra
  */
-export async function generateEarthMap(seed: number = 42, currentMonth: number = 1): Promise<Map<string, HexTile>> {
-  const random = new SeededRandom(seed);
-  
-  // Earth configuration: EXPANDED map with more ocean
-  // Width: 420 hexes (400 + 20 for expanded ocean between continents)
-  // Height: 220 hexes (200 + 10 north + 10 south for expanded polar oceans)
-  const config: MapConfig = {
-    width: 420,
-    height: 220,
-    hexSizeKm: 100,
-    continents: [
-      // Drantium continent (West/left): jungle-based, analogous to America
-      // Moved further west to accommodate expanded ocean
-      // Moved down 17 units so q:-70, r:17 is at the equator (r:0)
-      { centerQ: -70, centerR: -17, width: 70, height: 70, type: 'drantium' },
-      // Brontium continent (East/right): forest-based, analogous to Europe
-      // Moved further east to accommodate expanded ocean
-      { centerQ: 70, centerR: 0, width: 70, height: 70, type: 'brontium' }
-    ],
-    islands: []
-  };
-  
-  // Generate 160 specialized islands with improved distribution
-  const islands: IslandConfig[] = [];
-  
-  // REMOVED: 40 Desert islands - eliminated per user request
-  // generateDesertIslandsNearContinentalDeserts(islands, 40, random, config);
-  
-  // 40 Tundra islands - ONLY near poles (70-88° latitude), NOT near equator
-  // EXPANDED: Adjusted to match new tundra zone (76-88°)
-  generateIslandsByType(islands, 40, 'tundra', random, config, { 
-    latRange: [70, 88],
-    minDistFromEquator: 70
-  });
-  
-  // 40 Jungle islands - ALL on WEST side of meridian (Drantium side), near equator
-  generateIslandsByType(islands, 40, 'jungle', random, config, { 
-    continentSide: 'west',
-    latRange: [-20, 20],
-    minDistFromPoles: 50
-  });
-  
-  // 40 Forest islands - on EAST side (Brontium side), temperate latitudes
-  generateIslandsByType(islands, 40, 'forest', random, config, { 
-    continentSide: 'east',
-    latRange: [30, 60],
-    minDistFromPoles: 35
-  });
-  
-  // 40 Mountain_range islands - distributed globally, volcanic centers
-  generateIslandsByType(islands, 40, 'mountain_range', random, config, {
-    minDistFromPoles: 20
-  });
-  
-  config.islands = islands;
+export async function generateEarthMap(
+  seed: number = WORLD_SEED,
+  currentMonth: number = 1,
+  mapConfig: MapConfig = DEFAULT_MAP_CONFIG
+): Promise<Map<string, HexTile>> {
+  const random = createRandomStream(seed, 'terrain');
+  
+  // Scattered islands are added to a copy, so presets are never modified
+  const config: MapConfig = { ...mapConfig, islands: [...mapConfig.islands] };
+  const islands: IslandConfig[] = config.islands;
+  
+  for (const type of Object.keys(ISLAND_PLACEMENT) as IslandType[]) {
+    const count = config.islandCounts[type] ?? 0;
+    if (count > 0) {
+      generateIslandsByType(islands, count, type, random, config, ISLAND_PLACEMENT[type]);
+    }
+  }
   
   const tiles = new Map<string, HexTile>();
+  const landmasses = new Map<string, { continentType?: 'drantium' | 'brontium'; islandType?: IslandType }>();
   
-  // First pass: Generate all hexes with basic terrain
-  for (let r = -config.height / 2; r < config.height / 2; r++) {
+  // First pass: Generate all hexes and find which are land
+  // The map is a full rectangle of offset rows, so every row reaches both sides of the east-west seam
+  for (let row = -config.height / 2; row < config.height / 2; row++) {
     for (let q = -config.width / 2; q < config.width / 2; q++) {
-      if (!isInBounds(q, r, config.width, config.height)) continue;
+      const r = row - Math.floor(q / 2);
       
-      // Calculate latitude and hemisphere
-      const latitude = calculateLatitude(r, config.height);
+      // Calculate latitude and hemisphere (a row keeps its latitude all around the world, see wrapHex)
+      const latitude = calculateLatitude(row, config.height);
       const absLat = Math.abs(latitude);
       const hemisphere = getHemisphere(latitude);
       
       // Get season for this tile based on current month
       const seasonInfo = getSeasonForTile(currentMonth, latitude);
       
-      // NEW: Check if polar tundra zone (first line replacing ice) - between 76° and 88°
-      // EXPANDED: 6 degrees wider toward equator on each pole
+      // Polar tundra zone (first line replacing ice), 76° to 88° on Earth
       // BUT: Do NOT place tundra inside continents or near their islands
-      const isPolarTundra = absLat > 76 && absLat <= 88;
+      const { polarTundra, iceCap } = config.latitudeBands;
+      const isPolarTundra = absLat > polarTundra && absLat <= iceCap;
       
-      // Ice cap only at extreme poles (>88°)
-      const isIceCap = absLat > 88;
+      // Ice cap only at extreme poles (>88° on Earth)
+      const isIceCap = absLat > iceCap;
       
       // Check if this hex is in a continent
       const continent = config.continents.find(cont => 
@@ -136,13 +106,11 @@ export async function generateEarthMap(seed: number = 42, currentMonth: number =
         terrain = 'tundra';
         elevation = 0;
       } else if (continent || island) {
-        elevation = calculateElevation(q, r, continent, island, random);
-        terrain = determineTerrain(latitude, elevation, random, continent?.type, island?.type);
+        // Terrain is set from the heightmap below
+        terrain = 'plains';
+        landmasses.set(getHexKey(q, r), { continentType: continent?.type, islandType: island ? island.type : undefined });
       }
       
-      const temperature = calculateTemperature(latitude, elevation);
-      const rainfall = calculateRainfall(latitude, random);
-      
       tiles.set(getHexKey(q, r), {
         coordinates: createHexCoordinates(q, r),
         terrain,
@@ -151,8 +119,8 @@ export async function generateEarthMap(seed: number = 42, currentMonth: number =
         animals: [],
         minerals: [],
         elevation,
-        temperature,
-        rainfall,
+        temperature: 0, // Set by the climate pass
+        rainfall: 0,
         hasVolcano: false,
         hasRiver: false,
         continent: continent?.type || island?.type as any, // Ensure continent is assigned
@@ -163,40 +131,35 @@ export async function generateEarthMap(seed: number = 42, currentMonth: number =
     }
   }
   
-  // Second pass: Add DIVIDED desert zones (50% Drantium, 50% Brontium)
-  addDividedDesertZones(tiles, config, random);
-  
-  // Third pass: Add C-shaped mountain ranges that enclose deserts
-  addCShapedMountainRanges(tiles, config, random);
+  // Second pass: Elevation from plate tectonics
+  const heightmap = generateHeightmap(tiles, new Set(landmasses.keys()), config, createRandomStream(seed, 'tectonics'));
+  applyHeightmap(tiles, heightmap, landmasses, random);
   
-  // Fourth pass: Replace central tundra in Brontium with mountains and forests
-  replaceCentralTundraWithMountainsAndForests(tiles, config, random);
+  // Third pass: Temperature and rainfall from winds, the sea and relief, and the terrain they give the land
+  simulateClimate(tiles);
+  applyClimate(tiles, landmasses);
   
-  // Fifth pass: Add MASSIVE jungle expansion in central Drantium
-  addMassiveJungleExpansion(tiles, config, random);
-  
-  // Sixth pass: Add 100 volcanoes (EXACTLY 100)
-  addVolcanoes(tiles, config, random);
+  // Fourth pass: Add 100 volcanoes (EXACTLY 100) along colliding plates
+  addVolcanoes(tiles, config, random, heightmap);
   
   // RESOURCES REMOVED: No minerals, animals, or food resources
   // Only terrain features (forest, jungle, oasis, volcano, boreal forest)
   
-  // Ninth pass: Convert ocean tiles adjacent to land into coast
+  // Fifth pass: Convert ocean tiles adjacent to land into coast
   addCoastalTiles(tiles, config);
   
   // NEW: Clean up all existing oasis features before regeneration
   cleanupOasisFeatures(tiles);
   
-  // Fourteenth pass: Add terrain features (forest in Brontium, jungle in Drantium)
+  // Sixth pass: Add terrain features (forest in Brontium, jungle in Drantium)
   // This must happen AFTER all terrain is set but BEFORE resources that depend on features
   addTerrainFeatures(tiles, config, random);
   
-  // Fifteenth pass: CONSISTENCY CLEANUP - Remove isolated tiles and make deserts compact
+  // Seventh pass: CONSISTENCY CLEANUP - Remove isolated tiles
   cleanupInlandCoastTiles(tiles, config);
-  makeDesertsCompact(tiles, config);
   smoothTerrainNoise(tiles, config);
   
-  // Sixteenth pass: Ensure all mountain_ranges (cordilleras) have hills or mountains around them
+  // Eighth pass: Ensure all mountain_ranges (cordilleras) have hills or mountains around them
   ensureMountainRangeNeighbors(tiles, config);
   
   // Analysis removed - kept internal only
@@ -217,7 +180,7 @@ export async function generateEarthMap(seed: number = 42, currentMonth: number =
   console.log(`   Sample mountains:`, sampleMountains.join(', '));
   
   // CRITICAL: Generate rivers AFTER all terrain is finalized
-  // Rivers MUST start in mountain_range (cordillera) and end in coast
+  // Rivers MUST start in mountain_range (cordillera) and end in coast, a lake or another river
   // Generate EXACTLY 40 rivers
   console.log('🚀🚀🚀 CALLING generateAllRivers() 🚀🚀🚀');
   
@@ -227,8 +190,10 @@ export async function generateEarthMap(seed: number = 42, currentMonth: number =
       minLength: 8,  // Reduced from 15 to allow shorter rivers near coast
       maxAttempts: 100,
       flowToOcean: true,
-      allowLakes: false
-    }, 40); // Target: 40 rivers
+      allowLakes: true,
+      allowTributaries: true,
+      deltaMinLength: 12
+    }, 40, createRandomStream(seed, 'rivers')); // Target: 40 rivers
     
     console.log(`✅ generateAllRivers() returned successfully with ${rivers.length} rivers`);
   } catch (error) {
@@ -263,218 +228,6 @@ export async function generateEarthMap(seed: number = 42, currentMonth: number =
 
 
 
-/**
- * NEW: Add DIVIDED desert zones - 50% in Drantium, 50% in Brontium
- */
-function addDividedDesertZones(tiles: Map<string, HexTile>, config: MapConfig, random: SeededRandom): void {
-  let landTileCount = 0;
-  for (const [, tile] of tiles) {
-    if (tile.terrain !== 'ocean' && tile.terrain !== 'ice' && tile.terrain !== 'coast') {
-      landTileCount++;
-    }
-  }
-  
-  const targetDesertTiles = Math.floor(landTileCount * 0.20);
-  const desertPerContinent = Math.floor(targetDesertTiles / 2);
-  
-  // DRANTIUM: Half of total desert - East side of continent
-  // Adjusted for new continent position (centerR = -17)
-  const drantiumContinent = config.continents.find(c => c.type === 'drantium');
-  if (drantiumContinent) {
-    const desertCenterQ = drantiumContinent.centerQ + 20;
-    const desertCenterR = drantiumContinent.centerR + 27; // Adjusted: was +10, now +27 (10 + 17)
-    const desertRadius = Math.sqrt(desertPerContinent * 1.5);
-    
-    addDesertCluster(tiles, desertCenterQ, desertCenterR, desertRadius, desertPerContinent, 'drantium', random);
-  }
-  
-  // BRONTIUM: Other half - West side of continent
-  const brontiumContinent = config.continents.find(c => c.type === 'brontium');
-  if (brontiumContinent) {
-    const desertCenterQ = brontiumContinent.centerQ - 20;
-    const desertCenterR = brontiumContinent.centerR + 15;
-    const desertRadius = Math.sqrt(desertPerContinent * 1.5);
-    
-    addDesertCluster(tiles, desertCenterQ, desertCenterR, desertRadius, desertPerContinent, 'brontium', random);
-  }
-}
-
-/**
- * Helper: Add desert cluster at specific location
- */
-function addDesertCluster(
-  tiles: Map<string, HexTile>,
-  centerQ: number,
-  centerR: number,
-  radius: number,
-  maxTiles: number,
-  continentType: 'drantium' | 'brontium',
-  random: SeededRandom
-): void {
-  let desertCount = 0;
-  
-  for (let r = centerR - radius; r < centerR + radius && desertCount < maxTiles; r++) {
-    for (let q = centerQ - radius; q < centerQ + radius && desertCount < maxTiles; q++) {
-      const key = getHexKey(Math.round(q), Math.round(r));
-      const tile = tiles.get(key);
-      
-      if (tile && 
-          tile.terrain !== 'ocean' && 
-          tile.terrain !== 'ice' &&
-          tile.terrain !== 'coast' &&
-          tile.terrain !== 'mountain_range' &&
-          tile.continent === continentType) {
-        
-        const dq = q - centerQ;
-        const dr = r - centerR;
-        const dist = Math.sqrt(dq * dq + dr * dr);
-        const threshold = radius * random.range(0.8, 1.1);
-        
-        if (dist < threshold) {
-          tile.terrain = 'desert';
-          tile.rainfall = random.range(5, 25);
-          desertCount++;
-        }
-      }
-    }
-  }
-}
-
-/**
- * NEW: Add C-shaped mountain ranges that enclose deserts toward coasts
- */
-function addCShapedMountainRanges(tiles: Map<string, HexTile>, config: MapConfig, random: SeededRandom): void {
-  // DRANTIUM: C-shaped range enclosing desert on EAST side (opening toward east coast)
-  // Adjusted for new continent position (centerR = -17)
-  const drantiumContinent = config.continents.find(c => c.type === 'drantium');
-  if (drantiumContinent) {
-    const centerQ = drantiumContinent.centerQ + 20;
-    const centerR = drantiumContinent.centerR + 27; // Adjusted: was +10, now +27 (10 + 17)
-    
-    // C shape: West arc + North arc + South arc (opening toward east)
-    addMountainArc(tiles, centerQ - 15, centerR, 20, 0, Math.PI, 'drantium', random); // West arc
-    addMountainArc(tiles, centerQ - 8, centerR - 15, 12, -Math.PI/2, Math.PI/2, 'drantium', random); // North arc
-    addMountainArc(tiles, centerQ - 8, centerR + 15, 12, -Math.PI/2, Math.PI/2, 'drantium', random); // South arc
-  }
-  
-  // BRONTIUM: C-shaped range enclosing desert on WEST side (opening toward west coast)
-  const brontiumContinent = config.continents.find(c => c.type === 'brontium');
-  if (brontiumContinent) {
-    const centerQ = brontiumContinent.centerQ - 20;
-    const centerR = brontiumContinent.centerR + 15;
-    
-    // C shape mirrored: East arc + North arc + South arc (opening toward west)
-    addMountainArc(tiles, centerQ + 15, centerR, 20, -Math.PI, 0, 'brontium', random); // East arc
-    addMountainArc(tiles, centerQ + 8, centerR - 15, 12, Math.PI/2, 3*Math.PI/2, 'brontium', random); // North arc
-    addMountainArc(tiles, centerQ + 8, centerR + 15, 12, Math.PI/2, 3*Math.PI/2, 'brontium', random); // South arc
-  }
-}
-
-/**
- * Helper: Add mountain arc
- */
-function addMountainArc(
-  tiles: Map<string, HexTile>,
-  centerQ: number,
-  centerR: number,
-  radius: number,
-  startAngle: number,
-  endAngle: number,
-  continentType: 'drantium' | 'brontium',
-  random: SeededRandom
-): void {
-  const points = 50;
-  const thickness = 3;
-  
-  for (let i = 0; i < points; i++) {
-    const angle = startAngle + (endAngle - startAngle) * (i / points);
-    
-    for (let t = 0; t < thickness; t++) {
-      const r = radius + random.range(-2, 2) + t;
-      const q = Math.round(centerQ + Math.cos(angle) * r);
-      const rCoord = Math.round(centerR + Math.sin(angle) * r);
-      
-      const key = getHexKey(q, rCoord);
-      const tile = tiles.get(key);
-      
-      if (tile && tile.continent === continentType && tile.terrain !== 'ocean' && tile.terrain !== 'ice') {
-        tile.terrain = 'mountain_range';
-        tile.elevation = random.range(7, 10);
-      }
-    }
-  }
-}
-
-/**
- * NEW: Replace central tundra in Brontium with mountains and forests on foothills
- */
-function replaceCentralTundraWithMountainsAndForests(tiles: Map<string, HexTile>, config: MapConfig, random: SeededRandom): void {
-  const brontiumContinent = config.continents.find(c => c.type === 'brontium');
-  if (!brontiumContinent) return;
-  
-  const centerQ = brontiumContinent.centerQ;
-  const centerR = brontiumContinent.centerR;
-  const mountainRadius = 15;
-  const forestRadius = 25;
-  
-  for (const [, tile] of tiles) {
-    if (tile.continent !== 'brontium') continue;
-    
-    const dq = tile.coordinates.q - centerQ;
-    const dr = tile.coordinates.r - centerR;
-    const dist = Math.sqrt(dq * dq + dr * dr);
-    
-    // Central mountains
-    if (dist < mountainRadius && tile.terrain === 'tundra') {
-      tile.terrain = 'mountain_range';
-      tile.elevation = random.range(6, 9);
-    }
-    
-    // Meadows/hills on foothills (forest feature added later)
-    if (dist >= mountainRadius && dist < forestRadius && tile.terrain === 'tundra') {
-      tile.terrain = tile.elevation >= 3 ? 'hills' : 'meadow';
-      tile.elevation = random.range(2, 5);
-    }
-  }
-}
-
-/**
- * NEW: Add MASSIVE jungle expansion in central Drantium
- */
-function addMassiveJungleExpansion(tiles: Map<string, HexTile>, config: MapConfig, random: SeededRandom): void {
-  const drantiumContinent = config.continents.find(c => c.type === 'drantium');
-  if (!drantiumContinent) return;
-  
-  const centerQ = drantiumContinent.centerQ;
-  const centerR = drantiumContinent.centerR;
-  const jungleRadius = 30;
-  
-  let jungleAdded = 0;
-  
-  for (const [, tile] of tiles) {
-    if (tile.continent !== 'drantium') continue;
-    if (tile.terrain === 'mountain_range' || tile.terrain === 'desert') continue;
-    
-    const dq = tile.coordinates.q - centerQ;
-    const dr = tile.coordinates.r - centerR;
-    const dist = Math.sqrt(dq * dq + dr * dr);
-    
-    // Massive meadow/hills in center (jungle feature added later)
-    if (dist < jungleRadius) {
-      const jungleChance = 1 - (dist / jungleRadius);
-      if (random.next() < jungleChance * 0.8) {
-        tile.terrain = tile.elevation >= 3 ? 'hills' : 'meadow';
-        tile.rainfall = random.range(80, 150);
-        jungleAdded++;
-      }
-    }
-  }
-  
-  // Jungle expansion complete
-}
-
-
-
 /**
  * Generate desert islands clustered near BOTH continental deserts
  */
@@ -536,6 +289,10 @@ function generateDesertIslandCluster(
   }
 }
 
+// Share of the half-width and half-height islands are scattered over
+const ISLAND_SPREAD_Q = 6 / 7;
+const ISLAND_SPREAD_R = 9 / 11;
+
 /**
  * Generate islands with strict placement constraints
  */
@@ -554,14 +311,18 @@ function generateIslandsByType(
 ): void {
   const attempts = count * 100;
   
+  // Keep islands away from the outer edges (±180 by ±90 on Earth)
+  const spreadQ = Math.round(config.width / 2 * ISLAND_SPREAD_Q);
+  const spreadR = Math.round(config.height / 2 * ISLAND_SPREAD_R);
+  
   for (let i = 0; i < attempts && islands.filter(isl => isl.type === type).length < count; i++) {
-    let q = random.int(-180, 180);
-    let r = random.int(-90, 90);
+    let q = random.int(-spreadQ, spreadQ);
+    let row = random.int(-spreadR, spreadR); // Offset row: sets the latitude
     
     if (constraints.latRange) {
       const [minLat, maxLat] = constraints.latRange;
-      const targetR = random.range(minLat, maxLat) / 180 * config.height;
-      r = Math.round(targetR * (random.next() > 0.5 ? 1 : -1));
+      const targetRow = random.range(minLat, maxLat) / 180 * config.height;
+      row = Math.round(targetRow * (random.next() > 0.5 ? 1 : -1));
     }
     
     if (constraints.continentSide === 'east') {
@@ -571,19 +332,21 @@ function generateIslandsByType(
     }
     
     if (constraints.minDistFromPoles) {
-      const poleDistNorth = Math.abs(r - config.height / 2);
-      const poleDistSouth = Math.abs(r + config.height / 2);
+      const poleDistNorth = Math.abs(row - config.height / 2);
+      const poleDistSouth = Math.abs(row + config.height / 2);
       if (poleDistNorth < constraints.minDistFromPoles && poleDistSouth < constraints.minDistFromPoles) {
         continue;
       }
     }
     
     if (constraints.minDistFromEquator) {
-      if (Math.abs(r) < constraints.minDistFromEquator / 180 * config.height) {
+      if (Math.abs(row) < constraints.minDistFromEquator / 180 * config.height) {
         continue;
       }
     }
     
+    const r = row - Math.floor(q / 2);
+    
     const tooCloseToContinent = config.continents.some(cont => {
       const dq = q - cont.centerQ;
       const dr = r - cont.centerR;
@@ -640,79 +403,53 @@ function isInIsland(
 }
 
 /**
- * Calculate elevation based on position
+ * Set elevation from the heightmap
+ * Ice caps and frozen polar seas stay at sea level
  */
-function calculateElevation(
-  q: number,
-  r: number,
-  continent: { centerQ: number; centerR: number; width: number; height: number; type: string } | undefined,
-  island: IslandConfig | undefined,
+function applyHeightmap(
+  tiles: Map<string, HexTile>,
+  heightmap: Heightmap,
+  landmasses: Map<string, { continentType?: 'drantium' | 'brontium'; islandType?: IslandType }>,
   random: SeededRandom
-): number {
-  if (island?.type === 'mountain_range') {
-    return random.range(7, 10);
-  }
-  
-  if (continent) {
-    const dq = q - continent.centerQ;
-    const dr = r - continent.centerR;
-    const distFromCenter = Math.sqrt(dq * dq + dr * dr);
-    const normalizedDist = distFromCenter / (continent.width / 2);
+): void {
+  for (const [key, tile] of tiles) {
+    if (tile.terrain === 'ice' || tile.terrain === 'tundra') continue;
     
-    if (normalizedDist < 0.3) {
-      return random.range(5, 8);
-    } else if (normalizedDist < 0.6) {
-      return random.range(2, 5);
-    } else {
-      return random.range(1, 3);
+    let elevation = heightmap.elevation.get(key) ?? tile.elevation;
+    
+    // Volcanic islands are hotspots rising steeply from the sea floor
+    if (landmasses.get(key)?.islandType === 'mountain_range') {
+      elevation = Math.max(elevation, random.range(7, 10));
     }
+    
+    tile.elevation = elevation;
   }
-  
-  return random.range(1, 4);
 }
 
 /**
- * Calculate temperature based on latitude and elevation
+ * Set the terrain of the land from its climate and elevation
  */
-function calculateTemperature(latitude: number, elevation: number): number {
-  const baseTemp = 30 - Math.abs(latitude) * 0.6;
-  const elevationEffect = -(elevation * 6);
-  return baseTemp + elevationEffect;
-}
-
-/**
- * Calculate rainfall based on latitude
- */
-function calculateRainfall(latitude: number, random: SeededRandom): number {
-  const latEffect = Math.abs(latitude);
-  let rainfall: number;
-  
-  if (latEffect < 20) {
-    rainfall = random.range(60, 100);
-  } else if (latEffect < 40) {
-    rainfall = random.range(20, 60);
-  } else if (latEffect < 60) {
-    rainfall = random.range(40, 80);
-  } else {
-    rainfall = random.range(10, 40);
+function applyClimate(
+  tiles: Map<string, HexTile>,
+  landmasses: Map<string, { continentType?: 'drantium' | 'brontium'; islandType?: IslandType }>
+): void {
+  for (const [key, landmass] of landmasses) {
+    const tile = tiles.get(key);
+    if (tile) {
+      tile.terrain = determineTerrain(tile.temperature, tile.rainfall, tile.elevation, landmass.islandType);
+    }
   }
-  
-  return rainfall;
 }
 
 /**
- * Determine terrain type based on climate, elevation, and continent type
+ * Determine terrain type based on climate and elevation
  */
 function determineTerrain(
-  latitude: number,
+  temperature: number,
+  rainfall: number,
   elevation: number,
-  random: SeededRandom,
-  continentType?: 'drantium' | 'brontium',
   islandType?: IslandType
 ): TerrainType {
-  const temperature = 30 - Math.abs(latitude) * 0.6 - elevation * 6;
-  const rainfall = Math.abs(latitude) < 20 ? 80 : 50;
-  
   // Islands: Return base terrain, features added separately
   if (islandType === 'mountain_range') return 'mountain_range';
   if (islandType === 'desert') return 'desert';
@@ -730,64 +467,32 @@ function determineTerrain(
   
   // NEW SYSTEM: Return base terrain (meadow/hills/plains), features added separately
   
-  if (continentType === 'drantium') {
-    // Drantium: More tropical/humid climate
-    if (temperature > 20 && rainfall > 60) {
-      // High rainfall tropical areas - meadow/hills (jungle feature added later)
-      return elevation >= 3 ? 'hills' : 'meadow';
-    } else if (temperature > 15 && rainfall > 40) {
-      // Moderate climate - hills in higher elevations
-      return elevation >= 2 ? 'hills' : 'meadow';
-    }
-    return 'plains';
-  }
+  const zone = getClimateZone(temperature, rainfall);
   
-  if (continentType === 'brontium') {
-    // Brontium: More temperate climate
-    if (temperature > 5 && temperature < 25 && rainfall > 50) {
-      // Temperate forest zone - meadow/hills (forest feature added later)
-      return elevation >= 3 ? 'hills' : 'meadow';
-    } else if (elevation >= 2 && temperature > 0) {
-      // Hilly temperate areas
-      return 'hills';
-    } else if (rainfall > 40) {
-      // Wetter areas become meadows
-      return 'meadow';
-    }
-    return 'plains';
-  }
-  
-  // General terrain logic for islands
-  if (temperature > 25 && rainfall < 30) {
+  // Hot and dry: subtropical belts and rain shadows
+  if (zone === 'arid') {
     return 'desert';
   }
   
-  if (temperature > 20 && rainfall > 70) {
-    // Tropical humid - meadow/hills (jungle feature added later)
-    return elevation >= 3 ? 'hills' : 'meadow';
-  }
-  
-  if (temperature > 5 && temperature < 25 && rainfall > 50) {
-    // Temperate humid - meadow/hills (forest feature added later)
+  if (zone === 'humid_tropical' || zone === 'humid_temperate') {
+    // Humid - meadow/hills (jungle or forest feature added later)
     return elevation >= 3 ? 'hills' : 'meadow';
   }
   
   // Elevation-based terrain for moderate climates
-  if (elevation >= 2 && rainfall > 30) {
+  if (elevation >= 3) {
     return 'hills';
   }
   
-  if (rainfall > 50) {
-    return 'meadow';
-  }
-  
   return 'plains';
 }
 
 /**
  * Add EXACTLY 100 volcanoes across the map
+ * Volcanic islands are hotspots; the others rise along colliding plates, in the high ground
+ * they fold up, and only then on other high peaks
  */
-function addVolcanoes(tiles: Map<string, HexTile>, config: MapConfig, random: SeededRandom): void {
+function addVolcanoes(tiles: Map<string, HexTile>, config: MapConfig, random: SeededRandom, heightmap: Heightmap): void {
   let volcanoCount = 0;
   const targetVolcanoes = 100;
   
@@ -804,26 +509,22 @@ function addVolcanoes(tiles: Map<string, HexTile>, config: MapConfig, random: Se
     }
   }
   
-  const attempts = targetVolcanoes * 20;
-  for (let i = 0; i < attempts && volcanoCount < targetVolcanoes; i++) {
-    const q = random.int(-config.width / 2, config.width / 2);
-    const r = random.int(-config.height / 2, config.height / 2);
-    const key = getHexKey(q, r);
-    const tile = tiles.get(key);
-    
-    if (tile && 
-        (tile.terrain === 'mountain_range' || tile.elevation >= 6) && 
-        !tile.hasVolcano &&
-        tile.terrain !== 'ice') {
-      tile.hasVolcano = true;
-      // REMOVED: No mineral deposits
-      volcanoCount++;
-    }
+  const arcs: HexTile[] = [];
+  const peaks: HexTile[] = [];
+  for (const [key, tile] of tiles) {
+    if (tile.hasVolcano || tile.terrain === 'ice') continue;
+    if (tile.terrain !== 'mountain_range' && tile.elevation < 6) continue;
+    (heightmap.boundaries.get(key) === 'convergent' ? arcs : peaks).push(tile);
+  }
+  
+  for (const tile of [...random.shuffle(arcs), ...random.shuffle(peaks)]) {
+    if (volcanoCount >= targetVolcanoes) break;
+    tile.hasVolcano = true;
+    // REMOVED: No mineral deposits
+    volcanoCount++;
   }
 }
 
-
-
 /**
  * Add mineral deposits based on geological logic
  */
@@ -1015,7 +716,7 @@ function shuffleArray<T>(array: T[], random: SeededRandom): void {
 }
 
 /**
- * Get which sides (0-5) of a coastal hex touch land (not ocean/ice)
+ * Get which sides (0-5) of a coastal or lake hex touch land (not water/ice)
  * Used to determine where to place coastal land in sublands
  * Returns array of side indices: [0, 1, 5] means sides 0, 1, and 5 touch land
  */
@@ -1039,10 +740,11 @@ export function getCoastalLandSides(tile: HexTile, tiles: Map<string, HexTile>):
     );
     const neighbor = tiles.get(neighborKey);
     
-    // If the neighbor is land (not ocean, coast, or ice)
+    // If the neighbor is land (not ocean, coast, lake or ice)
     if (neighbor && 
         neighbor.terrain !== 'ocean' && 
         neighbor.terrain !== 'coast' && 
+        neighbor.terrain !== 'lake' &&
         neighbor.terrain !== 'ice') {
       landSides.push(n.side);
     }
@@ -1085,6 +787,22 @@ export function getOceanNeighborSides(tile: HexTile, tiles: Map<string, HexTile>
   return oceanSides;
 }
 
+/**
+ * Get which sides (0-5) of ANY hex touch a lake
+ * Used to determine where to place lakeshore areas in sublands
+ */
+export function getLakeNeighborSides(tile: HexTile, tiles: Map<string, HexTile>): number[] {
+  const lakeSides: number[] = [];
+  
+  getNeighbors(tile.coordinates).forEach((neighbor, side) => {
+    if (tiles.get(getHexKey(neighbor.q, neighbor.r))?.terrain === 'lake') {
+      lakeSides.push(side);
+    }
+  });
+  
+  return lakeSides;
+}
+
 /**
  * Convert ocean tiles adjacent to land into coastal tiles
  * EXPORTED: Can be called after user modifications to regenerate coasts
@@ -1234,109 +952,12 @@ function cleanupInlandCoastTiles(tiles: Map<string, HexTile>, config: MapConfig)
     const tile = tiles.get(key);
     if (tile) {
       tile.terrain = newTerrain;
+      // Filled in to sea level, as the land around it
+      tile.elevation = Math.max(tile.elevation, 0);
     }
   }
 }
 
-/**
- * CONSISTENCY CLEANUP: Make deserts compact by removing isolated desert tiles
- */
-function makeDesertsCompact(tiles: Map<string, HexTile>, config: MapConfig): void {
-  const MAX_PASSES = 3; // Run multiple passes for thoroughness
-  
-  for (let pass = 0; pass < MAX_PASSES; pass++) {
-    const tilesToConvert: string[] = [];
-    
-    for (const [key, tile] of tiles) {
-      if (tile.terrain !== 'desert') continue;
-      
-      const neighbors = [
-        { q: tile.coordinates.q + 1, r: tile.coordinates.r },
-        { q: tile.coordinates.q - 1, r: tile.coordinates.r },
-        { q: tile.coordinates.q, r: tile.coordinates.r + 1 },
-        { q: tile.coordinates.q, r: tile.coordinates.r - 1 },
-        { q: tile.coordinates.q + 1, r: tile.coordinates.r - 1 },
-        { q: tile.coordinates.q - 1, r: tile.coordinates.r + 1 }
-      ];
-      
-      // Count desert neighbors
-      let desertNeighbors = 0;
-      let mountainNeighbors = 0;
-      const otherTerrains: TerrainType[] = [];
-      
-      for (const n of neighbors) {
-        const neighborKey = getHexKey(n.q, n.r);
-        const neighborTile = tiles.get(neighborKey);
-        if (neighborTile) {
-          if (neighborTile.terrain === 'desert') {
-            desertNeighbors++;
-          } else if (neighborTile.terrain === 'mountain_range') {
-            mountainNeighbors++;
-          } else if (neighborTile.terrain !== 'ocean' && neighborTile.terrain !== 'coast' && neighborTile.terrain !== 'ice') {
-            otherTerrains.push(neighborTile.terrain);
-          }
-        }
-      }
-      
-      // Remove isolated deserts or deserts surrounded by mountains
-      if (desertNeighbors < 2 || mountainNeighbors >= 4) {
-        tilesToConvert.push(key);
-      }
-    }
-    
-    // Convert isolated deserts to appropriate terrain
-    for (const key of tilesToConvert) {
-      const tile = tiles.get(key);
-      if (!tile) continue;
-      
-      // Find neighbor terrains
-      const neighbors = [
-        { q: tile.coordinates.q + 1, r: tile.coordinates.r },
-        { q: tile.coordinates.q - 1, r: tile.coordinates.r },
-        { q: tile.coordinates.q, r: tile.coordinates.r + 1 },
-        { q: tile.coordinates.q, r: tile.coordinates.r - 1 },
-        { q: tile.coordinates.q + 1, r: tile.coordinates.r - 1 },
-        { q: tile.coordinates.q - 1, r: tile.coordinates.r + 1 }
-      ];
-      
-      const neighborTerrains: TerrainType[] = [];
-      for (const n of neighbors) {
-        const neighborKey = getHexKey(n.q, n.r);
-        const neighborTile = tiles.get(neighborKey);
-        if (neighborTile && neighborTile.terrain !== 'desert' && neighborTile.terrain !== 'ocean' && neighborTile.terrain !== 'coast') {
-          neighborTerrains.push(neighborTile.terrain);
-        }
-      }
-      
-      // Convert to most common neighbor (or plains)
-      if (neighborTerrains.length > 0) {
-        // Count terrain types
-        const terrainCounts: Record<string, number> = {};
-        for (const t of neighborTerrains) {
-          terrainCounts[t] = (terrainCounts[t] || 0) + 1;
-        }
-        
-        // Find most common
-        let maxCount = 0;
-        let mostCommon: TerrainType = 'plains';
-        for (const [terrain, count] of Object.entries(terrainCounts)) {
-          if (count > maxCount) {
-            maxCount = count;
-            mostCommon = terrain as TerrainType;
-          }
-        }
-        
-        tile.terrain = mostCommon;
-      } else {
-        tile.terrain = 'plains';
-      }
-    }
-    
-    // If no changes in this pass, stop early
-    if (tilesToConvert.length === 0) break;
-  }
-}
-
 /**
  * CONSISTENCY CLEANUP: Smooth terrain by removing isolated single tiles
  */
@@ -1347,7 +968,7 @@ function smoothTerrainNoise(tiles: Map<string, HexTile>, config: MapConfig): voi
     const tilesToSmooth: Array<{ key: string; newTerrain: TerrainType }> = [];
     
     for (const [key, tile] of tiles) {
-      // Skip water, ice, mountain_ranges (intentionally isolated), and deserts (already handled)
+      // Skip water, ice, mountain_ranges (intentionally isolated), and deserts (set by the climate)
       if (tile.terrain === 'ocean' || tile.terrain === 'coast' || tile.terrain === 'ice' || 
           tile.terrain === 'mountain_range' || tile.terrain === 'desert') {
         continue;
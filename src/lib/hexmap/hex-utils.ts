@@ -67,24 +67,32 @@ export function createHexCoordinates(q: number, r: number): HexCoordinates {
 
 /**
  * Calculate distance between two hexes
+ * With a map width, takes the shorter way around the world (east-west wrap)
  */
-export function hexDistance(a: HexCoordinates, b: HexCoordinates): number {
-  return (Math.abs(a.q - b.q) + Math.abs(a.q + a.r - b.q - b.r) + Math.abs(a.r - b.r)) / 2;
+export function hexDistance(a: HexCoordinates, b: HexCoordinates, mapWidth?: number): number {
+  const flat = (Math.abs(a.q - b.q) + Math.abs(a.q + a.r - b.q - b.r) + Math.abs(a.r - b.r)) / 2;
+  if (!mapWidth) return flat;
+
+  // Compare with the copies of b one world to the east and to the west
+  const east = shiftHex(b, 1, mapWidth);
+  const west = shiftHex(b, -1, mapWidth);
+  return Math.min(flat, hexDistance(a, east), hexDistance(a, west));
 }
 
 /**
  * Get all neighbors of a hex
+ * With a map width, neighbors across the east-west seam are wrapped onto the map
  */
-export function getNeighbors(hex: HexCoordinates): HexCoordinates[] {
+export function getNeighbors(hex: HexCoordinates, mapWidth?: number): HexCoordinates[] {
   const directions = [
     { q: 1, r: 0 }, { q: 1, r: -1 }, { q: 0, r: -1 },
     { q: -1, r: 0 }, { q: -1, r: 1 }, { q: 0, r: 1 }
   ];
   
-  return directions.map(dir => createHexCoordinates(
-    hex.q + dir.q,
-    hex.r + dir.r
-  ));
+  return directions.map(dir => mapWidth
+    ? wrapHex(hex.q + dir.q, hex.r + dir.r, mapWidth)
+    : createHexCoordinates(hex.q + dir.q, hex.r + dir.r)
+  );
 }
 
 /**
@@ -159,3 +167,41 @@ export function wrapCoordinates(q: number, mapWidth: number): number {
   if (wrappedQ < -halfWidth) wrappedQ += mapWidth;
   return wrappedQ;
 }
+
+/**
+ * Move a hex by whole map widths east (positive) or west (negative)
+ * Rows are horizontal in offset coordinates (row = r + floor(q / 2)), so one map width
+ * east is q + mapWidth, r - mapWidth / 2: the same row, one world over. mapWidth must be even.
+ */
+function shiftHex(hex: HexCoordinates, worlds: number, mapWidth: number): HexCoordinates {
+  return createHexCoordinates(hex.q + worlds * mapWidth, hex.r - worlds * mapWidth / 2);
+}
+
+/**
+ * Wrap a hex onto the map (q in [-mapWidth/2, mapWidth/2)), keeping its row
+ * Unlike wrapCoordinates, r is moved with q so the hex stays at the same latitude
+ */
+export function wrapHex(q: number, r: number, mapWidth: number): HexCoordinates {
+  const worlds = Math.floor((q + mapWidth / 2) / mapWidth);
+  return shiftHex(createHexCoordinates(q, r), -worlds, mapWidth);
+}
+
+/**
+ * Unwrap a path crossing the east-west seam so consecutive hexes stay side by side
+ * (for drawing: the hexes past the seam get coordinates just outside the map)
+ */
+export function unwrapPath(path: HexCoordinates[], mapWidth: number): HexCoordinates[] {
+  const unwrapped: HexCoordinates[] = [];
+
+  for (const hex of path) {
+    const previous = unwrapped[unwrapped.length - 1];
+    if (!previous) {
+      unwrapped.push(hex);
+      continue;
+    }
+    const worlds = Math.round((previous.q - hex.q) / mapWidth);
+    unwrapped.push(worlds === 0 ? hex : shiftHex(hex, worlds, mapWidth));
+  }
+
+  return unwrapped;
+}
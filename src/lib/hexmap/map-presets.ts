@@ -0,0 +1,82 @@
+import type { MapConfig } from './types';
+
+/**
+ * World generator presets (see generateEarthMap)
+ * A preset and a seed fully define a world, so test worlds and alternative shards
+ * only need a different pair.
+ */
+
+export type MapPresetName = 'earth' | 'archipelago' | 'pangaea';
+
+export const MAP_PRESETS: Record<MapPresetName, MapConfig> = {
+  // The live world: two continents across an ocean, 160 islands
+  // Width: 420 hexes (400 + 20 for expanded ocean between continents)
+  // Height: 220 hexes (200 + 10 north + 10 south for expanded polar oceans)
+  earth: {
+    width: 420,
+    height: 220,
+    hexSizeKm: 100,
+    continents: [
+      // Drantium continent (West/left): jungle-based, analogous to America
+      // Centred 17 rows south of the equator (offset row = r + floor(q / 2))
+      { centerQ: -70, centerR: 18, width: 70, height: 70, type: 'drantium' },
+      // Brontium continent (East/right): forest-based, analogous to Europe, centred on the equator
+      { centerQ: 70, centerR: -35, width: 70, height: 70, type: 'brontium' }
+    ],
+    islandCounts: { tundra: 40, jungle: 40, forest: 40, mountain_range: 40 },
+    islands: [],
+    latitudeBands: { polarTundra: 76, iceCap: 88 },
+    tectonics: { oceanicPlates: 10, platesPerContinent: 3, shelfWidth: 3 }
+  },
+
+  // Small continental cores and hundreds of islands: most journeys need a ship
+  archipelago: {
+    width: 420,
+    height: 220,
+    hexSizeKm: 100,
+    continents: [
+      { centerQ: -70, centerR: 18, width: 30, height: 30, type: 'drantium' },
+      { centerQ: 70, centerR: -35, width: 30, height: 30, type: 'brontium' }
+    ],
+    islandCounts: { desert: 20, tundra: 40, jungle: 80, forest: 80, mountain_range: 60 },
+    islands: [],
+    latitudeBands: { polarTundra: 76, iceCap: 88 },
+    tectonics: { oceanicPlates: 14, platesPerContinent: 2, shelfWidth: 4 }
+  },
+
+  // Both continents joined in one landmass around the meridian, few islands
+  pangaea: {
+    width: 420,
+    height: 220,
+    hexSizeKm: 100,
+    continents: [
+      { centerQ: -25, centerR: 8, width: 90, height: 110, type: 'drantium' },
+      { centerQ: 25, centerR: -7, width: 90, height: 110, type: 'brontium' }
+    ],
+    islandCounts: { tundra: 20, mountain_range: 20 },
+    islands: [],
+    latitudeBands: { polarTundra: 76, iceCap: 88 },
+    tectonics: { oceanicPlates: 8, platesPerContinent: 3, shelfWidth: 2 }
+  }
+};
+
+/**
+ * Configuration of the live world
+ */
+export const DEFAULT_MAP_CONFIG: MapConfig = MAP_PRESETS.earth;
+
+/**
+ * Seed of the live world shared by every client and the server
+ */
+export const WORLD_SEED = 42;
+
+/**
+ * Width of the live world in hexes: q wraps around east-west with this period
+ * Safe to import from client code, unlike the world cache
+ */
+export const WORLD_MAP_WIDTH = DEFAULT_MAP_CONFIG.width;
+
+/**
+ * Duchy where new players stand before their first journey: the centre of Drantium, on land
+ */
+export const SPAWN_LOCATION = { q: -70, r: 18 } as const;
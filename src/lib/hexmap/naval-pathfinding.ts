@@ -0,0 +1,304 @@
+import type { HexCoordinates, HexTile, TerrainType } from './types';
+import type { GameDate } from '../calendar/types';
+import type { BuildingType } from '../sublands/types';
+import { addGameDays } from '../calendar/calendar';
+import { getHexKey, getNeighbors, hexDistance } from './hex-utils';
+import { MAX_PATH_EXPANSIONS, calculatePathTravelTime, findPath, getWalkingCostModel } from './pathfinding';
+import { PriorityQueue } from './priority-queue';
+import { WORLD_MAP_WIDTH } from './map-presets';
+
+/**
+ * Naval movement costs
+ * Ships only sail on water; every other terrain is impassable at sea
+ */
+export const NAVAL_TERRAIN_COSTS: Partial<Record<TerrainType, number>> = {
+  ocean: 1,     // Open sea
+  coast: 1.2    // Shallows and reefs, sailed with care
+};
+
+// Cost of docking at the destination harbour
+const DOCKING_COST = 1;
+
+// SubLand buildings that let ships load and unload in a Duchy
+export const HARBOUR_BUILDINGS: BuildingType[] = ['port', 'dock', 'shipyard'];
+
+// Nearest harbours tried at each end of a multimodal journey
+const MAX_HARBOUR_CANDIDATES = 3;
+
+export type TravelMode = 'land' | 'sea';
+
+export interface ItineraryLeg {
+  mode: TravelMode;
+  path: HexCoordinates[];
+  travelTime: number; // in game days
+  transportId?: string; // Transport used, when planned for specific transports
+}
+
+export interface Itinerary {
+  legs: ItineraryLeg[];
+  totalTime: number; // in game days
+}
+
+export interface ItineraryOptions {
+  landSpeed: number;  // tiles per game day
+  seaSpeed: number;   // tiles per game day
+  departure?: GameDate;
+  mapWidth?: number;
+  shipId?: string;    // Transport id recorded on the sea leg
+  // Custom land legs between two Duchies (default: walk at landSpeed), null if unreachable
+  planLandLegs?: (from: HexCoordinates, to: HexCoordinates, departure?: GameDate) => ItineraryLeg[] | null;
+  // Ranking of candidate itineraries, lower is better (default: total time)
+  score?: (itinerary: Itinerary) => number;
+}
+
+/**
+ * Check if ships can sail through a tile
+ */
+export function isNavigable(tile: HexTile): boolean {
+  return NAVAL_TERRAIN_COSTS[tile.terrain] !== undefined;
+}
+
+/**
+ * Check if a Duchy can host a harbour: dry land touching the sea
+ */
+export function isCoastalDuchy(
+  coordinates: HexCoordinates,
+  tiles: Map<string, HexTile>,
+  mapWidth: number = WORLD_MAP_WIDTH
+): boolean {
+  const tile = tiles.get(getHexKey(coordinates.q, coordinates.r));
+  if (!tile || isNavigable(tile)) return false;
+
+  return getNeighbors(coordinates, mapWidth).some(neighbor => {
+    const neighborTile = tiles.get(getHexKey(neighbor.q, neighbor.r));
+    return !!neighborTile && isNavigable(neighborTile);
+  });
+}
+
+/**
+ * Node for naval A* pathfinding
+ */
+interface SeaNode {
+  coordinates: HexCoordinates;
+  gCost: number;
+  fCost: number;
+  parent: SeaNode | null;
+}
+
+/**
+ * A* pathfinding over the water layer, from one harbour Duchy to another
+ * Both ends must be coastal Duchies with a harbour (keys in `harbours`);
+ * every hex in between must be ocean or coast. Routes may cross the east-west wrap.
+ * Returns null if either end has no harbour or no sea route exists
+ */
+export function findSeaPath(
+  start: HexCoordinates,
+  goal: HexCoordinates,
+  tiles: Map<string, HexTile>,
+  harbours: Set<string>,
+  mapWidth: number = WORLD_MAP_WIDTH
+): HexCoordinates[] | null {
+  const startKey = getHexKey(start.q, start.r);
+  const goalKey = getHexKey(goal.q, goal.r);
+
+  if (startKey === goalKey) return null;
+  if (!harbours.has(startKey) || !harbours.has(goalKey)) return null;
+  if (!isCoastalDuchy(start, tiles, mapWidth) || !isCoastalDuchy(goal, tiles, mapWidth)) return null;
+
+  const openSet = new Map<string, SeaNode>(); // Best known node of each open hex
+  const openQueue = new PriorityQueue<SeaNode>();
+  const closedSet = new Set<string>();
+
+  const startNode: SeaNode = {
+    coordinates: start,
+    gCost: 0,
+    fCost: hexDistance(start, goal, mapWidth),
+    parent: null
+  };
+  openSet.set(startKey, startNode);
+  openQueue.enqueue(startNode, startNode.fCost);
+
+  let iterations = 0;
+
+  while (!openQueue.isEmpty() && iterations < MAX_PATH_EXPANSIONS) {
+    // Node with lowest fCost (skip entries superseded by a cheaper route)
+    const currentNode = openQueue.dequeue()!;
+    const currentKey = getHexKey(currentNode.coordinates.q, currentNode.coordinates.r);
+    if (openSet.get(currentKey) !== currentNode) continue;
+    iterations++;
+
+    if (currentKey === goalKey) {
+      const path: HexCoordinates[] = [];
+      let current: SeaNode | null = currentNode;
+      while (current !== null) {
+        path.unshift(current.coordinates);
+        current = current.parent;
+      }
+      return path;
+    }
+
+    openSet.delete(currentKey);
+    closedSet.add(currentKey);
+
+    for (const neighbor of getNeighbors(currentNode.coordinates, mapWidth)) {
+      const neighborKey = getHexKey(neighbor.q, neighbor.r);
+      if (closedSet.has(neighborKey)) continue;
+
+      // Ships stay at sea, except to dock at the destination (never straight from port to port over land)
+      let movementCost: number;
+      if (neighborKey === goalKey) {
+        if (currentKey === startKey) continue;
+        movementCost = DOCKING_COST;
+      } else {
+        const neighborTile = tiles.get(neighborKey);
+        if (!neighborTile || !isNavigable(neighborTile)) continue;
+        movementCost = NAVAL_TERRAIN_COSTS[neighborTile.terrain]!;
+      }
+
+      const tentativeGCost = currentNode.gCost + movementCost;
+      const existingNode = openSet.get(neighborKey);
+
+      if (!existingNode || tentativeGCost < existingNode.gCost) {
+        const node: SeaNode = {
+          coordinates: neighbor,
+          gCost: tentativeGCost,
+          fCost: tentativeGCost + hexDistance(neighbor, goal, mapWidth),
+          parent: currentNode
+        };
+        openSet.set(neighborKey, node);
+        openQueue.enqueue(node, node.fCost);
+      }
+    }
+  }
+
+  // No sea route found
+  return null;
+}
+
+/**
+ * Calculate sailing time along a sea path
+ * Returns time in game days
+ */
+export function calculateSeaTravelTime(
+  path: HexCoordinates[],
+  tiles: Map<string, HexTile>,
+  shipSpeed: number // tiles per game day
+): number {
+  let totalCost = 0;
+
+  for (let i = 1; i < path.length; i++) {
+    const coord = path[i];
+    const tile = tiles.get(getHexKey(coord.q, coord.r));
+    totalCost += tile ? NAVAL_TERRAIN_COSTS[tile.terrain] ?? DOCKING_COST : DOCKING_COST;
+  }
+
+  return totalCost / shipSpeed;
+}
+
+/**
+ * Walking leg of a multimodal journey (no legs if already there)
+ */
+function planWalkingLegs(
+  from: HexCoordinates,
+  to: HexCoordinates,
+  tiles: Map<string, HexTile>,
+  speed: number,
+  departure?: GameDate,
+  mapWidth: number = WORLD_MAP_WIDTH
+): ItineraryLeg[] | null {
+  if (from.q === to.q && from.r === to.r) return [];
+
+  const path = findPath(from, to, tiles, departure, getWalkingCostModel(speed), mapWidth);
+  if (!path) return null;
+
+  const travelTime = calculatePathTravelTime(path, tiles, speed, departure);
+  if (!Number.isFinite(travelTime)) return null;
+
+  return [{ mode: 'land', path, travelTime }];
+}
+
+function getLegsTime(legs: ItineraryLeg[]): number {
+  return legs.reduce((sum, leg) => sum + leg.travelTime, 0);
+}
+
+/**
+ * Nearest harbours to a Duchy (just the Duchy itself if it has one)
+ */
+export function getNearestHarbours(
+  to: HexCoordinates,
+  tiles: Map<string, HexTile>,
+  harbours: Set<string>,
+  mapWidth: number = WORLD_MAP_WIDTH
+): HexCoordinates[] {
+  if (harbours.has(getHexKey(to.q, to.r))) return [to];
+  return [...harbours]
+    .map(key => tiles.get(key)?.coordinates)
+    .filter((coordinates): coordinates is HexCoordinates => !!coordinates)
+    .sort((a, b) => hexDistance(to, a, mapWidth) - hexDistance(to, b, mapWidth))
+    .slice(0, MAX_HARBOUR_CANDIDATES);
+}
+
+/**
+ * Plan a land-sea-land journey: walk to a harbour, sail to another one, walk to the destination
+ * Tries the nearest harbours at each end and keeps the best combination (fastest by default).
+ * Land legs are left out when the origin or destination is itself a harbour.
+ * Returns null if no harbour pair connects the two Duchies
+ */
+export function planSeaItinerary(
+  origin: HexCoordinates,
+  destination: HexCoordinates,
+  tiles: Map<string, HexTile>,
+  harbours: Set<string>,
+  options: ItineraryOptions
+): Itinerary | null {
+  const { landSpeed, seaSpeed, departure, mapWidth = WORLD_MAP_WIDTH, shipId } = options;
+  const planLandLegs = options.planLandLegs ??
+    ((from: HexCoordinates, to: HexCoordinates, date?: GameDate) => planWalkingLegs(from, to, tiles, landSpeed, date, mapWidth));
+  const score = options.score ?? ((itinerary: Itinerary) => itinerary.totalTime);
+
+  let best: Itinerary | null = null;
+  let bestScore = Infinity;
+
+  for (const embarkation of getNearestHarbours(origin, tiles, harbours, mapWidth)) {
+    const toHarbour = planLandLegs(origin, embarkation, departure);
+    if (!toHarbour) continue;
+
+    for (const disembarkation of getNearestHarbours(destination, tiles, harbours, mapWidth)) {
+      const seaPath = findSeaPath(embarkation, disembarkation, tiles, harbours, mapWidth);
+      if (!seaPath) continue;
+
+      const sailingTime = calculateSeaTravelTime(seaPath, tiles, seaSpeed);
+      const landingTime = getLegsTime(toHarbour) + sailingTime;
+      const landing = departure ? addGameDays(departure, landingTime) : undefined;
+
+      const fromHarbour = planLandLegs(disembarkation, destination, landing);
+      if (!fromHarbour) continue;
+
+      const candidate: Itinerary = {
+        legs: [
+          ...toHarbour,
+          { mode: 'sea', path: seaPath, travelTime: sailingTime, ...(shipId ? { transportId: shipId } : {}) },
+          ...fromHarbour
+        ],
+        totalTime: landingTime + getLegsTime(fromHarbour)
+      };
+      const candidateScore = score(candidate);
+      if (candidateScore >= bestScore) continue;
+
+      best = candidate;
+      bestScore = candidateScore;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * All hexes of an itinerary in order, without repeating the hex where legs meet
+ */
+export function getItineraryPath(itinerary: Itinerary): HexCoordinates[] {
+  return itinerary.legs.reduce<HexCoordinates[]>(
+    (path, leg) => path.length === 0 ? [...leg.path] : [...path, ...leg.path.slice(1)],
+    []
+  );
+}
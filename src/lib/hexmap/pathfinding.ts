@@ -1,6 +1,11 @@
-import type { HexTile, TerrainType } from './types';
+import type { HexTile, TerrainType, Season } from './types';
 import { getNeighbors, hexDistance, getHexKey } from './hex-utils';
+import { WORLD_MAP_WIDTH } from './map-presets';
+import { PriorityQueue } from './priority-queue';
 import type { HexCoordinates } from './types';
+import type { GameDate } from '../calendar/types';
+import { addGameDays } from '../calendar/calendar';
+import { getSeasonForMonth } from '../calendar/seasons';
 
 /**
  * Terrain movement costs
@@ -11,6 +16,7 @@ export const TERRAIN_COSTS: Record<TerrainType, number> = {
   ocean: Infinity,      // Cannot walk on water
   coast: Infinity,      // Cannot walk on water
   ice: Infinity,        // Cannot walk on ice (need special equipment)
+  lake: Infinity,       // Cannot walk on water
   plains: 1,            // Easy movement
   meadow: 1.2,          // Slightly harder than plains
   hills: 1.5,           // x1.5 slower (moderate difficulty)
@@ -30,10 +36,64 @@ export const FEATURE_COSTS: Record<string, number> = {
   none: 1.0
 };
 
+/**
+ * Seasonal terrain multipliers
+ * Applied on top of terrain and feature costs, Infinity closes the terrain
+ */
+export const SEASONAL_TERRAIN_COSTS: Record<Season, Partial<Record<TerrainType, number>>> = {
+  winter: {
+    tundra: 1.6,          // Snowdrifts and blizzards
+    mountain_range: 2.0,  // Snow-covered passes
+    hills: 1.2
+  },
+  spring: {},
+  summer: {
+    desert: 1.6           // Scorching heat, travel only at dawn and dusk
+  },
+  autumn: {}
+};
+
+// Mountain passes beyond this latitude are snowed in (closed) during winter
+export const WINTER_PASS_CLOSURE_LATITUDE = 45;
+
+// River crossings during spring floods (and the equatorial rainy season)
+export const FLOOD_RIVER_COST = 1.5;
+
+/**
+ * Seasonal movement multiplier of a tile on a game date
+ * - Winter: tundra and mountain passes slower, high-latitude passes closed
+ * - Spring: floods make river crossings costlier
+ * - Summer: desert heat penalty
+ * The equatorial "winter" is the rainy season: floods, but no snow
+ */
+export function getSeasonalMultiplier(tile: HexTile, date: GameDate): number {
+  const season = getSeasonForMonth(date.month, tile.hemisphere);
+  const hasRiver = tile.features?.includes('river') ?? false;
+
+  if (tile.hemisphere === 'equatorial') {
+    if (season === 'winter') return hasRiver ? FLOOD_RIVER_COST : 1.0;
+    return SEASONAL_TERRAIN_COSTS.summer[tile.terrain] ?? 1.0;
+  }
+
+  if (season === 'winter' && tile.terrain === 'mountain_range' &&
+      Math.abs(tile.latitude) >= WINTER_PASS_CLOSURE_LATITUDE) {
+    return Infinity;
+  }
+
+  let multiplier = SEASONAL_TERRAIN_COSTS[season][tile.terrain] ?? 1.0;
+
+  if (season === 'spring' && hasRiver) {
+    multiplier *= FLOOD_RIVER_COST;
+  }
+
+  return multiplier;
+}
+
 /**
  * Calculate total movement cost for a hex tile
+ * Without a date the cost is season-agnostic
  */
-export function getMovementCost(tile: HexTile): number {
+export function getMovementCost(tile: HexTile, date?: GameDate): number {
   let cost = TERRAIN_COSTS[tile.terrain];
   
   // If terrain is impassable, return infinity
@@ -46,23 +106,60 @@ export function getMovementCost(tile: HexTile): number {
       cost *= featureCost;
     }
   }
+
+  // Apply seasonal modifiers
+  if (date) {
+    cost *= getSeasonalMultiplier(tile, date);
+  }
   
   return cost;
 }
 
 /**
- * Check if a tile is traversable (not water, ice, etc.)
+ * Check if a tile is traversable (not water, ice, closed passes, etc.)
  */
-export function isTraversable(tile: HexTile): boolean {
-  return getMovementCost(tile) !== Infinity;
+export function isTraversable(tile: HexTile, date?: GameDate): boolean {
+  return getMovementCost(tile, date) !== Infinity;
 }
 
+/**
+ * Custom cost of entering a tile, e.g. for a specific transport
+ * `minStepCost` must not exceed the cheapest possible step so the heuristic stays admissible.
+ * `getDays` is the game days it takes to enter a tile, which dates the season each hex is
+ * reached in (without it, the cost is taken as days).
+ */
+export interface PathCostModel {
+  getCost: (tile: HexTile, date?: GameDate) => number;
+  minStepCost: number;
+  getDays?: (tile: HexTile, date?: GameDate) => number;
+}
+
+// Duchies crossed per game day on foot (see calculatePathTravelTime)
+export const DUCHY_WALKING_SPEED = 0.5;
+
+/**
+ * Walking costs at `speed` tiles per game day, so a route's seasons match calculatePathTravelTime
+ */
+export function getWalkingCostModel(speed: number): PathCostModel {
+  return {
+    getCost: getMovementCost,
+    minStepCost: 1,
+    getDays: (tile, date) => getMovementCost(tile, date) / speed
+  };
+}
+
+const DEFAULT_COST_MODEL = getWalkingCostModel(1);
+
+// Nodes expanded at most by one search: more than the whole world, so only a runaway search is cut off
+export const MAX_PATH_EXPANSIONS = 100000;
+
 /**
  * Node for A* pathfinding
  */
 interface PathNode {
   coordinates: HexCoordinates;
   gCost: number;      // Cost from start to this node
+  elapsed: number;    // Game days from departure until this node is reached
   hCost: number;      // Estimated cost from this node to goal (heuristic)
   fCost: number;      // Total cost (g + h)
   parent: PathNode | null;
@@ -71,12 +168,21 @@ interface PathNode {
 /**
  * A* pathfinding algorithm for hexagonal grid
  * Returns null if no path exists (e.g., destination is water)
+ * With a departure date, each hex uses the season on the day it is reached (as in
+ * calculatePathTravelTime), so the route never runs into a pass that closes on the way
+ * A cost model replaces the walking costs at 1 tile per day (Infinity = impassable)
+ * Routes may cross the east-west seam: the heuristic uses the shorter way around the world
  */
 export function findPath(
   start: HexCoordinates,
   goal: HexCoordinates,
-  tiles: Map<string, HexTile>
+  tiles: Map<string, HexTile>,
+  departure?: GameDate,
+  costModel: PathCostModel = DEFAULT_COST_MODEL,
+  mapWidth: number = WORLD_MAP_WIDTH
 ): HexCoordinates[] | null {
+  const { getCost, minStepCost } = costModel;
+  const getDays = costModel.getDays ?? getCost;
   const startTile = tiles.get(getHexKey(start.q, start.r));
   const goalTile = tiles.get(getHexKey(goal.q, goal.r));
   
@@ -85,44 +191,36 @@ export function findPath(
     return null;
   }
   
-  if (!isTraversable(goalTile)) {
+  if (getCost(goalTile) === Infinity) {
     return null; // Cannot reach water/ice destinations
   }
   
-  const openSet = new Map<string, PathNode>();
+  const openSet = new Map<string, PathNode>(); // Best known node of each open hex
+  const openQueue = new PriorityQueue<PathNode>();
   const closedSet = new Set<string>();
   
   // Create start node
   const startNode: PathNode = {
     coordinates: start,
     gCost: 0,
-    hCost: hexDistance(start, goal),
-    fCost: hexDistance(start, goal),
+    elapsed: 0,
+    hCost: hexDistance(start, goal, mapWidth) * minStepCost,
+    fCost: hexDistance(start, goal, mapWidth) * minStepCost,
     parent: null
   };
   
   openSet.set(getHexKey(start.q, start.r), startNode);
+  openQueue.enqueue(startNode, startNode.fCost);
   
   let iterations = 0;
-  const MAX_ITERATIONS = 10000; // Prevent infinite loops
   
-  while (openSet.size > 0 && iterations < MAX_ITERATIONS) {
-    iterations++;
-    
-    // Find node with lowest fCost
-    let currentNode: PathNode | null = null;
-    let lowestF = Infinity;
-    
-    for (const node of openSet.values()) {
-      if (node.fCost < lowestF) {
-        lowestF = node.fCost;
-        currentNode = node;
-      }
-    }
-    
-    if (!currentNode) break;
-    
+  while (!openQueue.isEmpty() && iterations < MAX_PATH_EXPANSIONS) {
+    // Node with lowest fCost (skip entries superseded by a cheaper route)
+    const currentNode = openQueue.dequeue()!;
     const currentKey = getHexKey(currentNode.coordinates.q, currentNode.coordinates.r);
+    if (openSet.get(currentKey) !== currentNode) continue;
+    
+    iterations++;
     
     // Check if we reached the goal
     if (currentNode.coordinates.q === goal.q && currentNode.coordinates.r === goal.r) {
@@ -143,7 +241,7 @@ export function findPath(
     closedSet.add(currentKey);
     
     // Check all neighbors
-    const neighbors = getNeighbors(currentNode.coordinates);
+    const neighbors = getNeighbors(currentNode.coordinates, mapWidth);
     
     for (const neighbor of neighbors) {
       const neighborKey = getHexKey(neighbor.q, neighbor.r);
@@ -153,27 +251,33 @@ export function findPath(
       
       const neighborTile = tiles.get(neighborKey);
       
-      // Skip if tile doesn't exist or is impassable
-      if (!neighborTile || !isTraversable(neighborTile)) continue;
+      // Skip if tile doesn't exist
+      if (!neighborTile) continue;
+      
+      // Skip impassable tiles (including those closed for the season when reached)
+      const date = departure ? addGameDays(departure, currentNode.elapsed) : undefined;
+      const movementCost = getCost(neighborTile, date);
+      if (movementCost === Infinity) continue;
       
       // Calculate tentative gCost
-      const movementCost = getMovementCost(neighborTile);
       const tentativeGCost = currentNode.gCost + movementCost;
       
       // Check if this is a better path
       const existingNode = openSet.get(neighborKey);
       
       if (!existingNode || tentativeGCost < existingNode.gCost) {
-        const hCost = hexDistance(neighbor, goal);
+        const hCost = hexDistance(neighbor, goal, mapWidth) * minStepCost;
         const newNode: PathNode = {
           coordinates: neighbor,
           gCost: tentativeGCost,
+          elapsed: currentNode.elapsed + getDays(neighborTile, date),
           hCost: hCost,
           fCost: tentativeGCost + hCost,
           parent: currentNode
         };
         
         openSet.set(neighborKey, newNode);
+        openQueue.enqueue(newNode, newNode.fCost);
       }
     }
   }
@@ -184,14 +288,17 @@ export function findPath(
 
 /**
  * Calculate total travel time along a path
- * Returns time in game days
+ * Returns time in game days (Infinity if the route is closed on the way)
+ * With a departure date, each hex uses the season on the day it is entered,
+ * so long journeys can run into the next season
  */
 export function calculatePathTravelTime(
   path: HexCoordinates[],
   tiles: Map<string, HexTile>,
-  baseSpeed: number // tiles per game day
+  baseSpeed: number, // tiles per game day
+  departure?: GameDate
 ): number {
-  let totalCost = 0;
+  let totalTime = 0;
   
   for (let i = 1; i < path.length; i++) {
     const coord = path[i];
@@ -200,13 +307,15 @@ export function calculatePathTravelTime(
     const tile = tiles.get(getHexKey(coord.q, coord.r));
     if (!tile) continue;
     
-    const movementCost = getMovementCost(tile);
-    totalCost += movementCost;
+    const date = departure ? addGameDays(departure, totalTime) : undefined;
+    
+    // Time = distance / speed
+    // With movement costs, effective distance = sum of costs
+    totalTime += getMovementCost(tile, date) / baseSpeed;
+    if (totalTime === Infinity) return Infinity;
   }
   
-  // Time = distance / speed
-  // With movement costs, effective distance = sum of costs
-  return totalCost / baseSpeed;
+  return totalTime;
 }
 
 /**
@@ -0,0 +1,77 @@
+/**
+ * Binary min-heap priority queue for pathfinding
+ * O(log n) enqueue and dequeue. Items with equal priority come out in insertion order,
+ * so searches stay deterministic.
+ * There is no decrease-key: enqueue the item again with its better priority and skip
+ * the stale entry when it is dequeued (lazy deletion).
+ */
+
+interface HeapEntry<T> {
+  item: T;
+  priority: number;
+  order: number; // Insertion counter, breaks ties
+}
+
+export class PriorityQueue<T> {
+  private heap: HeapEntry<T>[] = [];
+  private counter = 0;
+
+  enqueue(item: T, priority: number): void {
+    this.heap.push({ item, priority, order: this.counter++ });
+    this.siftUp(this.heap.length - 1);
+  }
+
+  dequeue(): T | undefined {
+    const top = this.heap[0];
+    if (!top) return undefined;
+
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return top.item;
+  }
+
+  isEmpty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  size(): number {
+    return this.heap.length;
+  }
+
+  private less(a: number, b: number): boolean {
+    const x = this.heap[a];
+    const y = this.heap[b];
+    return x.priority < y.priority || (x.priority === y.priority && x.order < y.order);
+  }
+
+  private swap(a: number, b: number): void {
+    [this.heap[a], this.heap[b]] = [this.heap[b], this.heap[a]];
+  }
+
+  private siftUp(index: number): void {
+    let child = index;
+    while (child > 0) {
+      const parent = (child - 1) >> 1;
+      if (!this.less(child, parent)) break;
+      this.swap(child, parent);
+      child = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    let parent = index;
+    for (;;) {
+      const left = parent * 2 + 1;
+      const right = left + 1;
+      let smallest = parent;
+      if (left < this.heap.length && this.less(left, smallest)) smallest = left;
+      if (right < this.heap.length && this.less(right, smallest)) smallest = right;
+      if (smallest === parent) break;
+      this.swap(parent, smallest);
+      parent = smallest;
+    }
+  }
+}
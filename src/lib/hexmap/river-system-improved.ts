@@ -14,6 +14,7 @@ import type {
 } from './river-types';
 import { createRiverEdgeId } from './river-types';
 import { getHexKey, getNeighbors, hexDistance } from './hex-utils';
+import { PriorityQueue } from './priority-queue';
 
 /**
  * Enhanced configuration with better defaults
@@ -22,31 +23,20 @@ const IMPROVED_CONFIG: RiverGenerationConfig = {
   minLength: 6, // Reduced minimum for better success rate
   maxAttempts: 200, // More attempts per source
   flowToOcean: true,
-  allowLakes: false
+  allowLakes: false,
+  allowTributaries: false,
+  deltaMinLength: 0
 };
 
 /**
- * Priority queue for A* pathfinding
+ * Drainage network of the map, computed once for all rivers
+ * One Dijkstra search from all coasts at once replaces an A* search per source and coast
  */
-class PriorityQueue<T> {
-  private items: {item: T, priority: number}[] = [];
-  
-  enqueue(item: T, priority: number) {
-    this.items.push({item, priority});
-    this.items.sort((a, b) => a.priority - b.priority);
-  }
-  
-  dequeue(): T | undefined {
-    return this.items.shift()?.item;
-  }
-  
-  isEmpty(): boolean {
-    return this.items.length === 0;
-  }
-  
-  size(): number {
-    return this.items.length;
-  }
+export interface DrainageNetwork {
+  coastCount: number;
+  downstream: Map<string, HexCoordinates>; // Next hex on the shortest downhill route to the sea
+  flowDistance: Map<string, number>;       // Hexes to the mouth along that route (0 = coast)
+  coastDistance: Map<string, number>;      // Hexes to the nearest coast, whatever the slope
 }
 
 /**
@@ -63,16 +53,78 @@ function findCoastTiles(tiles: Map<string, HexTile>): HexTile[] {
 }
 
 /**
- * A* pathfinding for river generation
- * Guarantees optimal path if one exists
+ * Multi-source Dijkstra from every coast tile
+ * With `downhillOnly`, a hex is only reached from a lower or level neighbor, so following
+ * `downstream` from any reached hex is a river that never flows uphill. Rivers cross
+ * neither ice nor open sea.
  */
-function findRiverPathAStar(
-  source: HexTile,
-  targetCoasts: HexTile[],
+function searchFromCoasts(
+  coasts: HexTile[],
   tiles: Map<string, HexTile>,
+  downhillOnly: boolean
+): { distance: Map<string, number>; downstream: Map<string, HexCoordinates> } {
+  const distance = new Map<string, number>();
+  const downstream = new Map<string, HexCoordinates>();
+  const queue = new PriorityQueue<{ tile: HexTile; distance: number }>();
+
+  for (const coast of coasts) {
+    distance.set(getHexKey(coast.coordinates.q, coast.coordinates.r), 0);
+    queue.enqueue({ tile: coast, distance: 0 }, 0);
+  }
+
+  while (!queue.isEmpty()) {
+    const current = queue.dequeue()!;
+    const currentKey = getHexKey(current.tile.coordinates.q, current.tile.coordinates.r);
+    if (current.distance > distance.get(currentKey)!) continue; // Stale entry
+
+    for (const neighborCoord of getNeighbors(current.tile.coordinates)) {
+      const neighborKey = getHexKey(neighborCoord.q, neighborCoord.r);
+      const neighborTile = tiles.get(neighborKey);
+      if (!neighborTile) continue;
+
+      if (downhillOnly) {
+        if (neighborTile.terrain === 'ice' || neighborTile.terrain === 'ocean') continue;
+        if (neighborTile.elevation < current.tile.elevation) continue; // Would flow uphill into current
+      }
+
+      const tentative = current.distance + 1;
+      if (tentative < (distance.get(neighborKey) ?? Infinity)) {
+        distance.set(neighborKey, tentative);
+        downstream.set(neighborKey, current.tile.coordinates);
+        queue.enqueue({ tile: neighborTile, distance: tentative }, tentative);
+      }
+    }
+  }
+
+  return { distance, downstream };
+}
+
+/**
+ * Compute the drainage network of a map
+ */
+export function computeDrainageNetwork(tiles: Map<string, HexTile>): DrainageNetwork {
+  const coasts = findCoastTiles(tiles);
+  const flow = searchFromCoasts(coasts, tiles, true);
+  const reach = searchFromCoasts(coasts, tiles, false);
+
+  return {
+    coastCount: coasts.length,
+    downstream: flow.downstream,
+    flowDistance: flow.distance,
+    coastDistance: reach.distance
+  };
+}
+
+/**
+ * Shortest downhill river from a source to the nearest reachable coast
+ * Guarantees optimal path if one exists; read straight from the drainage network
+ */
+function findRiverPathToSea(
+  source: HexTile,
+  network: DrainageNetwork,
   minLength: number
 ): RiverPath {
-  if (targetCoasts.length === 0) {
+  if (network.coastCount === 0) {
     return {
       isValid: false,
       path: [source.coordinates],
@@ -80,106 +132,37 @@ function findRiverPathAStar(
       reason: 'No coast tiles found'
     };
   }
-  
-  // Try each coast as target, return the best valid path
-  let bestPath: RiverPath | null = null;
-  
-  for (const targetCoast of targetCoasts) {
-    const openSet = new PriorityQueue<{coord: HexCoordinates, path: HexCoordinates[], gScore: number}>();
-    const closedSet = new Set<string>();
-    const gScores = new Map<string, number>();
-    const fScores = new Map<string, number>();
-    
-    const startKey = getHexKey(source.coordinates.q, source.coordinates.r);
-    gScores.set(startKey, 0);
-    
-    // Heuristic: distance to target + elevation difference
-    const hScore = hexDistance(source.coordinates, targetCoast.coordinates) + 
-                   Math.abs(source.elevation - targetCoast.elevation) * 0.5;
-    fScores.set(startKey, hScore);
-    
-    openSet.enqueue({
-      coord: source.coordinates,
+
+  const sourceKey = getHexKey(source.coordinates.q, source.coordinates.r);
+  if (!network.flowDistance.has(sourceKey)) {
+    return {
+      isValid: false,
       path: [source.coordinates],
-      gScore: 0
-    }, hScore);
-    
-    while (!openSet.isEmpty()) {
-      const current = openSet.dequeue()!;
-      const currentKey = getHexKey(current.coord.q, current.coord.r);
-      
-      // Check if we reached the target
-      if (current.coord.q === targetCoast.coordinates.q && 
-          current.coord.r === targetCoast.coordinates.r) {
-        if (current.path.length >= minLength) {
-          const pathResult = {
-            isValid: true,
-            path: current.path,
-            length: current.path.length
-          };
-          
-          // Keep the shortest valid path
-          if (!bestPath || pathResult.length < bestPath.length) {
-            bestPath = pathResult;
-          }
-          break;
-        }
-      }
-      
-      closedSet.add(currentKey);
-      
-      // Explore neighbors
-      const neighbors = getNeighbors(current.coord);
-      for (const neighborCoord of neighbors) {
-        const neighborKey = getHexKey(neighborCoord.q, neighborCoord.r);
-        
-        // Skip if already evaluated
-        if (closedSet.has(neighborKey)) continue;
-        
-        const neighborTile = tiles.get(neighborKey);
-        if (!neighborTile) continue;
-        
-        // Skip ice terrain
-        if (neighborTile.terrain === 'ice') continue;
-        
-        // Only allow downhill or flat flow
-        const currentTile = tiles.get(currentKey)!;
-        if (neighborTile.elevation > currentTile.elevation) continue;
-        
-        // Calculate tentative g-score
-        const tentativeGScore = current.gScore + 1;
-        
-        // Check if this path is better
-        const existingGScore = gScores.get(neighborKey) || Infinity;
-        if (tentativeGScore < existingGScore) {
-          gScores.set(neighborKey, tentativeGScore);
-          
-          // Calculate f-score with heuristic
-          const hScore = hexDistance(neighborCoord, targetCoast.coordinates) + 
-                        Math.abs(neighborTile.elevation - targetCoast.elevation) * 0.5;
-          const fScore = tentativeGScore + hScore;
-          fScores.set(neighborKey, fScore);
-          
-          // Add to open set with new path
-          const newPath = [...current.path, neighborCoord];
-          openSet.enqueue({
-            coord: neighborCoord,
-            path: newPath,
-            gScore: tentativeGScore
-          }, fScore);
-        }
-      }
-    }
-    
-    // If we found a valid path for this coast, don't try others
-    if (bestPath && bestPath.isValid) break;
+      length: 1,
+      reason: 'No valid path found to any coast'
+    };
   }
-  
-  return bestPath || {
-    isValid: false,
-    path: [source.coordinates],
-    length: 1,
-    reason: 'No valid path found to any coast'
+
+  const path: HexCoordinates[] = [source.coordinates];
+  let next = network.downstream.get(sourceKey);
+  while (next) {
+    path.push(next);
+    next = network.downstream.get(getHexKey(next.q, next.r));
+  }
+
+  if (path.length < minLength) {
+    return {
+      isValid: false,
+      path,
+      length: path.length,
+      reason: `River too short: ${path.length} < ${minLength}`
+    };
+  }
+
+  return {
+    isValid: true,
+    path,
+    length: path.length
   };
 }
 
@@ -190,7 +173,7 @@ function generateRiverPathWithBacktracking(
   source: HexTile,
   tiles: Map<string, HexTile>,
   config: RiverGenerationConfig,
-  coastTiles: HexTile[]
+  network: DrainageNetwork
 ): RiverPath {
   const path: HexCoordinates[] = [source.coordinates];
   const visited = new Set<string>([getHexKey(source.coordinates.q, source.coordinates.r)]);
@@ -214,7 +197,7 @@ function generateRiverPathWithBacktracking(
     }
     
     // Find candidates with multi-factor scoring
-    const candidates = findRankedCandidates(current, tiles, visited, coastTiles);
+    const candidates = findRankedCandidates(current, tiles, visited, network);
     
     if (candidates.length === 0) {
       // Dead end, backtrack if possible
@@ -273,12 +256,12 @@ function findRankedCandidates(
   current: HexTile,
   tiles: Map<string, HexTile>,
   visited: Set<string>,
-  coastTiles: HexTile[]
+  network: DrainageNetwork
 ): HexTile[] {
   const neighbors = getNeighbors(current.coordinates);
   const candidates: {tile: HexTile, score: number}[] = [];
   
-  const currentCoastDistance = getDistanceToNearestCoast(current.coordinates, coastTiles);
+  const currentCoastDistance = getDistanceToNearestCoast(current.coordinates, network);
   
   for (const neighborCoord of neighbors) {
     const key = getHexKey(neighborCoord.q, neighborCoord.r);
@@ -297,7 +280,7 @@ function findRankedCandidates(
     score += elevationDiff * 10;
     
     // Coast proximity
-    const neighborCoastDistance = getDistanceToNearestCoast(neighborCoord, coastTiles);
+    const neighborCoastDistance = getDistanceToNearestCoast(neighborCoord, network);
     score += (currentCoastDistance - neighborCoastDistance) * 5;
     
     // Coast bonus
@@ -331,18 +314,9 @@ function findRankedCandidates(
  */
 function getDistanceToNearestCoast(
   coordinates: HexCoordinates,
-  coastTiles: HexTile[]
+  network: DrainageNetwork
 ): number {
-  if (coastTiles.length === 0) return Infinity;
-  
-  let minDistance = Infinity;
-  for (const coast of coastTiles) {
-    const distance = hexDistance(coordinates, coast.coordinates);
-    if (distance < minDistance) {
-      minDistance = distance;
-    }
-  }
-  return minDistance;
+  return network.coastDistance.get(getHexKey(coordinates.q, coordinates.r)) ?? Infinity;
 }
 
 /**
@@ -410,30 +384,30 @@ function createRiverEdges(
 export function generateRiverImproved(
   source: HexTile,
   tiles: Map<string, HexTile>,
-  config: RiverGenerationConfig = IMPROVED_CONFIG
+  config: RiverGenerationConfig = IMPROVED_CONFIG,
+  network: DrainageNetwork = computeDrainageNetwork(tiles)
 ): River | null {
   if (source.terrain !== 'mountain_range') {
     return null;
   }
   
-  const coastTiles = findCoastTiles(tiles);
-  if (coastTiles.length === 0) {
+  if (network.coastCount === 0) {
     return null;
   }
   
-  // Try A* first (most reliable)
-  let pathResult = findRiverPathAStar(source, coastTiles, tiles, config.minLength);
+  // Shortest route to the sea first (most reliable)
+  let pathResult = findRiverPathToSea(source, network, config.minLength);
   
-  // If A* fails, try backtracking
+  // If it fails, try backtracking
   if (!pathResult.isValid) {
-    pathResult = generateRiverPathWithBacktracking(source, tiles, config, coastTiles);
+    pathResult = generateRiverPathWithBacktracking(source, tiles, config, network);
   }
   
   if (!pathResult.isValid || pathResult.path.length < config.minLength) {
     return null;
   }
   
-  const riverId = `river-${source.coordinates.q}-${source.coordinates.r}-${Date.now()}`;
+  const riverId = `river-${source.coordinates.q}-${source.coordinates.r}`;
   const segments = createRiverSegments(pathResult.path, tiles);
   const edges = createRiverEdges(pathResult.path, riverId);
   const mouth = pathResult.path[pathResult.path.length - 1];
@@ -442,6 +416,8 @@ export function generateRiverImproved(
     id: riverId,
     source: source.coordinates,
     mouth: mouth!,
+    mouths: [mouth!],
+    terminus: 'coast',
     segments,
     edges,
     length: pathResult.path.length,
@@ -473,6 +449,9 @@ export function generateAllRiversImproved(
   // Sort mountain ranges by elevation (highest first) for better river sources
   mountainRanges.sort((a, b) => b.elevation - a.elevation);
   
+  // Marking river tiles does not change the terrain, so one network serves every river
+  const network = computeDrainageNetwork(tiles);
+  
   let attempts = 0;
   const maxAttempts = Math.min(mountainRanges.length * 2, 200);
   let failedAttempts = 0;
@@ -484,7 +463,7 @@ export function generateAllRiversImproved(
     
     attempts++;
     
-    const river = generateRiverImproved(mountainRange, tiles, config);
+    const river = generateRiverImproved(mountainRange, tiles, config, network);
     
     if (river) {
       rivers.push(river);
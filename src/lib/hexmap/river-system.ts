@@ -4,7 +4,10 @@
  * 
  * RULES:
  * - Rivers MUST start in mountain_range (cordilleras)
- * - Rivers MUST end in coast tiles (NOT ocean)
+ * - Rivers MUST end in coast tiles (NOT ocean), a lake, or another river
+ * - A river with nowhere lower to go pools into a lake: an inland (endorheic) basin
+ * - Tributaries join the river they meet, so rivers form networks
+ * - Long rivers split into a delta with several mouths at the coast
  * - Rivers flow from higher to lower OR equal elevation
  * - Minimum 8 hexagons long
  */
@@ -16,10 +19,12 @@ import type {
   RiverEdge, 
   RiverPath, 
   RiverGenerationConfig,
+  RiverTerminus,
   SubLandRiverHex 
 } from './river-types';
 import { createRiverEdgeId } from './river-types';
 import { getHexKey, getNeighbors, hexDistance } from './hex-utils';
+import { createRandomStream, hashSeed, type SeededRandom } from '../random';
 
 /**
  * Default configuration for river generation
@@ -28,9 +33,14 @@ const DEFAULT_CONFIG: RiverGenerationConfig = {
   minLength: 8, // Rivers must be at least 8 hexagons long
   maxAttempts: 100,
   flowToOcean: true,
-  allowLakes: false
+  allowLakes: false,
+  allowTributaries: false,
+  deltaMinLength: 0
 };
 
+// Extra mouths of a delta, besides the main one
+const MAX_DELTA_BRANCHES = 2;
+
 /**
  * Find all mountain_range hexagons in the map (potential river sources)
  */
@@ -177,8 +187,8 @@ function findBestNextHex(
       }
     }
     
-    // Factor 4: Coast bonus (high priority)
-    if (neighborTile.terrain === 'coast') {
+    // Factor 4: Coast and lake bonus (high priority)
+    if (neighborTile.terrain === 'coast' || neighborTile.terrain === 'lake') {
       score += 50;
     }
     
@@ -209,11 +219,13 @@ function findBestNextHex(
 /**
  * Generate a river path from a mountain source
  * Uses greedy algorithm: always flow to lowest neighboring elevation
+ * @param network - Hexagons already on a river, with the id of that river (for tributaries)
  */
 export function generateRiverPath(
   source: HexTile,
   tiles: Map<string, HexTile>,
-  config: RiverGenerationConfig = DEFAULT_CONFIG
+  config: RiverGenerationConfig = DEFAULT_CONFIG,
+  network: Map<string, string> = new Map()
 ): RiverPath {
   const path: HexCoordinates[] = [];
   const visited = new Set<string>();
@@ -223,29 +235,45 @@ export function generateRiverPath(
   path.push(current.coordinates);
   visited.add(getHexKey(current.coordinates.q, current.coordinates.r));
   
+  // A river ends here: valid if it is long enough
+  const end = (terminus: RiverTerminus, joins?: string): RiverPath => {
+    if (path.length >= config.minLength) {
+      return {
+        isValid: true,
+        path,
+        length: path.length,
+        terminus,
+        joins
+      };
+    }
+    return {
+      isValid: false,
+      path,
+      length: path.length,
+      reason: `River too short: ${path.length} < ${config.minLength}`
+    };
+  };
+  
   let attempts = 0;
   const maxSteps = 200; // Prevent infinite loops
   
   while (attempts < maxSteps) {
     attempts++;
     
-    // STRICT RULE: Rivers MUST end in coast (not ocean)
+    // Rivers end in coast (not ocean)
     if (current.terrain === 'coast') {
-      // Valid river path found
-      if (path.length >= config.minLength) {
-        return {
-          isValid: true,
-          path,
-          length: path.length
-        };
-      } else {
-        return {
-          isValid: false,
-          path,
-          length: path.length,
-          reason: `River too short: ${path.length} < ${config.minLength}`
-        };
-      }
+      return end('coast');
+    }
+    
+    // ... or in a lake
+    if (current.terrain === 'lake') {
+      return end('lake');
+    }
+    
+    // ... or join the river they meet, as a tributary
+    const joins = network.get(getHexKey(current.coordinates.q, current.coordinates.r));
+    if (joins && config.allowTributaries && current !== source) {
+      return end('river', joins);
     }
     
     // Rivers cannot end in ocean - they must reach coast
@@ -262,6 +290,11 @@ export function generateRiverPath(
     const next = findBestNextHex(current, tiles, visited, coastTiles);
     
     if (!next) {
+      // Nowhere lower to go: the river pools into a lake (not up in the cordilleras)
+      if (config.allowLakes && current.terrain !== 'mountain_range' && !current.hasVolcano) {
+        return end('lake');
+      }
+      
       // Dead end - river cannot continue
       return {
         isValid: false,
@@ -362,13 +395,65 @@ function createRiverSegments(
   return segments;
 }
 
+/**
+ * Add the branches of a delta: from the last land hexagons of the river, downhill to other
+ * coast hexagons at most two steps away, each one an extra mouth (the same ones every time for this river)
+ */
+function createDeltaBranches(
+  path: HexCoordinates[],
+  tiles: Map<string, HexTile>,
+  riverId: string
+): { mouths: HexCoordinates[]; edges: RiverEdge[] } {
+  const onPath = new Set(path.map(coord => getHexKey(coord.q, coord.r)));
+  const branches: HexCoordinates[][] = [];
+  
+  // The two land hexagons before the mouth, where the river fans out
+  for (const from of path.slice(-3, -1)) {
+    const fromTile = tiles.get(getHexKey(from.q, from.r));
+    if (!fromTile) continue;
+    
+    for (const next of getNeighbors(from)) {
+      const nextTile = tiles.get(getHexKey(next.q, next.r));
+      if (!nextTile || onPath.has(getHexKey(next.q, next.r))) continue;
+      
+      if (nextTile.terrain === 'coast') {
+        branches.push([from, next]);
+      } else if (nextTile.terrain !== 'ocean' && nextTile.terrain !== 'lake' && nextTile.elevation <= fromTile.elevation) {
+        const to = getNeighbors(next).find(coord =>
+          tiles.get(getHexKey(coord.q, coord.r))?.terrain === 'coast' && !onPath.has(getHexKey(coord.q, coord.r))
+        );
+        if (to) branches.push([from, next, to]);
+      }
+    }
+  }
+  
+  // Branches never share a hexagon with the river or with each other
+  const random = createRandomStream(hashSeed(riverId), 'rivers');
+  const chosen: HexCoordinates[][] = [];
+  const used = new Set(onPath);
+  for (const branch of random.shuffle(branches)) {
+    if (chosen.length >= MAX_DELTA_BRANCHES) break;
+    const keys = branch.slice(1).map(coord => getHexKey(coord.q, coord.r));
+    if (keys.some(key => used.has(key))) continue;
+    keys.forEach(key => used.add(key));
+    chosen.push(branch);
+  }
+  
+  return {
+    mouths: chosen.map(branch => branch[branch.length - 1]),
+    edges: chosen.flatMap(branch => createRiverEdges(branch, riverId))
+  };
+}
+
 /**
  * Generate a complete river from a mountain_range source
+ * @param network - Hexagons already on a river, with the id of that river (for tributaries)
  */
 export function generateRiver(
   source: HexTile,
   tiles: Map<string, HexTile>,
-  config: RiverGenerationConfig = DEFAULT_CONFIG
+  config: RiverGenerationConfig = DEFAULT_CONFIG,
+  network: Map<string, string> = new Map()
 ): River | null {
   // Validate source is a mountain_range (cordillera)
   if (source.terrain !== 'mountain_range') {
@@ -377,7 +462,7 @@ export function generateRiver(
   }
   
   // Generate path
-  const pathResult = generateRiverPath(source, tiles, config);
+  const pathResult = generateRiverPath(source, tiles, config, network);
   
   if (!pathResult.isValid) {
     // Don't spam logs - only occasionally
@@ -389,7 +474,7 @@ export function generateRiver(
   }
   
   // Create river ID
-  const riverId = `river-${source.coordinates.q}-${source.coordinates.r}-${Date.now()}`;
+  const riverId = `river-${source.coordinates.q}-${source.coordinates.r}`;
   
   // Create segments
   const segments = createRiverSegments(pathResult.path, tiles);
@@ -403,10 +488,23 @@ export function generateRiver(
     return null;
   }
   
+  const terminus = pathResult.terminus ?? 'coast';
+  const mouths = terminus === 'coast' ? [mouth] : [];
+  
+  // Long rivers fan out into a delta at the coast
+  if (terminus === 'coast' && config.deltaMinLength > 0 && pathResult.path.length >= config.deltaMinLength) {
+    const delta = createDeltaBranches(pathResult.path, tiles, riverId);
+    mouths.push(...delta.mouths);
+    edges.push(...delta.edges);
+  }
+  
   return {
     id: riverId,
     source: source.coordinates,
     mouth,
+    mouths,
+    terminus,
+    joins: pathResult.joins,
     segments,
     edges,
     length: pathResult.path.length,
@@ -417,15 +515,19 @@ export function generateRiver(
 /**
  * Generate all rivers for the map
  * Generates EXACTLY targetCount rivers from mountain ranges (cordilleras)
+ * Later rivers may join earlier ones as tributaries; rivers ending in an inland basin turn it into a lake
  * CRITICAL: Marks tiles with 'river' feature
+ * Sources are tried in an order drawn from the rivers stream of the world seed
  */
 export function generateAllRivers(
   tiles: Map<string, HexTile>,
   config: RiverGenerationConfig = DEFAULT_CONFIG,
-  targetCount: number = 40
+  targetCount: number = 40,
+  random: SeededRandom
 ): River[] {
   const rivers: River[] = [];
   const mountainRanges = findMountainRangeHexagons(tiles);
+  const network = new Map<string, string>(); // Hexagon key -> id of the first river through it
   
   console.log(`🌊🌊🌊 RIVER GENERATION START 🌊🌊🌊`);
   console.log(`   Found ${mountainRanges.length} mountain_range (cordillera) hexagons`);
@@ -448,7 +550,7 @@ export function generateAllRivers(
   }
   
   // Shuffle mountain ranges to get varied river sources
-  const shuffled = [...mountainRanges].sort(() => Math.random() - 0.5);
+  const shuffled = random.shuffle(mountainRanges);
   
   // Attempt to generate exactly targetCount rivers
   const maxAttempts = Math.min(mountainRanges.length * 3, 500); // More attempts
@@ -463,15 +565,25 @@ export function generateAllRivers(
     attempts++;
     
     // Try to generate a river from this mountain range
-    const river = generateRiver(mountainRange, tiles, config);
+    const river = generateRiver(mountainRange, tiles, config, network);
     
     if (river) {
       rivers.push(river);
       
-      // ✅✅✅ CRITICAL: Mark all tiles in river path with 'river' feature ✅✅✅
-      for (const segment of river.segments) {
-        const tileKey = getHexKey(segment.coordinates.q, segment.coordinates.r);
+      // A river ending in an inland basin pools into a new lake
+      const end = tiles.get(getHexKey(river.mouth.q, river.mouth.r));
+      if (end && river.terminus === 'lake' && end.terrain !== 'lake') {
+        end.terrain = 'lake';
+        end.features = [];
+      }
+      
+      // ✅✅✅ CRITICAL: Mark all tiles in river path (and delta branches) with 'river' feature ✅✅✅
+      for (const coordinates of [...river.segments.map(segment => segment.coordinates), ...river.edges.map(edge => edge.hex2)]) {
+        const tileKey = getHexKey(coordinates.q, coordinates.r);
         const tile = tiles.get(tileKey);
+        if (!network.has(tileKey)) {
+          network.set(tileKey, river.id);
+        }
         if (tile) {
           // Add 'river' to features if not already present
           if (!tile.features) {
@@ -485,11 +597,11 @@ export function generateAllRivers(
         }
       }
       
-      console.log(`   ✓ River ${rivers.length}/${targetCount}: ${river.length} hexagons from (${mountainRange.coordinates.q},${mountainRange.coordinates.r})`);
+      console.log(`   ✓ River ${rivers.length}/${targetCount}: ${river.length} hexagons from (${mountainRange.coordinates.q},${mountainRange.coordinates.r}) to a ${river.terminus}${river.mouths.length > 1 ? ` (delta, ${river.mouths.length} mouths)` : ""}`);
     } else {
       failedAttempts++;
       // Track failure reasons
-      const testPath = generateRiverPath(mountainRange, tiles, config);
+      const testPath = generateRiverPath(mountainRange, tiles, config, network);
       if (testPath.reason) {
         failureReasons[testPath.reason] = (failureReasons[testPath.reason] || 0) + 1;
       }
@@ -500,6 +612,9 @@ export function generateAllRivers(
   console.log(`   Successfully generated: ${rivers.length} rivers`);
   console.log(`   Failed attempts: ${failedAttempts}`);
   console.log(`   Success rate: ${((rivers.length / attempts) * 100).toFixed(1)}%`);
+  console.log(`   Ending in lakes: ${rivers.filter(river => river.terminus === 'lake').length}`);
+  console.log(`   Tributaries: ${rivers.filter(river => river.terminus === 'river').length}`);
+  console.log(`   Deltas: ${rivers.filter(river => river.mouths.length > 1).length}`);
   
   // Show failure reasons
   if (Object.keys(failureReasons).length > 0) {
@@ -553,13 +668,14 @@ export function getSubLandRiverHexagons(
     const sides = ['east', 'northeast', 'northwest', 'west', 'north', 'south'] as const;
     const riverSide = sides[direction] || 'north';
     
-    // Generate 3-5 river bank hexagons along the edge
-    const numBankHexes = 3 + Math.floor(Math.random() * 3);
+    // Generate 3-5 river bank hexagons along the edge (the same ones every time for this river)
+    const random = createRandomStream(hashSeed(edge.riverId), 'rivers', parentQ, parentR, direction);
+    const numBankHexes = 3 + Math.floor(random.next() * 3);
     
     for (let i = 0; i < numBankHexes; i++) {
       // Calculate subland coordinates along the edge
-      const subQ = Math.floor((Math.random() - 0.5) * 10);
-      const subR = Math.floor((Math.random() - 0.5) * 10);
+      const subQ = Math.floor((random.next() - 0.5) * 10);
+      const subR = Math.floor((random.next() - 0.5) * 10);
       
       subLandRiverHexes.push({
         parentQ,
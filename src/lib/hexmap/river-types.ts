@@ -40,15 +40,26 @@ export interface RiverEdge {
   riverId: string;
 }
 
+/**
+ * Where a river ends
+ * - coast: flows into the sea (possibly through a delta)
+ * - lake: flows into a lake, or pools into one at the bottom of an inland basin
+ * - river: a tributary, joins another river
+ */
+export type RiverTerminus = 'coast' | 'lake' | 'river';
+
 /**
  * Complete river definition
  */
 export interface River {
   id: string;
   source: HexCoordinates; // Must be a mountain_range (cordillera) hexagon
-  mouth: HexCoordinates; // End point (MUST be coast, NOT ocean)
+  mouth: HexCoordinates; // End point: a coast or lake hexagon, or the confluence with another river
+  mouths: HexCoordinates[]; // Every coast hexagon the river reaches the sea through (several for a delta)
+  terminus: RiverTerminus;
+  joins?: string; // Id of the river a tributary flows into
   segments: RiverSegment[]; // All hexagons in the river path
-  edges: RiverEdge[]; // All edges where river crosses hexagon borders
+  edges: RiverEdge[]; // All edges where river crosses hexagon borders, delta branches included
   length: number; // Total length in hexagons (must be >= 15)
   flowDirection: 'downstream'; // Rivers always flow downstream from source
 }
@@ -85,7 +96,9 @@ export interface RiverGenerationConfig {
   minLength: number; // Minimum river length (default: 15)
   maxAttempts: number; // Max attempts to generate valid river
   flowToOcean: boolean; // Should rivers flow to ocean?
-  allowLakes: boolean; // Can rivers end in lakes (not implemented yet)
+  allowLakes: boolean; // Can rivers end in lakes and inland basins (forming a lake where they pool)
+  allowTributaries: boolean; // Can rivers end by joining another river
+  deltaMinLength: number; // Rivers at least this long split into a delta at the coast (0 = never)
 }
 
 /**
@@ -95,6 +108,8 @@ export interface RiverPath {
   isValid: boolean;
   path: HexCoordinates[];
   length: number;
+  terminus?: RiverTerminus; // Where a valid path ends
+  joins?: string; // River joined by a tributary path
   reason?: string; // Reason if invalid
 }
 
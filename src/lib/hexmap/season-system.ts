@@ -1,4 +1,5 @@
 import type { Season } from './types';
+import { getHemisphere, getSeasonForMonth, type Hemisphere } from '../calendar';
 
 /**
  * Calculate current season based on month and hemisphere
@@ -14,57 +15,15 @@ import type { Season } from './types';
 
 export interface SeasonInfo {
   season: Season;
-  hemisphere: 'northern' | 'southern' | 'equatorial';
+  hemisphere: Hemisphere;
 }
 
 /**
  * Get season for a tile based on month (1-14) and latitude
  */
 export function getSeasonForTile(monthNumber: number, latitude: number): SeasonInfo {
-  const absLat = Math.abs(latitude);
-  const isNorthern = latitude > 10;
-  const isSouthern = latitude < -10;
-  const isEquatorial = absLat <= 10;
-  
-  // Equatorial zone: Only winter and summer (alternating every 7 months)
-  if (isEquatorial) {
-    // Months 1-7: Summer, Months 8-14: Winter
-    const season: Season = monthNumber <= 7 ? 'summer' : 'winter';
-    return { season, hemisphere: 'equatorial' };
-  }
-  
-  // Subpolar zones: Four seasons
-  // Northern hemisphere: Months 1-14 cycle through spring → summer → autumn → winter
-  // Southern hemisphere: Opposite (when north has winter, south has summer)
-  
-  if (isNorthern) {
-    // Northern hemisphere seasons
-    if (monthNumber <= 3) {
-      return { season: 'winter', hemisphere: 'northern' };
-    } else if (monthNumber <= 7) {
-      return { season: 'spring', hemisphere: 'northern' };
-    } else if (monthNumber <= 10) {
-      return { season: 'summer', hemisphere: 'northern' };
-    } else {
-      return { season: 'autumn', hemisphere: 'northern' };
-    }
-  }
-  
-  if (isSouthern) {
-    // Southern hemisphere: opposite seasons
-    if (monthNumber <= 3) {
-      return { season: 'summer', hemisphere: 'southern' };
-    } else if (monthNumber <= 7) {
-      return { season: 'autumn', hemisphere: 'southern' };
-    } else if (monthNumber <= 10) {
-      return { season: 'winter', hemisphere: 'southern' };
-    } else {
-      return { season: 'spring', hemisphere: 'southern' };
-    }
-  }
-  
-  // Fallback (shouldn't reach here)
-  return { season: 'spring', hemisphere: 'northern' };
+  const hemisphere = getHemisphere(latitude);
+  return { season: getSeasonForMonth(monthNumber, hemisphere), hemisphere };
 }
 
 /**
@@ -84,18 +43,12 @@ export function formatSeason(season: Season): string {
  * Get dominant season for northern hemisphere based on month
  */
 export function getNorthernSeasonByMonth(monthNumber: number): Season {
-  if (monthNumber <= 3) return 'winter';
-  if (monthNumber <= 7) return 'spring';
-  if (monthNumber <= 10) return 'summer';
-  return 'autumn';
+  return getSeasonForMonth(monthNumber, 'northern');
 }
 
 /**
  * Get dominant season for southern hemisphere based on month
  */
 export function getSouthernSeasonByMonth(monthNumber: number): Season {
-  if (monthNumber <= 3) return 'summer';
-  if (monthNumber <= 7) return 'autumn';
-  if (monthNumber <= 10) return 'winter';
-  return 'spring';
+  return getSeasonForMonth(monthNumber, 'southern');
 }
@@ -1,6 +1,28 @@
+import type { HexTile, Season, TerrainType } from './types';
+import type { BuildingType, SubLand } from '../sublands/types';
+import type { GameDate } from '../calendar/types';
+import { getSeasonForMonth } from '../calendar/seasons';
+import { FLOOD_RIVER_COST, SEASONAL_TERRAIN_COSTS, isTraversable } from './pathfinding';
+import { getHexKey } from './hex-utils';
+import { PriorityQueue } from './priority-queue';
+import { WORLD_MAP_WIDTH } from './map-presets';
+import {
+  fromGlobalSubLand,
+  isInDuchy,
+  toGlobalSubLand,
+  unwrapDuchy,
+  type SubLandPosition
+} from '../sublands/coordinates';
+import { generateSubLandsForTile } from '../sublands/generator';
+import { isShorelineWater } from '../sublands/building-config';
+
 /**
  * Pathfinding for SubLand hexagons (1km x 1km hexagons)
  * Similar to main hex pathfinding but for smaller scale
+ * With the SubLands of the Duchy, each hex costs what crossing it takes:
+ * its biome, dense vegetation, streams (forded), wide rivers (only where bridged),
+ * coastal and lake water (impassable) and buildings (roads through settlements, fences elsewhere)
+ * Across Duchy borders, routes run over global SubLand coordinates (see sublands/coordinates)
  */
 
 interface SubLandHex {
@@ -16,6 +38,66 @@ interface PathNode {
   parent: PathNode | null;
 }
 
+/**
+ * Terrain cost multipliers of SubLand biomes
+ */
+export const SUBLAND_TERRAIN_COSTS: Record<string, number> = {
+  mountain: 3.0,       // x3 slower - cordillera
+  mountain_range: 3.0,
+  hills: 1.5,          // x1.5 slower
+  plains: 1.0,         // normal speed
+  meadow: 1.0,         // normal speed
+  desert: 1.2,         // slightly slower
+  tundra: 1.3,         // slightly slower
+  coast: 1.0,          // normal speed
+  forest: 1.0,         // base terrain normal, feature applies cost
+  jungle: 1.0,         // base terrain normal, feature applies cost
+  boreal_forest: 1.0   // base terrain normal, feature applies cost
+};
+
+/**
+ * Feature cost multipliers (applied on top of terrain)
+ * Infinity = impassable
+ */
+export const SUBLAND_FEATURE_COSTS: Record<string, number> = {
+  forest: 2.0,         // x2 slower - dense trees
+  jungle: 2.0,         // x2 slower - very dense vegetation
+  boreal_forest: 2.0,  // x2 slower - dense northern forest
+  water: Infinity,     // Coastal water or a wide river away from any bridge
+  ford: 2.0,           // Wading across a stream
+  bridge: 1.0,         // Crossing a wide river on a bridge
+  road: 0.75,          // Village and town streets
+  buildings: 1.5       // Walking around fields, yards and fences
+};
+
+// Settlements and river ports bridge the wide river around them
+const BRIDGE_BUILDINGS: BuildingType[] = ['river_port', 'urban_core', 'town'];
+
+// Wide rivers are up to 8 SubLands across: a bridge carries the road over all of it
+const BRIDGE_SPAN = 8;
+
+// Cheapest hex anyone can enter (a plain road), keeps the A* heuristic admissible
+const MIN_HEX_COST = Math.min(...Object.values(SUBLAND_TERRAIN_COSTS)) * SUBLAND_FEATURE_COSTS.road;
+
+/**
+ * Terrain of the SubLands of a Duchy for travel, keyed by "q,r"
+ */
+export interface SubLandTerrain {
+  biomes: Map<string, string>;     // Biome type
+  features: Map<string, string[]>; // Terrain features, see SUBLAND_FEATURE_COSTS
+}
+
+/**
+ * SubLand terrain of a Duchy for cross-border travel, with its current season
+ */
+export interface DuchySubLandTerrain {
+  terrain: SubLandTerrain;
+  season?: Season;
+}
+
+// Expansions before a cross-border search gives up (about ten Duchies)
+export const MAX_CROSS_BORDER_EXPANSIONS = 100000;
+
 /**
  * Calculate hexagonal distance
  */
@@ -31,7 +113,7 @@ function getNeighbors(hex: SubLandHex): SubLandHex[] {
     { q: 1, r: 0 }, { q: 1, r: -1 }, { q: 0, r: -1 },
     { q: -1, r: 0 }, { q: -1, r: 1 }, { q: 0, r: 1 }
   ];
-  
+
   return directions.map(dir => ({
     q: hex.q + dir.q,
     r: hex.r + dir.r
@@ -39,99 +121,190 @@ function getNeighbors(hex: SubLandHex): SubLandHex[] {
 }
 
 /**
- * Check if hex is within duchy bounds (approximately radius 58)
+ * Check if hex is within duchy bounds (the radius 58 hexagon of generateSubLandsForHex)
  */
 function isInBounds(hex: SubLandHex): boolean {
-  const maxRadius = 58;
-  const distance = Math.sqrt(hex.q * hex.q + hex.r * hex.r + hex.q * hex.r);
-  return distance <= maxRadius;
+  return isInDuchy(hex.q, hex.r);
+}
+
+function isSettlement(subland: SubLand): boolean {
+  return !!subland.isPartOfTown ||
+    subland.buildings.some(building => building.type === 'urban_core' || building.type === 'town');
 }
 
 /**
- * Simple A* pathfinding for SubLand hexagons
- * Assumes all hexes are traversable within the duchy bounds
+ * Build the travel terrain of a Duchy from its SubLands
  */
-export function findSubLandPath(
+export function getSubLandTerrain(sublands: SubLand[]): SubLandTerrain {
+  const biomes = new Map<string, string>();
+  const features = new Map<string, string[]>();
+
+  const bridges = sublands.filter(subland =>
+    subland.isNavigableRiver &&
+    (subland.isPartOfTown || subland.buildings.some(building => BRIDGE_BUILDINGS.includes(building.type)))
+  );
+
+  for (const subland of sublands) {
+    const key = `${subland.q},${subland.r}`;
+    const hexFeatures: string[] = [];
+
+    // Uncleared trees of forest biomes
+    if (subland.hasNaturalFeatures && SUBLAND_FEATURE_COSTS[subland.biomeType] !== undefined) {
+      hexFeatures.push(subland.biomeType);
+    }
+
+    if (isShorelineWater(subland.resourceType)) {
+      hexFeatures.push('water');
+    } else if (subland.isNavigableRiver) {
+      hexFeatures.push(bridges.some(bridge => hexDistance(bridge, subland) <= BRIDGE_SPAN) ? 'bridge' : 'water');
+    } else if (subland.hasRiver) {
+      hexFeatures.push('ford');
+    }
+
+    if (isSettlement(subland)) {
+      hexFeatures.push('road');
+    } else if (subland.buildings.length > 0) {
+      hexFeatures.push('buildings');
+    }
+
+    biomes.set(key, subland.biomeType);
+    features.set(key, hexFeatures);
+  }
+
+  return { biomes, features };
+}
+
+/**
+ * Load the SubLand terrain of Duchies for findCrossBorderSubLandPath
+ * SubLands are generated from the world map unless `loaded` has them (keyed by parent hex key,
+ * e.g. with the persisted buildings of the Duchy on screen). With a date, seasons apply and
+ * Duchies that cannot be walked at world scale then (sea, ice, closed passes) are impassable,
+ * except loaded ones: whoever is already inside can still move around.
+ */
+export function createDuchyTerrainLoader(
+  tiles: Map<string, HexTile>,
+  date?: GameDate,
+  loaded?: Map<string, SubLand[]>
+): (parentQ: number, parentR: number) => DuchySubLandTerrain | null {
+  return (parentQ, parentR) => {
+    const key = getHexKey(parentQ, parentR);
+    const tile = tiles.get(key);
+    const sublands = loaded?.get(key);
+    if (!tile || (!sublands && !isTraversable(tile, date))) return null;
+
+    return {
+      terrain: getSubLandTerrain(sublands ?? generateSubLandsForTile(tile, tiles)),
+      season: date ? getSeasonForMonth(date.month, tile.hemisphere) : undefined
+    };
+  };
+}
+
+/**
+ * Cost multiplier of entering a SubLand hex (Infinity = impassable)
+ * With a season, the Duchy seasonal multipliers and spring floods at fords apply too
+ */
+export function getSubLandHexCost(biome: string, features: string[], season?: Season): number {
+  let cost = SUBLAND_TERRAIN_COSTS[biome] ?? 1.0;
+
+  for (const feature of features) {
+    cost *= SUBLAND_FEATURE_COSTS[feature] ?? 1.0;
+  }
+  if (cost === Infinity) return Infinity;
+
+  // A trip inside a Duchy never spans seasons
+  if (season) {
+    cost *= SEASONAL_TERRAIN_COSTS[season][biome as TerrainType] ?? 1.0;
+    if (season === 'spring' && features.includes('ford')) {
+      cost *= FLOOD_RIVER_COST;
+    }
+  }
+
+  return cost;
+}
+
+/**
+ * A* over SubLand hexagons, in local or global coordinates
+ * `getCost` is the cost of entering a hex (Infinity = impassable); `minStepCost` must not
+ * exceed the cheapest hex so the heuristic stays admissible
+ */
+function searchSubLands(
   start: SubLandHex,
-  goal: SubLandHex
+  goal: SubLandHex,
+  getCost: (hex: SubLandHex) => number,
+  minStepCost: number,
+  maxIterations: number
 ): SubLandHex[] | null {
-  // Check if start and goal are within bounds
-  if (!isInBounds(start) || !isInBounds(goal)) {
-    return null;
+  const getKey = (hex: SubLandHex): string => `${hex.q},${hex.r}`;
+
+  if (getCost(goal) === Infinity) {
+    return null; // Cannot walk onto water
   }
-  
-  const openSet = new Map<string, PathNode>();
+
+  const openSet = new Map<string, PathNode>(); // Best known node of each open hex
+  const openQueue = new PriorityQueue<PathNode>();
   const closedSet = new Set<string>();
-  
-  const getKey = (hex: SubLandHex): string => `${hex.q},${hex.r}`;
-  
+
   // Create start node
   const startNode: PathNode = {
     hex: start,
     gCost: 0,
-    hCost: hexDistance(start, goal),
-    fCost: hexDistance(start, goal),
+    hCost: hexDistance(start, goal) * minStepCost,
+    fCost: hexDistance(start, goal) * minStepCost,
     parent: null
   };
-  
+
   openSet.set(getKey(start), startNode);
-  
+  openQueue.enqueue(startNode, startNode.fCost);
+
   let iterations = 0;
-  const MAX_ITERATIONS = 5000;
-  
-  while (openSet.size > 0 && iterations < MAX_ITERATIONS) {
-    iterations++;
-    
-    // Find node with lowest fCost
-    let currentNode: PathNode | null = null;
-    let lowestF = Infinity;
-    
-    for (const node of openSet.values()) {
-      if (node.fCost < lowestF) {
-        lowestF = node.fCost;
-        currentNode = node;
-      }
-    }
-    
-    if (!currentNode) break;
-    
+
+  while (!openQueue.isEmpty() && iterations < maxIterations) {
+    // Node with lowest fCost (skip entries superseded by a cheaper route)
+    const currentNode = openQueue.dequeue()!;
     const currentKey = getKey(currentNode.hex);
-    
+    if (openSet.get(currentKey) !== currentNode) continue;
+
+    iterations++;
+
     // Check if we reached the goal
     if (currentNode.hex.q === goal.q && currentNode.hex.r === goal.r) {
       // Reconstruct path
       const path: SubLandHex[] = [];
       let current: PathNode | null = currentNode;
-      
+
       while (current !== null) {
         path.unshift(current.hex);
         current = current.parent;
       }
-      
+
       return path;
     }
-    
+
     // Move current node from open to closed set
     openSet.delete(currentKey);
     closedSet.add(currentKey);
-    
+
     // Check all neighbors
     const neighbors = getNeighbors(currentNode.hex);
-    
+
     for (const neighbor of neighbors) {
       const neighborKey = getKey(neighbor);
-      
-      // Skip if already evaluated or out of bounds
-      if (closedSet.has(neighborKey) || !isInBounds(neighbor)) continue;
-      
-      // Calculate tentative gCost (simple: 1 per hex)
-      const tentativeGCost = currentNode.gCost + 1;
-      
+
+      // Skip if already evaluated
+      if (closedSet.has(neighborKey)) continue;
+
+      // Skip impassable hexes (and hexes out of bounds)
+      const movementCost = getCost(neighbor);
+      if (movementCost === Infinity) continue;
+
+      // Calculate tentative gCost
+      const tentativeGCost = currentNode.gCost + movementCost;
+
       // Check if this is a better path
       const existingNode = openSet.get(neighborKey);
-      
+
       if (!existingNode || tentativeGCost < existingNode.gCost) {
-        const hCost = hexDistance(neighbor, goal);
+        const hCost = hexDistance(neighbor, goal) * minStepCost;
         const newNode: PathNode = {
           hex: neighbor,
           gCost: tentativeGCost,
@@ -139,12 +312,97 @@ export function findSubLandPath(
           fCost: tentativeGCost + hCost,
           parent: currentNode
         };
-        
+
         openSet.set(neighborKey, newNode);
+        openQueue.enqueue(newNode, newNode.fCost);
       }
     }
   }
-  
+
   // No path found
   return null;
 }
+
+/**
+ * A* pathfinding for SubLand hexagons
+ * Without terrain, assumes all hexes are traversable within the duchy bounds;
+ * with it, routes around costly or impassable hexes. Returns null if no path exists.
+ */
+export function findSubLandPath(
+  start: SubLandHex,
+  goal: SubLandHex,
+  terrain?: SubLandTerrain,
+  season?: Season
+): SubLandHex[] | null {
+  // Check if start and goal are within bounds
+  if (!isInBounds(start) || !isInBounds(goal)) {
+    return null;
+  }
+
+  const getCost = (hex: SubLandHex): number => {
+    if (!isInBounds(hex)) return Infinity;
+    if (!terrain) return 1;
+    const key = `${hex.q},${hex.r}`;
+    return getSubLandHexCost(terrain.biomes.get(key) ?? 'plains', terrain.features.get(key) ?? [], season);
+  };
+
+  return searchSubLands(start, goal, getCost, terrain ? MIN_HEX_COST : 1, 20000); // More than the whole Duchy
+}
+
+/**
+ * Cost of entering a SubLand anywhere in the world (Infinity = impassable)
+ * `getDuchyTerrain` gives null for Duchies that cannot be walked (sea, ice, closed passes)
+ */
+export function getSubLandPositionCost(
+  position: SubLandPosition,
+  getDuchyTerrain: (parentQ: number, parentR: number) => DuchySubLandTerrain | null
+): number {
+  const duchy = getDuchyTerrain(position.parentQ, position.parentR);
+  if (!duchy) return Infinity;
+
+  const key = `${position.q},${position.r}`;
+  return getSubLandHexCost(
+    duchy.terrain.biomes.get(key) ?? 'plains',
+    duchy.terrain.features.get(key) ?? [],
+    duchy.season
+  );
+}
+
+/**
+ * A* pathfinding between SubLands of any Duchies, crossing Duchy borders (and the east-west seam)
+ * Duchy terrain is requested once per Duchy the search reaches. Returns null if no path exists
+ * or the goal is too far for SubLand resolution (see MAX_CROSS_BORDER_EXPANSIONS).
+ */
+export function findCrossBorderSubLandPath(
+  start: SubLandPosition,
+  goal: SubLandPosition,
+  getDuchyTerrain: (parentQ: number, parentR: number) => DuchySubLandTerrain | null,
+  mapWidth: number = WORLD_MAP_WIDTH
+): SubLandPosition[] | null {
+  if (!isInBounds(start) || !isInBounds(goal)) {
+    return null;
+  }
+
+  // Each Duchy is loaded once
+  const duchies = new Map<string, DuchySubLandTerrain | null>();
+  const getDuchy = (parentQ: number, parentR: number): DuchySubLandTerrain | null => {
+    const key = `${parentQ},${parentR}`;
+    if (!duchies.has(key)) duchies.set(key, getDuchyTerrain(parentQ, parentR));
+    return duchies.get(key)!;
+  };
+
+  // Search in unwrapped global coordinates, with the goal on the copy of the world nearest the start
+  const goalParent = unwrapDuchy({ q: goal.parentQ, r: goal.parentR }, { q: start.parentQ, r: start.parentR }, mapWidth);
+  const globalStart = toGlobalSubLand(start);
+  const globalGoal = toGlobalSubLand({ ...goal, parentQ: goalParent.q, parentR: goalParent.r });
+
+  const path = searchSubLands(
+    globalStart,
+    globalGoal,
+    hex => getSubLandPositionCost(fromGlobalSubLand(hex, mapWidth), getDuchy),
+    MIN_HEX_COST,
+    MAX_CROSS_BORDER_EXPANSIONS
+  );
+
+  return path ? path.map(hex => fromGlobalSubLand(hex, mapWidth)) : null;
+}
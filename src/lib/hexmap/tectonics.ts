@@ -0,0 +1,347 @@
+import type { HexTile, MapConfig } from './types';
+import { getHexKey, getNeighbors } from './hex-utils';
+import type { SeededRandom } from '../random';
+
+/**
+ * Plate tectonics heightmap
+ * The world is split between drifting plates: a few under each continent and more under the
+ * oceans. Where two plates push together the land folds up into mountain ranges, where they pull
+ * apart it sinks into rift valleys (mid-ocean ridges at sea). Land rises gently from the coast
+ * inland, and every coast is fringed by a shallow continental shelf.
+ *
+ * Elevation is continuous: 0-10 on land (6+ is a mountain range), below 0 on the sea floor
+ * (shelf down to -1, deep ocean down to -5).
+ */
+
+export type PlateBoundary = 'convergent' | 'divergent' | 'transform';
+
+export interface TectonicPlate {
+  id: number;
+  centerQ: number;
+  centerR: number;
+  drift: { x: number; y: number }; // Motion on the map plane (x east, y south), up to 1
+  continental: boolean; // Seeded under a continent
+}
+
+export interface Heightmap {
+  plates: TectonicPlate[];
+  plateOf: Map<string, number>;           // Plate id of every hex
+  boundaries: Map<string, PlateBoundary>; // Hexes along the edge of their plate
+  elevation: Map<string, number>;
+}
+
+// Relative drift along the boundary normal above which plates collide or rift apart,
+// and at which they do so at full strength
+const BOUNDARY_STRESS = 0.2;
+const FULL_STRESS = 0.4;
+
+// Hexes over which uplift and rifting fade away from a boundary
+const MOUNTAIN_REACH = 5;
+const RIFT_REACH = 2;
+
+const MOUNTAIN_UPLIFT = 8;
+const RIFT_DEPTH = 2;
+const RIDGE_HEIGHT = 1.5;
+
+const OCEANIC_PLATE_ATTEMPTS = 20;
+
+// How far (radians) a continental plate's drift strays from heading to the middle of its continent
+const CONTINENTAL_DRIFT_SPREAD = Math.PI / 3;
+
+// Land rises from the coast to an interior plateau this far inland
+const PLATEAU_DISTANCE = 12;
+
+// Noise: hexes per lattice cell, and how far it bends plate boundaries
+const NOISE_SCALE = 14;
+const BOUNDARY_WARP = 8;
+
+/**
+ * Position on the flat map plane: rows are horizontal (row = r + q / 2)
+ */
+function toPlane(q: number, r: number): { x: number; y: number } {
+  return { x: q, y: r + q / 2 };
+}
+
+/**
+ * Shortest offset between two points of the plane, around the east-west seam
+ */
+function planeDelta(
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  mapWidth: number
+): { x: number; y: number } {
+  let x = (to.x - from.x) % mapWidth;
+  if (x >= mapWidth / 2) x -= mapWidth;
+  if (x < -mapWidth / 2) x += mapWidth;
+  return { x, y: to.y - from.y };
+}
+
+/**
+ * Pseudo-random value in [0, 1) for a lattice point
+ */
+function latticeValue(seed: number, x: number, y: number): number {
+  let hash = seed ^ Math.imul(x, 374761393) ^ Math.imul(y, 668265263);
+  hash = Math.imul(hash ^ (hash >>> 13), 1274126177);
+  return ((hash ^ (hash >>> 16)) >>> 0) / 4294967296;
+}
+
+/**
+ * Smooth value noise in [0, 1), periodic east-west so it has no seam
+ */
+function valueNoise(seed: number, x: number, y: number, mapWidth: number, scale: number): number {
+  const cells = Math.max(1, Math.round(mapWidth / scale));
+  const gx = (x / mapWidth) * cells;
+  const gy = y / scale;
+  const x0 = Math.floor(gx);
+  const y0 = Math.floor(gy);
+  const tx = gx - x0;
+  const ty = gy - y0;
+  const sx = tx * tx * (3 - 2 * tx);
+  const sy = ty * ty * (3 - 2 * ty);
+
+  const at = (ix: number, iy: number): number => latticeValue(seed, ((ix % cells) + cells) % cells, iy);
+  const top = at(x0, y0) + (at(x0 + 1, y0) - at(x0, y0)) * sx;
+  const bottom = at(x0, y0 + 1) + (at(x0 + 1, y0 + 1) - at(x0, y0 + 1)) * sx;
+  return top + (bottom - top) * sy;
+}
+
+/**
+ * Value noise over a few octaves, in [0, 1)
+ */
+function fractalNoise(seed: number, x: number, y: number, mapWidth: number): number {
+  let total = 0;
+  let weight = 0;
+  for (let octave = 0; octave < 3; octave++) {
+    const amplitude = 1 / 2 ** octave;
+    total += valueNoise(seed + octave, x, y, mapWidth, NOISE_SCALE / 2 ** octave) * amplitude;
+    weight += amplitude;
+  }
+  return total / weight;
+}
+
+/**
+ * Strength of an effect `distance` hexes from a boundary, fading to nothing past `reach`
+ */
+function falloff(distance: number, reach: number): number {
+  return Math.max(0, 1 - distance / (reach + 1)) ** 1.5;
+}
+
+/**
+ * Seed the plates: some around the middle of each continent, the rest scattered over the oceans
+ * Plates of a continent drift roughly toward its middle, so they mostly push together and
+ * raise ranges inside it; oceanic plates drift any way
+ */
+export function generatePlates(config: MapConfig, random: SeededRandom): TectonicPlate[] {
+  const plates: TectonicPlate[] = [];
+
+  const addPlate = (centerQ: number, centerR: number, continental: boolean, heading?: number): void => {
+    const angle = heading === undefined
+      ? random.range(0, Math.PI * 2)
+      : heading + random.range(-CONTINENTAL_DRIFT_SPREAD, CONTINENTAL_DRIFT_SPREAD);
+    const speed = random.range(0.3, 1);
+    plates.push({
+      id: plates.length,
+      centerQ,
+      centerR,
+      drift: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
+      continental
+    });
+  };
+
+  for (const continent of config.continents) {
+    const count = config.tectonics.platesPerContinent;
+    const middle = toPlane(continent.centerQ, continent.centerR);
+    for (let i = 0; i < count; i++) {
+      const angle = (i / count) * Math.PI * 2 + random.range(-0.5, 0.5);
+      const distance = random.range(0.15, 0.35);
+      const centerQ = Math.round(continent.centerQ + Math.cos(angle) * distance * continent.width);
+      const centerR = Math.round(continent.centerR + Math.sin(angle) * distance * continent.height);
+      const toMiddle = planeDelta(toPlane(centerQ, centerR), middle, config.width);
+      addPlate(centerQ, centerR, true, Math.atan2(toMiddle.y, toMiddle.x));
+    }
+  }
+
+  // Oceanic plates stay off the continents and apart from each other (a few tries each)
+  const spacing = config.width / (2 * Math.sqrt(Math.max(config.tectonics.oceanicPlates, 1)));
+  for (let i = 0; i < config.tectonics.oceanicPlates; i++) {
+    let center = { q: 0, r: 0 };
+    for (let attempt = 0; attempt < OCEANIC_PLATE_ATTEMPTS; attempt++) {
+      const q = random.int(-config.width / 2, config.width / 2 - 1);
+      const row = random.int(-config.height / 2, config.height / 2 - 1);
+      center = { q, r: row - Math.floor(q / 2) };
+
+      const onContinent = config.continents.some(continent =>
+        ((center.q - continent.centerQ) / (continent.width / 2)) ** 2 +
+        ((center.r - continent.centerR) / (continent.height / 2)) ** 2 < 1
+      );
+      const crowded = plates.some(plate => {
+        const delta = planeDelta(toPlane(center.q, center.r), toPlane(plate.centerQ, plate.centerR), config.width);
+        return Math.hypot(delta.x, delta.y) < spacing;
+      });
+      if (!onContinent && !crowded) break;
+    }
+    addPlate(center.q, center.r, false);
+  }
+
+  return plates;
+}
+
+/**
+ * Breadth-first distance (in hexes, up to maxDistance) from a set of hexes, with a value carried from the nearest one
+ */
+function spreadFrom<T>(
+  tiles: Map<string, HexTile>,
+  sources: Map<string, T>,
+  maxDistance: number,
+  mapWidth: number
+): Map<string, { distance: number; value: T }> {
+  const reached = new Map<string, { distance: number; value: T }>();
+  let frontier: string[] = [];
+
+  for (const [key, value] of sources) {
+    reached.set(key, { distance: 0, value });
+    frontier.push(key);
+  }
+
+  for (let distance = 1; distance <= maxDistance && frontier.length > 0; distance++) {
+    const next: string[] = [];
+    for (const key of frontier) {
+      const { value } = reached.get(key)!;
+      for (const neighbor of getNeighbors(tiles.get(key)!.coordinates, mapWidth)) {
+        const neighborKey = getHexKey(neighbor.q, neighbor.r);
+        if (!tiles.has(neighborKey) || reached.has(neighborKey)) continue;
+        reached.set(neighborKey, { distance, value });
+        next.push(neighborKey);
+      }
+    }
+    frontier = next;
+  }
+
+  return reached;
+}
+
+/**
+ * Elevation of every hex from the plates of the world
+ * @param land - Keys of the hexes that are land (continents and islands)
+ */
+export function generateHeightmap(
+  tiles: Map<string, HexTile>,
+  land: Set<string>,
+  config: MapConfig,
+  random: SeededRandom
+): Heightmap {
+  const mapWidth = config.width;
+  const plates = generatePlates(config, random);
+  const noiseSeed = Math.floor(random.next() * 2147483647);
+  const warpSeed = Math.floor(random.next() * 2147483647);
+  const planeCenters = plates.map(plate => toPlane(plate.centerQ, plate.centerR));
+
+  // Each hex belongs to the nearest plate center, with boundaries bent by noise
+  const plateOf = new Map<string, number>();
+  for (const [key, tile] of tiles) {
+    const point = toPlane(tile.coordinates.q, tile.coordinates.r);
+    const warped = {
+      x: point.x + (valueNoise(warpSeed, point.x, point.y, mapWidth, NOISE_SCALE * 2) - 0.5) * 2 * BOUNDARY_WARP,
+      y: point.y + (valueNoise(warpSeed + 1, point.x, point.y, mapWidth, NOISE_SCALE * 2) - 0.5) * 2 * BOUNDARY_WARP
+    };
+
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    planeCenters.forEach((center, id) => {
+      const delta = planeDelta(warped, center, mapWidth);
+      const distance = delta.x * delta.x + delta.y * delta.y;
+      if (distance < nearestDistance) {
+        nearest = id;
+        nearestDistance = distance;
+      }
+    });
+    plateOf.set(key, nearest);
+  }
+
+  // Boundaries: how hard the plates on either side push together (positive) or pull apart (negative)
+  const stress = new Map<string, number>();
+  const boundaries = new Map<string, PlateBoundary>();
+  for (const [key, tile] of tiles) {
+    const plate = plates[plateOf.get(key)!];
+    let strongest = 0;
+    let onBoundary = false;
+
+    for (const neighbor of getNeighbors(tile.coordinates, mapWidth)) {
+      const otherId = plateOf.get(getHexKey(neighbor.q, neighbor.r));
+      if (otherId === undefined || otherId === plate.id) continue;
+      onBoundary = true;
+
+      const other = plates[otherId];
+      const normal = planeDelta(planeCenters[plate.id], planeCenters[otherId], mapWidth);
+      const length = Math.hypot(normal.x, normal.y) || 1;
+      const push = ((plate.drift.x - other.drift.x) * normal.x + (plate.drift.y - other.drift.y) * normal.y) / length;
+      if (Math.abs(push) > Math.abs(strongest)) strongest = push;
+    }
+
+    if (!onBoundary) continue;
+    stress.set(key, strongest);
+    boundaries.set(
+      key,
+      strongest > BOUNDARY_STRESS ? 'convergent' : strongest < -BOUNDARY_STRESS ? 'divergent' : 'transform'
+    );
+  }
+
+  const collisions = spreadFrom(
+    tiles,
+    new Map([...stress].filter(([, push]) => push > BOUNDARY_STRESS)),
+    MOUNTAIN_REACH,
+    mapWidth
+  );
+  const rifts = spreadFrom(
+    tiles,
+    new Map([...stress].filter(([, push]) => push < -BOUNDARY_STRESS)),
+    RIFT_REACH,
+    mapWidth
+  );
+
+  // Distance to the shore, inland for land and out to sea for water
+  const shore = new Map<string, true>();
+  for (const [key, tile] of tiles) {
+    const isLand = land.has(key);
+    const touchesOther = getNeighbors(tile.coordinates, mapWidth).some(neighbor => {
+      const neighborKey = getHexKey(neighbor.q, neighbor.r);
+      return tiles.has(neighborKey) && land.has(neighborKey) !== isLand;
+    });
+    if (touchesOther) shore.set(key, true);
+  }
+  const fromShore = spreadFrom(tiles, shore, Math.max(PLATEAU_DISTANCE, config.tectonics.shelfWidth + 1), mapWidth);
+
+  const elevation = new Map<string, number>();
+  for (const [key, tile] of tiles) {
+    const point = toPlane(tile.coordinates.q, tile.coordinates.r);
+    const noise = fractalNoise(noiseSeed, point.x, point.y, mapWidth);
+    const shoreDistance = fromShore.get(key)?.distance ?? Infinity;
+    const collision = collisions.get(key);
+    const rift = rifts.get(key);
+
+    let height: number;
+    if (land.has(key)) {
+      height = 1 + (Math.min(shoreDistance, PLATEAU_DISTANCE) / PLATEAU_DISTANCE) * 2.5 + (noise - 0.5) * 2.5;
+      if (collision) {
+        height += Math.min(collision.value / FULL_STRESS, 1) * MOUNTAIN_UPLIFT * falloff(collision.distance, MOUNTAIN_REACH);
+      }
+      if (rift) {
+        height -= Math.min(-rift.value / FULL_STRESS, 1) * RIFT_DEPTH * falloff(rift.distance, RIFT_REACH);
+      }
+      height = Math.min(10, Math.max(0.2, height));
+    } else {
+      const shelfWidth = config.tectonics.shelfWidth;
+      height = shoreDistance <= shelfWidth
+        ? -0.3 - 0.7 * (shoreDistance / Math.max(shelfWidth, 1))
+        : -3 - noise * 2;
+      if (rift && shoreDistance > shelfWidth) {
+        height += RIDGE_HEIGHT * falloff(rift.distance, RIFT_REACH);
+      }
+      height = Math.min(-0.1, Math.max(-5, height));
+    }
+
+    elevation.set(key, Math.round(height * 100) / 100);
+  }
+
+  return { plates, plateOf, boundaries, elevation };
+}
@@ -1,33 +1,15 @@
 import type { HexTile, MapConfig, TerrainFeature } from './types';
-
-/**
- * Seeded random number generator for terrain features
- */
-class SeededRandom {
-  private seed: number;
-  
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-  
-  next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
-  }
-  
-  range(min: number, max: number): number {
-    return min + this.next() * (max - min);
-  }
-}
+import type { SeededRandom } from '../random';
+import { getClimateZone } from './climate';
 
 /**
  * NEW SYSTEM: Add terrain features (forest in Brontium, jungle in Drantium)
  * Forest and jungle are now FEATURES ON TOP OF base terrain (ONLY hills)
- * NOT terrain types themselves
+ * NOT terrain types themselves, and grow where the climate is humid (see climate.ts)
  * 
  * NEW RULES (ULTRA RESTRICTIVE):
- * - Jungle: ONLY on hills in Drantium (NEVER meadow, NEVER Brontium)
- * - Forest: ONLY on hills in Brontium (NEVER meadow, NEVER Drantium)
+ * - Jungle: ONLY on humid tropical hills in Drantium (NEVER meadow, NEVER Brontium)
+ * - Forest: ONLY on humid temperate hills in Brontium (NEVER meadow, NEVER Drantium)
  * - Boreal Forest: ONLY on tundra terrain (NEVER anywhere else)
  * - Oasis: ONLY on desert (unique to desert, NEVER anywhere else)
  * - Volcano: ONLY on mountain_range (unique to mountain_range, additional to hasVolcano flag)
@@ -44,13 +26,15 @@ export function addTerrainFeatures(
       continue;
     }
     
+    const zone = getClimateZone(tile.temperature, tile.rainfall);
+    
     // DRANTIUM: Add jungle features (selva) - ONLY on hills (NOT meadow)
     // ULTRA RESTRICTIVE: NEVER in Brontium, NEVER in desert, NEVER in meadow, NEVER outside Drantium
     if (tile.continent === 'drantium' && 
         tile.terrain !== 'desert' && 
         tile.terrain === 'hills') {
       // High chance for jungle on hills ONLY in warm, wet areas
-      if (tile.temperature > 20 && tile.rainfall > 60) {
+      if (zone === 'humid_tropical') {
         const jungleChance = 0.7;
         if (random.next() < jungleChance) {
           if (!tile.features) tile.features = [];
@@ -65,9 +49,7 @@ export function addTerrainFeatures(
         tile.terrain !== 'desert' && 
         tile.terrain === 'hills') {
       // High chance for forest on hills ONLY in temperate areas
-      if (tile.temperature > 5 && 
-          tile.temperature < 25 && 
-          tile.rainfall > 50) {
+      if (zone === 'humid_temperate') {
         const forestChance = 0.7;
         if (random.next() < forestChance) {
           if (!tile.features) tile.features = [];
@@ -7,7 +7,8 @@ export type TerrainType =
   | 'mountain_range' // Cordillera - mountain ranges (formerly mountain)
   | 'tundra' 
   | 'desert'
-  | 'ice';
+  | 'ice'
+  | 'lake';   // Inland water where rivers end (see river-system.ts)
 
 // Terrain Features: vegetation characteristics that can exist ON terrain
 export type TerrainFeature = 
@@ -73,7 +74,7 @@ export interface HexTile {
   resources: ResourceType[];
   animals: AnimalType[];
   minerals: MineralType[];
-  elevation: number; // 0-10
+  elevation: number; // 0-10 on land, below 0 on the sea floor (see tectonics.ts)
   temperature: number; // -50 to 50 celsius
   rainfall: number; // 0-100 (percentage)
   hasVolcano: boolean;
@@ -101,19 +102,34 @@ export interface IslandConfig {
   type: IslandType;
 }
 
+export interface LatitudeBands {
+  polarTundra: number; // Open ocean beyond this latitude (degrees) freezes into tundra
+  iceCap: number; // Ice cap beyond this latitude (degrees)
+}
+
+export interface TectonicsConfig {
+  oceanicPlates: number; // Plates scattered over the oceans
+  platesPerContinent: number; // Plates under each continent (their collisions raise its mountain ranges)
+  shelfWidth: number; // Hexes of shallow continental shelf off every coast
+}
+
 export interface MapConfig {
   // Earth-sized map: ~400 hexes wide, ~200 hexes tall
   width: number; // hexes around equator
   height: number; // hexes from pole to pole
   hexSizeKm: number; // 100km per hex
   continents: ContinentConfig[];
-  islands: IslandConfig[];
+  islandCounts: Partial<Record<IslandType, number>>; // Islands per type (hand-placed ones included)
+  islands: IslandConfig[]; // Islands placed by hand (the generator adds the scattered ones)
+  latitudeBands: LatitudeBands;
+  tectonics: TectonicsConfig;
 }
 
 export interface GameTime {
   startDate: Date; // November 15, 2025
   currentDate: Date;
   dayNumber: number; // Days since start
+  dayOfMonth: number; // Day 1-28 within the current month
   monthNumber: number; // Month 1-14
   yearNumber: number; // Year since start
   speed: number; // 4x speed multiplier
@@ -0,0 +1,20 @@
+import type { HexTile } from './types';
+import { generateEarthMap } from './generator';
+import { DEFAULT_MAP_CONFIG, WORLD_SEED } from './map-presets';
+
+let worldPromise: Promise<Map<string, HexTile>> | null = null;
+
+/**
+ * Get the generated world map, generating it once per server process
+ * Used by API routes that need terrain to validate player actions
+ */
+export function getWorldTiles(): Promise<Map<string, HexTile>> {
+  if (!worldPromise) {
+    worldPromise = generateEarthMap(WORLD_SEED, 1, DEFAULT_MAP_CONFIG).catch(error => {
+      // Allow a retry on the next request instead of caching the failure
+      worldPromise = null;
+      throw error;
+    });
+  }
+  return worldPromise;
+}
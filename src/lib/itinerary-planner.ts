@@ -0,0 +1,312 @@
+import type { TransportItem, TravelCalculation } from '@/types/game';
+import type { GameDate } from './calendar/types';
+import { addGameDays, realTimeToGameDate } from './calendar';
+import type { HexCoordinates, HexTile, TerrainType } from './hexmap/types';
+import { getHexKey } from './hexmap/hex-utils';
+import { TERRAIN_COSTS, findPath, getMovementCost, type PathCostModel } from './hexmap/pathfinding';
+import { planSeaItinerary, type Itinerary, type ItineraryLeg } from './hexmap/naval-pathfinding';
+import { TRANSPORT_OPTIONS, TRAVEL_MS_PER_GAME_DAY } from './travel-calculator';
+
+/**
+ * Multimodal itinerary planner
+ * Splits a journey into legs, each made with the best of the player's transports for the terrain
+ * (camel across the desert, horse inland, ship across the ocean). Walking is always possible.
+ * - fastest: least total time
+ * - cheapest: least SLX upkeep (walking is free)
+ * - max-cargo: largest load carried the whole way, then fastest
+ * Transports of the same kind travel together, so two horses carry twice what one does.
+ */
+
+export type ItineraryObjective = 'fastest' | 'cheapest' | 'max-cargo';
+
+type LandTransportType = Exclude<TransportItem['type'], 'ship'>;
+
+/**
+ * Terrain multipliers of each land transport, applied on top of the walking movement cost
+ * Infinity = the transport cannot enter the terrain
+ */
+export const TRANSPORT_TERRAIN_MULTIPLIERS: Record<LandTransportType, Partial<Record<TerrainType, number>>> = {
+  foot: {},
+  horse: {
+    hills: 1.2,
+    mountain_range: 2.0,  // Horses are led on foot over passes
+    tundra: 1.3,
+    desert: 1.8           // Horses tire fast in the sand
+  },
+  cart: {
+    hills: 1.6,
+    mountain_range: Infinity, // No cart track over the cordillera
+    tundra: 1.5,
+    desert: 2.0
+  },
+  camel: {
+    mountain_range: 1.5,
+    tundra: 2.0,
+    desert: 0.5           // At home in the sand
+  }
+};
+
+// Value of a game day when ranking equally cheap routes (keeps free walking routes short)
+const TIME_COST_PER_DAY = 0.01;
+
+const FOOT = TRANSPORT_OPTIONS.find(transport => transport.type === 'foot')!;
+
+export interface PlannedItinerary extends Itinerary {
+  objective: ItineraryObjective;
+  calculations: TravelCalculation[]; // One per leg
+  totalCost: number;                 // SLX upkeep
+  cargoCapacity: number;             // Jax carried the whole way (the weakest leg)
+}
+
+export interface ItineraryPlanOptions {
+  objective: ItineraryObjective;
+  departureTime: Date;
+}
+
+/**
+ * Time (game days) for a land transport to enter a tile, Infinity if it cannot
+ */
+export function getTransportHexTime(transport: TransportItem, tile: HexTile, date?: GameDate): number {
+  if (transport.type === 'ship') return Infinity;
+  const multiplier = TRANSPORT_TERRAIN_MULTIPLIERS[transport.type][tile.terrain] ?? 1.0;
+  return getMovementCost(tile, date) * multiplier / transport.speed;
+}
+
+/**
+ * Jax carried by all transports of a kind together (e.g. a string of pack horses)
+ */
+export function getCombinedCapacity(type: TransportItem['type'], transports: TransportItem[]): number {
+  return transports
+    .filter(transport => transport.type === type)
+    .reduce((sum, transport) => sum + transport.weightCapacity, 0);
+}
+
+function getTransportScore(transport: TransportItem, time: number, objective: ItineraryObjective): number {
+  return objective === 'cheapest' ? time * (transport.upkeep + TIME_COST_PER_DAY) : time;
+}
+
+/**
+ * Best land transport to enter a tile, or null if none can
+ */
+function chooseTransport(
+  transports: TransportItem[],
+  tile: HexTile,
+  objective: ItineraryObjective,
+  date?: GameDate
+): { transport: TransportItem; time: number } | null {
+  let best: { transport: TransportItem; time: number; score: number } | null = null;
+
+  for (const transport of transports) {
+    const time = getTransportHexTime(transport, tile, date);
+    if (time === Infinity) continue;
+    const score = getTransportScore(transport, time, objective);
+    if (!best || score < best.score) best = { transport, time, score };
+  }
+
+  return best;
+}
+
+/**
+ * Path cost model using the best transport on each tile
+ */
+function getLandCostModel(transports: TransportItem[], objective: ItineraryObjective): PathCostModel {
+  // Cheapest step any transport can make: finite walking cost times its best multiplier
+  let minStepCost = Infinity;
+  for (const transport of transports) {
+    for (const [terrain, cost] of Object.entries(TERRAIN_COSTS) as Array<[TerrainType, number]>) {
+      if (cost === Infinity || transport.type === 'ship') continue;
+      const multiplier = TRANSPORT_TERRAIN_MULTIPLIERS[transport.type][terrain] ?? 1.0;
+      minStepCost = Math.min(minStepCost, getTransportScore(transport, cost * multiplier / transport.speed, objective));
+    }
+  }
+
+  return {
+    getCost: (tile, date) => {
+      const choice = chooseTransport(transports, tile, objective, date);
+      return choice ? getTransportScore(choice.transport, choice.time, objective) : Infinity;
+    },
+    minStepCost: Number.isFinite(minStepCost) ? minStepCost : 0,
+    getDays: (tile, date) => chooseTransport(transports, tile, objective, date)?.time ?? Infinity
+  };
+}
+
+/**
+ * Land legs between two Duchies: the route is found with the best transport on each tile,
+ * then split wherever the transport changes. Each tile uses the season on the day it is entered.
+ */
+function planLandLegs(
+  from: HexCoordinates,
+  to: HexCoordinates,
+  tiles: Map<string, HexTile>,
+  transports: TransportItem[],
+  objective: ItineraryObjective,
+  departure?: GameDate
+): ItineraryLeg[] | null {
+  if (from.q === to.q && from.r === to.r) return [];
+
+  const path = findPath(from, to, tiles, departure, getLandCostModel(transports, objective));
+  if (!path) return null;
+
+  const legs: ItineraryLeg[] = [];
+  let elapsed = 0;
+
+  for (let i = 1; i < path.length; i++) {
+    const tile = tiles.get(getHexKey(path[i].q, path[i].r));
+    if (!tile) return null;
+
+    const date = departure ? addGameDays(departure, elapsed) : undefined;
+    const choice = chooseTransport(transports, tile, objective, date);
+    if (!choice) return null; // The route closes on the way
+
+    const current = legs[legs.length - 1];
+    if (current && current.transportId === choice.transport.id) {
+      current.path.push(path[i]);
+      current.travelTime += choice.time;
+    } else {
+      legs.push({ mode: 'land', path: [path[i - 1], path[i]], travelTime: choice.time, transportId: choice.transport.id });
+    }
+    elapsed += choice.time;
+  }
+
+  return legs;
+}
+
+function getItineraryCost(itinerary: Itinerary, transports: TransportItem[]): number {
+  return itinerary.legs.reduce((sum, leg) => {
+    const transport = transports.find(t => t.id === leg.transportId);
+    return sum + leg.travelTime * (transport?.upkeep ?? 0);
+  }, 0);
+}
+
+/**
+ * Best itinerary using only the given transports
+ */
+function planWithTransports(
+  origin: HexCoordinates,
+  destination: HexCoordinates,
+  tiles: Map<string, HexTile>,
+  harbours: Set<string>,
+  transports: TransportItem[],
+  objective: ItineraryObjective,
+  departure: GameDate
+): Itinerary | null {
+  const landTransports = transports.filter(transport => transport.type !== 'ship');
+  const ships = transports.filter(transport => transport.type === 'ship');
+  const score = (itinerary: Itinerary): number => objective === 'cheapest'
+    ? getItineraryCost(itinerary, transports) + itinerary.totalTime * TIME_COST_PER_DAY
+    : itinerary.totalTime;
+
+  const candidates: Itinerary[] = [];
+
+  const landLegs = planLandLegs(origin, destination, tiles, landTransports, objective, departure);
+  if (landLegs) {
+    candidates.push({ legs: landLegs, totalTime: landLegs.reduce((sum, leg) => sum + leg.travelTime, 0) });
+  }
+
+  // One ship for the crossing: the fastest, or the one with the least upkeep per tile sailed
+  const ship = [...ships].sort((a, b) => objective === 'cheapest'
+    ? a.upkeep / a.speed - b.upkeep / b.speed
+    : b.speed - a.speed
+  )[0];
+  if (ship && harbours.size > 0) {
+    const seaItinerary = planSeaItinerary(origin, destination, tiles, harbours, {
+      landSpeed: FOOT.speed,
+      seaSpeed: ship.speed,
+      departure,
+      shipId: ship.id,
+      planLandLegs: (from, to, date) => planLandLegs(from, to, tiles, landTransports, objective, date),
+      score
+    });
+    if (seaItinerary) candidates.push(seaItinerary);
+  }
+
+  return candidates.reduce<Itinerary | null>(
+    (best, candidate) => !best || score(candidate) < score(best) ? candidate : best,
+    null
+  );
+}
+
+/**
+ * Plan a journey with the player's transports (walking is always available)
+ * Returns null if the destination cannot be reached with them
+ */
+export function planItinerary(
+  origin: HexCoordinates,
+  destination: HexCoordinates,
+  tiles: Map<string, HexTile>,
+  harbours: Set<string>,
+  ownedTransports: TransportItem[],
+  options: ItineraryPlanOptions
+): PlannedItinerary | null {
+  const { objective, departureTime } = options;
+  if (origin.q === destination.q && origin.r === destination.r) return null;
+
+  const transports = [FOOT, ...ownedTransports.filter(transport => transport.id !== FOOT.id)];
+  const departure = realTimeToGameDate(departureTime);
+
+  let itinerary: Itinerary | null = null;
+  if (objective === 'max-cargo') {
+    // Largest load first: only kinds of transport that can carry it, fastest among those
+    const capacityOf = (transport: TransportItem): number => getCombinedCapacity(transport.type, transports);
+    const capacities = [...new Set(transports.map(capacityOf))].sort((a, b) => b - a);
+    for (const capacity of capacities) {
+      const able = transports.filter(transport => capacityOf(transport) >= capacity);
+      itinerary = planWithTransports(origin, destination, tiles, harbours, able, 'fastest', departure);
+      if (itinerary) break;
+    }
+  } else {
+    itinerary = planWithTransports(origin, destination, tiles, harbours, transports, objective, departure);
+  }
+  if (!itinerary) return null;
+
+  return {
+    ...itinerary,
+    objective,
+    calculations: getLegCalculations(itinerary, transports, departureTime),
+    totalCost: getItineraryCost(itinerary, transports),
+    cargoCapacity: Math.min(...itinerary.legs.map(leg => getLegCapacity(leg, transports)))
+  };
+}
+
+/**
+ * Transport used on a leg (walking if none is recorded)
+ */
+export function getLegTransport(leg: ItineraryLeg, transports: TransportItem[]): TransportItem {
+  return transports.find(transport => transport.id === leg.transportId) ?? FOOT;
+}
+
+/**
+ * Jax carried on a leg by all transports of its kind (walking carries what one traveller can)
+ */
+export function getLegCapacity(leg: ItineraryLeg, transports: TransportItem[]): number {
+  const transport = getLegTransport(leg, transports);
+  return transport.id === FOOT.id ? FOOT.weightCapacity : getCombinedCapacity(transport.type, transports);
+}
+
+/**
+ * Travel calculation of each leg, with arrival times counted from the departure
+ */
+export function getLegCalculations(
+  itinerary: Itinerary,
+  transports: TransportItem[],
+  departureTime: Date
+): TravelCalculation[] {
+  let elapsed = 0;
+
+  return itinerary.legs.map((leg): TravelCalculation => {
+    const from = leg.path[0];
+    const to = leg.path[leg.path.length - 1];
+    elapsed += leg.travelTime;
+    const arrivalDate = new Date(departureTime.getTime() + elapsed * TRAVEL_MS_PER_GAME_DAY);
+
+    return {
+      fromDuchy: `Duchy (${from.q}, ${from.r})`,
+      toDuchy: `Duchy (${to.q}, ${to.r})`,
+      distance: leg.path.length - 1,
+      selectedTransport: getLegTransport(leg, transports),
+      travelTime: leg.travelTime,
+      arrivalDate,
+      arrivalGameDate: realTimeToGameDate(arrivalDate)
+    };
+  });
+}
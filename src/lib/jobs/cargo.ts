@@ -0,0 +1,40 @@
+import { getDeliveredItems } from '@/lib/cargo';
+import { deliverCargo, findArrivedCargoTravels } from '@/lib/db';
+
+export interface CargoReport {
+  deliveries: number;              // Journeys unloaded
+  goods: Record<string, number>;   // Total units delivered per good
+  skipped: string[];               // Journeys that failed to unload, retried on a later run
+}
+
+/**
+ * Scheduled cargo job
+ * Unloads every cargo journey that has arrived into its destination warehouse
+ * Safe to run as often as needed: each journey is unloaded once
+ */
+export async function runCargoDeliveries(now: Date = new Date()): Promise<CargoReport> {
+  const travels = await findArrivedCargoTravels(now);
+  const report: CargoReport = { deliveries: 0, goods: {}, skipped: [] };
+
+  for (const travel of travels) {
+    if (!travel.cargo) continue;
+
+    let delivered: boolean;
+    try {
+      delivered = await deliverCargo(travel.id);
+    } catch (error) {
+      // One failing caravan must not stop the others: it rolled back and is still waiting to unload
+      console.error(`Cargo delivery of journey ${travel.id} failed:`, error);
+      report.skipped.push(travel.id);
+      continue;
+    }
+    if (!delivered) continue;
+
+    report.deliveries++;
+    for (const [item, amount] of Object.entries(getDeliveredItems(travel.cargo))) {
+      report.goods[item] = (report.goods[item] ?? 0) + amount;
+    }
+  }
+
+  return report;
+}
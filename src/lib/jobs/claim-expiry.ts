@@ -0,0 +1,67 @@
+import {
+  createNotifications,
+  findClaimsExpiringBefore,
+  revertLapsedClaims,
+  type ExpiringClaim,
+  type NewNotification
+} from '@/lib/db';
+import { CLAIM_GRACE_PERIOD_DAYS, RENEWAL_WINDOW_DAYS, getClaimLifecycle } from '@/lib/sublands/claims';
+import type { NotificationType } from '@/types/game';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ClaimExpiryReport {
+  reverted: number;      // Claims reverted to virgin land
+  notified: number;      // Notifications created (duplicates from earlier runs excluded)
+}
+
+function toNotification(claim: ExpiringClaim, type: NotificationType): NewNotification {
+  const position = `(${claim.q}, ${claim.r}) in Duchy (${claim.parentQ}, ${claim.parentR})`;
+  const expiry = claim.claimExpiresAt.toISOString().slice(0, 10);
+
+  const content: Record<NotificationType, { title: string; message: string }> = {
+    claim_expiring: {
+      title: 'Claim expiring soon',
+      message: `Your claim on xLand ${position} expires on ${expiry}. Renew it or build on it to keep the land.`
+    },
+    claim_grace: {
+      title: 'Claim expired',
+      message: `Your claim on xLand ${position} expired on ${expiry}. You have ${CLAIM_GRACE_PERIOD_DAYS} days of grace to renew it before it reverts to virgin land.`
+    },
+    claim_lapsed: {
+      title: 'Claim lost',
+      message: `Your claim on xLand ${position} was not renewed and has reverted to virgin land.`
+    }
+  };
+
+  return {
+    wallet: claim.owner,
+    type,
+    ...content[type],
+    link: `/land-detail/${claim.parentQ}/${claim.parentR}`,
+    // One notification per stage and per expiry date: renewing starts a fresh cycle
+    dedupeKey: `${type}:${claim.id}:${claim.claimExpiresAt.toISOString()}`
+  };
+}
+
+/**
+ * Scheduled claim lifecycle job
+ * Reverts lapsed undeveloped claims to virgin land and notifies owners of
+ * claims entering the renewal window or the grace period
+ * Safe to run as often as needed: notifications are deduplicated
+ */
+export async function runClaimExpiry(now: Date = new Date()): Promise<ClaimExpiryReport> {
+  const lapsedBefore = new Date(now.getTime() - CLAIM_GRACE_PERIOD_DAYS * DAY_MS);
+  const reverted = await revertLapsedClaims(lapsedBefore);
+  const notifications = reverted.map(claim => toNotification(claim, 'claim_lapsed'));
+
+  const windowEnd = new Date(now.getTime() + RENEWAL_WINDOW_DAYS * DAY_MS);
+  for (const claim of await findClaimsExpiringBefore(windowEnd)) {
+    const { stage } = getClaimLifecycle({ status: 'claimed', claimExpiresAt: claim.claimExpiresAt, buildings: [] }, now);
+    if (stage === 'renewable') notifications.push(toNotification(claim, 'claim_expiring'));
+    else if (stage === 'grace') notifications.push(toNotification(claim, 'claim_grace'));
+  }
+
+  const notified = await createNotifications(notifications);
+  return { reverted: reverted.length, notified };
+}
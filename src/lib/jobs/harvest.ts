@@ -0,0 +1,57 @@
+import { findBuildingsByType, recordHarvest } from '@/lib/db';
+import { getHexKey } from '@/lib/hexmap/hex-utils';
+import { getWorldTiles } from '@/lib/hexmap/world-cache';
+import { generateSubLandsForTile } from '@/lib/sublands/generator';
+import { addHarvestsToInventory, simulateHarvests } from '@/lib/sublands/harvest';
+import type { SubLand } from '@/lib/sublands/types';
+
+export interface HarvestReport {
+  farms: number;                   // Farms checked
+  harvests: number;                // Harvests credited
+  goods: Record<string, number>;   // Total units credited per crop
+}
+
+/**
+ * Scheduled harvest job
+ * Credits every farm with the harvests that happened since its last run, using the
+ * season calendar of its Duchy and the Duchy's climate
+ * Safe to run as often as needed: each harvest is credited once
+ */
+export async function runHarvest(now: Date = new Date()): Promise<HarvestReport> {
+  const farms = await findBuildingsByType('farm');
+  const tiles = await getWorldTiles();
+  const sublandsByParent = new Map<string, SubLand[]>();
+  const report: HarvestReport = { farms: farms.length, harvests: 0, goods: {} };
+
+  for (const farm of farms) {
+    const parentKey = getHexKey(farm.parentQ, farm.parentR);
+    const parentTile = tiles.get(parentKey);
+    if (!parentTile) continue;
+
+    let sublands = sublandsByParent.get(parentKey);
+    if (!sublands) {
+      sublands = generateSubLandsForTile(parentTile, tiles);
+      sublandsByParent.set(parentKey, sublands);
+    }
+    const subland = sublands.find(sl => sl.q === farm.q && sl.r === farm.r);
+    if (!subland) continue;
+
+    const previousHarvestAt = farm.building.lastHarvestAt ?? null;
+    const harvests = simulateHarvests(
+      farm.building,
+      subland,
+      parentTile,
+      previousHarvestAt ?? farm.building.builtAt,
+      now
+    );
+    if (harvests.length === 0) continue;
+
+    const goods = addHarvestsToInventory({}, harvests);
+    if (await recordHarvest(farm.building.id, previousHarvestAt, now, goods)) {
+      report.harvests += harvests.length;
+      report.goods = addHarvestsToInventory(report.goods, harvests);
+    }
+  }
+
+  return report;
+}
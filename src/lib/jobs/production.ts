@@ -0,0 +1,106 @@
+import { advanceProduction, findBuildingsByType, type BuildingLocation, type BuildingUpdate } from '@/lib/db';
+import { DAYS_PER_MONTH, getGameDayNumber, realTimeToGameDate } from '@/lib/calendar';
+import { getHexKey } from '@/lib/hexmap/hex-utils';
+import { getWorldTiles } from '@/lib/hexmap/world-cache';
+import { generateSubLandsForTile } from '@/lib/sublands/generator';
+import { PRODUCTION_PROFILES } from '@/lib/sublands/production';
+import { simulateSettlement } from '@/lib/sublands/population';
+import type { BuildingType, SubLandResourceType } from '@/lib/sublands/types';
+
+/**
+ * Production ticks caught up at most per run: longer downtime is not made up
+ */
+export const MAX_PRODUCTION_TICKS = DAYS_PER_MONTH;
+
+export interface ProductionReport {
+  duchies: number;     // Duchies with producers or villages
+  ticks: number;       // Days simulated, summed over Duchies
+  population: number;  // Village population after the run, in the Duchies that ticked
+  skipped: Array<{ parentQ: number; parentR: number }>; // Duchies that failed, simulated on a later run
+}
+
+/**
+ * Deposits of the SubLands holding mines in a Duchy, keyed by "q,r"
+ */
+async function getMineDeposits(
+  parentQ: number,
+  parentR: number,
+  producers: BuildingLocation[]
+): Promise<Map<string, SubLandResourceType>> {
+  const deposits = new Map<string, SubLandResourceType>();
+  const mines = producers.filter(producer => producer.building.type === 'mine');
+  if (mines.length === 0) return deposits;
+
+  const tiles = await getWorldTiles();
+  const parentTile = tiles.get(getHexKey(parentQ, parentR));
+  if (!parentTile) return deposits;
+
+  const sublands = generateSubLandsForTile(parentTile, tiles);
+  for (const mine of mines) {
+    const subland = sublands.find(sl => sl.q === mine.q && sl.r === mine.r);
+    if (subland) deposits.set(getHexKey(mine.q, mine.r), subland.resourceType);
+  }
+  return deposits;
+}
+
+/**
+ * Scheduled production job
+ * Simulates one day (population, then production) per game day elapsed since the last run
+ * in every Duchy with producers or villages
+ * Safe to run as often as needed: each day is only simulated once
+ */
+export async function runProduction(now: Date = new Date()): Promise<ProductionReport> {
+  const producerTypes = [...Object.keys(PRODUCTION_PROFILES), 'mine', 'urban_core'] as BuildingType[];
+  const producers = await findBuildingsByType(producerTypes);
+  const day = getGameDayNumber(realTimeToGameDate(now));
+
+  const byDuchy = new Map<string, BuildingLocation[]>();
+  for (const producer of producers) {
+    const key = getHexKey(producer.parentQ, producer.parentR);
+    byDuchy.set(key, [...(byDuchy.get(key) ?? []), producer]);
+  }
+
+  const report: ProductionReport = { duchies: byDuchy.size, ticks: 0, population: 0, skipped: [] };
+
+  for (const duchyProducers of byDuchy.values()) {
+    const { parentQ, parentR } = duchyProducers[0];
+
+    // Set by the step, which runs again when a conflict rolls the Duchy back
+    let population = 0;
+    let ticksRun: number;
+    try {
+      const deposits = await getMineDeposits(parentQ, parentR, duchyProducers);
+
+      ticksRun = await advanceProduction(parentQ, parentR, day, MAX_PRODUCTION_TICKS, (buildings, ticks) => {
+        const sites = buildings.map(({ building, q, r }) => ({
+          building,
+          q,
+          r,
+          resourceType: deposits.get(getHexKey(q, r))
+        }));
+        const result = simulateSettlement(sites, ticks);
+
+        // Only write back the buildings that changed
+        const updates = new Map<string, BuildingUpdate>();
+        result.sites.forEach(({ building }, index) => {
+          const before = sites[index].building;
+          const update = { inventory: building.inventory, workers: building.workers, urbanCoreData: building.urbanCoreData };
+          const previous = { inventory: before.inventory, workers: before.workers, urbanCoreData: before.urbanCoreData };
+          if (JSON.stringify(update) !== JSON.stringify(previous)) updates.set(building.id, update);
+        });
+        population = result.sites.reduce((sum, site) => sum + (site.building.urbanCoreData?.population ?? 0), 0);
+        return updates;
+      });
+    } catch (error) {
+      // One failing Duchy must not stop the others: its clock did not move, the next run retries it
+      console.error(`Production of Duchy (${parentQ}, ${parentR}) failed:`, error);
+      report.skipped.push({ parentQ, parentR });
+      continue;
+    }
+
+    report.ticks += ticksRun;
+    if (ticksRun > 0) report.population += population;
+  }
+
+  return report;
+}
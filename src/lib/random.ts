@@ -0,0 +1,70 @@
+/**
+ * Seeded random numbers for everything generated from the world seed
+ * Generation code draws from a named stream of the seed and never from Math.random,
+ * so the same seed always yields the same tiles, rivers, SubLands and parcels
+ */
+
+export type RandomStream = 'terrain' | 'tectonics' | 'minerals' | 'rivers' | 'parcels';
+
+const MODULUS = 233280;
+
+/**
+ * Linear congruential generator (deterministic for a given seed)
+ */
+export class SeededRandom {
+  private seed: number;
+
+  constructor(seed: number) {
+    this.seed = ((Math.floor(seed) % MODULUS) + MODULUS) % MODULUS;
+  }
+
+  next(): number {
+    this.seed = (this.seed * 9301 + 49297) % MODULUS;
+    return this.seed / MODULUS;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Shuffled copy of the items (Fisher-Yates)
+   */
+  shuffle<T>(items: readonly T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
+
+/**
+ * Hash a text into a seed
+ */
+export function hashSeed(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) % MODULUS;
+  }
+  return hash;
+}
+
+/**
+ * Independent stream of a seed for one part of generation, optionally for one place (e.g. a Duchy)
+ * Streams do not share draws, so adding rolls to one part leaves the others unchanged.
+ * The terrain stream of the whole world is the seed itself, so existing worlds keep their terrain.
+ */
+export function createRandomStream(seed: number, stream: RandomStream, ...keys: number[]): SeededRandom {
+  if (stream === 'terrain' && keys.length === 0) return new SeededRandom(seed);
+  return new SeededRandom(hashSeed([seed, stream, ...keys].join(':')));
+}
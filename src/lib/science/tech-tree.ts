@@ -1,4 +1,4 @@
-import type { Technology, Trade, Religion } from './types';
+import type { PlayerProgress, Technology, Trade, Religion } from './types';
 
 // Technology Tree Data
 export const TECHNOLOGIES: Technology[] = [
@@ -546,3 +546,54 @@ export function getAvailableTechs(researchedTechs: string[]): Technology[] {
     canResearchTech(tech, researchedTechs)
   );
 }
+
+export type ResearchRejectionCode =
+  | 'UNKNOWN_TECH'            // Not a technology id
+  | 'ALREADY_RESEARCHED'
+  | 'PREREQUISITES_NOT_MET'
+  | 'INSUFFICIENT_KNOWLEDGE'; // Not enough knowledge points for the research cost
+
+export interface ResearchRejection {
+  code: ResearchRejectionCode;
+  message: string;
+}
+
+/**
+ * Research a technology, paying its cost in knowledge points
+ * Returns the progress after the research, or the reason it is rejected
+ */
+export function researchTech(
+  techId: string,
+  progress: PlayerProgress
+): { ok: true; progress: PlayerProgress } | { ok: false; rejection: ResearchRejection } {
+  const tech = getTechnologyById(techId);
+  if (!tech) {
+    return { ok: false, rejection: { code: 'UNKNOWN_TECH', message: `Unknown technology: ${techId}` } };
+  }
+  if (progress.researchedTechs.includes(tech.id)) {
+    return { ok: false, rejection: { code: 'ALREADY_RESEARCHED', message: `${tech.name} is already researched.` } };
+  }
+  if (!canResearchTech(tech, progress.researchedTechs)) {
+    return { ok: false, rejection: { code: 'PREREQUISITES_NOT_MET', message: 'Prerequisites not met!' } };
+  }
+  if (progress.knowledgePoints < tech.researchCost) {
+    return {
+      ok: false,
+      rejection: {
+        code: 'INSUFFICIENT_KNOWLEDGE',
+        message: `Need ${tech.researchCost} knowledge points. You have ${progress.knowledgePoints}.`
+      }
+    };
+  }
+
+  return {
+    ok: true,
+    progress: {
+      ...progress,
+      researchedTechs: [...progress.researchedTechs, tech.id],
+      currentResearch: null,
+      researchProgress: 0,
+      knowledgePoints: progress.knowledgePoints - tech.researchCost
+    }
+  };
+}
@@ -0,0 +1,188 @@
+import type { BuildingConfig, PlacedBuilding, ReligionType, SubLand } from './types';
+import { BUILDING_CONFIGS, countUrbanCores, formatArea, getTownTiles, hasTownInHexagon, isCentralTile, isShorelineWater } from './building-config';
+import { isAdjacentToCoastalInland } from './generator';
+import { getRequiredWorkers } from './production';
+import { createVillagePopulation, getHexagonPopulation } from './population';
+
+/**
+ * Maximum urban cores (villages) per hexagon
+ */
+export const MAX_URBAN_CORES = 100;
+
+export type BuildRejectionCode =
+  | 'UNKNOWN_BUILDING'            // Not a BuildingType
+  | 'NOT_OWNER'                   // SubLand belongs to someone else
+  | 'COASTAL_INLAND'              // Water-adjacent zone, nothing can be built
+  | 'NFT_TYPE_REQUIRED'           // County / Duchy Land NFT missing
+  | 'SPECIAL_NFTS_REQUIRED'       // Settlement without special NFTs
+  | 'RIVER_REQUIRED'              // Missing (navigable or non-navigable) river
+  | 'COASTAL_ADJACENCY_REQUIRED'  // Dock, port and shipyard need a coastal_inland or lakeshore neighbour
+  | 'TILE_NOT_EMPTY'              // Urban core on land that already has buildings
+  | 'URBAN_CORE_LIMIT'            // MAX_URBAN_CORES reached
+  | 'POPULATION_REQUIRED'         // Town without enough inhabitants in the hexagon
+  | 'TOWN_NOT_CENTRAL'            // Town outside the central hex
+  | 'TOWN_ALREADY_EXISTS'         // Only one town per hexagon
+  | 'TOWN_TILES_OCCUPIED'         // Central cluster is not empty
+  | 'AREA_EXCEEDED'               // Not enough free m² on the SubLand
+  | 'INSUFFICIENT_SLX';           // Not enough SILVEX to burn
+
+export interface BuildRejection {
+  code: BuildRejectionCode;
+  message: string;
+}
+
+export interface BuildContext {
+  subland: SubLand;
+  sublands: SubLand[];   // Every SubLand of the Duchy, with persisted state merged in
+  wallet: string;        // Builder
+  duchyOwner?: string;   // Holder of the Duchy Land NFT (parent hex owner), unset while nobody holds it
+  hasSpecialNFTs: boolean;
+}
+
+function reject(code: BuildRejectionCode, message: string): BuildRejection {
+  return { code, message };
+}
+
+/**
+ * Whether the builder holds the Duchy Land NFT
+ * Duchy Land NFTs are not tracked yet: nothing records Duchy owners, so towns cannot be founded
+ */
+function holdsDuchy(context: BuildContext): boolean {
+  return context.duchyOwner === context.wallet;
+}
+
+function hasRequiredNFT(config: BuildingConfig, context: BuildContext): boolean {
+  if (!config.requiresNFTType) return true;
+  if (config.requiresNFTType === 'duchy_land') return holdsDuchy(context);
+  return context.subland.nftType === config.requiresNFTType;
+}
+
+/**
+ * Check whether a building can be placed on a SubLand
+ * Same rules as getAvailableBuildings, plus ownership and town placement
+ * Returns null if construction is allowed, or the reason it is rejected
+ */
+export function validateBuild(buildingType: string, context: BuildContext): BuildRejection | null {
+  if (!Object.hasOwn(BUILDING_CONFIGS, buildingType)) {
+    return reject('UNKNOWN_BUILDING', `Unknown building type: ${buildingType}`);
+  }
+  const config = BUILDING_CONFIGS[buildingType as keyof typeof BUILDING_CONFIGS];
+
+  const { subland, sublands } = context;
+
+  if (isShorelineWater(subland.resourceType)) {
+    return reject('COASTAL_INLAND', 'Cannot build in coastal inland or lakeshore areas. Build on adjacent land instead.');
+  }
+
+  // Towns are founded by the Duchy owner on unclaimed central land, everything else on owned land
+  if (config.isTownCenter) {
+    if (!context.duchyOwner) {
+      return reject('NFT_TYPE_REQUIRED', 'Towns cannot be founded until Duchy Land NFTs are available.');
+    }
+    if (!holdsDuchy(context)) {
+      return reject('NFT_TYPE_REQUIRED', 'Only the Duchy Land NFT owner (hexagon owner) can build a Town!');
+    }
+  } else if (subland.owner !== context.wallet) {
+    return reject('NOT_OWNER', 'You can only build on land you own.');
+  }
+
+  if (!hasRequiredNFT(config, context)) {
+    return reject(
+      'NFT_TYPE_REQUIRED',
+      `Requires ${config.requiresNFTType === 'county_land' ? 'County Land' : 'Duchy Land'} NFT!`
+    );
+  }
+
+  if (config.requiresSpecialNFTs && !context.hasSpecialNFTs) {
+    return reject('SPECIAL_NFTS_REQUIRED', `${config.name} requires special NFTs.`);
+  }
+
+  if (config.requiresRiver === 'navigable' && (!subland.hasRiver || !subland.isNavigableRiver)) {
+    return reject('RIVER_REQUIRED', `${config.name} requires a navigable river.`);
+  }
+  if (config.requiresRiver === 'non-navigable' && (!subland.hasRiver || subland.isNavigableRiver)) {
+    return reject('RIVER_REQUIRED', `${config.name} requires a non-navigable river.`);
+  }
+
+  if (config.requiresCoastalAdjacency && !isAdjacentToCoastalInland(subland, sublands)) {
+    return reject('COASTAL_ADJACENCY_REQUIRED', `${config.name} must be built next to coastal inland or lakeshore areas.`);
+  }
+
+  // Claimed land still counts as empty as long as nothing has been built on it
+  if (config.requiresEmptyTile && (subland.buildings.length > 0 || subland.isPartOfTown)) {
+    return reject('TILE_NOT_EMPTY', `${config.name} must be built on land with no previous constructions!`);
+  }
+
+  const urbanCoreCount = countUrbanCores(sublands);
+
+  if (config.type === 'urban_core' && urbanCoreCount >= MAX_URBAN_CORES) {
+    return reject('URBAN_CORE_LIMIT', `Maximum urban cores reached (${MAX_URBAN_CORES})!`);
+  }
+
+  if (config.isTownCenter) {
+    const population = getHexagonPopulation(sublands);
+    if (config.requiresPopulation && population < config.requiresPopulation) {
+      return reject(
+        'POPULATION_REQUIRED',
+        `Need ${config.requiresPopulation.toLocaleString()} inhabitants to build a town. Current: ${population.toLocaleString()}/${config.requiresPopulation.toLocaleString()}`
+      );
+    }
+
+    if (!isCentralTile(subland.q, subland.r)) {
+      return reject('TOWN_NOT_CENTRAL', 'Town must be built on the central tiles!');
+    }
+
+    if (hasTownInHexagon(sublands)) {
+      return reject('TOWN_ALREADY_EXISTS', 'Only one town per hexagon allowed!');
+    }
+
+    const allAvailable = getTownTiles(subland.q, subland.r).every(tile => {
+      const sl = sublands.find(s => s.q === tile.q && s.r === tile.r);
+      return sl && sl.status === 'virgin' && sl.buildings.length === 0;
+    });
+    if (!allAvailable) {
+      return reject('TOWN_TILES_OCCUPIED', 'All central tiles must be empty to build a town!');
+    }
+
+    // A town takes over its whole cluster, so the per-tile area limit does not apply
+    return null;
+  }
+
+  const availableArea = subland.maxAreaM2 - subland.usedAreaM2;
+  if (config.areaM2 > availableArea) {
+    return reject(
+      'AREA_EXCEEDED',
+      `Not enough space! Available: ${formatArea(availableArea)}, Required: ${formatArea(config.areaM2)}`
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Create the building instance placed on a SubLand
+ */
+export function createBuilding(
+  config: BuildingConfig,
+  parentQ: number,
+  parentR: number,
+  subland: Pick<SubLand, 'q' | 'r'>,
+  religion: ReligionType = 'christian'
+): PlacedBuilding {
+  return {
+    id: crypto.randomUUID(),
+    type: config.type,
+    builtAt: new Date(),
+    nftId: `BLD-${parentQ}-${parentR}-${subland.q}-${subland.r}-${config.type}-${Date.now()}`,
+    position: {
+      offsetX: Math.random() * 0.7 + 0.15, // Random position within tile (15-85%)
+      offsetY: Math.random() * 0.7 + 0.15
+    },
+    // Producers run at full rate once staffed from the hexagon's labour pool
+    workers: 0,
+    productionRate: getRequiredWorkers(config.type) > 0 ? 100 : 0,
+    inventory: {},
+    religion: config.type === 'urban_core' ? religion : undefined,
+    urbanCoreData: config.type === 'urban_core' ? createVillagePopulation(religion) : undefined
+  };
+}
@@ -186,7 +186,7 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
     description: 'Trading port on navigable river. Enables river commerce and generates trade income.'
   },
   
-  // Coastal buildings (require adjacent coastal_inland hex)
+  // Coastal buildings (require adjacent coastal_inland or lakeshore hex)
   dock: {
     name: 'Dock (Muelle)',
     type: 'dock',
@@ -236,25 +236,34 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
     requiresEmptyTile: true, // Must be virgin land
     requiresNFTType: 'county_land',
     category: 'settlement',
-    description: 'Village/Aldea. Provides 300 inhabitants as workers. Includes: Market, Tavern, Barracks (30 soldiers), Religious Building, and 100 Houses. Only buildable on empty land by County Land NFT owners. Limit: 100 per hexagon.'
+    description: 'Village/Aldea. Founded by 100 settlers who grow up to 300 inhabitants when fed, and work in nearby buildings. Includes: Market, Tavern, Barracks (up to 30 soldiers), Religious Building, and 100 Houses. Only buildable on empty land by County Land NFT owners. Limit: 100 per hexagon.'
   },
   
-  // Town (Ciudad) - Duchy Land NFT required + 20 villages
+  // Town (Ciudad) - Duchy Land NFT required + 6,000 inhabitants
   town: {
     name: 'Town (Ciudad)',
     type: 'town',
     slxCost: 2000,
     areaM2: 4000000, // 4 km² (occupies central hexagon and immediate neighbors)
     requiresNFTType: 'duchy_land',
-    requiresVillages: 20,
+    requiresPopulation: 6000, // 20 full villages
     isTownCenter: true,
     category: 'settlement',
-    description: 'City/Town. Requires 20+ villages in hexagon. Built at center hex (0,0). Only 1 town per hexagon. Only buildable by Duchy Land NFT owner (hexagon owner).'
+    description: 'City/Town. Requires 6,000+ inhabitants in hexagon. Built at center hex (0,0). Only 1 town per hexagon. Only buildable by Duchy Land NFT owner (hexagon owner), once Duchy Land NFTs are available.'
   }
 };
 
+/**
+ * Check if a SubLand is shoreline water: coastal_inland by the sea, lakeshore by a lake
+ * Nothing is claimed or built on it; coastal buildings go on the land next to it
+ */
+export function isShorelineWater(resourceType: string): boolean {
+  return resourceType === 'coastal_inland' || resourceType === 'lakeshore';
+}
+
 /**
  * Get available buildings for a SubLand based on its properties
+ * @param isAdjacentToCoastalInland - Next to shoreline water, by the sea or a lake (see isAdjacentToCoastalInland)
  */
 export function getAvailableBuildings(
   hasRiver: boolean,
@@ -287,8 +296,8 @@ export function getAvailableBuildings(
       continue;
     }
     
-    // Cannot build in coastal_inland areas
-    if (subland.resourceType === 'coastal_inland') {
+    // Cannot build in coastal_inland or lakeshore areas
+    if (isShorelineWater(subland.resourceType)) {
       continue;
     }
     
@@ -307,9 +316,9 @@ export function getAvailableBuildings(
       continue;
     }
     
-    // Check village requirements for town
-    if (config.requiresVillages && hexagonData) {
-      if (hexagonData.urbanCoreCount < config.requiresVillages) {
+    // Check population requirements for town
+    if (config.requiresPopulation && hexagonData) {
+      if (hexagonData.totalPopulation < config.requiresPopulation) {
         continue;
       }
       // Only one town per hexagon
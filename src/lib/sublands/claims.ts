@@ -0,0 +1,162 @@
+import type { SubLand } from './types';
+import { isShorelineWater } from './building-config';
+
+/**
+ * Claims last 6 months of real time before they must be renewed
+ */
+export const CLAIM_DURATION_MONTHS = 6;
+
+/**
+ * Owners may renew during the last 30 days of a claim
+ */
+export const RENEWAL_WINDOW_DAYS = 30;
+
+/**
+ * Expired claims are kept for 14 more days before the land reverts to virgin
+ */
+export const CLAIM_GRACE_PERIOD_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ClaimRejectionCode =
+  | 'COASTAL_INLAND'   // Water-adjacent zone, cannot be owned
+  | 'ALREADY_CLAIMED'  // Someone owns it already
+  | 'OUT_OF_BOUNDS'    // Not a SubLand of this Duchy
+  | 'NOT_OWNER'        // Renewal by someone other than the owner
+  | 'NOT_RENEWABLE';   // Developed land, or renewal window not open yet
+
+export interface ClaimRejection {
+  code: ClaimRejectionCode;
+  message: string;
+}
+
+/**
+ * Where a SubLand is in the claim lifecycle
+ * - unclaimed: virgin land
+ * - active: claimed, renewal window not open yet
+ * - renewable: claimed, inside the renewal window
+ * - grace: claim expired, owner can still renew before it lapses
+ * - lapsed: grace period over, land reverts to virgin on the next expiry run
+ * - permanent: developed land is held for as long as it has buildings
+ */
+export type ClaimStage = 'unclaimed' | 'active' | 'renewable' | 'grace' | 'lapsed' | 'permanent';
+
+export interface ClaimLifecycle {
+  stage: ClaimStage;
+  expiresAt?: Date;
+  renewableFrom?: Date;
+  graceEndsAt?: Date;
+}
+
+type LifecycleSubLand = Pick<SubLand, 'status' | 'claimExpiresAt' | 'buildings'>;
+
+/**
+ * Expiry date of a claim made at `claimedAt`
+ */
+export function getClaimExpiry(claimedAt: Date): Date {
+  const expiresAt = new Date(claimedAt);
+  expiresAt.setMonth(expiresAt.getMonth() + CLAIM_DURATION_MONTHS);
+  return expiresAt;
+}
+
+/**
+ * End of the grace period of a claim expiring at `expiresAt`
+ */
+export function getGraceEnd(expiresAt: Date): Date {
+  return new Date(expiresAt.getTime() + CLAIM_GRACE_PERIOD_DAYS * DAY_MS);
+}
+
+/**
+ * Compute the lifecycle stage of a SubLand claim at `now`
+ */
+export function getClaimLifecycle(subland: LifecycleSubLand, now: Date = new Date()): ClaimLifecycle {
+  if (subland.status === 'virgin') {
+    return { stage: 'unclaimed' };
+  }
+
+  // Developed land auto-renews: building clears the expiry date
+  if (subland.status === 'developed' || subland.buildings.length > 0 || !subland.claimExpiresAt) {
+    return { stage: 'permanent' };
+  }
+
+  const expiresAt = subland.claimExpiresAt;
+  const renewableFrom = new Date(expiresAt.getTime() - RENEWAL_WINDOW_DAYS * DAY_MS);
+  const graceEndsAt = getGraceEnd(expiresAt);
+  const time = now.getTime();
+
+  let stage: ClaimStage;
+  if (time >= graceEndsAt.getTime()) stage = 'lapsed';
+  else if (time >= expiresAt.getTime()) stage = 'grace';
+  else if (time >= renewableFrom.getTime()) stage = 'renewable';
+  else stage = 'active';
+
+  return { stage, expiresAt, renewableFrom, graceEndsAt };
+}
+
+/**
+ * Check whether a SubLand can be claimed
+ * Lapsed claims count as free land even before the expiry job has reverted them
+ * Returns null if the claim is allowed, or the reason it is rejected
+ */
+export function validateClaim(
+  subland: Pick<SubLand, 'status' | 'resourceType'> & Partial<LifecycleSubLand>,
+  now: Date = new Date()
+): ClaimRejection | null {
+  if (isShorelineWater(subland.resourceType)) {
+    return {
+      code: 'COASTAL_INLAND',
+      message: 'Cannot claim coastal inland or lakeshore areas. These are water-adjacent zones.'
+    };
+  }
+
+  const lifecycle = getClaimLifecycle(
+    { status: subland.status, claimExpiresAt: subland.claimExpiresAt, buildings: subland.buildings ?? [] },
+    now
+  );
+  if (lifecycle.stage !== 'unclaimed' && lifecycle.stage !== 'lapsed') {
+    return {
+      code: 'ALREADY_CLAIMED',
+      message: 'This land has already been claimed.'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check whether `wallet` can renew its claim on a SubLand
+ * Returns null if renewal is allowed, or the reason it is rejected
+ */
+export function validateRenewal(
+  subland: Pick<SubLand, 'owner'> & LifecycleSubLand,
+  wallet: string,
+  now: Date = new Date()
+): ClaimRejection | null {
+  if (subland.owner !== wallet) {
+    return { code: 'NOT_OWNER', message: 'Only the owner can renew this claim.' };
+  }
+
+  const lifecycle = getClaimLifecycle(subland, now);
+  switch (lifecycle.stage) {
+    case 'renewable':
+    case 'grace':
+      return null;
+    case 'active':
+      return {
+        code: 'NOT_RENEWABLE',
+        message: `Renewal opens ${RENEWAL_WINDOW_DAYS} days before the claim expires.`
+      };
+    case 'permanent':
+      return { code: 'NOT_RENEWABLE', message: 'Developed land renews automatically.' };
+    default:
+      return { code: 'NOT_RENEWABLE', message: 'This claim has lapsed and can no longer be renewed.' };
+  }
+}
+
+/**
+ * New expiry date after renewing a claim
+ * Renewing early keeps the remaining time; renewing during grace starts from now
+ */
+export function getRenewedExpiry(currentExpiry: Date, now: Date = new Date()): Date {
+  return getClaimExpiry(currentExpiry.getTime() > now.getTime() ? currentExpiry : now);
+}
@@ -0,0 +1,103 @@
+import type { HexCoordinates } from '../hexmap/types';
+import { createHexCoordinates, unwrapPath, wrapHex } from '../hexmap/hex-utils';
+
+/**
+ * Global SubLand coordinates
+ * The SubLands of a Duchy form a hexagon of radius 58 around its own (0, 0), and side i of that
+ * hexagon touches the neighboring Duchy in world direction i (see determineSublandSide).
+ * These hexagons tile the plane, so every SubLand of the world has one global axial coordinate:
+ * the Duchy one step east has its (0, 0) at (2R+1, -R), the one step southeast at (R, R+1).
+ */
+
+// Radius of the SubLand hexagon of a Duchy (3R² + 3R + 1 = 10,267 SubLands)
+export const SUBLAND_RADIUS = 58;
+
+// Number of SubLands in a Duchy, also the determinant of the Duchy lattice
+const SUBLANDS_PER_DUCHY = 3 * SUBLAND_RADIUS * SUBLAND_RADIUS + 3 * SUBLAND_RADIUS + 1;
+
+/**
+ * A SubLand anywhere in the world: its Duchy and its local coordinates there
+ */
+export interface SubLandPosition {
+  parentQ: number;
+  parentR: number;
+  q: number;
+  r: number;
+}
+
+/**
+ * SubLand id (`{parentQ}:{parentR}:{q}:{r}`, as in generateSubLandsForHex)
+ */
+export function getSubLandId(position: SubLandPosition): string {
+  return `${position.parentQ}:${position.parentR}:${position.q}:${position.r}`;
+}
+
+/**
+ * Parse a SubLand id, null if it is not one
+ */
+export function parseSubLandId(id: string): SubLandPosition | null {
+  const parts = id.split(':').map(Number);
+  if (parts.length !== 4 || !parts.every(Number.isInteger)) return null;
+
+  const [parentQ, parentR, q, r] = parts;
+  return { parentQ, parentR, q, r };
+}
+
+/**
+ * Check if local coordinates belong to the SubLand hexagon of a Duchy
+ */
+export function isInDuchy(q: number, r: number): boolean {
+  return Math.max(Math.abs(q), Math.abs(r), Math.abs(q + r)) <= SUBLAND_RADIUS;
+}
+
+/**
+ * Global axial coordinates of a SubLand (Duchies are not wrapped: pass unwrapped parents to
+ * keep a route across the east-west seam continuous)
+ */
+export function toGlobalSubLand(position: SubLandPosition): { q: number; r: number } {
+  const R = SUBLAND_RADIUS;
+  return {
+    q: position.q + position.parentQ * (2 * R + 1) + position.parentR * R,
+    r: position.r - position.parentQ * R + position.parentR * (R + 1)
+  };
+}
+
+/**
+ * SubLand at global axial coordinates
+ * With a map width, the Duchy is wrapped onto the map
+ */
+export function fromGlobalSubLand(global: { q: number; r: number }, mapWidth?: number): SubLandPosition {
+  const R = SUBLAND_RADIUS;
+
+  // Invert the lattice, then pick the Duchy around the rounded guess that holds the SubLand
+  const guessQ = Math.round(((R + 1) * global.q - R * global.r) / SUBLANDS_PER_DUCHY);
+  const guessR = Math.round((R * global.q + (2 * R + 1) * global.r) / SUBLANDS_PER_DUCHY);
+
+  for (const [dq, dr] of [[0, 0], [1, 0], [1, -1], [0, -1], [-1, 0], [-1, 1], [0, 1]]) {
+    const parentQ = guessQ + dq;
+    const parentR = guessR + dr;
+    const center = toGlobalSubLand({ parentQ, parentR, q: 0, r: 0 });
+    const q = global.q - center.q;
+    const r = global.r - center.r;
+
+    if (isInDuchy(q, r)) {
+      const parent = mapWidth ? wrapHex(parentQ, parentR, mapWidth) : { q: parentQ, r: parentR };
+      return { parentQ: parent.q, parentR: parent.r, q, r };
+    }
+  }
+
+  // Unreachable: the Duchy hexagons tile the plane
+  throw new Error(`No Duchy holds SubLand (${global.q}, ${global.r})`);
+}
+
+/**
+ * Copy of a Duchy nearest to another one across the east-west seam, for global coordinates
+ * of two SubLands that are close on the wrapped map
+ */
+export function unwrapDuchy(
+  parent: { q: number; r: number },
+  reference: { q: number; r: number },
+  mapWidth: number
+): HexCoordinates {
+  return unwrapPath([createHexCoordinates(reference.q, reference.r), createHexCoordinates(parent.q, parent.r)], mapWidth)[1];
+}
@@ -1,8 +1,12 @@
 import type { SubLand, SubLandResourceType } from './types';
 import type { HexTile, MineralType, NaturalResourceType } from '../hexmap/types';
+import { getCoastalLandSides, getLakeNeighborSides, getOceanNeighborSides } from '../hexmap/generator';
+import { WORLD_SEED } from '../hexmap/map-presets';
+import { createRandomStream, type SeededRandom } from '../random';
+import { isShorelineWater } from './building-config';
 
 /**
- * Check if a subland is adjacent to any coastal_inland hexagons
+ * Check if a subland is adjacent to any shoreline water hexagons (coastal_inland or lakeshore)
  */
 export function isAdjacentToCoastalInland(
   subland: SubLand,
@@ -19,7 +23,7 @@ export function isAdjacentToCoastalInland(
   
   for (const neighbor of neighbors) {
     const adjacentHex = allSublands.find(sl => sl.q === neighbor.q && sl.r === neighbor.r);
-    if (adjacentHex && adjacentHex.resourceType === 'coastal_inland') {
+    if (adjacentHex && isShorelineWater(adjacentHex.resourceType)) {
       return true;
     }
   }
@@ -31,15 +35,19 @@ export function isAdjacentToCoastalInland(
  * Generate ~10,000 SubLands in HEXAGONAL layout for a parent hex tile
  * Each SubLand is a small hexagon within the parent hex
  * Uses axial coordinates (q, r) to fill a hexagonal shape
- * @param coastalLandSides - Array of sides (0-5) that touch land (for coastal tiles)
+ * @param coastalLandSides - Array of sides (0-5) that touch land (for coastal and lake tiles)
  * @param oceanNeighborSides - Array of sides (0-5) that touch ocean (for any land tile)
+ * @param lakeNeighborSides - Array of sides (0-5) that touch a lake (for any land tile)
+ * @param seed - World seed; mines, farmland and rivers are drawn from its streams for this parent hex
  */
 export function generateSubLandsForHex(
   parentTile: HexTile,
   parentQ: number,
   parentR: number,
   coastalLandSides?: number[],
-  oceanNeighborSides?: number[]
+  oceanNeighborSides?: number[],
+  lakeNeighborSides?: number[],
+  seed: number = WORLD_SEED
 ): SubLand[] {
   const sublands: SubLand[] = [];
   
@@ -51,9 +59,9 @@ export function generateSubLandsForHex(
   const biomeType = getBiomeType(parentTile);
   
   // Determine resource distribution based on parent hex
-  const mineLocations = generateMineLocations(parentTile, radius);
-  const farmlandLocations = generateFarmlandLocations(parentTile, radius);
-  const riverLocations = generateRiverLocations(parentTile, radius);
+  const mineLocations = generateMineLocations(parentTile, radius, createRandomStream(seed, 'minerals', parentQ, parentR));
+  const farmlandLocations = generateFarmlandLocations(parentTile, radius, createRandomStream(seed, 'terrain', parentQ, parentR));
+  const riverLocations = generateRiverLocations(parentTile, radius, createRandomStream(seed, 'rivers', parentQ, parentR));
   
   // Generate hexagonal grid using axial coordinates
   for (let q = -radius; q <= radius; q++) {
@@ -66,8 +74,8 @@ export function generateSubLandsForHex(
       // Determine resource type
       let resourceType: SubLandResourceType = 'standard';
       
-      // For coastal tiles, check if this subland should be coastal land
-      if (parentTile.terrain === 'coast' && coastalLandSides && coastalLandSides.length > 0) {
+      // For coastal and lake tiles, check if this subland should be coastal land
+      if ((parentTile.terrain === 'coast' || parentTile.terrain === 'lake') && coastalLandSides && coastalLandSides.length > 0) {
         const sublandSide = determineSublandSide(q, r, radius);
         
         if (sublandSide !== null && coastalLandSides.includes(sublandSide)) {
@@ -93,6 +101,18 @@ export function generateSubLandsForHex(
         }
       }
       
+      // Same along the sides that touch a lake, as lakeshore
+      if (lakeNeighborSides && lakeNeighborSides.length > 0) {
+        const sublandSide = determineSublandSide(q, r, radius);
+        
+        if (sublandSide !== null && lakeNeighborSides.includes(sublandSide)) {
+          const distanceFromEdge = getDistanceFromEdge(q, r, sublandSide, radius);
+          if (distanceFromEdge <= 5) {
+            resourceType = 'lakeshore';
+          }
+        }
+      }
+      
       if (mineLocations.has(posKey)) {
         resourceType = mineLocations.get(posKey)!;
       } else if (farmlandLocations.has(posKey)) {
@@ -127,6 +147,40 @@ export function generateSubLandsForHex(
   return sublands;
 }
 
+/**
+ * Generate the SubLands of a parent hex, deriving coastal sides from its neighbors on the world map
+ */
+export function generateSubLandsForTile(
+  parentTile: HexTile,
+  tiles: Map<string, HexTile>
+): SubLand[] {
+  const { q: parentQ, r: parentR } = parentTile.coordinates;
+  
+  // Coastal and lake tiles: sides that touch land
+  const coastalLandSides = parentTile.terrain === 'coast' || parentTile.terrain === 'lake'
+    ? getCoastalLandSides(parentTile, tiles)
+    : undefined;
+  
+  // Land tiles: sides that touch ocean (for coastal inland areas)
+  const oceanNeighborSides = parentTile.terrain !== 'ocean' && parentTile.terrain !== 'ice'
+    ? getOceanNeighborSides(parentTile, tiles)
+    : undefined;
+  
+  // Land tiles: sides that touch a lake (for lakeshore areas)
+  const lakeNeighborSides = parentTile.terrain !== 'ocean' && parentTile.terrain !== 'ice' && parentTile.terrain !== 'lake'
+    ? getLakeNeighborSides(parentTile, tiles)
+    : undefined;
+  
+  return generateSubLandsForHex(parentTile, parentQ, parentR, coastalLandSides, oceanNeighborSides, lakeNeighborSides);
+}
+
+/**
+ * Check if axial coordinates lie inside the SubLand grid of a parent hex
+ */
+export function isSubLandInGrid(q: number, r: number, radius: number = 58): boolean {
+  return Math.abs(q) <= radius && Math.abs(r) <= radius && Math.abs(-q - r) <= radius;
+}
+
 /**
  * Determine biome type based on parent hex terrain AND features
  * NEW: Features (forest/jungle/boreal_forest) determine visual biome, not terrain type
@@ -156,6 +210,7 @@ function getBiomeType(parentTile: HexTile): 'mountain' | 'plains' | 'forest' | '
     case 'desert':
       return 'desert';
     case 'coast':
+    case 'lake':
       return 'coast';
     case 'tundra':
       return 'tundra';
@@ -170,7 +225,8 @@ function getBiomeType(parentTile: HexTile): 'mountain' | 'plains' | 'forest' | '
  */
 function generateMineLocations(
   parentTile: HexTile,
-  radius: number
+  radius: number,
+  random: SeededRandom
 ): Map<string, SubLandResourceType> {
   const mines = new Map<string, SubLandResourceType>();
   
@@ -181,14 +237,14 @@ function generateMineLocations(
   
   for (let i = 0; i < mineCount; i++) {
     // Generate random hexagonal coordinates within the radius
-    const q = Math.floor(Math.random() * (2 * radius + 1)) - radius;
+    const q = Math.floor(random.next() * (2 * radius + 1)) - radius;
     const r1 = Math.max(-radius, -q - radius);
     const r2 = Math.min(radius, -q + radius);
-    const r = Math.floor(Math.random() * (r2 - r1 + 1)) + r1;
+    const r = Math.floor(random.next() * (r2 - r1 + 1)) + r1;
     const posKey = `${q},${r}`;
     
     if (!mines.has(posKey)) {
-      const mineral = parentTile.minerals[Math.floor(Math.random() * parentTile.minerals.length)];
+      const mineral = random.pick(parentTile.minerals);
       const mineType = `mine_${mineral}` as SubLandResourceType;
       mines.set(posKey, mineType);
     }
@@ -202,7 +258,8 @@ function generateMineLocations(
  */
 function generateFarmlandLocations(
   parentTile: HexTile,
-  radius: number
+  radius: number,
+  random: SeededRandom
 ): Map<string, SubLandResourceType> {
   const farmlands = new Map<string, SubLandResourceType>();
   
@@ -217,18 +274,18 @@ function generateFarmlandLocations(
   
   for (let i = 0; i < farmlandCount; i++) {
     // Generate random hexagonal coordinates within the radius
-    const q = Math.floor(Math.random() * (2 * radius + 1)) - radius;
+    const q = Math.floor(random.next() * (2 * radius + 1)) - radius;
     const r1 = Math.max(-radius, -q - radius);
     const r2 = Math.min(radius, -q + radius);
-    const r = Math.floor(Math.random() * (r2 - r1 + 1)) + r1;
+    const r = Math.floor(random.next() * (r2 - r1 + 1)) + r1;
     const posKey = `${q},${r}`;
     
     if (!farmlands.has(posKey)) {
       let farmType: SubLandResourceType = 'farmland_wheat';
       
-      if (hasWheat && Math.random() > 0.5) {
+      if (hasWheat && random.next() > 0.5) {
         farmType = 'farmland_wheat';
-      } else if (hasCotton && Math.random() > 0.5) {
+      } else if (hasCotton && random.next() > 0.5) {
         farmType = 'farmland_cotton';
       } else if (hasSpices) {
         farmType = 'farmland_spices';
@@ -248,7 +305,8 @@ function generateFarmlandLocations(
  */
 function generateRiverLocations(
   parentTile: HexTile,
-  radius: number
+  radius: number,
+  random: SeededRandom
 ): Map<string, { navigable: boolean }> {
   const rivers = new Map<string, { navigable: boolean }>();
   
@@ -257,13 +315,13 @@ function generateRiverLocations(
   // Determine if this is a navigable river (20% chance if near coast/ocean)
   const isNearWater = parentTile.terrain === 'coast' || 
                       parentTile.elevation < 2;
-  const hasNavigableRiver = isNearWater && Math.random() < 0.2;
+  const hasNavigableRiver = isNearWater && random.next() < 0.2;
   
   if (hasNavigableRiver) {
     // FEW large navigable rivers flowing through the hex
     // Create a path from one edge to another
-    const direction = Math.floor(Math.random() * 6); // 6 possible directions
-    const riverWidth = Math.floor(Math.random() * 4) + 5; // 5-8 hexagons wide
+    const direction = Math.floor(random.next() * 6); // 6 possible directions
+    const riverWidth = Math.floor(random.next() * 4) + 5; // 5-8 hexagons wide
     
     // Generate river path through the hex
     for (let q = -radius; q <= radius; q++) {
@@ -277,13 +335,13 @@ function generateRiverLocations(
     }
   } else {
     // MORE ABUNDANT non-navigable rivers (15-25 scattered hexagons)
-    const riverCount = Math.floor(Math.random() * 11) + 15; // 15-25
+    const riverCount = Math.floor(random.next() * 11) + 15; // 15-25
     
     for (let i = 0; i < riverCount; i++) {
-      const q = Math.floor(Math.random() * (2 * radius + 1)) - radius;
+      const q = Math.floor(random.next() * (2 * radius + 1)) - radius;
       const r1 = Math.max(-radius, -q - radius);
       const r2 = Math.min(radius, -q + radius);
-      const r = Math.floor(Math.random() * (r2 - r1 + 1)) + r1;
+      const r = Math.floor(random.next() * (r2 - r1 + 1)) + r1;
       const posKey = `${q},${r}`;
       
       if (!rivers.has(posKey)) {
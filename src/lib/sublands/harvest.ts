@@ -0,0 +1,194 @@
+import type { HexTile } from '../hexmap/types';
+import type { GameDate, Hemisphere } from '../calendar/types';
+import { MONTHS_PER_YEAR } from '../calendar/constants';
+import { compareGameDates, realTimeToGameDate } from '../calendar/calendar';
+import { getSeasonForMonth } from '../calendar/seasons';
+import type { PlacedBuilding, SubLand, SubLandResourceType } from './types';
+
+/**
+ * Harvest simulation for farms
+ * Crops are planted when spring starts and harvested when autumn starts in each hemisphere.
+ * The equatorial zone has no spring/autumn: each of its two seasons is a growing season,
+ * harvested when the next one begins (two harvests a year).
+ * Yields scale with the rainfall and temperature of the parent Duchy.
+ */
+
+export type CropType = 'wheat' | 'cotton' | 'spices';
+
+export interface CropProfile {
+  name: string;
+  baseYield: number;                 // Units per harvest for a farm in ideal conditions
+  temperature: [number, number];     // Ideal range, celsius
+  rainfall: [number, number];        // Ideal range, percentage
+}
+
+export const CROPS: Record<CropType, CropProfile> = {
+  wheat: { name: 'Wheat', baseYield: 500, temperature: [0, 20], rainfall: [30, 75] },
+  cotton: { name: 'Cotton', baseYield: 200, temperature: [10, 28], rainfall: [40, 90] },
+  spices: { name: 'Spices', baseYield: 60, temperature: [15, 35], rainfall: [60, 120] }
+};
+
+// Crop of each farmland resource
+const FARMLAND_CROPS: Partial<Record<SubLandResourceType, CropType>> = {
+  farmland_wheat: 'wheat',
+  farmland_cotton: 'cotton',
+  farmland_spices: 'spices'
+};
+
+// Yield multiplier of dedicated farmland vs. any other land ('standard' = moderate performance)
+export const FARMLAND_FERTILITY = 1.0;
+export const STANDARD_FERTILITY = 0.6;
+
+// Distance outside the ideal range at which a crop fails completely
+const TEMPERATURE_TOLERANCE = 12;
+const RAINFALL_TOLERANCE = 35;
+
+export interface CropCycle {
+  plantMonth: number;   // Crops are sown on day 1 of this month
+  harvestMonth: number; // and harvested on day 1 of this month
+}
+
+export interface FarmCrop {
+  crop: CropType;
+  fertility: number;
+}
+
+export interface Harvest {
+  crop: CropType;
+  amount: number;
+  plantedOn: GameDate;
+  harvestedOn: GameDate;
+}
+
+/**
+ * First month of each season in a hemisphere, in calendar order
+ */
+function getSeasonStarts(hemisphere: Hemisphere): Array<{ month: number; season: string }> {
+  const starts: Array<{ month: number; season: string }> = [];
+  for (let month = 1; month <= MONTHS_PER_YEAR; month++) {
+    const season = getSeasonForMonth(month, hemisphere);
+    const previous = getSeasonForMonth(month === 1 ? MONTHS_PER_YEAR : month - 1, hemisphere);
+    if (season !== previous) starts.push({ month, season });
+  }
+  return starts;
+}
+
+/**
+ * Growing seasons of a hemisphere
+ * - Northern/southern: one crop, sown in spring and harvested in autumn
+ * - Equatorial: two crops, each season is harvested when the next one starts
+ */
+export function getCropCycles(hemisphere: Hemisphere): CropCycle[] {
+  const starts = getSeasonStarts(hemisphere);
+
+  if (hemisphere === 'equatorial') {
+    return starts.map((start, index) => ({
+      plantMonth: start.month,
+      harvestMonth: starts[(index + 1) % starts.length].month
+    }));
+  }
+
+  const spring = starts.find(start => start.season === 'spring');
+  const autumn = starts.find(start => start.season === 'autumn');
+  if (!spring || !autumn) return [];
+  return [{ plantMonth: spring.month, harvestMonth: autumn.month }];
+}
+
+/**
+ * How well a value fits an ideal range: 1 inside, falling linearly to 0 at `tolerance` outside
+ */
+function getRangeFactor(value: number, [min, max]: [number, number], tolerance: number): number {
+  if (value < min) return Math.max(0, 1 - (min - value) / tolerance);
+  if (value > max) return Math.max(0, 1 - (value - max) / tolerance);
+  return 1;
+}
+
+/**
+ * Climate multiplier (0-1) of a crop in a Duchy, from its rainfall and temperature
+ */
+export function getClimateYieldFactor(crop: CropType, parentTile: HexTile): number {
+  const profile = CROPS[crop];
+  return getRangeFactor(parentTile.temperature, profile.temperature, TEMPERATURE_TOLERANCE) *
+    getRangeFactor(parentTile.rainfall, profile.rainfall, RAINFALL_TOLERANCE);
+}
+
+/**
+ * Crop grown by a farm on a SubLand
+ * Farmland grows its own crop; elsewhere the farm grows a crop of the Duchy's resources,
+ * or the one best suited to its climate, at standard fertility
+ */
+export function getFarmCrop(subland: Pick<SubLand, 'resourceType'>, parentTile: HexTile): FarmCrop {
+  const farmlandCrop = FARMLAND_CROPS[subland.resourceType];
+  if (farmlandCrop) return { crop: farmlandCrop, fertility: FARMLAND_FERTILITY };
+
+  const crops = Object.keys(CROPS) as CropType[];
+  const duchyCrop = crops.find(crop => parentTile.resources.includes(crop));
+  if (duchyCrop) return { crop: duchyCrop, fertility: STANDARD_FERTILITY };
+
+  const bestCrop = crops.reduce((best, crop) =>
+    getClimateYieldFactor(crop, parentTile) > getClimateYieldFactor(best, parentTile) ? crop : best
+  );
+  return { crop: bestCrop, fertility: STANDARD_FERTILITY };
+}
+
+/**
+ * Units produced by one harvest
+ */
+export function getHarvestYield(farmCrop: FarmCrop, parentTile: HexTile): number {
+  const { baseYield } = CROPS[farmCrop.crop];
+  return Math.round(baseYield * farmCrop.fertility * getClimateYieldFactor(farmCrop.crop, parentTile));
+}
+
+/**
+ * Harvests of a farm between two real moments (`from` excluded, `to` included)
+ * A crop is only harvested if the farm already existed when it was sown
+ */
+export function simulateHarvests(
+  building: Pick<PlacedBuilding, 'type' | 'builtAt'>,
+  subland: Pick<SubLand, 'resourceType'>,
+  parentTile: HexTile,
+  from: Date,
+  to: Date
+): Harvest[] {
+  if (building.type !== 'farm' || to <= from) return [];
+
+  const builtOn = realTimeToGameDate(building.builtAt);
+  const fromDate = realTimeToGameDate(from);
+  const toDate = realTimeToGameDate(to);
+  const farmCrop = getFarmCrop(subland, parentTile);
+  const amount = getHarvestYield(farmCrop, parentTile);
+
+  const harvests: Harvest[] = [];
+  for (let year = fromDate.year; year <= toDate.year; year++) {
+    for (const cycle of getCropCycles(parentTile.hemisphere)) {
+      const harvestedOn: GameDate = { year, month: cycle.harvestMonth, day: 1 };
+      // Crops sown late in the year are harvested the next year
+      const plantedOn: GameDate = {
+        year: cycle.plantMonth < cycle.harvestMonth ? year : year - 1,
+        month: cycle.plantMonth,
+        day: 1
+      };
+
+      if (compareGameDates(harvestedOn, fromDate) <= 0 || compareGameDates(harvestedOn, toDate) > 0) continue;
+      if (compareGameDates(plantedOn, builtOn) < 0) continue;
+
+      harvests.push({ crop: farmCrop.crop, amount, plantedOn, harvestedOn });
+    }
+  }
+
+  return harvests.sort((a, b) => compareGameDates(a.harvestedOn, b.harvestedOn));
+}
+
+/**
+ * Add harvested crops to a building inventory (returns a new inventory)
+ */
+export function addHarvestsToInventory(
+  inventory: Record<string, number>,
+  harvests: Harvest[]
+): Record<string, number> {
+  const updated = { ...inventory };
+  for (const harvest of harvests) {
+    updated[harvest.crop] = (updated[harvest.crop] ?? 0) + harvest.amount;
+  }
+  return updated;
+}
@@ -0,0 +1,260 @@
+import type { PlacedBuilding, UrbanCoreBuildings } from './types';
+import {
+  getRequiredWorkers,
+  getSubLandDistance,
+  getWarehousesInRange,
+  roundAmount,
+  simulateProductionTick,
+  type ProductionEvent,
+  type ProductionSite
+} from './production';
+
+/**
+ * Population model for villages (urban cores)
+ * One tick = one game day, pure and deterministic like the production engine.
+ * - Villages eat food from their own inventory, then from warehouses in range
+ * - Fed villages grow up to their housing (village houses + standalone houses nearby)
+ * - Hungry or overcrowded villages lose people, who migrate to fed villages with room
+ *   in the same Duchy or leave it
+ * - Working-age villagers form the Duchy's labour pool, producers draw workers from it
+ */
+
+export const PEOPLE_PER_HOUSE = 3;
+export const VILLAGE_HOUSES = 100;
+export const STARTING_VILLAGE_POPULATION = 100; // Settlers arriving with a new village
+export const VILLAGE_GARRISON = 30;             // Soldiers of a full village
+export const WORKFORCE_SHARE = 0.6;             // Working-age share of the population
+export const FOOD_PER_PERSON_PER_DAY = 0.02;
+
+// Standalone houses shelter people of the nearest village within this many SubLand hexes
+export const HOUSE_VILLAGE_RANGE = 5;
+
+// Food eaten by villagers, in order of preference
+export const FOOD_ITEMS = ['flour', 'wheat', 'corn', 'legumes', 'dates', 'fish'];
+
+const GROWTH_RATE_PER_DAY = 0.002;   // ~5% per game month when fed and housed
+const HUNGER_EXODUS_RATE = 0.05;     // Share of the unfed who leave each day
+
+export interface PopulationEvent {
+  buildingId: string;
+  population: number;  // After the tick
+  change: number;
+  fed: number;         // Share of food needs met (0-1)
+}
+
+export interface PopulationResult {
+  sites: ProductionSite[];
+  events: PopulationEvent[];
+}
+
+export interface SettlementResult extends PopulationResult {
+  production: ProductionEvent[];
+}
+
+/**
+ * Soldiers a village garrisons for its population
+ */
+export function getGarrison(population: number): number {
+  return Math.min(VILLAGE_GARRISON, Math.floor(population * 0.1));
+}
+
+/**
+ * Urban core data of a newly founded village
+ */
+export function createVillagePopulation(religion: UrbanCoreBuildings['religiousBuilding']): UrbanCoreBuildings {
+  return {
+    market: true,
+    tavern: true,
+    barracks: true,
+    religiousBuilding: religion,
+    houses: VILLAGE_HOUSES,
+    soldiers: getGarrison(STARTING_VILLAGE_POPULATION),
+    population: STARTING_VILLAGE_POPULATION
+  };
+}
+
+function isVillage(building: PlacedBuilding): building is PlacedBuilding & { urbanCoreData: UrbanCoreBuildings } {
+  return building.type === 'urban_core' && !!building.urbanCoreData;
+}
+
+/**
+ * Total inhabitants of the villages in a set of SubLands
+ */
+export function getHexagonPopulation(sublands: Array<{ buildings: PlacedBuilding[] }>): number {
+  return sublands.reduce((sum, subland) =>
+    sum + subland.buildings.reduce((total, building) =>
+      total + (isVillage(building) ? building.urbanCoreData.population : 0), 0), 0);
+}
+
+/**
+ * Workers available to producers: working-age villagers not serving in the garrison
+ */
+export function getLabourPool(buildings: PlacedBuilding[]): number {
+  return buildings.reduce((sum, building) => {
+    if (!isVillage(building)) return sum;
+    const { population, soldiers } = building.urbanCoreData;
+    return sum + Math.max(0, Math.floor(population * WORKFORCE_SHARE) - soldiers);
+  }, 0);
+}
+
+/**
+ * Housing capacity of each village (by building id)
+ */
+export function getVillageHousing(sites: ProductionSite[]): Map<string, number> {
+  const villages = sites.filter(site => isVillage(site.building));
+  const housing = new Map<string, number>(
+    villages.map(site => [site.building.id, (site.building.urbanCoreData?.houses ?? 0) * PEOPLE_PER_HOUSE])
+  );
+
+  for (const house of sites.filter(site => site.building.type === 'house')) {
+    const nearest = villages
+      .filter(village => getSubLandDistance(house, village) <= HOUSE_VILLAGE_RANGE)
+      .sort((a, b) =>
+        getSubLandDistance(house, a) - getSubLandDistance(house, b) || a.building.id.localeCompare(b.building.id)
+      )[0];
+    if (nearest) {
+      housing.set(nearest.building.id, (housing.get(nearest.building.id) ?? 0) + PEOPLE_PER_HOUSE);
+    }
+  }
+
+  return housing;
+}
+
+/**
+ * Staff producers from the labour pool, oldest buildings first
+ * A Duchy without villages has no labour pool: its producers keep the crews they were built with
+ * before the pool existed (new ones are built without any)
+ */
+export function assignWorkers(sites: ProductionSite[]): ProductionSite[] {
+  if (!sites.some(site => isVillage(site.building))) return sites;
+
+  let available = getLabourPool(sites.map(site => site.building));
+  const assigned = new Map<string, number>();
+
+  const producers = sites
+    .filter(site => getRequiredWorkers(site.building.type) > 0)
+    .sort((a, b) =>
+      new Date(a.building.builtAt).getTime() - new Date(b.building.builtAt).getTime() ||
+      a.building.id.localeCompare(b.building.id)
+    );
+  for (const producer of producers) {
+    const workers = Math.min(getRequiredWorkers(producer.building.type), available);
+    assigned.set(producer.building.id, workers);
+    available -= workers;
+  }
+
+  return sites.map(site => assigned.has(site.building.id)
+    ? { ...site, building: { ...site.building, workers: assigned.get(site.building.id) } }
+    : site
+  );
+}
+
+/**
+ * Run one population tick over all sites of a Duchy: feeding, growth, migration and staffing
+ */
+export function simulatePopulationTick(sites: ProductionSite[]): PopulationResult {
+  const ordered = [...sites].sort((a, b) => a.building.id.localeCompare(b.building.id));
+  const inventories = new Map<string, Record<string, number>>(
+    ordered.map(site => [site.building.id, { ...(site.building.inventory ?? {}) }])
+  );
+  const housing = getVillageHousing(ordered);
+  const villages = ordered.filter(site => isVillage(site.building));
+
+  const populations = new Map<string, number>();
+  const fed = new Map<string, number>();
+  let migrants = 0;
+
+  // Feeding and natural growth
+  for (const village of villages) {
+    const id = village.building.id;
+    const population = village.building.urbanCoreData?.population ?? 0;
+    const capacity = housing.get(id) ?? 0;
+    const sources = [inventories.get(id)!, ...getWarehousesInRange(village, ordered).map(wh => inventories.get(wh.building.id)!)];
+
+    const needed = roundAmount(population * FOOD_PER_PERSON_PER_DAY);
+    let missing = needed;
+    for (const item of FOOD_ITEMS) {
+      for (const source of sources) {
+        if (missing <= 0) break;
+        const eaten = Math.min(missing, source[item] ?? 0);
+        if (eaten <= 0) continue;
+        const left = roundAmount(source[item] - eaten);
+        if (left > 0) source[item] = left;
+        else delete source[item];
+        missing = roundAmount(missing - eaten);
+      }
+    }
+    // An empty village only attracts migrants if it has food to offer
+    const satisfaction = needed > 0
+      ? roundAmount((needed - missing) / needed)
+      : Number(FOOD_ITEMS.some(item => sources.some(source => (source[item] ?? 0) > 0)));
+    fed.set(id, satisfaction);
+
+    let next = population;
+    if (satisfaction >= 1 && population > 0 && population < capacity) {
+      next += Math.min(capacity - population, Math.max(1, Math.round(population * GROWTH_RATE_PER_DAY)));
+    }
+
+    let leaving = satisfaction < 1 ? Math.ceil(population * (1 - satisfaction) * HUNGER_EXODUS_RATE) : 0;
+    leaving += Math.max(0, next - leaving - capacity);
+    next -= leaving;
+    migrants += leaving;
+    populations.set(id, next);
+  }
+
+  // Migration to fed villages with free housing, most room first; the rest leave the Duchy
+  const destinations = villages
+    .filter(village => (fed.get(village.building.id) ?? 0) >= 1)
+    .map(village => ({
+      id: village.building.id,
+      room: (housing.get(village.building.id) ?? 0) - (populations.get(village.building.id) ?? 0)
+    }))
+    .filter(destination => destination.room > 0)
+    .sort((a, b) => b.room - a.room || a.id.localeCompare(b.id));
+  for (const destination of destinations) {
+    if (migrants <= 0) break;
+    const arriving = Math.min(migrants, destination.room);
+    populations.set(destination.id, (populations.get(destination.id) ?? 0) + arriving);
+    migrants -= arriving;
+  }
+
+  const events: PopulationEvent[] = villages.map(village => {
+    const population = populations.get(village.building.id) ?? 0;
+    return {
+      buildingId: village.building.id,
+      population,
+      change: population - (village.building.urbanCoreData?.population ?? 0),
+      fed: fed.get(village.building.id) ?? 1
+    };
+  });
+
+  const updated = sites.map(site => {
+    const building: PlacedBuilding = { ...site.building, inventory: inventories.get(site.building.id)! };
+    const population = populations.get(site.building.id);
+    if (population !== undefined && building.urbanCoreData) {
+      building.urbanCoreData = { ...building.urbanCoreData, population, soldiers: getGarrison(population) };
+    }
+    return { ...site, building };
+  });
+
+  return { sites: assignWorkers(updated), events };
+}
+
+/**
+ * Run several settlement days in a row: population first, then production with the assigned workers
+ */
+export function simulateSettlement(sites: ProductionSite[], ticks: number): SettlementResult {
+  let current = sites;
+  const events: PopulationEvent[] = [];
+  const production: ProductionEvent[] = [];
+
+  for (let tick = 0; tick < ticks; tick++) {
+    const population = simulatePopulationTick(current);
+    const result = simulateProductionTick(population.sites);
+    current = result.sites;
+    events.push(...population.events);
+    production.push(...result.events);
+  }
+
+  return { sites: current, events, production };
+}
@@ -0,0 +1,289 @@
+import type { BuildingType, PlacedBuilding, SubLandResourceType } from './types';
+
+/**
+ * Tick-based production engine for PlacedBuildings
+ * One tick = one game day. Pure and deterministic: same sites in, same sites out.
+ * - Producers run one recipe per tick, pulling inputs from their own inventory first,
+ *   then from warehouses within WAREHOUSE_RANGE (nearest first)
+ * - Throughput scales with staffing (workers / required workers) and productionRate (0-100%)
+ * - Outputs go to the producer's inventory; at the end of the tick finished goods are
+ *   delivered to the nearest warehouse in range with free capacity, feeding the next link of the chain
+ */
+
+export interface Recipe {
+  id: string;
+  name: string;
+  inputs: Record<string, number>;  // Consumed per cycle
+  outputs: Record<string, number>; // Produced per cycle
+}
+
+export interface ProductionProfile {
+  workers: number; // Workers for full throughput
+  recipes: Recipe[]; // Tried in order, the first one with inputs available runs
+}
+
+// Full-throughput production of each building type, per game day
+export const PRODUCTION_PROFILES: Partial<Record<BuildingType, ProductionProfile>> = {
+  logging_camp: {
+    workers: 10,
+    recipes: [{ id: 'timber', name: 'Timber', inputs: {}, outputs: { wood: 20 } }]
+  },
+  spinning_mill: {
+    workers: 15,
+    recipes: [
+      { id: 'cotton_thread', name: 'Cotton thread', inputs: { cotton: 10 }, outputs: { thread: 8 } },
+      { id: 'linen_thread', name: 'Linen thread', inputs: { flax: 10 }, outputs: { thread: 8 } }
+    ]
+  },
+  weaving_mill: {
+    workers: 15,
+    recipes: [{ id: 'cloth', name: 'Cloth', inputs: { thread: 8 }, outputs: { cloth: 4 } }]
+  },
+  tailoring: {
+    workers: 8,
+    recipes: [{ id: 'clothing', name: 'Clothing', inputs: { cloth: 4 }, outputs: { clothing: 2 } }]
+  },
+  smithy: {
+    workers: 5,
+    recipes: [{ id: 'tools', name: 'Tools', inputs: { iron: 4 }, outputs: { tools: 2 } }]
+  },
+  blacksmith: {
+    workers: 8,
+    recipes: [
+      { id: 'weapons', name: 'Weapons', inputs: { iron: 4, wood: 2 }, outputs: { weapons: 2 } },
+      { id: 'tools', name: 'Tools', inputs: { iron: 4 }, outputs: { tools: 3 } }
+    ]
+  },
+  carpentry: {
+    workers: 6,
+    recipes: [{ id: 'furniture', name: 'Furniture', inputs: { wood: 6 }, outputs: { furniture: 2 } }]
+  },
+  river_sawmill: {
+    workers: 6,
+    recipes: [{ id: 'planks', name: 'Planks', inputs: { wood: 10 }, outputs: { planks: 10 } }]
+  },
+  blood_mill: {
+    workers: 5,
+    recipes: [{ id: 'flour', name: 'Flour', inputs: { wheat: 20 }, outputs: { flour: 16 } }]
+  },
+  windmill: {
+    workers: 3,
+    recipes: [{ id: 'flour', name: 'Flour', inputs: { wheat: 25 }, outputs: { flour: 20 } }]
+  },
+  river_mill: {
+    workers: 3,
+    recipes: [{ id: 'flour', name: 'Flour', inputs: { wheat: 30 }, outputs: { flour: 24 } }]
+  }
+};
+
+// Mines extract the deposit of the SubLand they stand on
+const MINE_OUTPUTS: Partial<Record<SubLandResourceType, string>> = {
+  mine_gold: 'gold',
+  mine_silver: 'silver',
+  mine_iron: 'iron',
+  mine_copper: 'copper',
+  mine_tin: 'tin',
+  mine_bronze: 'bronze',
+  mine_stone: 'stone',
+  mine_gems: 'gems'
+};
+const MINE_WORKERS = 12;
+const MINE_OUTPUT_PER_DAY = 10;
+
+// Warehouses serve producers within this many SubLand hexes (1 km each)
+export const WAREHOUSE_RANGE = 5;
+
+// Total units a warehouse can hold
+export const WAREHOUSE_CAPACITY = 10000;
+
+export interface ProductionSite {
+  building: PlacedBuilding;
+  q: number;
+  r: number;
+  resourceType?: SubLandResourceType; // Needed for mines
+}
+
+export interface ProductionEvent {
+  buildingId: string;
+  recipeId: string;
+  cycles: number; // Fraction of a full day's batch actually produced
+  consumed: Record<string, number>;
+  produced: Record<string, number>;
+}
+
+export interface ProductionResult {
+  sites: ProductionSite[];
+  events: ProductionEvent[];
+}
+
+/**
+ * Round to 3 decimals so fractional throughput does not accumulate float noise
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 1000) / 1000;
+}
+
+/**
+ * Distance in SubLand hexes between two sites of the same Duchy
+ */
+export function getSubLandDistance(a: { q: number; r: number }, b: { q: number; r: number }): number {
+  return (Math.abs(a.q - b.q) + Math.abs(a.r - b.r) + Math.abs(a.q + a.r - b.q - b.r)) / 2;
+}
+
+/**
+ * Units stored in an inventory, all goods together
+ */
+export function getInventoryTotal(inventory: Record<string, number>): number {
+  return Object.values(inventory).reduce((sum, amount) => sum + amount, 0);
+}
+
+/**
+ * Production profile of a site (mines depend on their deposit), or null if it produces nothing
+ */
+export function getProductionProfile(site: Pick<ProductionSite, 'building' | 'resourceType'>): ProductionProfile | null {
+  if (site.building.type === 'mine') {
+    const mineral = site.resourceType ? MINE_OUTPUTS[site.resourceType] : undefined;
+    if (!mineral) return null;
+    return {
+      workers: MINE_WORKERS,
+      recipes: [{ id: mineral, name: mineral, inputs: {}, outputs: { [mineral]: MINE_OUTPUT_PER_DAY } }]
+    };
+  }
+  return PRODUCTION_PROFILES[site.building.type] ?? null;
+}
+
+/**
+ * Workers a building type needs to run at full throughput (0 if it produces nothing)
+ */
+export function getRequiredWorkers(type: BuildingType): number {
+  if (type === 'mine') return MINE_WORKERS;
+  return PRODUCTION_PROFILES[type]?.workers ?? 0;
+}
+
+/**
+ * Share (0-1) of full throughput a building runs at, from its staffing and production rate
+ */
+export function getProductionEfficiency(building: PlacedBuilding, profile: ProductionProfile): number {
+  const staffing = profile.workers > 0 ? Math.min(1, (building.workers ?? 0) / profile.workers) : 1;
+  const rate = Math.min(100, Math.max(0, building.productionRate ?? 0)) / 100;
+  return staffing * rate;
+}
+
+/**
+ * Warehouses within range of a site, nearest first (ties by id for determinism)
+ */
+export function getWarehousesInRange(site: ProductionSite, sites: ProductionSite[]): ProductionSite[] {
+  return sites
+    .filter(other => other.building.type === 'warehouse' && getSubLandDistance(site, other) <= WAREHOUSE_RANGE)
+    .sort((a, b) =>
+      getSubLandDistance(site, a) - getSubLandDistance(site, b) || a.building.id.localeCompare(b.building.id)
+    );
+}
+
+/**
+ * Run one production tick over all sites of a Duchy
+ * Returns new sites (inventories are never mutated in place) and what each producer did
+ */
+export function simulateProductionTick(sites: ProductionSite[]): ProductionResult {
+  const ordered = [...sites].sort((a, b) => a.building.id.localeCompare(b.building.id));
+  const inventories = new Map<string, Record<string, number>>(
+    ordered.map(site => [site.building.id, { ...(site.building.inventory ?? {}) }])
+  );
+  const events: ProductionEvent[] = [];
+
+  const take = (inventory: Record<string, number>, item: string, amount: number): void => {
+    const left = roundAmount((inventory[item] ?? 0) - amount);
+    if (left > 0) inventory[item] = left;
+    else delete inventory[item];
+  };
+  const put = (inventory: Record<string, number>, item: string, amount: number): void => {
+    inventory[item] = roundAmount((inventory[item] ?? 0) + amount);
+  };
+
+  // Production
+  for (const site of ordered) {
+    const profile = getProductionProfile(site);
+    if (!profile) continue;
+
+    const efficiency = getProductionEfficiency(site.building, profile);
+    if (efficiency <= 0) continue;
+
+    const own = inventories.get(site.building.id)!;
+    const sources = [own, ...getWarehousesInRange(site, ordered).map(wh => inventories.get(wh.building.id)!)];
+    const available = (item: string): number => sources.reduce((sum, inv) => sum + (inv[item] ?? 0), 0);
+
+    for (const recipe of profile.recipes) {
+      const cycles = roundAmount(Object.entries(recipe.inputs).reduce(
+        (max, [item, amount]) => Math.min(max, available(item) / amount),
+        efficiency
+      ));
+      if (cycles <= 0) continue;
+
+      const consumed: Record<string, number> = {};
+      for (const [item, amount] of Object.entries(recipe.inputs)) {
+        let needed = roundAmount(amount * cycles);
+        consumed[item] = needed;
+        for (const source of sources) {
+          if (needed <= 0) break;
+          const taken = Math.min(needed, source[item] ?? 0);
+          take(source, item, taken);
+          needed = roundAmount(needed - taken);
+        }
+      }
+
+      const produced: Record<string, number> = {};
+      for (const [item, amount] of Object.entries(recipe.outputs)) {
+        produced[item] = roundAmount(amount * cycles);
+        put(own, item, produced[item]);
+      }
+
+      events.push({ buildingId: site.building.id, recipeId: recipe.id, cycles, consumed, produced });
+      break;
+    }
+  }
+
+  // Delivery: producers keep their inputs and ship everything else to warehouses
+  for (const site of ordered) {
+    if (site.building.type === 'warehouse') continue;
+
+    const own = inventories.get(site.building.id)!;
+    const profile = getProductionProfile(site);
+    const inputs = new Set(profile?.recipes.flatMap(recipe => Object.keys(recipe.inputs)) ?? []);
+
+    for (const warehouse of getWarehousesInRange(site, ordered)) {
+      const stock = inventories.get(warehouse.building.id)!;
+      for (const item of Object.keys(own).sort()) {
+        if (inputs.has(item)) continue;
+        const space = roundAmount(WAREHOUSE_CAPACITY - getInventoryTotal(stock));
+        if (space <= 0) break;
+        const amount = Math.min(own[item], space);
+        take(own, item, amount);
+        put(stock, item, amount);
+      }
+    }
+  }
+
+  return {
+    sites: sites.map(site => ({
+      ...site,
+      building: { ...site.building, inventory: inventories.get(site.building.id)! }
+    })),
+    events
+  };
+}
+
+/**
+ * Run several production ticks in a row
+ */
+export function simulateProduction(sites: ProductionSite[], ticks: number): ProductionResult {
+  let current = sites;
+  const events: ProductionEvent[] = [];
+
+  for (let tick = 0; tick < ticks; tick++) {
+    const result = simulateProductionTick(current);
+    current = result.sites;
+    events.push(...result.events);
+  }
+
+  return { sites: current, events };
+}
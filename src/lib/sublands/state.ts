@@ -0,0 +1,48 @@
+import type { PlacedBuilding, SubLand, SubLandState } from './types';
+
+/**
+ * Merge persisted SubLand state (claims, buildings) into freshly generated SubLands
+ * Generated terrain data is kept, player-driven fields come from the stored state
+ */
+export function applySubLandStates(generated: SubLand[], states: SubLandState[]): SubLand[] {
+  if (states.length === 0) return generated;
+
+  const byPosition = new Map<string, SubLandState>();
+  for (const state of states) {
+    byPosition.set(`${state.q},${state.r}`, state);
+  }
+
+  return generated.map(subland => {
+    const state = byPosition.get(`${subland.q},${subland.r}`);
+    if (!state) return subland;
+
+    return {
+      ...subland,
+      ...state,
+      // Trees and rocks are cleared once land is claimed
+      hasNaturalFeatures: state.status === 'virgin' ? subland.hasNaturalFeatures : false
+    };
+  });
+}
+
+/**
+ * Restore Date fields of a building received as JSON
+ */
+export function revivePlacedBuilding(json: PlacedBuilding): PlacedBuilding {
+  return {
+    ...json,
+    builtAt: new Date(json.builtAt)
+  };
+}
+
+/**
+ * Restore Date fields of a SubLand state received as JSON
+ */
+export function reviveSubLandState(json: SubLandState): SubLandState {
+  return {
+    ...json,
+    claimedAt: json.claimedAt ? new Date(json.claimedAt) : undefined,
+    claimExpiresAt: json.claimExpiresAt ? new Date(json.claimExpiresAt) : undefined,
+    buildings: json.buildings.map(revivePlacedBuilding)
+  };
+}
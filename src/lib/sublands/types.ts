@@ -19,6 +19,7 @@ export type SubLandResourceType =
   | 'farmland_spices'
   | 'coastal_land' // Land on coastlines (for ports, shipyards, etc.)
   | 'coastal_inland' // Inland coastal areas near ocean (for coastal duchies)
+  | 'lakeshore' // Lake waters along the sides of a duchy that touch a lake (shoreline like coastal_inland)
   | 'standard'; // Moderate agricultural performance
 
 export type BuildingType =
@@ -58,9 +59,9 @@ export interface UrbanCoreBuildings {
   tavern: boolean;
   barracks: boolean;
   religiousBuilding: ReligionType;
-  houses: number; // Always 100
-  soldiers: number; // Always 30
-  population: number; // Always 300
+  houses: number; // Each house shelters PEOPLE_PER_HOUSE villagers
+  soldiers: number; // Garrison drawn from the population
+  population: number; // Grows with food and housing, see population.ts
 }
 
 export interface BuildingConfig {
@@ -69,11 +70,11 @@ export interface BuildingConfig {
   slxCost: number; // SILVEX tokens to burn
   areaM2: number; // Area in square meters
   requiresRiver?: 'navigable' | 'non-navigable';
-  requiresCoastalAdjacency?: boolean; // Must be adjacent to coastal_inland hex
+  requiresCoastalAdjacency?: boolean; // Must be adjacent to shoreline water (coastal_inland or lakeshore hex)
   requiresSpecialNFTs?: boolean;
   requiresNFTType?: NFTType;
   requiresEmptyTile?: boolean; // Must be built on virgin land only
-  requiresVillages?: number; // Minimum villages in hexagon
+  requiresPopulation?: number; // Minimum inhabitants in hexagon
   isTownCenter?: boolean; // Occupies central hexagon cluster
   description: string;
   category: 'residential' | 'production' | 'commerce' | 'infrastructure' | 'special' | 'settlement';
@@ -90,6 +91,7 @@ export interface PlacedBuilding {
   inventory?: Record<string, number>; // Resources stored in building
   urbanCoreData?: UrbanCoreBuildings; // Only for urban_core type
   religion?: ReligionType; // For urban cores and towns
+  lastHarvestAt?: Date; // Farms only: harvests up to this moment are in the inventory
 }
 
 export interface SubLand {
@@ -122,10 +124,35 @@ export interface HexagonSettlementData {
   maxUrbanCores: number; // Always 100
   hasTown: boolean; // Only one town allowed per hexagon
   townPosition?: { q: number; r: number }; // Center position of town
-  totalPopulation: number; // Sum of all villages (300 each)
+  totalPopulation: number; // Sum of all village populations
+  labourPool: number; // Villagers available to work in production buildings
 }
 
 export interface RiverSystem {
   navigableRivers: Array<{ q: number; r: number; parentQ: number; parentR: number }>;
   nonNavigableRivers: Array<{ q: number; r: number; parentQ: number; parentR: number }>;
 }
+
+/**
+ * Persisted, player-driven part of a SubLand
+ * Terrain fields (resourceType, biome, rivers) are regenerated from the parent tile
+ * and merged with this state on load
+ */
+export type SubLandState = Pick<
+  SubLand,
+  | 'id'
+  | 'q'
+  | 'r'
+  | 'status'
+  | 'owner'
+  | 'ownerName'
+  | 'nftId'
+  | 'nftType'
+  | 'claimedAt'
+  | 'claimExpiresAt'
+  | 'buildings'
+  | 'usedAreaM2'
+  | 'maxAreaM2'
+  | 'isPartOfTown'
+  | 'townCenterPosition'
+>;
@@ -1,9 +1,19 @@
 import type { TransportItem, TravelCalculation } from '@/types/game';
-import { GAME_SPEED_MULTIPLIER } from '@/types/game';
+import { REAL_MS_PER_GAME_DAY, realTimeToGameDate } from './calendar';
 import { calculateDuchyDistance } from './duchy-generator';
+import type { Season } from './hexmap/types';
+import { getSubLandHexCost, getSubLandPositionCost, type DuchySubLandTerrain } from './hexmap/subland-pathfinding';
+import type { SubLandPosition } from './sublands/coordinates';
+import { getItineraryPath, type Itinerary } from './hexmap/naval-pathfinding';
+
+// Real time a game day of travel takes: journeys keep pace with the calendar, so the season a hex
+// is costed for (departure date + elapsed game days) is the one the traveller reaches it in
+export const TRAVEL_MS_PER_GAME_DAY = REAL_MS_PER_GAME_DAY;
 
 /**
  * Calculate travel time and arrival date
+ * With an itinerary (e.g. a land-sea-land journey for ships), distance and time
+ * follow its legs instead of the straight line
  */
 export function calculateTravel(
   fromQ: number,
@@ -11,20 +21,18 @@ export function calculateTravel(
   toQ: number,
   toR: number,
   transport: TransportItem,
-  currentServerTime: Date
+  currentServerTime: Date,
+  itinerary?: Itinerary
 ): TravelCalculation {
-  const distance = calculateDuchyDistance(fromQ, fromR, toQ, toR);
+  const distance = itinerary
+    ? getItineraryPath(itinerary).length - 1
+    : calculateDuchyDistance(fromQ, fromR, toQ, toR);
   
   // Calculate real-world days based on transport speed
   // Transport speed is in tiles per game day
-  const gameDays = distance / transport.speed;
-  
-  // Convert to real-world time (4x speed means 1 real day = 4 game days)
-  const realWorldDays = gameDays / GAME_SPEED_MULTIPLIER;
+  const gameDays = itinerary ? itinerary.totalTime : distance / transport.speed;
   
-  // Calculate arrival date
-  const arrivalDate = new Date(currentServerTime);
-  arrivalDate.setDate(arrivalDate.getDate() + realWorldDays);
+  const arrivalDate = new Date(currentServerTime.getTime() + gameDays * TRAVEL_MS_PER_GAME_DAY);
   
   return {
     fromDuchy: `Duchy (${fromQ}, ${fromR})`,
@@ -32,7 +40,8 @@ export function calculateTravel(
     distance,
     selectedTransport: transport,
     travelTime: gameDays,
-    arrivalDate
+    arrivalDate,
+    arrivalGameDate: realTimeToGameDate(arrivalDate)
   };
 }
 
@@ -43,10 +52,11 @@ export const TRANSPORT_OPTIONS: TransportItem[] = [
   {
     id: 'foot',
     name: 'On Foot',
-    type: 'horse', // Using horse type as placeholder
+    type: 'foot',
     speed: 0.5, // 1 tile every 2 days
     icon: '🚶',
-    weightCapacity: 0.5 // 0.5 Jax (10kg)
+    weightCapacity: 0.5, // 0.5 Jax (10kg)
+    upkeep: 0
   },
   {
     id: 'horse-1',
@@ -55,6 +65,7 @@ export const TRANSPORT_OPTIONS: TransportItem[] = [
     speed: 1, // 1 tile per day
     icon: '🐎',
     weightCapacity: 2, // 2 Jax (40kg)
+    upkeep: 2, // Fodder
   },
   {
     id: 'cart-1',
@@ -63,6 +74,7 @@ export const TRANSPORT_OPTIONS: TransportItem[] = [
     speed: 0.75, // 0.75 tiles per day
     icon: '🛞',
     weightCapacity: 5, // 5 Jax (100kg)
+    upkeep: 3, // Fodder and repairs
   },
   {
     id: 'camel-1',
@@ -71,6 +83,7 @@ export const TRANSPORT_OPTIONS: TransportItem[] = [
     speed: 0.8, // 0.8 tiles per day
     icon: '🐪',
     weightCapacity: 3, // 3 Jax (60kg)
+    upkeep: 1, // Camels live off scarce grazing
   },
   {
     id: 'ship-basic',
@@ -79,6 +92,7 @@ export const TRANSPORT_OPTIONS: TransportItem[] = [
     speed: 1, // 1 tile per day (will be configurable)
     icon: '⛵',
     weightCapacity: 10, // 10 Jax (200kg)
+    upkeep: 8, // Crew wages
   },
   {
     id: 'ship-advanced',
@@ -87,45 +101,37 @@ export const TRANSPORT_OPTIONS: TransportItem[] = [
     speed: 2, // 2 tiles per day
     icon: '🚢',
     weightCapacity: 20, // 20 Jax (400kg)
+    upkeep: 20, // Crew wages
   }
 ];
 
+/**
+ * Transports every new character owns (will be NFTs); walking needs no transport
+ */
+export const STARTING_TRANSPORTS: TransportItem[] = [
+  { ...TRANSPORT_OPTIONS[1], nftId: 'NFT-HORSE-001' }, // Horse
+  { ...TRANSPORT_OPTIONS[2], nftId: 'NFT-CART-001' }, // Cart
+  { ...TRANSPORT_OPTIONS[4], nftId: 'NFT-SHIP-001' } // Basic Ship
+];
+
+// Time per SubLand hex = (1 km / (50 km/day in optimal conditions)) * 24 hours/day, times its cost multiplier
+const SUBLAND_HOURS_PER_HEX = (1 / 50) * 24;
+
 /**
  * Calculate travel between SubLands (xLands) - 1km hexagons
  * Base speed: 50km/day = 50 hexagons/day in optimal conditions
- * Terrain modifiers apply to slow movement
+ * Terrain modifiers apply to slow movement (see SUBLAND_TERRAIN_COSTS and SUBLAND_FEATURE_COSTS)
+ * With a season, the Duchy seasonal multipliers and spring river floods apply too
  */
 export function calculateSubLandTravel(
   path: Array<{ q: number; r: number }>,
   biomes: Map<string, string>, // Map of hex key to biome type
-  features: Map<string, string[]> // Map of hex key to terrain features
+  features: Map<string, string[]>, // Map of hex key to terrain features
+  season?: Season // Season in the parent Duchy
 ): {
   totalTravelTimeHours: number;
   hexCosts: number[];
 } {
-  const BASE_SPEED_KM_PER_DAY = 50; // 50km/day in optimal conditions
-  const HOURS_PER_DAY = 24;
-  
-  // Terrain cost multipliers
-  const TERRAIN_COSTS: Record<string, number> = {
-    mountain_range: 3.0, // x3 slower - cordillera
-    hills: 1.5,         // x1.5 slower
-    plains: 1.0,        // normal speed
-    meadow: 1.0,        // normal speed
-    desert: 1.2,        // slightly slower
-    tundra: 1.3,        // slightly slower
-    coast: 1.0,         // normal speed
-    forest: 1.0,        // base terrain normal, feature applies cost
-    jungle: 1.0         // base terrain normal, feature applies cost
-  };
-  
-  // Feature cost multipliers (applied on top of terrain)
-  const FEATURE_COSTS: Record<string, number> = {
-    forest: 2.0,         // x2 slower - dense trees
-    jungle: 2.0,         // x2 slower - very dense vegetation
-    boreal_forest: 2.0   // x2 slower - dense northern forest
-  };
-  
   let totalCost = 0;
   const hexCosts: number[] = [];
   
@@ -135,31 +141,34 @@ export function calculateSubLandTravel(
     if (!hex) continue;
     
     const hexKey = `${hex.q},${hex.r}`;
-    const biome = biomes.get(hexKey) || 'plains';
-    const hexFeatures = features.get(hexKey) || [];
-    
-    // Base terrain cost
-    let cost = TERRAIN_COSTS[biome] || 1.0;
-    
-    // Apply feature costs
-    for (const feature of hexFeatures) {
-      const featureCost = FEATURE_COSTS[feature];
-      if (featureCost) {
-        cost *= featureCost;
-      }
-    }
+    const cost = getSubLandHexCost(biomes.get(hexKey) || 'plains', features.get(hexKey) || [], season);
     
     totalCost += cost;
     hexCosts.push(cost);
   }
   
-  // Calculate total time in hours
-  // Time per hex = (1 km / (50 km/day)) * 24 hours/day * cost_multiplier
-  const baseTimePerHexHours = (1 / BASE_SPEED_KM_PER_DAY) * HOURS_PER_DAY;
-  const totalTravelTimeHours = totalCost * baseTimePerHexHours;
+  return {
+    totalTravelTimeHours: totalCost * SUBLAND_HOURS_PER_HEX,
+    hexCosts
+  };
+}
+
+/**
+ * Calculate travel along a SubLand route crossing Duchy borders (see findCrossBorderSubLandPath)
+ * Same speeds as calculateSubLandTravel, with the terrain and season of each Duchy on the way
+ */
+export function calculateCrossBorderSubLandTravel(
+  path: SubLandPosition[],
+  getDuchyTerrain: (parentQ: number, parentR: number) => DuchySubLandTerrain | null
+): {
+  totalTravelTimeHours: number;
+  hexCosts: number[];
+} {
+  const hexCosts = path.slice(1).map(position => getSubLandPositionCost(position, getDuchyTerrain));
+  const totalCost = hexCosts.reduce((sum, cost) => sum + cost, 0);
   
   return {
-    totalTravelTimeHours,
+    totalTravelTimeHours: totalCost * SUBLAND_HOURS_PER_HEX,
     hexCosts
   };
 }
@@ -175,3 +184,32 @@ export function calculateSubLandDistance(
 ): number {
   return (Math.abs(q1 - q2) + Math.abs(r1 - r2) + Math.abs((q1 + r1) - (q2 + r2))) / 2;
 }
+
+/**
+ * Progress of a journey at a given time, from its schedule (the server clock is authoritative)
+ * The traveller moves along the path evenly over the journey, as the travel indicators show it
+ */
+export function getJourneyProgress(
+  journey: {
+    path: unknown[];
+    totalTravelTime: number; // in the journey's own unit (game days or hours)
+    startTime: Date;
+    estimatedArrival: Date;
+  },
+  now: Date
+): {
+  elapsedTime: number;
+  currentHexIndex: number;
+  arrived: boolean;
+} {
+  const duration = journey.estimatedArrival.getTime() - journey.startTime.getTime();
+  const progressRatio = duration > 0
+    ? Math.min(Math.max((now.getTime() - journey.startTime.getTime()) / duration, 0), 1)
+    : 1;
+  
+  return {
+    elapsedTime: progressRatio * journey.totalTravelTime,
+    currentHexIndex: Math.floor(progressRatio * Math.max(journey.path.length - 1, 0)),
+    arrived: progressRatio >= 1
+  };
+}
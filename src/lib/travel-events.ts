@@ -0,0 +1,281 @@
+import type { HistoryEvent } from '@/types/game';
+import type { HexCoordinates, HexTile, Season } from './hexmap/types';
+import { getHexKey } from './hexmap/hex-utils';
+import { DUCHY_WALKING_SPEED, calculatePathTravelTime, findPath, getWalkingCostModel } from './hexmap/pathfinding';
+import { getSeasonForMonth, realTimeToGameDate } from './calendar';
+import { roundAmount } from './sublands/production';
+import { SeededRandom, hashSeed } from './random';
+
+/**
+ * Travel encounters along a Duchy-level journey
+ * Rolled once per hex when the journey starts, with a generator seeded by the journey id,
+ * so the same journey always meets the same fate. At most one encounter per hex.
+ * - Bandits on the open roads of plains, meadows and hills: rob cargo, or waylay travellers
+ * - Storms at sea: worse in winter and at high latitudes; cargo is thrown overboard
+ * - Sandstorms in the desert, mostly in summer
+ * - River fords, flooded in spring: the journey goes around, or waits for the water to drop
+ */
+
+export type TravelEncounterType = 'bandits' | 'storm' | 'sandstorm' | 'ford';
+
+export interface TravelEncounter {
+  type: TravelEncounterType;
+  stepIndex: number;                  // Index in the (possibly rerouted) path
+  hex: { q: number; r: number };
+  elapsed: number;                    // Game days from departure when it happens
+  delay: number;                      // Game days added to the journey
+  cargoLost: Record<string, number>;  // Units lost per good
+  rerouted: boolean;                  // The route was changed to go around
+  description: string;
+  icon: string;
+}
+
+interface EncounterRule {
+  getChance: (tile: HexTile, season: Season) => number; // Per hex entered
+  delay: number;      // Game days
+  cargoLoss: number;  // Share of each good lost
+  icon: string;
+  description: string;
+}
+
+const OPEN_ROADS = new Set<string>(['plains', 'meadow', 'hills']);
+
+function isSea(tile: HexTile): boolean {
+  return tile.terrain === 'ocean' || tile.terrain === 'coast';
+}
+
+function hasRiver(tile: HexTile): boolean {
+  return tile.hasRiver || !!tile.features?.includes('river');
+}
+
+export const ENCOUNTER_RULES: Record<TravelEncounterType, EncounterRule> = {
+  bandits: {
+    getChance: tile => (OPEN_ROADS.has(tile.terrain) && !tile.features?.length ? 0.03 : 0),
+    delay: 0.5,
+    cargoLoss: 0.2,
+    icon: '🗡️',
+    description: 'Bandits ambushed the road'
+  },
+  storm: {
+    getChance: (tile, season) => {
+      if (!isSea(tile)) return 0;
+      const seasonal = season === 'winter' ? 2 : season === 'autumn' ? 1.5 : 1;
+      const regional = Math.abs(tile.latitude) >= 50 ? 2 : 1; // Stormy high seas
+      return 0.02 * seasonal * regional;
+    },
+    delay: 1,
+    cargoLoss: 0.1,
+    icon: '⛈️',
+    description: 'A storm caught the ship at sea'
+  },
+  sandstorm: {
+    getChance: (tile, season) => (tile.terrain === 'desert' ? (season === 'summer' ? 0.1 : 0.05) : 0),
+    delay: 1,
+    cargoLoss: 0,
+    icon: '🌪️',
+    description: 'A sandstorm forced the caravan to take shelter'
+  },
+  ford: {
+    getChance: (tile, season) => (!isSea(tile) && hasRiver(tile) ? (season === 'spring' ? 0.2 : 0.05) : 0),
+    delay: 2, // Waiting for the water to drop when there is no way around
+    cargoLoss: 0.05,
+    icon: '🌊',
+    description: 'The river ford was flooded'
+  }
+};
+
+const ENCOUNTER_TYPES = Object.keys(ENCOUNTER_RULES) as TravelEncounterType[];
+
+// Detours around flooded fords per journey, so a river delta cannot loop forever
+const MAX_REROUTES = 3;
+
+/**
+ * Units of each good lost, and what is left
+ */
+function loseCargo(
+  cargo: Record<string, number>,
+  share: number
+): { lost: Record<string, number>; left: Record<string, number> } {
+  const lost: Record<string, number> = {};
+  const left: Record<string, number> = {};
+
+  for (const [item, amount] of Object.entries(cargo)) {
+    const loss = roundAmount(amount * share);
+    if (loss > 0) lost[item] = loss;
+    if (amount - loss > 0) left[item] = roundAmount(amount - loss);
+  }
+  return { lost, left };
+}
+
+/**
+ * Roll the encounters of a Duchy-level journey (walking or sailing; time in game days)
+ * Returns the journey as it will really go: its path (with detours), total time (with delays),
+ * the cargo that will arrive, and the encounters in order
+ */
+export function rollTravelEncounters(
+  journey: {
+    id: string;
+    path: HexCoordinates[];
+    totalTravelTime: number;
+    startTime: Date;
+    estimatedArrival: Date;
+    landSpeed?: number; // Tiles per game day over land, for detours (default: walking)
+  },
+  tiles: Map<string, HexTile>,
+  cargo?: Record<string, number>
+): {
+  path: HexCoordinates[];
+  totalTravelTime: number;
+  cargo?: Record<string, number>;
+  encounters: TravelEncounter[];
+} {
+  const random = new SeededRandom(hashSeed(journey.id));
+  const path = [...journey.path];
+  const plannedSteps = Math.max(journey.path.length - 1, 1);
+  const daysPerStep = journey.totalTravelTime / plannedSteps;
+  const duration = journey.estimatedArrival.getTime() - journey.startTime.getTime();
+  const msPerDay = journey.totalTravelTime > 0 ? duration / journey.totalTravelTime : 0;
+  const landSpeed = journey.landSpeed ?? DUCHY_WALKING_SPEED;
+
+  let remaining = cargo;
+  let delay = 0;
+  let reroutes = 0;
+  const encounters: TravelEncounter[] = [];
+
+  // Steps of the planned path taken so far: the hexes of a detour stand in for the ford they go around,
+  // and its extra days count once the route is rejoined
+  let step = 0;
+  let detourHexes = 0;
+  let detourDays = 0;
+
+  for (let i = 1; i < path.length; i++) {
+    if (detourHexes > 0) {
+      detourHexes--;
+    } else {
+      step++;
+      detourDays = 0;
+    }
+
+    const hex = path[i];
+    const tile = tiles.get(getHexKey(hex.q, hex.r));
+    if (!tile) continue;
+
+    // Season when the traveller reaches the hex, in its own hemisphere
+    const elapsed = step * daysPerStep + delay - detourDays;
+    const reachedAt = new Date(journey.startTime.getTime() + elapsed * msPerDay);
+    const date = realTimeToGameDate(reachedAt);
+    const season = getSeasonForMonth(date.month, tile.hemisphere);
+
+    const type = ENCOUNTER_TYPES.find(candidate => {
+      const chance = ENCOUNTER_RULES[candidate].getChance(tile, season);
+      return chance > 0 && random.next() < chance;
+    });
+    if (!type) continue;
+
+    const rule = ENCOUNTER_RULES[type];
+
+    // Flooded ford: go around the river hex if the land allows it and that is quicker than waiting
+    if (type === 'ford' && i < path.length - 1 && reroutes < MAX_REROUTES) {
+      const flooded = getHexKey(hex.q, hex.r);
+      const walking = getWalkingCostModel(landSpeed);
+      const detour = findPath(path[i - 1], path[i + 1], tiles, date, {
+        ...walking,
+        getCost: (candidate, day) =>
+          getHexKey(candidate.coordinates.q, candidate.coordinates.r) === flooded
+            ? Infinity
+            : walking.getCost(candidate, day)
+      });
+      // The detour replaces the way through the ford and on to the next hex of the route
+      const extraDays = detour
+        ? Math.max(
+            calculatePathTravelTime(detour, tiles, landSpeed, date) -
+              calculatePathTravelTime(path.slice(i - 1, i + 2), tiles, landSpeed, date),
+            0
+          )
+        : Infinity;
+
+      if (detour && extraDays < rule.delay) {
+        path.splice(i, 1, ...detour.slice(1, -1));
+        delay += extraDays;
+        detourDays += extraDays;
+        detourHexes += detour.length - 2;
+        reroutes++;
+        encounters.push({
+          type,
+          stepIndex: i,
+          hex: { q: hex.q, r: hex.r },
+          elapsed,
+          delay: extraDays,
+          cargoLost: {},
+          rerouted: true,
+          description: `${rule.description}: the route went around it`,
+          icon: rule.icon
+        });
+        i--; // The detour's first hex can have its own encounter
+        continue;
+      }
+    }
+
+    // Robbers only take cargo; travellers without any lose time instead
+    const loss = remaining && rule.cargoLoss > 0 ? loseCargo(remaining, rule.cargoLoss) : null;
+    const robbed = type === 'bandits' && !!loss && Object.keys(loss.lost).length > 0;
+    const encounterDelay = type === 'bandits' && robbed ? 0 : rule.delay;
+    if (loss) remaining = loss.left;
+    delay += encounterDelay;
+
+    encounters.push({
+      type,
+      stepIndex: i,
+      hex: { q: hex.q, r: hex.r },
+      elapsed,
+      delay: encounterDelay,
+      cargoLost: loss?.lost ?? {},
+      rerouted: false,
+      description: rule.description,
+      icon: rule.icon
+    });
+  }
+
+  return {
+    path,
+    totalTravelTime: journey.totalTravelTime + delay,
+    cargo: remaining,
+    encounters
+  };
+}
+
+/**
+ * Feed text of an encounter, with its cost to the journey
+ */
+export function describeEncounter(encounter: TravelEncounter): string {
+  const costs: string[] = [];
+  if (encounter.delay > 0) {
+    costs.push(`${encounter.rerouted ? 'detour of' : 'delayed'} ${encounter.delay.toFixed(1)} days`);
+  }
+  const lost = Object.entries(encounter.cargoLost).map(([item, amount]) => `${amount} ${item}`);
+  if (lost.length > 0) costs.push(`lost ${lost.join(', ')}`);
+
+  const place = `(${encounter.hex.q}, ${encounter.hex.r})`;
+  return costs.length > 0
+    ? `${encounter.description} at ${place} - ${costs.join(', ')}`
+    : `${encounter.description} at ${place}`;
+}
+
+/**
+ * History feed entries of a journey's encounters, dated along its final schedule
+ */
+export function getEncounterHistory(
+  encounters: TravelEncounter[],
+  journey: { totalTravelTime: number; startTime: Date; estimatedArrival: Date }
+): Array<Pick<HistoryEvent, 'description' | 'icon'> & { type: 'travel'; occurredAt: Date }> {
+  const duration = journey.estimatedArrival.getTime() - journey.startTime.getTime();
+
+  return encounters.map(encounter => ({
+    type: 'travel' as const,
+    description: describeEncounter(encounter),
+    icon: encounter.icon,
+    occurredAt: new Date(
+      journey.startTime.getTime() + Math.min(encounter.elapsed / journey.totalTravelTime, 1) * duration
+    )
+  }));
+}
@@ -1,5 +1,7 @@
 // Game types for Altriux Tribal
 
+import type { GameDate } from '@/lib/calendar/types';
+
 export interface PlayerLocation {
   duchyId: string;
   q: number;
@@ -10,10 +12,11 @@ export interface PlayerLocation {
 export interface TransportItem {
   id: string;
   name: string;
-  type: 'ship' | 'horse' | 'camel' | 'cart';
+  type: 'foot' | 'ship' | 'horse' | 'camel' | 'cart';
   speed: number; // tiles per day
   icon: string;
   weightCapacity: number; // in Jax
+  upkeep: number; // SLX per game day of use (fodder, crew, tolls)
   nftId?: string;
 }
 
@@ -24,6 +27,7 @@ export interface TravelCalculation {
   selectedTransport: TransportItem;
   travelTime: number; // in game days
   arrivalDate: Date;
+  arrivalGameDate: GameDate;
 }
 
 export interface DuchyInfo {
@@ -47,6 +51,7 @@ export interface BuildingNFT {
 
 export interface ForumPost {
   id: string;
+  category?: string; // ForumCategory id
   author: string;
   authorWallet: string;
   authorTitle?: string; // NFT title
@@ -73,6 +78,29 @@ export interface ForumCategory {
   postCount: number;
 }
 
+export type NotificationType = 'claim_expiring' | 'claim_grace' | 'claim_lapsed';
+
+export interface GameNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  createdAt: Date;
+  readAt?: Date;
+}
+
+export type HistoryEventType = 'territory' | 'technology' | 'trade' | 'battle' | 'title' | 'travel';
+
+// Entry of a character's history feed
+export interface HistoryEvent {
+  id: string;
+  date: Date;
+  type: HistoryEventType;
+  description: string;
+  icon: string;
+}
+
 export const JAX_TO_KG = 20;
 export const GAME_SPEED_MULTIPLIER = 4;
 
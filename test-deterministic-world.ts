@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import { generateEarthMap } from './src/lib/hexmap/generator';
+import { getHexKey } from './src/lib/hexmap/hex-utils';
+import type { RiverEdge } from './src/lib/hexmap/river-types';
+import type { HexTile } from './src/lib/hexmap/types';
+import { generateSubLandsForTile } from './src/lib/sublands/generator';
+
+/**
+ * Golden-hash checks for world generation
+ * Seed 42 (the live world) must always yield the same tiles, rivers and SubLands: players'
+ * claims and buildings are stored against coordinates of the generated world.
+ * After an intended change to generation, run this and update the hashes it prints.
+ * Usage: npm run test:deterministic-world
+ */
+
+const SEED = 42;
+
+const GOLDEN = {
+  tiles: '20664f1689149931',
+  rivers: '08951dcacc87d8fc',
+  sublands: '59cab1069507b64b'
+};
+
+// Duchies whose SubLands are checked: a coast, plains, a desert, a river mouth, a mountain range,
+// a lake and a desert on its shore
+const SUBLAND_DUCHIES = [
+  { q: -133, r: 19 },
+  { q: -91, r: -17 },
+  { q: 43, r: -54 },
+  { q: -47, r: -9 },
+  { q: -101, r: -41 },
+  { q: -98, r: 25 },
+  { q: -99, r: 25 }
+];
+
+let failures = 0;
+
+function check(condition: boolean, message: string): void {
+  if (condition) {
+    console.log(`   ✅ ${message}`);
+  } else {
+    console.log(`   ❌ ${message}`);
+    failures++;
+  }
+}
+
+/**
+ * Generate the world with the generator's progress logs silenced
+ */
+async function generateQuietly(): Promise<Map<string, HexTile>> {
+  const log = console.log;
+  const error = console.error;
+  console.log = () => {};
+  console.error = () => {};
+  try {
+    return await generateEarthMap(SEED, 1);
+  } finally {
+    console.log = log;
+    console.error = error;
+  }
+}
+
+function hash(lines: Iterable<string>): string {
+  const digest = createHash('sha256');
+  for (const line of lines) digest.update(`${line}\n`);
+  return digest.digest('hex').slice(0, 16);
+}
+
+function* tileLines(tiles: Map<string, HexTile>): Iterable<string> {
+  for (const [key, tile] of tiles) {
+    yield [
+      key,
+      tile.terrain,
+      (tile.features ?? []).join('+'),
+      tile.elevation.toFixed(4),
+      tile.rainfall.toFixed(4),
+      tile.hasVolcano,
+      tile.hasRiver,
+      tile.continent ?? ''
+    ].join('|');
+  }
+}
+
+function* riverLines(tiles: Map<string, HexTile>): Iterable<string> {
+  const edges: RiverEdge[] = (tiles as any).__riverEdges ?? [];
+  for (const edge of edges) {
+    yield [edge.riverId, edge.edgeId, edge.direction].join('|');
+  }
+}
+
+function* sublandLines(tiles: Map<string, HexTile>): Iterable<string> {
+  for (const { q, r } of SUBLAND_DUCHIES) {
+    const tile = tiles.get(getHexKey(q, r));
+    if (!tile) {
+      yield `${q},${r}|missing`;
+      continue;
+    }
+    for (const subland of generateSubLandsForTile(tile, tiles)) {
+      yield [subland.id, subland.biomeType, subland.resourceType, subland.hasRiver, subland.isNavigableRiver].join('|');
+    }
+  }
+}
+
+function fingerprint(tiles: Map<string, HexTile>): typeof GOLDEN {
+  return {
+    tiles: hash(tileLines(tiles)),
+    rivers: hash(riverLines(tiles)),
+    sublands: hash(sublandLines(tiles))
+  };
+}
+
+async function testDeterministicWorld(): Promise<void> {
+  console.log(`🧪🧪🧪 TESTING DETERMINISTIC WORLD (seed ${SEED}) 🧪🧪🧪`);
+
+  const first = fingerprint(await generateQuietly());
+  const second = fingerprint(await generateQuietly());
+
+  for (const part of Object.keys(GOLDEN) as Array<keyof typeof GOLDEN>) {
+    check(first[part] === second[part], `${part}: same on every generation (${first[part]})`);
+    check(first[part] === GOLDEN[part], `${part}: matches golden hash ${GOLDEN[part]}`);
+  }
+
+  if (failures > 0) {
+    console.log(`❌ ${failures} check(s) failed`);
+    process.exitCode = 1;
+  } else {
+    console.log('✅ All determinism checks passed');
+  }
+}
+
+testDeterministicWorld();
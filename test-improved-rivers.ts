@@ -1,4 +1,5 @@
 import { generateEarthMap } from './src/lib/hexmap/generator';
+import { WORLD_SEED } from './src/lib/hexmap/map-presets';
 import { generateAllRiversImproved } from './src/lib/hexmap/river-system-improved';
 
 /**
@@ -9,7 +10,7 @@ async function testImprovedRivers() {
   console.log('🧪🧪🧪 TESTING IMPROVED RIVER GENERATION 🧪🧪🧪');
   
   // Generate map
-  const tiles = await generateEarthMap(42, 1);
+  const tiles = await generateEarthMap(WORLD_SEED, 1);
   console.log(`✅ Map generated with ${tiles.size} tiles`);
   
   // Count terrain types
@@ -32,7 +33,9 @@ async function testImprovedRivers() {
     minLength: 6,  // Reduced minimum for better success
     maxAttempts: 100,
     flowToOcean: true,
-    allowLakes: false
+    allowLakes: false,
+    allowTributaries: false,
+    deltaMinLength: 0
   }, 15); // Target 15 rivers
   
   const endTime = Date.now();
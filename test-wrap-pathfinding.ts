@@ -0,0 +1,193 @@
+import { createHexCoordinates, getHexKey, getNeighbors, hexDistance, unwrapPath, wrapHex } from './src/lib/hexmap/hex-utils';
+import { findPath, getMovementCost } from './src/lib/hexmap/pathfinding';
+import type { HexCoordinates, HexTile, TerrainType } from './src/lib/hexmap/types';
+
+/**
+ * Test east-west wrap support in the hex math and A* pathfinding
+ * Uses a small synthetic world so optimal routes can be checked against a full Dijkstra search
+ * Usage: npm run test:wrap-pathfinding
+ */
+
+const WIDTH = 40;
+const HEIGHT = 20;
+
+let failures = 0;
+
+function check(condition: boolean, message: string): void {
+  if (condition) {
+    console.log(`   ✅ ${message}`);
+  } else {
+    console.log(`   ❌ ${message}`);
+    failures++;
+  }
+}
+
+/**
+ * Deterministic pseudo-random terrain, laid out like the generator (a full rectangle of offset rows)
+ */
+function createWorld(seed: number, terrains: TerrainType[]): Map<string, HexTile> {
+  const tiles = new Map<string, HexTile>();
+  let state = seed;
+  const random = (): number => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+
+  for (let row = -HEIGHT / 2; row < HEIGHT / 2; row++) {
+    for (let q = -WIDTH / 2; q < WIDTH / 2; q++) {
+      const r = row - Math.floor(q / 2);
+      tiles.set(getHexKey(q, r), {
+        coordinates: createHexCoordinates(q, r),
+        terrain: terrains[Math.floor(random() * terrains.length)],
+        resources: [],
+        animals: [],
+        minerals: [],
+        elevation: 1,
+        temperature: 15,
+        rainfall: 50,
+        hasVolcano: false,
+        hasRiver: false,
+        latitude: 0,
+        hemisphere: 'equatorial'
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Reference shortest walking cost over the wrapped world (plain Dijkstra, no heuristic)
+ */
+function dijkstraCost(start: HexCoordinates, goal: HexCoordinates, tiles: Map<string, HexTile>): number {
+  const costs = new Map<string, number>([[getHexKey(start.q, start.r), 0]]);
+  const done = new Set<string>();
+
+  while (true) {
+    let currentKey: string | null = null;
+    for (const [key, cost] of costs) {
+      if (!done.has(key) && (currentKey === null || cost < costs.get(currentKey)!)) currentKey = key;
+    }
+    if (currentKey === null) return Infinity;
+    if (currentKey === getHexKey(goal.q, goal.r)) return costs.get(currentKey)!;
+    done.add(currentKey);
+
+    const current = tiles.get(currentKey)!;
+    for (const neighbor of getNeighbors(current.coordinates, WIDTH)) {
+      const key = getHexKey(neighbor.q, neighbor.r);
+      const tile = tiles.get(key);
+      if (!tile || done.has(key)) continue;
+      const cost = costs.get(currentKey)! + getMovementCost(tile);
+      if (cost < (costs.get(key) ?? Infinity)) costs.set(key, cost);
+    }
+  }
+}
+
+function getPathCost(path: HexCoordinates[], tiles: Map<string, HexTile>): number {
+  return path.slice(1).reduce((sum, hex) => sum + getMovementCost(tiles.get(getHexKey(hex.q, hex.r))!), 0);
+}
+
+function isContinuous(path: HexCoordinates[]): boolean {
+  return path.every((hex, i) => i === 0 || hexDistance(path[i - 1], hex, WIDTH) === 1);
+}
+
+function testHexMath(tiles: Map<string, HexTile>): void {
+  console.log('📐 Hex math across the seam');
+
+  const east = createHexCoordinates(WIDTH / 2 - 1, -Math.floor((WIDTH / 2 - 1) / 2)); // Offset row 0
+  const west = wrapHex(east.q + 1, east.r, WIDTH);
+  check(west.q === -WIDTH / 2 && west.r === east.r + WIDTH / 2, `wrapHex(${east.q + 1}, ${east.r}) = (${west.q}, ${west.r}), same row on the west edge`);
+  check(tiles.has(getHexKey(west.q, west.r)), 'wrapped hex exists on the map');
+  check(hexDistance(east, west, WIDTH) === 1, 'east edge and wrapped west edge are 1 apart');
+  check(hexDistance(east, west) === WIDTH - 1, `flat distance is still ${WIDTH - 1} without a map width`);
+
+  const eastNeighbors = getNeighbors(east, WIDTH);
+  check(eastNeighbors.every(hex => hex.q >= -WIDTH / 2 && hex.q < WIDTH / 2), 'neighbors of an edge hex are wrapped onto the map');
+  check(eastNeighbors.some(hex => hex.q === west.q && hex.r === west.r), 'east edge hex has the west edge hex as a neighbor');
+
+  // Every tile: 6 distinct neighbors, each sees it back as a neighbor
+  let symmetric = true;
+  for (const tile of tiles.values()) {
+    for (const neighbor of getNeighbors(tile.coordinates, WIDTH)) {
+      if (!tiles.has(getHexKey(neighbor.q, neighbor.r))) continue;
+      const back = getNeighbors(neighbor, WIDTH);
+      if (!back.some(hex => hex.q === tile.coordinates.q && hex.r === tile.coordinates.r)) symmetric = false;
+    }
+  }
+  check(symmetric, 'wrapped neighborhood is symmetric on every tile');
+
+  const unwrapped = unwrapPath([east, west], WIDTH);
+  check(hexDistance(unwrapped[0], unwrapped[1]) === 1, 'unwrapPath keeps consecutive hexes side by side');
+}
+
+function testPaths(tiles: Map<string, HexTile>, label: string): void {
+  console.log(`🧭 Paths across the antimeridian (${label})`);
+
+  const pairs: Array<[HexCoordinates, HexCoordinates]> = [];
+  for (let row = -HEIGHT / 2 + 2; row < HEIGHT / 2 - 2; row += 3) {
+    for (let offset = 1; offset <= 4; offset++) {
+      // West of the east edge to east of the west edge, same offset row
+      const fromQ = WIDTH / 2 - offset;
+      const toQ = -WIDTH / 2 + offset;
+      pairs.push([
+        createHexCoordinates(fromQ, row - Math.floor(fromQ / 2)),
+        createHexCoordinates(toQ, row + 1 - Math.floor(toQ / 2))
+      ]);
+    }
+  }
+
+  let found = 0;
+  let optimal = 0;
+  let crossing = 0;
+  for (const [start, goal] of pairs) {
+    const path = findPath(start, goal, tiles, undefined, undefined, WIDTH);
+    if (!path) continue;
+    found++;
+    if (path.some((hex, i) => i > 0 && Math.abs(hex.q - path[i - 1].q) > 1)) crossing++;
+
+    const cost = getPathCost(path, tiles);
+    const best = dijkstraCost(start, goal, tiles);
+    if (Math.abs(cost - best) < 1e-9 && isContinuous(path)) {
+      optimal++;
+    } else {
+      console.log(`      (${start.q},${start.r}) → (${goal.q},${goal.r}): cost ${cost}, optimal ${best}`);
+    }
+  }
+
+  check(found === pairs.length, `${found}/${pairs.length} routes found`);
+  check(crossing === found, `${crossing}/${found} routes cross the seam instead of going the long way`);
+  check(optimal === found, `${optimal}/${found} routes are continuous and optimal`);
+}
+
+function testImpassableSeam(): void {
+  console.log('🧱 Seam blocked by water');
+
+  const tiles = createWorld(1, ['plains']);
+  for (const tile of tiles.values()) {
+    if (tile.coordinates.q === -WIDTH / 2) tile.terrain = 'ocean';
+  }
+
+  const start = createHexCoordinates(WIDTH / 2 - 1, -Math.floor((WIDTH / 2 - 1) / 2));
+  const goal = wrapHex(start.q + 2, start.r, WIDTH);
+  const path = findPath(start, goal, tiles, undefined, undefined, WIDTH);
+  check(!!path && path.length - 1 === dijkstraCost(start, goal, tiles), 'route goes around the blocked seam the long way, still optimal');
+}
+
+function testWrappedPathfinding(): void {
+  console.log('🧪🧪🧪 TESTING EAST-WEST WRAP 🧪🧪🧪');
+
+  const plains = createWorld(7, ['plains']);
+  testHexMath(plains);
+  testPaths(plains, 'uniform plains');
+  testPaths(createWorld(42, ['plains', 'meadow', 'hills', 'desert', 'tundra', 'mountain_range']), 'mixed terrain');
+  testImpassableSeam();
+
+  if (failures > 0) {
+    console.log(`❌ ${failures} check(s) failed`);
+    process.exitCode = 1;
+  } else {
+    console.log('✅ All wrap checks passed');
+  }
+}
+
+testWrappedPathfinding();